@@ -7,6 +7,7 @@ import { useEffect, useState } from 'react';
 import LoadingSpinner from '@/ui/LoadingSpinner';
 import FeatureShowcaseItem from '@/features/home/FeatureShowcaseItem';
 import SpotifySignInButton from '@/auth/SpotifySignInButton';
+import { startDemoMode } from '@/lib/demoMode';
 
 export default function HomePageClient() {
   const { status } = useSession();
@@ -204,9 +205,21 @@ export default function HomePageClient() {
           insights.
         </p>
 
-        {/* Spotify Sign In Button */}
-        <div className="flex justify-center mb-12">
-          <SpotifySignInButton />
+        {/* Spotify Sign In Button, and a demo for visitors who can't sign in */}
+        <div className="flex flex-col items-center gap-3 mb-12">
+          <div className="flex flex-wrap justify-center gap-4">
+            <SpotifySignInButton />
+            <button
+              type="button"
+              onClick={() => startDemoMode()}
+              className="py-3 px-6 text-base font-medium rounded-full border border-spotify-green text-spotify-green cursor-pointer hover:bg-spotify-green/10 transition focus:outline-hidden focus:ring-2 focus:ring-offset-2 focus:ring-green-500"
+            >
+              Try the demo
+            </button>
+          </div>
+          <p className="text-sm text-spotify-light-gray">
+            The demo uses a generated sample library, no Spotify account needed.
+          </p>
         </div>
 
         {/* Features Grid */}
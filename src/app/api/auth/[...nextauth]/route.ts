@@ -1,7 +1,7 @@
 import NextAuth from 'next-auth';
 import SpotifyProvider from 'next-auth/providers/spotify';
 import * as Sentry from '@sentry/nextjs';
-import { refreshAccessToken, scopes } from '@/lib/spotify';
+import { MOCK_SPOTIFY_URL, SPOTIFY_MOCK_ENABLED, refreshAccessToken, scopes } from '@/lib/spotify';
 
 const handler = NextAuth({
   providers: [
@@ -14,6 +14,12 @@ const handler = NextAuth({
           scope: scopes,
         },
       },
+      // The mock server approves sign-in straight away, so no Spotify account is needed
+      ...(SPOTIFY_MOCK_ENABLED && {
+        authorization: { url: `${MOCK_SPOTIFY_URL}/authorize`, params: { scope: scopes } },
+        token: `${MOCK_SPOTIFY_URL}/api/token`,
+        userinfo: `${MOCK_SPOTIFY_URL}/v1/me`,
+      }),
     }),
   ],
   callbacks: {
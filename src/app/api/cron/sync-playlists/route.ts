@@ -0,0 +1,71 @@
+import { timingSafeEqual } from 'node:crypto';
+import { NextResponse } from 'next/server';
+import * as Sentry from '@sentry/nextjs';
+import { getPlaylistSyncStore } from '@/lib/playlistSyncStore';
+import { SYNC_MONTH_FORMAT, runScheduledPlaylistSync } from '@/lib/scheduledPlaylistSync';
+
+// Compare in constant time so the secret can't be guessed from response timings
+const isAuthorized = (request: Request, secret: string): boolean => {
+  const provided = Buffer.from(request.headers.get('authorization') ?? '');
+  const expected = Buffer.from(`Bearer ${secret}`);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+};
+
+/**
+ * Regenerate every opted-in user's playlist for the month that just ended. Meant to be called
+ * by a scheduler on the 1st of the month with `Authorization: Bearer $CRON_SECRET`.
+ *
+ * Query parameters:
+ * - month: regenerate a specific month ("yyyy-MM") instead, on any day
+ * - force: re-run users who were already synced for the month
+ */
+export async function GET(request: Request) {
+  return Sentry.startSpan(
+    {
+      name: 'GET /api/cron/sync-playlists',
+      op: 'http.server',
+    },
+    async (_span) => {
+      const secret = process.env.CRON_SECRET;
+      if (!secret) {
+        console.error('CRON_SECRET is not configured');
+        return NextResponse.json({ error: 'Scheduled sync is not configured' }, { status: 503 });
+      }
+      if (!isAuthorized(request, secret)) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      }
+
+      const { searchParams } = new URL(request.url);
+      const month = searchParams.get('month') ?? undefined;
+      const force = searchParams.get('force') === '1';
+
+      if (month && !/^\d{4}-(0[1-9]|1[0-2])$/.test(month)) {
+        return NextResponse.json(
+          { error: `month must use the ${SYNC_MONTH_FORMAT} format` },
+          { status: 400 }
+        );
+      }
+
+      // Schedulers may fire more often than monthly; only the 1st regenerates anything
+      if (!month && !force && new Date().getUTCDate() !== 1) {
+        return NextResponse.json({ skipped: 'Not the first day of the month', results: [] });
+      }
+
+      try {
+        const store = await getPlaylistSyncStore();
+        const results = await runScheduledPlaylistSync(store, { month, force });
+        const failed = results.filter((result) => result.status === 'failed').length;
+
+        if (failed > 0) {
+          Sentry.captureMessage(`Scheduled playlist sync failed for ${failed} users`, 'warning');
+        }
+
+        return NextResponse.json({ results });
+      } catch (error) {
+        console.error('Scheduled playlist sync error:', error);
+        Sentry.captureException(error);
+        return NextResponse.json({ error: 'Failed to sync playlists' }, { status: 500 });
+      }
+    }
+  );
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { handleMockSpotifyRequest } from '@/lib/mockSpotifyServer';
+import { SPOTIFY_MOCK_ENABLED } from '@/lib/spotify';
+
+interface MockSpotifyRouteContext {
+  params: Promise<{ path: string[] }>;
+}
+
+/**
+ * Local stand-in for the Spotify Web API and accounts service, only served when
+ * NEXT_PUBLIC_SPOTIFY_MOCK=true. See handleMockSpotifyRequest for the supported paths.
+ * The generated artwork is always served, since demo mode uses it.
+ */
+async function handle(request: Request, { params }: MockSpotifyRouteContext) {
+  const { path } = await params;
+  if (!SPOTIFY_MOCK_ENABLED && path[0] !== 'images') {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+  return handleMockSpotifyRequest(request, path);
+}
+
+export { handle as DELETE, handle as GET, handle as POST, handle as PUT };
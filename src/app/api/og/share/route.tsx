@@ -0,0 +1,138 @@
+import { ImageResponse } from 'next/og';
+import {
+  SPOTIFY_BLACK,
+  SPOTIFY_DARK_GRAY,
+  SPOTIFY_GREEN,
+  SPOTIFY_LIGHT_GRAY,
+} from '@/lib/branding';
+import { isAllowedCoverImageUrl } from '@/lib/playlistCover';
+import { SHARE_CARD_HEIGHT, SHARE_CARD_MAX_IMAGES, SHARE_CARD_WIDTH } from '@/lib/sharing';
+
+/**
+ * Render the link preview for a share page: a cover collage beside the title.
+ *
+ * Query parameters (see getShareCardUrl):
+ * - eyebrow: small uppercase line above the title, e.g. "Playlist"
+ * - title: playlist name or recap headline
+ * - subtitle: line in the accent color, e.g. track count and date range
+ * - image: album artwork URL from Spotify's CDN, repeatable
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const eyebrow = (searchParams.get('eyebrow') ?? '').slice(0, 60);
+  const title = (searchParams.get('title') ?? '').slice(0, 80);
+  const subtitle = (searchParams.get('subtitle') ?? '').slice(0, 120);
+
+  // Only Spotify artwork is fetched so the route can't be used to proxy arbitrary URLs
+  const images = searchParams
+    .getAll('image')
+    .filter(isAllowedCoverImageUrl)
+    .slice(0, SHARE_CARD_MAX_IMAGES);
+
+  // A 2x2 grid needs four tiles; fewer images get a single tile
+  const collageSize = SHARE_CARD_HEIGHT;
+  const tiles = images.length >= 4 ? images.slice(0, 4) : images.slice(0, 1);
+  const tileSize = tiles.length === 4 ? collageSize / 2 : collageSize;
+
+  return new ImageResponse(
+    <div
+      style={{
+        width: '100%',
+        height: '100%',
+        display: 'flex',
+        background: `linear-gradient(135deg, ${SPOTIFY_DARK_GRAY} 0%, ${SPOTIFY_BLACK} 100%)`,
+      }}
+    >
+      {tiles.length > 0 && (
+        <div
+          style={{
+            display: 'flex',
+            flexWrap: 'wrap',
+            width: collageSize,
+            height: collageSize,
+            flexShrink: 0,
+          }}
+        >
+          {tiles.map((src) => (
+            // ImageResponse renders plain <img> elements; next/image doesn't apply here
+            // oxlint-disable-next-line no-img-element
+            <img
+              key={src}
+              src={src}
+              width={tileSize}
+              height={tileSize}
+              alt=""
+              style={{ objectFit: 'cover' }}
+            />
+          ))}
+        </div>
+      )}
+
+      <div
+        style={{
+          display: 'flex',
+          flexDirection: 'column',
+          justifyContent: 'center',
+          flex: 1,
+          padding: '0 56px',
+          borderTop: `12px solid ${SPOTIFY_GREEN}`,
+        }}
+      >
+        <div
+          style={{
+            display: 'flex',
+            color: SPOTIFY_LIGHT_GRAY,
+            fontSize: 26,
+            letterSpacing: 4,
+            textTransform: 'uppercase',
+            marginBottom: 16,
+          }}
+        >
+          {eyebrow}
+        </div>
+        <div
+          style={{
+            display: 'flex',
+            color: '#ffffff',
+            fontSize: title.length > 24 ? 52 : 76,
+            fontWeight: 800,
+            lineHeight: 1.05,
+          }}
+        >
+          {title}
+        </div>
+        {subtitle && (
+          <div
+            style={{
+              display: 'flex',
+              color: SPOTIFY_GREEN,
+              fontSize: 32,
+              fontWeight: 700,
+              marginTop: 20,
+            }}
+          >
+            {subtitle}
+          </div>
+        )}
+        <div
+          style={{
+            display: 'flex',
+            color: SPOTIFY_LIGHT_GRAY,
+            fontSize: 24,
+            marginTop: 40,
+          }}
+        >
+          Spotify Time Machine
+        </div>
+      </div>
+    </div>,
+    {
+      width: SHARE_CARD_WIDTH,
+      height: SHARE_CARD_HEIGHT,
+      headers: {
+        // The same inputs always render the same card
+        'Cache-Control': 'public, max-age=86400, immutable',
+      },
+    }
+  );
+}
@@ -0,0 +1,163 @@
+import { ImageResponse } from 'next/og';
+import {
+  SPOTIFY_BLACK,
+  SPOTIFY_DARK_GRAY,
+  SPOTIFY_GREEN,
+  SPOTIFY_LIGHT_GRAY,
+  SPOTIFY_MEDIUM_GRAY,
+} from '@/lib/branding';
+import { RECAP_IMAGE_HEIGHT, RECAP_IMAGE_WIDTH, parseRecapSlideParams } from '@/lib/yearInReview';
+
+const BAR_AREA_HEIGHT = 360;
+
+/**
+ * Render one Year in Review slide as a story-sized image.
+ *
+ * Query parameters (see getRecapSlideImageUrl and parseRecapSlideParams):
+ * - eyebrow: small uppercase line above the title, e.g. "2024 in review"
+ * - title: the headline figure or name
+ * - subtitle: line under the title in the accent color
+ * - item: list line, repeatable
+ * - image: artwork URL from Spotify's CDN, repeatable
+ * - bar: monthly count for the bar chart, repeatable; highlight picks the accented bar
+ */
+export async function GET(request: Request) {
+  const {
+    eyebrow,
+    title,
+    subtitle,
+    items = [],
+    imageUrls: images = [],
+    bars = [],
+    highlight,
+  } = parseRecapSlideParams(new URL(request.url).searchParams);
+  const maxBar = Math.max(1, ...bars);
+  const imageSize = images.length > 2 ? 180 : 320;
+
+  return new ImageResponse(
+    <div
+      style={{
+        width: '100%',
+        height: '100%',
+        display: 'flex',
+        flexDirection: 'column',
+        justifyContent: 'center',
+        padding: '120px 90px',
+        background: `linear-gradient(160deg, ${SPOTIFY_DARK_GRAY} 0%, ${SPOTIFY_BLACK} 100%)`,
+        color: '#ffffff',
+      }}
+    >
+      <div
+        style={{
+          display: 'flex',
+          color: SPOTIFY_LIGHT_GRAY,
+          fontSize: 40,
+          letterSpacing: 6,
+          textTransform: 'uppercase',
+          marginBottom: 24,
+        }}
+      >
+        {eyebrow}
+      </div>
+      <div
+        style={{
+          display: 'flex',
+          fontSize: title.length > 20 ? 96 : 160,
+          fontWeight: 800,
+          lineHeight: 1.05,
+        }}
+      >
+        {title}
+      </div>
+      {subtitle && (
+        <div
+          style={{
+            display: 'flex',
+            color: SPOTIFY_GREEN,
+            fontSize: 52,
+            fontWeight: 700,
+            marginTop: 24,
+          }}
+        >
+          {subtitle}
+        </div>
+      )}
+
+      {bars.length > 0 && (
+        <div
+          style={{
+            display: 'flex',
+            alignItems: 'flex-end',
+            height: BAR_AREA_HEIGHT,
+            marginTop: 80,
+            gap: 16,
+          }}
+        >
+          {bars.map((bar, index) => (
+            <div
+              key={index}
+              style={{
+                display: 'flex',
+                flex: 1,
+                height: Math.max(8, (bar / maxBar) * BAR_AREA_HEIGHT),
+                borderRadius: 8,
+                background: index === highlight ? SPOTIFY_GREEN : SPOTIFY_MEDIUM_GRAY,
+              }}
+            />
+          ))}
+        </div>
+      )}
+
+      {images.length > 0 && (
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: 24, marginTop: 80 }}>
+          {images.map((src) => (
+            // ImageResponse renders plain <img> elements; next/image doesn't apply here
+            // oxlint-disable-next-line no-img-element
+            <img
+              key={src}
+              src={src}
+              width={imageSize}
+              height={imageSize}
+              alt=""
+              style={{ objectFit: 'cover', borderRadius: 16 }}
+            />
+          ))}
+        </div>
+      )}
+
+      {items.length > 0 && (
+        <div style={{ display: 'flex', flexDirection: 'column', marginTop: 80, gap: 24 }}>
+          {items.map((item) => (
+            <div key={item} style={{ display: 'flex', fontSize: 44, color: SPOTIFY_LIGHT_GRAY }}>
+              {item}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div
+        style={{
+          position: 'absolute',
+          left: 90,
+          bottom: 80,
+          display: 'flex',
+          color: SPOTIFY_GREEN,
+          fontSize: 36,
+          fontWeight: 700,
+          letterSpacing: 4,
+          textTransform: 'uppercase',
+        }}
+      >
+        Spotify Time Machine
+      </div>
+    </div>,
+    {
+      width: RECAP_IMAGE_WIDTH,
+      height: RECAP_IMAGE_HEIGHT,
+      headers: {
+        // The same inputs always render the same slide
+        'Cache-Control': 'public, max-age=86400, immutable',
+      },
+    }
+  );
+}
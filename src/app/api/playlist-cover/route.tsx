@@ -0,0 +1,145 @@
+import { ImageResponse } from 'next/og';
+import {
+  SPOTIFY_BLACK,
+  SPOTIFY_DARK_GRAY,
+  SPOTIFY_GREEN,
+  SPOTIFY_LIGHT_GRAY,
+} from '@/lib/branding';
+import {
+  PLAYLIST_COVER_MAX_IMAGES,
+  PLAYLIST_COVER_SIZE,
+  isAllowedCoverImageUrl,
+} from '@/lib/playlistCover';
+
+/**
+ * Render a branded playlist cover: a collage of album artwork under the playlist title.
+ *
+ * Query parameters:
+ * - title: large heading, e.g. the month name
+ * - subtitle: smaller line in the accent color, e.g. the year
+ * - image: album artwork URL from Spotify's CDN, repeatable
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const title = (searchParams.get('title') ?? '').slice(0, 40);
+  const subtitle = (searchParams.get('subtitle') ?? '').slice(0, 40);
+
+  // Only Spotify artwork is fetched so the route can't be used to proxy arbitrary URLs
+  const images = searchParams
+    .getAll('image')
+    .filter(isAllowedCoverImageUrl)
+    .slice(0, PLAYLIST_COVER_MAX_IMAGES);
+
+  // A 2x2 grid needs four tiles; fewer images get a single full-bleed tile
+  const tiles = images.length >= 4 ? images.slice(0, 4) : images.slice(0, 1);
+  const tileSize = tiles.length === 4 ? PLAYLIST_COVER_SIZE / 2 : PLAYLIST_COVER_SIZE;
+
+  return new ImageResponse(
+    <div
+      style={{
+        width: '100%',
+        height: '100%',
+        display: 'flex',
+        position: 'relative',
+        background: `linear-gradient(135deg, ${SPOTIFY_DARK_GRAY} 0%, ${SPOTIFY_BLACK} 100%)`,
+      }}
+    >
+      {/* Album collage */}
+      <div style={{ display: 'flex', flexWrap: 'wrap', width: '100%', height: '100%' }}>
+        {tiles.map((src) => (
+          // ImageResponse renders plain <img> elements; next/image doesn't apply here
+          // oxlint-disable-next-line no-img-element
+          <img
+            key={src}
+            src={src}
+            width={tileSize}
+            height={tileSize}
+            alt=""
+            style={{ objectFit: 'cover' }}
+          />
+        ))}
+      </div>
+
+      {/* Darken the artwork so the title stays readable */}
+      <div
+        style={{
+          position: 'absolute',
+          inset: 0,
+          display: 'flex',
+          background: `linear-gradient(180deg, rgba(18, 18, 18, 0.1) 30%, rgba(18, 18, 18, 0.92) 100%)`,
+        }}
+      />
+
+      <div
+        style={{
+          position: 'absolute',
+          left: 40,
+          right: 40,
+          bottom: 36,
+          display: 'flex',
+          flexDirection: 'column',
+        }}
+      >
+        <div
+          style={{
+            display: 'flex',
+            color: SPOTIFY_LIGHT_GRAY,
+            fontSize: 22,
+            letterSpacing: 4,
+            textTransform: 'uppercase',
+            marginBottom: 8,
+          }}
+        >
+          Time Machine
+        </div>
+        {title && (
+          <div
+            style={{
+              display: 'flex',
+              color: '#ffffff',
+              fontSize: title.length > 14 ? 56 : 84,
+              fontWeight: 800,
+              lineHeight: 1,
+            }}
+          >
+            {title}
+          </div>
+        )}
+        {subtitle && (
+          <div
+            style={{
+              display: 'flex',
+              color: SPOTIFY_GREEN,
+              fontSize: 48,
+              fontWeight: 700,
+              marginTop: 8,
+            }}
+          >
+            {subtitle}
+          </div>
+        )}
+      </div>
+
+      {/* Accent bar */}
+      <div
+        style={{
+          position: 'absolute',
+          top: 0,
+          left: 0,
+          width: '100%',
+          height: 12,
+          display: 'flex',
+          background: SPOTIFY_GREEN,
+        }}
+      />
+    </div>,
+    {
+      width: PLAYLIST_COVER_SIZE,
+      height: PLAYLIST_COVER_SIZE,
+      headers: {
+        // The same inputs always render the same cover
+        'Cache-Control': 'public, max-age=86400, immutable',
+      },
+    }
+  );
+}
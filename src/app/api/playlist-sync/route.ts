@@ -0,0 +1,86 @@
+import { getToken } from 'next-auth/jwt';
+import { NextRequest, NextResponse } from 'next/server';
+import * as Sentry from '@sentry/nextjs';
+import { PlaylistSyncSubscription, getPlaylistSyncStore } from '@/lib/playlistSyncStore';
+
+// The signed-in user's Spotify id and refresh token, read from the NextAuth cookie
+const getSpotifyUser = async (request: NextRequest) => {
+  const token = await getToken({ req: request, secret: process.env.NEXTAUTH_SECRET });
+  if (!token?.sub || !token.refreshToken) return null;
+  return { userId: token.sub, refreshToken: token.refreshToken as string };
+};
+
+// Status fields that are safe to send to the browser (never the refresh token)
+const toStatus = (subscription: PlaylistSyncSubscription | null) => ({
+  enabled: Boolean(subscription && !subscription.disabled),
+  lastRunAt: subscription?.lastRunAt ?? null,
+  lastRunMonth: subscription?.lastRunMonth ?? null,
+  lastError: subscription?.lastError ?? null,
+});
+
+/**
+ * Whether the signed-in user has opted in to scheduled monthly playlists
+ */
+export async function GET(request: NextRequest) {
+  return Sentry.startSpan({ name: 'GET /api/playlist-sync', op: 'http.server' }, async () => {
+    const user = await getSpotifyUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const store = await getPlaylistSyncStore();
+    return NextResponse.json(toStatus(await store.getSubscription(user.userId)));
+  });
+}
+
+/**
+ * Opt in: store the refresh token so the cron route can act on the user's behalf
+ */
+export async function POST(request: NextRequest) {
+  return Sentry.startSpan({ name: 'POST /api/playlist-sync', op: 'http.server' }, async () => {
+    try {
+      const user = await getSpotifyUser(request);
+      if (!user) {
+        return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+      }
+
+      const store = await getPlaylistSyncStore();
+      const existing = await store.getSubscription(user.userId);
+      const subscription: PlaylistSyncSubscription = {
+        monthlyPlaylists: {},
+        createdAt: Date.now(),
+        lastRunAt: null,
+        lastRunMonth: null,
+        lastError: null,
+        ...existing,
+        userId: user.userId,
+        refreshToken: user.refreshToken,
+        // Opting in again after the stored token was revoked starts over with this one
+        ...(existing?.disabled && { disabled: false, lastError: null }),
+      };
+      await store.saveSubscription(subscription);
+
+      return NextResponse.json(toStatus(subscription));
+    } catch (error) {
+      console.error('Error enabling scheduled playlist sync:', error);
+      Sentry.captureException(error);
+      return NextResponse.json({ error: 'Failed to enable scheduled sync' }, { status: 500 });
+    }
+  });
+}
+
+/**
+ * Opt out: forget the stored refresh token
+ */
+export async function DELETE(request: NextRequest) {
+  return Sentry.startSpan({ name: 'DELETE /api/playlist-sync', op: 'http.server' }, async () => {
+    const user = await getSpotifyUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const store = await getPlaylistSyncStore();
+    await store.deleteSubscription(user.userId);
+    return NextResponse.json(toStatus(null));
+  });
+}
@@ -0,0 +1,22 @@
+import { Metadata } from 'next';
+import { generateEnhancedMetadata } from '@/lib/seo';
+
+interface ArtistTimelineLayoutProps {
+  children: React.ReactNode;
+  params: Promise<{ id: string }>;
+}
+
+export async function generateMetadata({ params }: ArtistTimelineLayoutProps): Promise<Metadata> {
+  const { id } = await params;
+  return generateEnhancedMetadata({
+    title: 'Artist Timeline',
+    description:
+      'Every track you have liked by an artist on a timeline, with when they first entered your library, quiet stretches, genres and similar artists you already love.',
+    path: `/artists/${id}`,
+    tags: ['artist timeline', 'liked tracks', 'Spotify artist', 'music history'],
+  });
+}
+
+export default function ArtistTimelineLayout({ children }: ArtistTimelineLayoutProps) {
+  return children;
+}
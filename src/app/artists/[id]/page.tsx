@@ -0,0 +1,332 @@
+'use client';
+
+import { format, parse } from 'date-fns';
+import { useSession } from 'next-auth/react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import Script from 'next/script';
+import React, { useEffect, useMemo, useState } from 'react';
+import ExistingPlaylistDialog from '@/features/playlist/ExistingPlaylistDialog';
+import TrackItem from '@/features/stats/TrackItem';
+import { useLikedArtists } from '@/hooks/useLikedArtists';
+import {
+  describeCreatedPlaylist,
+  describeSaveResult,
+  useSavePlaylist,
+} from '@/hooks/useSavePlaylist';
+import Breadcrumb from '@/layout/Breadcrumb';
+import PageContainer from '@/layout/PageContainer';
+import {
+  RelatedLibraryArtist,
+  TIMELINE_MONTH_FORMAT,
+  buildArtistTimeline,
+} from '@/lib/artistTimeline';
+import { getTopAlbumImages } from '@/lib/playlistCover';
+import { getArtistPlaylistKey } from '@/lib/playlistRegistry';
+import { generateWebApplicationSchema } from '@/lib/seo';
+import ActionButton from '@/ui/ActionButton';
+import ErrorDisplay from '@/ui/ErrorDisplay';
+import LoadingSpinner from '@/ui/LoadingSpinner';
+import Toast from '@/ui/Toast';
+
+// Describe a quiet stretch in months once it's long enough for days to be hard to read
+const describeGap = (days: number): string => {
+  const months = Math.round(days / 30);
+  return months >= 2 ? `${months} months without a like` : `${days} days without a like`;
+};
+
+const ArtistList = ({ title, artists }: { title: string; artists: RelatedLibraryArtist[] }) => (
+  <section className="bg-spotify-dark-gray rounded-lg p-4 md:p-6">
+    <h2 className="text-xl font-bold text-spotify-white mb-3">{title}</h2>
+    <ul className="space-y-2">
+      {artists.map((artist) => (
+        <li key={artist.id}>
+          <Link
+            href={`/artists/${artist.id}`}
+            className="flex items-center gap-3 p-2 rounded-md hover:bg-spotify-medium-gray/20 transition"
+          >
+            <div className="w-10 h-10 shrink-0 relative rounded-full overflow-hidden bg-spotify-medium-gray">
+              {artist.imageUrl && (
+                <Image src={artist.imageUrl} alt="" fill sizes="40px" className="object-cover" />
+              )}
+            </div>
+            <div className="min-w-0">
+              <p className="font-medium text-spotify-white truncate">{artist.name}</p>
+              <p className="text-xs text-spotify-light-gray truncate">
+                {artist.trackCount} {artist.trackCount === 1 ? 'track' : 'tracks'}
+                {artist.sharedGenres.length > 0 && ` • ${artist.sharedGenres.join(', ')}`}
+              </p>
+            </div>
+          </Link>
+        </li>
+      ))}
+    </ul>
+  </section>
+);
+
+export default function ArtistTimelinePage() {
+  const { status } = useSession();
+  const { id } = useParams<{ id: string }>();
+  const {
+    tracks,
+    isLoading,
+    isLoadingRange,
+    error,
+    artistsDetails,
+    currentTimeRange,
+    setTimeRange,
+  } = useLikedArtists();
+  const { savePlaylist, pendingSave, isSaving, choose, cancel } = useSavePlaylist();
+  const [isCreating, setIsCreating] = useState(false);
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+
+  // First and last likes only make sense against the whole library
+  useEffect(() => {
+    if (currentTimeRange !== 'ALL_TIME') setTimeRange('ALL_TIME');
+  }, [currentTimeRange, setTimeRange]);
+
+  const timeline = useMemo(
+    () => buildArtistTimeline(tracks, id, artistsDetails),
+    [tracks, id, artistsDetails]
+  );
+
+  const longestGap = timeline?.gaps.reduce<number>(
+    (longest, gap) => Math.max(longest, gap.days),
+    0
+  );
+
+  const createArtistPlaylist = async () => {
+    if (!timeline) return;
+    setIsCreating(true);
+
+    try {
+      const name = `${timeline.name} in my library`;
+      const result = await savePlaylist({
+        key: getArtistPlaylistKey(timeline.artistId),
+        name,
+        description: `Every ${timeline.name} track I've liked, oldest first. Created with Jermaine's Spotify Time Machine.`,
+        trackUris: timeline.tracks.map((track) => `spotify:track:${track.track.id}`),
+        cover: {
+          title: timeline.name,
+          subtitle: 'In my library',
+          imageUrls: getTopAlbumImages(timeline.tracks),
+        },
+      });
+      if (!result) return;
+
+      setToast({
+        message:
+          result.choice === 'create' ? describeCreatedPlaylist(name) : describeSaveResult(result),
+        type: 'success',
+      });
+    } catch (err) {
+      console.error('Error creating artist playlist:', err);
+      setToast({ message: 'Failed to create playlist. Please try again later.', type: 'error' });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const isStillLoading =
+    status === 'loading' || isLoading || currentTimeRange !== 'ALL_TIME' || isLoadingRange.ALL_TIME;
+
+  return (
+    <PageContainer isLoading={status === 'loading'} maxWidth="7xl" className="min-h-screen pb-20">
+      {/* SEO-optimized heading structure */}
+      <header className="mb-8">
+        <h1 className="sr-only">
+          {timeline ? `${timeline.name} - Artist Timeline` : 'Artist Timeline'}
+        </h1>
+        <Breadcrumb
+          items={[
+            { name: 'Home', url: '/dashboard' },
+            { name: timeline?.name ?? 'Artist', url: `/artists/${id}` },
+          ]}
+        />
+      </header>
+
+      {/* Structured Data */}
+      <Script
+        id="artist-timeline-structured-data"
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{
+          __html: JSON.stringify(
+            generateWebApplicationSchema({
+              '@type': 'WebPage',
+              name: 'Artist Timeline - Spotify Time Machine',
+              description: 'Every liked track by an artist on a timeline.',
+              featureList: [
+                'Liked tracks on a timeline',
+                'First and last liked dates',
+                'Gaps between likes',
+                'Related artists in your library',
+                'One-click artist playlists',
+              ],
+            })
+          ),
+        }}
+      />
+
+      {toast && (
+        <Toast message={toast.message} type={toast.type} onDismiss={() => setToast(null)} />
+      )}
+
+      {pendingSave && (
+        <ExistingPlaylistDialog
+          playlist={pendingSave.existing}
+          trackCount={pendingSave.request.trackUris.length}
+          isSaving={isSaving}
+          onChoose={choose}
+          onCancel={cancel}
+        />
+      )}
+
+      {error && <ErrorDisplay message={error} />}
+
+      {!timeline ? (
+        isStillLoading ? (
+          <div className="flex justify-center py-16">
+            <LoadingSpinner />
+          </div>
+        ) : (
+          <p className="text-center py-16 text-spotify-light-gray">
+            None of your liked tracks feature this artist.
+          </p>
+        )
+      ) : (
+        <main className="space-y-6" role="main">
+          <section className="bg-spotify-dark-gray rounded-lg p-4 md:p-6 flex flex-col md:flex-row gap-6">
+            <div className="w-32 h-32 shrink-0 relative rounded-full overflow-hidden bg-spotify-medium-gray mx-auto md:mx-0">
+              {timeline.imageUrl && (
+                <Image
+                  src={timeline.imageUrl}
+                  alt={timeline.name}
+                  fill
+                  sizes="128px"
+                  className="object-cover"
+                />
+              )}
+            </div>
+
+            <div className="flex-grow min-w-0 space-y-3">
+              <h2 className="text-3xl font-bold text-spotify-white">{timeline.name}</h2>
+              {timeline.genres.length > 0 && (
+                <ul className="flex flex-wrap gap-2" aria-label="Genres">
+                  {timeline.genres.map((genre) => (
+                    <li
+                      key={genre}
+                      className="text-xs bg-spotify-medium-gray/40 text-spotify-light-gray px-2 py-1 rounded-full"
+                    >
+                      {genre}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <dl className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                <div>
+                  <dt className="text-spotify-light-gray">Liked tracks</dt>
+                  <dd className="text-lg font-semibold text-spotify-white">
+                    {timeline.tracks.length}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-spotify-light-gray">First liked</dt>
+                  <dd className="text-lg font-semibold text-spotify-white">
+                    {format(new Date(timeline.firstLikedAt), 'MMM d, yyyy')}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-spotify-light-gray">Last liked</dt>
+                  <dd className="text-lg font-semibold text-spotify-white">
+                    {format(new Date(timeline.lastLikedAt), 'MMM d, yyyy')}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-spotify-light-gray">Longest gap</dt>
+                  <dd className="text-lg font-semibold text-spotify-white">
+                    {longestGap ? `${longestGap} days` : 'None'}
+                  </dd>
+                </div>
+              </dl>
+
+              <div className="flex flex-wrap gap-2">
+                <ActionButton onClick={createArtistPlaylist} disabled={isCreating}>
+                  {isCreating ? 'Creating...' : 'Make a playlist of this artist'}
+                </ActionButton>
+                <ActionButton
+                  onClick={() => window.open(`https://open.spotify.com/artist/${id}`, '_blank')}
+                  variant="secondary"
+                >
+                  Open in Spotify
+                </ActionButton>
+              </div>
+            </div>
+          </section>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <section
+              className="lg:col-span-2 bg-spotify-dark-gray rounded-lg p-4 md:p-6"
+              aria-labelledby="artist-timeline-heading"
+            >
+              <h2
+                id="artist-timeline-heading"
+                className="text-xl font-bold text-spotify-white mb-4"
+              >
+                Timeline
+              </h2>
+              <ol className="relative border-l border-spotify-medium-gray/60 ml-2 space-y-6">
+                {timeline.entries.map((entry) =>
+                  entry.type === 'gap' ? (
+                    <li key={`gap-${entry.from}`} className="pl-6">
+                      <p className="text-xs italic text-spotify-light-gray border-t border-dashed border-spotify-medium-gray/60 pt-2">
+                        {describeGap(entry.days)}
+                      </p>
+                    </li>
+                  ) : (
+                    <li key={entry.month} className="pl-6 relative">
+                      <span
+                        className="absolute -left-1.5 top-1.5 w-3 h-3 rounded-full bg-spotify-green"
+                        aria-hidden="true"
+                      />
+                      <h3 className="font-semibold text-spotify-white mb-2">
+                        {format(parse(entry.month, TIMELINE_MONTH_FORMAT, new Date()), 'MMMM yyyy')}
+                      </h3>
+                      <div className="space-y-1">
+                        {entry.tracks.map((savedTrack) => (
+                          <TrackItem
+                            key={savedTrack.track.id}
+                            track={savedTrack.track}
+                            addedAt={savedTrack.added_at}
+                            showAddedDate={true}
+                            showPreview={true}
+                            onClick={() =>
+                              window.open(
+                                `https://open.spotify.com/track/${savedTrack.track.id}`,
+                                '_blank'
+                              )
+                            }
+                          />
+                        ))}
+                      </div>
+                    </li>
+                  )
+                )}
+              </ol>
+            </section>
+
+            <div className="space-y-6">
+              {timeline.collaborators.length > 0 && (
+                <ArtistList title="Liked together" artists={timeline.collaborators} />
+              )}
+              {timeline.relatedArtists.length > 0 && (
+                <ArtistList title="Similar in your library" artists={timeline.relatedArtists} />
+              )}
+            </div>
+          </div>
+        </main>
+      )}
+    </PageContainer>
+  );
+}
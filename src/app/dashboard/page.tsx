@@ -5,6 +5,7 @@ import Script from 'next/script';
 import React, { useState, lazy, Suspense } from 'react';
 import DataFetcherAndControlsWrapper from '@/features/controls/DataFetcherAndControlsWrapper';
 import FeatureCard from '@/features/home/FeatureCard';
+import PlayHistorySummary from '@/features/stats/PlayHistorySummary';
 import RecentlyPlayed from '@/features/stats/RecentlyPlayed';
 import StatsTabs from '@/features/stats/StatsTabs';
 import TopArtists from '@/features/stats/TopArtists';
@@ -21,6 +22,12 @@ const ListeningTrends = lazy(() => import('@/features/visualization/ListeningTre
 const GenreTrendsVisualization = lazy(
   () => import('@/features/visualization/GenreTrendsVisualization')
 );
+const DiscoveryVisualization = lazy(
+  () => import('@/features/visualization/DiscoveryVisualization')
+);
+const LikeCalendarVisualization = lazy(
+  () => import('@/features/visualization/LikeCalendarVisualization')
+);
 
 type Tab = 'artists' | 'tracks' | 'recent' | 'genres';
 
@@ -59,6 +66,7 @@ export default function Dashboard() {
         'Genre Distribution',
         'Recently Played Music',
         'Listening Trends Over Time',
+        'Daily Liking Calendar',
       ],
     },
   });
@@ -158,12 +166,19 @@ export default function Dashboard() {
       {/* Visualizations */}
       <section aria-label="Music Analytics Visualizations" className="space-y-8 mb-10">
         <h2 className="text-2xl font-bold text-spotify-white mb-4">Your Music Journey</h2>
+        <PlayHistorySummary />
         <Suspense fallback={<div className="loading-skeleton h-64 rounded-lg" />}>
           <ListeningTrends />
         </Suspense>
         <Suspense fallback={<div className="loading-skeleton h-64 rounded-lg" />}>
           <GenreTrendsVisualization />
         </Suspense>
+        <Suspense fallback={<div className="loading-skeleton h-64 rounded-lg" />}>
+          <DiscoveryVisualization />
+        </Suspense>
+        <Suspense fallback={<div className="loading-skeleton h-64 rounded-lg" />}>
+          <LikeCalendarVisualization />
+        </Suspense>
       </section>
 
       {/* Stats Section */}
@@ -0,0 +1,14 @@
+import { Metadata } from 'next';
+import { generateEnhancedMetadata } from '@/lib/seo';
+
+export const metadata: Metadata = generateEnhancedMetadata({
+  title: 'Export Library',
+  description:
+    'Download your liked Spotify tracks with albums, artists, genres and the date you liked them. Export everything or a selection of months as JSON, CSV or an XSPF playlist.',
+  path: '/export',
+  tags: ['Spotify export', 'liked songs backup', 'CSV export', 'XSPF playlist', 'music data'],
+});
+
+export default function ExportLayout({ children }: { children: React.ReactNode }) {
+  return children;
+}
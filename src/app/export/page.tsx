@@ -0,0 +1,259 @@
+'use client';
+
+import { useSession } from 'next-auth/react';
+import Script from 'next/script';
+import React, { useMemo, useState } from 'react';
+import DataFetcherAndControlsWrapper from '@/features/controls/DataFetcherAndControlsWrapper';
+import FilterSelector from '@/features/controls/FilterSelector';
+import { useLikedArtists } from '@/hooks/useLikedArtists';
+import Breadcrumb from '@/layout/Breadcrumb';
+import PageContainer from '@/layout/PageContainer';
+import {
+  EXPORT_FORMATS,
+  ExportFormat,
+  buildExportTracks,
+  downloadFile,
+  getExportFileName,
+  selectTracksByDateRange,
+  selectTracksByMonths,
+  serializeTracks,
+} from '@/lib/exportUtils';
+import { generateWebApplicationSchema } from '@/lib/seo';
+import { groupTracksByMonth } from '@/lib/spotifyTrackUtils';
+import {
+  InternalTimeRange,
+  SpotifyTimeRange,
+  mapToInternalTimeRange,
+  timeRangeDisplays,
+} from '@/lib/timeRanges';
+import ActionButton from '@/ui/ActionButton';
+import FormField from '@/ui/FormField';
+import Toast from '@/ui/Toast';
+import ToggleButton from '@/ui/ToggleButton';
+
+type SelectionMode = 'all' | 'months' | 'range';
+
+const SELECTION_MODES: Array<{ id: SelectionMode; label: string }> = [
+  { id: 'all', label: 'Everything loaded' },
+  { id: 'months', label: 'Specific months' },
+  { id: 'range', label: 'Date range' },
+];
+
+// Get current date in YYYY-MM-DD format for defaults and validation
+const getCurrentDate = () => new Date().toISOString().split('T')[0];
+
+export default function ExportPage() {
+  const { status } = useSession();
+  const {
+    tracks,
+    isLoading,
+    isLoadingArtists,
+    error,
+    artistsDetails,
+    currentTimeRange,
+    setTimeRange: setInternalTimeRange,
+    isLoadingRange,
+    progress,
+  } = useLikedArtists();
+
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('json');
+  const [selectionMode, setSelectionMode] = useState<SelectionMode>('all');
+  const [selectedMonths, setSelectedMonths] = useState<string[]>([]);
+  const [startDate, setStartDate] = useState(getCurrentDate());
+  const [endDate, setEndDate] = useState(getCurrentDate());
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+
+  const months = useMemo(() => groupTracksByMonth(tracks), [tracks]);
+
+  // Tracks matching the current selection
+  const selectedTracks = useMemo(() => {
+    switch (selectionMode) {
+      case 'months':
+        return selectTracksByMonths(tracks, selectedMonths);
+      case 'range':
+        return startDate && endDate ? selectTracksByDateRange(tracks, startDate, endDate) : [];
+      default:
+        return tracks;
+    }
+  }, [tracks, selectionMode, selectedMonths, startDate, endDate]);
+
+  const toggleMonth = (month: string) => {
+    setSelectedMonths((prev) =>
+      prev.includes(month) ? prev.filter((m) => m !== month) : [...prev, month]
+    );
+  };
+
+  const setTimeRange = (range: SpotifyTimeRange | InternalTimeRange) => {
+    const internalRange =
+      typeof range === 'string' && ['short_term', 'medium_term', 'long_term'].includes(range)
+        ? mapToInternalTimeRange(range as SpotifyTimeRange)
+        : (range as InternalTimeRange);
+    setInternalTimeRange(internalRange);
+  };
+
+  const handleExport = () => {
+    if (selectedTracks.length === 0) {
+      setToast({ message: 'No tracks match the current selection.', type: 'error' });
+      return;
+    }
+
+    try {
+      const label =
+        selectionMode === 'months' && selectedMonths.length === 1
+          ? `liked-tracks-${selectedMonths[0]}`
+          : selectionMode === 'range'
+            ? `liked-tracks-${startDate}-to-${endDate}`
+            : 'liked-tracks';
+      const formatConfig = EXPORT_FORMATS.find((f) => f.id === exportFormat)!;
+      const content = serializeTracks(
+        buildExportTracks(selectedTracks, artistsDetails),
+        exportFormat,
+        'Spotify Time Machine - Liked Tracks'
+      );
+
+      downloadFile(content, getExportFileName(exportFormat, label), formatConfig.mimeType);
+      setToast({
+        message: `Exported ${selectedTracks.length} tracks as ${formatConfig.label}.`,
+        type: 'success',
+      });
+    } catch (err) {
+      console.error('Error exporting tracks:', err);
+      setToast({ message: 'Failed to export your tracks. Please try again.', type: 'error' });
+    }
+  };
+
+  const isOverallLoading = status === 'loading' || (isLoading && tracks.length === 0);
+  const isEmpty = !isOverallLoading && !error && tracks.length === 0;
+
+  return (
+    <PageContainer isLoading={status === 'loading'} maxWidth="7xl" className="min-h-screen pb-20">
+      {/* SEO-optimized heading structure */}
+      <header className="mb-8">
+        <h1 className="sr-only">Export Library - Download Your Liked Tracks</h1>
+        <Breadcrumb
+          items={[
+            { name: 'Home', url: '/dashboard' },
+            { name: 'Export Library', url: '/export' },
+          ]}
+        />
+      </header>
+
+      <DataFetcherAndControlsWrapper
+        title="Export Your Liked Tracks"
+        isLoading={isOverallLoading}
+        isProcessing={false}
+        error={error ? new Error(error) : null}
+        isEmpty={isEmpty}
+        emptyDataMessage="No liked tracks found for the selected period."
+        currentTimeRange={currentTimeRange}
+        setTimeRange={setTimeRange}
+        isLoadingRange={isLoadingRange}
+        progress={progress}
+        timeRangeDisplay={timeRangeDisplays.visualization}
+      >
+        {/* Structured Data */}
+        <Script
+          id="structured-data"
+          type="application/ld+json"
+          dangerouslySetInnerHTML={{
+            __html: JSON.stringify(
+              generateWebApplicationSchema({
+                '@type': 'WebPage',
+                name: 'Export Library - Spotify Time Machine',
+                description:
+                  'Download your liked tracks with album, artist, genre and liked date information as JSON, CSV or XSPF.',
+                featureList: [
+                  'JSON, CSV and XSPF export',
+                  'Per-month selection',
+                  'Custom date ranges',
+                  'Artist genres included',
+                ],
+              })
+            ),
+          }}
+        />
+
+        {toast && (
+          <Toast message={toast.message} type={toast.type} onDismiss={() => setToast(null)} />
+        )}
+
+        <main className="space-y-6" role="main">
+          <section aria-label="Export format" className="space-y-2">
+            <h2 className="text-lg font-semibold text-spotify-light-gray">Format</h2>
+            <div className="flex flex-wrap gap-3">
+              {EXPORT_FORMATS.map((f) => (
+                <ToggleButton
+                  key={f.id}
+                  id={f.id}
+                  label={f.label}
+                  isSelected={exportFormat === f.id}
+                  onClick={(id) => setExportFormat(id as ExportFormat)}
+                />
+              ))}
+            </div>
+          </section>
+
+          <section aria-label="Track selection" className="space-y-4">
+            <h2 className="text-lg font-semibold text-spotify-light-gray">Tracks</h2>
+            <div className="flex flex-wrap gap-3">
+              {SELECTION_MODES.map((mode) => (
+                <ToggleButton
+                  key={mode.id}
+                  id={mode.id}
+                  label={mode.label}
+                  isSelected={selectionMode === mode.id}
+                  onClick={(id) => setSelectionMode(id as SelectionMode)}
+                />
+              ))}
+            </div>
+
+            {selectionMode === 'months' && (
+              <FilterSelector
+                title="Months"
+                items={months}
+                selectedItems={selectedMonths}
+                getItemId={(m) => m.month}
+                getItemName={(m) => `${m.month} (${m.tracks.length})`}
+                onToggleItem={toggleMonth}
+                isLoading={isLoading}
+                emptyMessage="No months found"
+              />
+            )}
+
+            {selectionMode === 'range' && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormField
+                  id="exportStartDate"
+                  label="Start Date"
+                  type="date"
+                  value={startDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                  max={getCurrentDate()}
+                />
+                <FormField
+                  id="exportEndDate"
+                  label="End Date"
+                  type="date"
+                  value={endDate}
+                  onChange={(e) => setEndDate(e.target.value)}
+                  max={getCurrentDate()}
+                />
+              </div>
+            )}
+          </section>
+
+          <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+            <ActionButton onClick={handleExport} disabled={selectedTracks.length === 0}>
+              Download {selectedTracks.length} tracks
+            </ActionButton>
+            {isLoadingArtists && (
+              <span className="text-sm text-spotify-light-gray" role="status">
+                Still loading artist genres, some tracks may export without genres…
+              </span>
+            )}
+          </div>
+        </main>
+      </DataFetcherAndControlsWrapper>
+    </PageContainer>
+  );
+}
@@ -1,32 +1,65 @@
 'use client';
 
-import { format, parse } from 'date-fns';
+import { format, isValid, parse } from 'date-fns';
 import { useSession } from 'next-auth/react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
 import Script from 'next/script';
-import React, { useState, useEffect } from 'react';
+import React, { Suspense, useState, useEffect, useMemo } from 'react';
 import DataFetcherAndControlsWrapper from '@/features/controls/DataFetcherAndControlsWrapper';
+import PlayOnSpotifyButton from '@/features/player/PlayOnSpotifyButton';
+import ExistingPlaylistDialog from '@/features/playlist/ExistingPlaylistDialog';
+import ScheduledSyncToggle from '@/features/playlist/ScheduledSyncToggle';
 import TrackItem from '@/features/stats/TrackItem';
 import MonthlyTrackList from '@/features/visualization/MonthlyTrackList';
 import { useLikedTracks } from '@/hooks/useLikedTracks';
+import { usePlayHistory } from '@/hooks/usePlayHistory';
+import { usePlayer } from '@/hooks/usePlayer';
+import {
+  describeCreatedPlaylist,
+  describeSaveResult,
+  useSavePlaylist,
+} from '@/hooks/useSavePlaylist';
 import { useSpotify } from '@/hooks/useSpotify';
 import Breadcrumb from '@/layout/Breadcrumb';
 import PageContainer from '@/layout/PageContainer';
+import { getMonthlyPlayStats } from '@/lib/playHistory';
+import { getTopAlbumImages } from '@/lib/playlistCover';
+import { getMonthPlaylistKey } from '@/lib/playlistRegistry';
 import { generateWebApplicationSchema } from '@/lib/seo';
+import { SavedTrack } from '@/lib/spotifyModels';
 import {
   MonthlyTracks,
-  SavedTrack,
-  createPlaylist,
-  processAndGroupTracks,
+  attachUnlikedTracks,
+  getMonthlyPlaylistDetails,
+  groupTracksByMonth,
 } from '@/lib/spotifyTrackUtils';
 import {
   InternalTimeRange,
   SpotifyTimeRange,
+  getTimeRangeCutoffDate,
   mapToInternalTimeRange,
   timeRangeDisplays,
 } from '@/lib/timeRanges';
 import ErrorDisplay from '@/ui/ErrorDisplay';
 import Toast from '@/ui/Toast';
 
+// Months handed over in the URL ("2024-01"), e.g. from a range selected on a chart
+const getMonthParam = (value: string | null): Date | null => {
+  if (!value || !/^\d{4}-\d{2}$/.test(value)) return null;
+  const date = parse(value, 'yyyy-MM', new Date());
+  return isValid(date) ? date : null;
+};
+
+// Offer full-track playback of a month on the user's Spotify devices
+const renderMonthActions = (_month: string, tracks: SavedTrack[]) => (
+  <PlayOnSpotifyButton
+    getTrackUris={() => tracks.map((savedTrack) => `spotify:track:${savedTrack.track.id}`)}
+    label="Play month on Spotify"
+    className="max-w-md"
+  />
+);
+
 // Render a track item
 const renderTrackItem = (track: SavedTrack) => {
   return (
@@ -35,22 +68,29 @@ const renderTrackItem = (track: SavedTrack) => {
       track={track.track}
       addedAt={track.added_at}
       showAddedDate={true}
+      showPreview={true}
       onClick={() => window.open(`https://open.spotify.com/track/${track.track.id}`, '_blank')}
     />
   );
 };
 
-export default function HistoryPage() {
+function HistoryContent() {
   const { status } = useSession();
-  const { spotifyApi, isReady } = useSpotify();
+  const searchParams = useSearchParams();
+  const { isReady } = useSpotify();
   const {
     tracks,
+    unlikedTracks,
     isLoading: isLoadingTracksFromHook,
     error: tracksError,
     currentTimeRange,
     setTimeRange: setInternalTimeRange,
     isLoadingRange,
+    progress,
   } = useLikedTracks();
+  const { plays } = usePlayHistory();
+  const { playQueue } = usePlayer();
+  const { savePlaylist, pendingSave, isSaving, choose, cancel } = useSavePlaylist();
   const [monthlyTracks, setMonthlyTracks] = useState<MonthlyTracks[]>([]);
   const [isProcessingMonthlyTracks, setIsProcessingMonthlyTracks] = useState(true);
   const [showToast, setShowToast] = useState(false);
@@ -60,14 +100,43 @@ export default function HistoryPage() {
   useEffect(() => {
     if (tracks.length > 0) {
       setIsProcessingMonthlyTracks(true);
-      const groupedTracks = processAndGroupTracks(tracks);
+      const groupedTracks = attachUnlikedTracks(groupTracksByMonth(tracks), unlikedTracks);
       setMonthlyTracks(groupedTracks);
       setIsProcessingMonthlyTracks(false);
     } else if (!isLoadingTracksFromHook) {
-      setMonthlyTracks([]);
+      setMonthlyTracks(attachUnlikedTracks([], unlikedTracks));
       setIsProcessingMonthlyTracks(false);
     }
-  }, [tracks, isLoadingTracksFromHook]);
+  }, [tracks, unlikedTracks, isLoadingTracksFromHook]);
+
+  // Only show the months asked for in the URL, if any
+  const monthRange = useMemo(() => {
+    const from = getMonthParam(searchParams.get('from'));
+    const to = getMonthParam(searchParams.get('to'));
+    return from && to && from <= to ? { from, to } : null;
+  }, [searchParams]);
+
+  const visibleMonths = useMemo(() => {
+    if (!monthRange) return monthlyTracks;
+    return monthlyTracks.filter((m) => {
+      const month = parse(m.month, 'MMMM yyyy', new Date());
+      return month >= monthRange.from && month <= monthRange.to;
+    });
+  }, [monthlyTracks, monthRange]);
+
+  // Load enough history to cover the requested months
+  useEffect(() => {
+    if (!monthRange || currentTimeRange === 'ALL_TIME') return;
+    const internalRange = ['PAST_YEAR', 'PAST_TWO_YEARS'].includes(currentTimeRange)
+      ? (currentTimeRange as InternalTimeRange)
+      : mapToInternalTimeRange(currentTimeRange as SpotifyTimeRange);
+    if (monthRange.from < getTimeRangeCutoffDate(internalRange)) {
+      setInternalTimeRange('ALL_TIME');
+    }
+  }, [monthRange, currentTimeRange, setInternalTimeRange]);
+
+  // Play counts per month from imported streaming history
+  const monthlyPlayStats = useMemo(() => getMonthlyPlayStats(plays), [plays]);
 
   // Toggle expanded state for a month
   const toggleMonth = (month: string) => {
@@ -76,6 +145,11 @@ export default function HistoryPage() {
     );
   };
 
+  // Queue the month's previews in the mini player
+  const playMonth = (_month: string, tracks: SavedTrack[]) => {
+    playQueue(tracks.map((savedTrack) => savedTrack.track));
+  };
+
   // Create a playlist for a specific month
   const createMonthlyPlaylist = async (month: string, tracks: SavedTrack[]) => {
     if (!isReady) {
@@ -89,13 +163,28 @@ export default function HistoryPage() {
       // Parse the month string using date-fns parse function
       const parsedDate = parse(month, 'MMMM yyyy', new Date());
       const formattedDate = format(parsedDate, 'MMMM yyyy');
-      const playlistName = `${formattedDate} Time Machine`;
-      const description = `Songs I liked during ${formattedDate}. Created with Jermaine's Spotify Time Machine.`;
+      const { name: playlistName, description } = getMonthlyPlaylistDetails(parsedDate);
       const trackUris = tracks.map((t) => `spotify:track:${t.track.id}`);
 
-      await createPlaylist(spotifyApi, playlistName, description, trackUris);
+      // Months that already have a playlist ask whether to update it or make a new one
+      const result = await savePlaylist({
+        key: getMonthPlaylistKey(formattedDate),
+        name: playlistName,
+        description,
+        trackUris,
+        cover: {
+          title: format(parsedDate, 'MMMM'),
+          subtitle: format(parsedDate, 'yyyy'),
+          imageUrls: getTopAlbumImages(tracks),
+        },
+      });
+      if (!result) return;
 
-      setToastMessage(`Playlist "${playlistName}" has been created in your Spotify library!`);
+      setToastMessage(
+        result.choice === 'create'
+          ? describeCreatedPlaylist(playlistName)
+          : describeSaveResult(result)
+      );
       setShowToast(true);
       setTimeout(() => setShowToast(false), 3000);
     } catch (err) {
@@ -164,6 +253,7 @@ export default function HistoryPage() {
         currentTimeRange={currentTimeRange}
         setTimeRange={setTimeRange}
         isLoadingRange={isLoadingRange}
+        progress={progress}
         timeRangeDisplay={timeRangeDisplays.visualization}
       >
         {/* Structured Data */}
@@ -182,6 +272,9 @@ export default function HistoryPage() {
                   'One-click playlist creation',
                   'Track added date information',
                   'Expandable monthly sections',
+                  'Unliked track history',
+                  'Track preview playback',
+                  'Play any month on your Spotify devices',
                   'Time range selection',
                 ],
               })
@@ -189,6 +282,16 @@ export default function HistoryPage() {
           }}
         />
 
+        {pendingSave && (
+          <ExistingPlaylistDialog
+            playlist={pendingSave.existing}
+            trackCount={pendingSave.request.trackUris.length}
+            isSaving={isSaving}
+            onChoose={choose}
+            onCancel={cancel}
+          />
+        )}
+
         {showToast && (
           <Toast
             message={toastMessage}
@@ -204,7 +307,25 @@ export default function HistoryPage() {
         {/* Display content only if not in initial overall loading and not empty */}
         {!isOverallLoading && !isEmpty && (
           <main className="space-y-6" role="main">
-            {monthlyTracks.map((month) => (
+            <ScheduledSyncToggle />
+            {monthRange && (
+              <div className="flex flex-wrap items-center justify-between gap-2 bg-spotify-dark-gray rounded-lg px-4 py-3">
+                <p className="text-spotify-white">
+                  Showing {format(monthRange.from, 'MMMM yyyy')}
+                  {monthRange.to > monthRange.from && ` – ${format(monthRange.to, 'MMMM yyyy')}`}
+                  {visibleMonths.length === 0 && (
+                    <span className="text-spotify-light-gray">
+                      {' '}
+                      · no liked tracks in these months
+                    </span>
+                  )}
+                </p>
+                <Link href="/history" className="text-sm text-spotify-green hover:underline">
+                  Show all months
+                </Link>
+              </div>
+            )}
+            {visibleMonths.map((month) => (
               <article key={month.month} aria-label={`Tracks from ${month.month}`}>
                 <MonthlyTrackList
                   month={month.month}
@@ -212,7 +333,11 @@ export default function HistoryPage() {
                   expanded={month.expanded}
                   onToggle={toggleMonth}
                   onCreatePlaylist={createMonthlyPlaylist}
+                  onPlayMonth={playMonth}
+                  renderMonthActions={renderMonthActions}
                   renderTrackItem={renderTrackItem}
+                  unlikedTracks={month.unlikedTracks}
+                  playStats={monthlyPlayStats.get(month.month)}
                 />
               </article>
             ))}
@@ -228,3 +353,11 @@ export default function HistoryPage() {
     </PageContainer>
   );
 }
+
+export default function HistoryPage() {
+  return (
+    <Suspense fallback={<PageContainer isLoading={true}>{null}</PageContainer>}>
+      <HistoryContent />
+    </Suspense>
+  );
+}
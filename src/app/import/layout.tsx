@@ -0,0 +1,20 @@
+import { Metadata } from 'next';
+import { generateEnhancedMetadata } from '@/lib/seo';
+
+export const metadata: Metadata = generateEnhancedMetadata({
+  title: 'Import Streaming History',
+  description:
+    'Upload the streaming history files from your Spotify data export to see what you actually listened to, going back years. Files are processed entirely in your browser.',
+  path: '/import',
+  tags: [
+    'Spotify data export',
+    'streaming history',
+    'listening history',
+    'play count',
+    'extended streaming history',
+  ],
+});
+
+export default function ImportLayout({ children }: { children: React.ReactNode }) {
+  return children;
+}
@@ -0,0 +1,208 @@
+'use client';
+
+import { format } from 'date-fns';
+import { useSession } from 'next-auth/react';
+import Script from 'next/script';
+import React, { useMemo, useRef, useState } from 'react';
+import { usePlayHistory } from '@/hooks/usePlayHistory';
+import Breadcrumb from '@/layout/Breadcrumb';
+import PageContainer from '@/layout/PageContainer';
+import { getPlayHistorySummary } from '@/lib/playHistory';
+import { generateWebApplicationSchema } from '@/lib/seo';
+import ActionButton from '@/ui/ActionButton';
+import LoadingSpinner from '@/ui/LoadingSpinner';
+import Toast from '@/ui/Toast';
+
+export default function ImportPage() {
+  const { status } = useSession();
+  const { plays, hasPlays, isLoading, isImporting, error, importFiles, clearPlays } =
+    usePlayHistory();
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+  const [toast, setToast] = useState<{
+    message: string;
+    type: 'success' | 'error' | 'warning';
+  } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const summary = useMemo(() => getPlayHistorySummary(plays), [plays]);
+
+  const handleImport = async () => {
+    if (selectedFiles.length === 0) return;
+
+    const result = await importFiles(selectedFiles);
+    if (!result) return;
+
+    setSelectedFiles([]);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+
+    if (result.parsedFiles.length === 0) {
+      setToast({
+        message: 'None of the selected files look like Spotify streaming history.',
+        type: 'error',
+      });
+    } else if (result.skippedFiles.length > 0) {
+      setToast({
+        message: `Imported ${result.added} new plays. Skipped ${result.skippedFiles
+          .map((f) => f.name)
+          .join(', ')}.`,
+        type: 'warning',
+      });
+    } else {
+      setToast({
+        message: `Imported ${result.added} new plays from ${result.parsedFiles.length} files.`,
+        type: 'success',
+      });
+    }
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('Remove all imported play history from this browser?')) return;
+    await clearPlays();
+    setToast({ message: 'Imported play history removed.', type: 'success' });
+  };
+
+  return (
+    <PageContainer isLoading={status === 'loading'} maxWidth="7xl" className="min-h-screen pb-20">
+      {/* SEO-optimized heading structure */}
+      <header className="mb-8">
+        <h1 className="sr-only">Import Streaming History - Your Real Play History</h1>
+        <Breadcrumb
+          items={[
+            { name: 'Home', url: '/dashboard' },
+            { name: 'Import History', url: '/import' },
+          ]}
+        />
+      </header>
+
+      {/* Structured Data */}
+      <Script
+        id="import-structured-data"
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{
+          __html: JSON.stringify(
+            generateWebApplicationSchema({
+              '@type': 'WebPage',
+              name: 'Import Streaming History - Spotify Time Machine',
+              description:
+                'Upload your Spotify privacy export to analyze your full play history. Files never leave your browser.',
+              featureList: [
+                'Account data and extended streaming history support',
+                'In-browser processing',
+                'Play counts and minutes listened',
+              ],
+            })
+          ),
+        }}
+      />
+
+      {toast && (
+        <Toast message={toast.message} type={toast.type} onDismiss={() => setToast(null)} />
+      )}
+
+      <div className="flex flex-col gap-8">
+        <div className="text-center space-y-4 mt-12">
+          <h2 className="text-3xl font-bold text-spotify-white">Import Streaming History</h2>
+          <p className="text-spotify-light-gray max-w-2xl mx-auto">
+            Spotify only shares your last 50 plays through its API. Request your data from{' '}
+            <a
+              href="https://www.spotify.com/account/privacy/"
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-spotify-green hover:underline"
+            >
+              your account privacy settings
+            </a>{' '}
+            and upload the <code>StreamingHistory*.json</code> or extended{' '}
+            <code>endsong_*.json</code> files to see everything you have listened to. Files are
+            processed in your browser and never uploaded.
+          </p>
+        </div>
+
+        <section
+          aria-label="Upload files"
+          className="max-w-2xl w-full mx-auto bg-spotify-dark-gray rounded-lg p-6 space-y-4"
+        >
+          <label htmlFor="streaming-history-files" className="block text-spotify-white font-medium">
+            Streaming history files
+          </label>
+          <input
+            ref={fileInputRef}
+            id="streaming-history-files"
+            type="file"
+            accept=".json,application/json"
+            multiple
+            onChange={(e) => setSelectedFiles(Array.from(e.target.files ?? []))}
+            className="w-full text-sm text-spotify-light-gray file:mr-4 file:rounded-full file:border-0 file:bg-spotify-medium-gray file:px-4 file:py-2 file:text-spotify-white file:cursor-pointer"
+          />
+          <ActionButton
+            onClick={handleImport}
+            disabled={selectedFiles.length === 0 || isImporting}
+            className="w-full"
+          >
+            {isImporting
+              ? 'Importing...'
+              : selectedFiles.length > 0
+                ? `Import ${selectedFiles.length} files`
+                : 'Import files'}
+          </ActionButton>
+          {error && (
+            <p className="text-sm text-red-400" role="alert">
+              {error}
+            </p>
+          )}
+        </section>
+
+        <section
+          aria-label="Imported history"
+          className="max-w-2xl w-full mx-auto bg-spotify-dark-gray rounded-lg p-6"
+        >
+          <h3 className="text-xl font-semibold text-spotify-white mb-4">Your imported history</h3>
+          {isLoading ? (
+            <div className="flex justify-center py-4">
+              <LoadingSpinner size="sm" />
+            </div>
+          ) : hasPlays ? (
+            <div className="space-y-4">
+              <dl className="grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <dt className="text-spotify-light-gray">Plays</dt>
+                  <dd className="text-2xl font-bold text-spotify-white">
+                    {summary.totalPlays.toLocaleString()}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-spotify-light-gray">Hours listened</dt>
+                  <dd className="text-2xl font-bold text-spotify-white">
+                    {Math.round(summary.totalMinutes / 60).toLocaleString()}
+                  </dd>
+                </div>
+                {summary.firstPlayedAt && summary.lastPlayedAt && (
+                  <div className="col-span-2">
+                    <dt className="text-spotify-light-gray">Covers</dt>
+                    <dd className="text-spotify-white">
+                      {format(new Date(summary.firstPlayedAt), 'MMM d, yyyy')} –{' '}
+                      {format(new Date(summary.lastPlayedAt), 'MMM d, yyyy')}
+                    </dd>
+                  </div>
+                )}
+                {summary.topArtist && (
+                  <div className="col-span-2">
+                    <dt className="text-spotify-light-gray">Most played artist</dt>
+                    <dd className="text-spotify-white">
+                      {summary.topArtist.name} ({summary.topArtist.plays.toLocaleString()} plays)
+                    </dd>
+                  </div>
+                )}
+              </dl>
+              <ActionButton onClick={handleClear} variant="secondary">
+                Remove imported history
+              </ActionButton>
+            </div>
+          ) : (
+            <p className="text-spotify-light-gray">Nothing imported yet.</p>
+          )}
+        </section>
+      </div>
+    </PageContainer>
+  );
+}
@@ -1,23 +1,63 @@
 'use client';
 
-import { format, isAfter, isBefore, parseISO } from 'date-fns';
+import { format, isAfter, isBefore, isValid, parseISO } from 'date-fns';
 import { useSession } from 'next-auth/react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
 import Script from 'next/script';
-import React, { useState, useEffect } from 'react';
-import FilterSelector from '@/features/controls/FilterSelector';
-import SharePlaylistButton from '@/features/playlist/SharePlaylistButton';
-import { useLikedTracks } from '@/hooks/useLikedTracks';
+import React, { Suspense, useState, useEffect, useMemo } from 'react';
+import IncludeExcludeSelector from '@/features/controls/IncludeExcludeSelector';
+import RangeInput from '@/features/controls/RangeInput';
+import PlayOnSpotifyButton from '@/features/player/PlayOnSpotifyButton';
+import ExistingPlaylistDialog from '@/features/playlist/ExistingPlaylistDialog';
+import ShareButton from '@/features/share/ShareButton';
+import { useAudioFeatures } from '@/hooks/useAudioFeatures';
+import { useLikedArtists } from '@/hooks/useLikedArtists';
+import {
+  describeCreatedPlaylist,
+  describeSaveResult,
+  useSavePlaylist,
+} from '@/hooks/useSavePlaylist';
+import { useSmartPlaylists } from '@/hooks/useSmartPlaylists';
 import { useSpotify } from '@/hooks/useSpotify';
-import { Artist } from '@/hooks/useUserStats';
 import Breadcrumb from '@/layout/Breadcrumb';
 import PageContainer from '@/layout/PageContainer';
-import { GenreCount, extractTopGenres } from '@/lib/genreUtils';
+import {
+  AUDIO_FEATURES,
+  AudioFeatureRanges,
+  DEFAULT_AUDIO_FEATURE_RANGES,
+  TRACK_ORDERS,
+  TrackOrder,
+  filterTracksByAudioFeatures,
+  needsAudioFeatures,
+  orderTracks,
+} from '@/lib/audioFeatures';
+import { getTopAlbumImages } from '@/lib/playlistCover';
+import { getGeneratedPlaylistKey } from '@/lib/playlistRegistry';
+import {
+  DEFAULT_PLAYLIST_RULES,
+  ExplicitRule,
+  PlaylistRules,
+  countActiveRules,
+  filterTracksByRules,
+} from '@/lib/playlistRules';
 import { generateWebApplicationSchema } from '@/lib/seo';
-import { SpotifyApiError } from '@/lib/spotify';
-import { createPlaylist } from '@/lib/spotifyTrackUtils';
+import {
+  SharedPlaylist,
+  getPlaylistShareCard,
+  getPlaylistSharePath,
+  getShareCardUrl,
+} from '@/lib/sharing';
+import {
+  DEFAULT_SMART_PLAYLIST_NAME,
+  SMART_PLAYLIST_WINDOWS,
+  renderSmartPlaylistName,
+} from '@/lib/smartPlaylists';
+import { SavedTrack } from '@/lib/spotifyModels';
 import ActionButton from '@/ui/ActionButton';
 import FormField from '@/ui/FormField';
 import Toast from '@/ui/Toast';
+import ToggleButton from '@/ui/ToggleButton';
 
 // Get current date in YYYY-MM-DD format for defaults and validation
 const getCurrentDate = () => {
@@ -25,99 +65,164 @@ const getCurrentDate = () => {
   return today.toISOString().split('T')[0];
 };
 
-export default function PlaylistGeneratorPage() {
-  const { status } = useSession();
-  const { spotifyApi, isReady } = useSpotify();
-  const { tracks, isLoading: isLoadingTracks, error: tracksError } = useLikedTracks();
+// Dates handed over in the URL, e.g. from a range selected on a chart, capped at today
+const getDateParam = (value: string | null): string | null => {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value) || !isValid(parseISO(value))) return null;
+  return value > getCurrentDate() ? getCurrentDate() : value;
+};
+
+const EXPLICIT_OPTIONS: Array<{ id: ExplicitRule; label: string }> = [
+  { id: 'any', label: 'Any' },
+  { id: 'exclude', label: 'Clean only' },
+  { id: 'only', label: 'Explicit only' },
+];
+
+interface RuleOption {
+  id: string;
+  name: string;
+  count: number;
+}
 
-  const [startDate, setStartDate] = useState(getCurrentDate());
-  const [endDate, setEndDate] = useState(getCurrentDate());
+const getOptionId = (option: RuleOption) => option.id;
+const getOptionName = (option: RuleOption) => option.name;
+
+function PlaylistGeneratorContent() {
+  const { status } = useSession();
+  const searchParams = useSearchParams();
+  const { isReady } = useSpotify();
+  const { savePlaylist, pendingSave, isSaving, choose, cancel } = useSavePlaylist();
+  const {
+    tracks,
+    unlikedTracks,
+    isLoading: isLoadingTracks,
+    isLoadingArtists,
+    error: tracksError,
+    artistsDetails,
+  } = useLikedArtists();
+
+  const [startDate, setStartDate] = useState(
+    () => getDateParam(searchParams.get('start')) ?? getCurrentDate()
+  );
+  const [endDate, setEndDate] = useState(
+    () => getDateParam(searchParams.get('end')) ?? getCurrentDate()
+  );
   const [playlistName, setPlaylistName] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [success, setSuccess] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [playlistUrl, setPlaylistUrl] = useState('');
-  const [trackCount, setTrackCount] = useState(0);
+  const [sharedPlaylist, setSharedPlaylist] = useState<SharedPlaylist | null>(null);
+  const [successMessage, setSuccessMessage] = useState('');
   const [showToast, setShowToast] = useState(false);
+  const [toastMessage, setToastMessage] = useState('');
 
   // Filter-related state
-  const [topGenres, setTopGenres] = useState<GenreCount[]>([]);
-  const [topArtists, setTopArtists] = useState<Artist[]>([]);
-  const [selectedGenres, setSelectedGenres] = useState<string[]>([]);
-  const [selectedArtists, setSelectedArtists] = useState<string[]>([]);
-  const [loadingFilters, setLoadingFilters] = useState(false);
-  const [artistCache, setArtistCache] = useState<Record<string, Artist>>({});
-
-  // Fetch top artists and genres for filters when component mounts
-  useEffect(() => {
-    const fetchFilters = async () => {
-      if (!isReady) return;
-
-      setLoadingFilters(true);
-      try {
-        // Try to fetch from useUserStats cache first, then get additional artists if needed
-        // This could be optimized to leverage existing cached data
-        const response = await spotifyApi.getMyTopArtists({ limit: 50 });
-        const artists: Artist[] = response.body.items.map((artist: any) => ({
-          id: artist.id,
-          name: artist.name,
-          images: artist.images,
-          genres: artist.genres,
-          popularity: artist.popularity,
-          external_urls: artist.external_urls,
-        }));
-        setTopArtists(artists);
-
-        // Extract genres from top artists
-        const genresFromArtists = extractTopGenres(artists, 50);
-        setTopGenres(genresFromArtists);
-
-        // Create artist cache for batch fetching
-        const cache: Record<string, Artist> = {};
-        artists.forEach((artist) => {
-          cache[artist.id] = artist;
-        });
-        setArtistCache(cache);
-      } catch (err) {
-        console.error('Error fetching filters:', err);
-        if (err instanceof SpotifyApiError) {
-          if (err.status === 401) {
-            setError('Authentication expired. Please sign in again.');
-          } else {
-            setError(`Spotify API error: ${err.message}`);
-          }
-        } else {
-          setError('Failed to load filter options.');
-        }
-      } finally {
-        setLoadingFilters(false);
-      }
-    };
+  const [rules, setRules] = useState<PlaylistRules>(DEFAULT_PLAYLIST_RULES);
+  const [includeUnliked, setIncludeUnliked] = useState(false);
+  const [featureRanges, setFeatureRanges] = useState<AudioFeatureRanges>(
+    DEFAULT_AUDIO_FEATURE_RANGES
+  );
+  const [trackOrder, setTrackOrder] = useState<TrackOrder>('date');
 
-    fetchFilters();
-  }, [isReady, spotifyApi]);
+  // Smart playlist state
+  const { addPlaylist: addSmartPlaylist } = useSmartPlaylists();
+  const [smartWindowDays, setSmartWindowDays] = useState(30);
+  const [smartPlaylistMessage, setSmartPlaylistMessage] = useState<string | null>(null);
 
-  // Handle genre selection
-  const toggleGenre = (genreName: string) => {
-    setSelectedGenres((prev) =>
-      prev.includes(genreName) ? prev.filter((genre) => genre !== genreName) : [...prev, genreName]
-    );
+  const updateRules = (changes: Partial<PlaylistRules>) => {
+    setRules((prev) => ({ ...prev, ...changes }));
   };
 
-  // Handle artist selection
-  const toggleArtist = (artistId: string) => {
-    setSelectedArtists((prev) =>
-      prev.includes(artistId) ? prev.filter((id) => id !== artistId) : [...prev, artistId]
-    );
-  };
+  // Every artist in the liked library, most liked first
+  const artistOptions = useMemo<RuleOption[]>(() => {
+    const options = new Map<string, RuleOption>();
+    tracks.forEach(({ track }) => {
+      track.artists.forEach((artist) => {
+        const option = options.get(artist.id) ?? { id: artist.id, name: artist.name, count: 0 };
+        option.count++;
+        options.set(artist.id, option);
+      });
+    });
+    return Array.from(options.values()).toSorted((a, b) => b.count - a.count);
+  }, [tracks]);
+
+  // Every genre of those artists, weighted by liked tracks
+  const genreOptions = useMemo<RuleOption[]>(() => {
+    const counts = new Map<string, number>();
+    tracks.forEach(({ track }) => {
+      const genres = new Set(
+        track.artists.flatMap((artist) => artistsDetails.get(artist.id)?.genres ?? [])
+      );
+      genres.forEach((genre) => counts.set(genre, (counts.get(genre) ?? 0) + 1));
+    });
+    return Array.from(counts.entries())
+      .map(([name, count]) => ({ id: name, name, count }))
+      .toSorted((a, b) => b.count - a.count);
+  }, [tracks, artistsDetails]);
+
+  // Tracks in the date range, optionally with ones that have since been unliked
+  const [likedInRange, unlikedInRange] = useMemo<[SavedTrack[], SavedTrack[]]>(() => {
+    const parsedStartDate = parseISO(startDate);
+    const parsedEndDate = parseISO(endDate);
+    const isInRange = (track: SavedTrack) => {
+      const trackDate = new Date(track.added_at);
+      return isAfter(trackDate, parsedStartDate) && isBefore(trackDate, parsedEndDate);
+    };
 
-  // Generate the custom playlist
-  const generatePlaylist = async (e: React.FormEvent) => {
-    e.preventDefault();
+    // Skip unliked tracks that were liked again
+    const likedIds = new Set(tracks.map((track) => track.track.id));
+    return [
+      tracks.filter(isInRange),
+      unlikedTracks.filter((track) => !likedIds.has(track.track.id) && isInRange(track)),
+    ];
+  }, [tracks, unlikedTracks, startDate, endDate]);
+
+  const tracksInRange = useMemo<SavedTrack[]>(
+    () => (includeUnliked ? [...likedInRange, ...unlikedInRange] : likedInRange),
+    [likedInRange, unlikedInRange, includeUnliked]
+  );
 
-    if (!startDate || !endDate || !playlistName.trim()) {
+  // Audio features are only fetched once a feature range or ordering needs them
+  const trackIdsInRange = useMemo(
+    () => tracksInRange.map((track) => track.track.id),
+    [tracksInRange]
+  );
+  const {
+    audioFeatures,
+    isLoadingFeatures,
+    error: featuresError,
+  } = useAudioFeatures(trackIdsInRange, needsAudioFeatures(featureRanges, trackOrder));
+
+  // Live preview of what the playlist would contain, in playlist order
+  const matchingTracks = useMemo(
+    () =>
+      orderTracks(
+        filterTracksByAudioFeatures(
+          filterTracksByRules(tracksInRange, rules, artistsDetails),
+          featureRanges,
+          audioFeatures
+        ),
+        trackOrder,
+        audioFeatures
+      ),
+    [tracksInRange, rules, artistsDetails, featureRanges, trackOrder, audioFeatures]
+  );
+
+  const activeRuleCount =
+    countActiveRules(rules) +
+    Object.values(featureRanges).filter((range) => range.min !== null || range.max !== null).length;
+
+  const resetRules = () => {
+    setRules(DEFAULT_PLAYLIST_RULES);
+    setFeatureRanges(DEFAULT_AUDIO_FEATURE_RANGES);
+    setTrackOrder('date');
+  };
+
+  // Validate the form and return the tracks matching the current rules
+  // Returns null (after setting an error) when nothing can be selected
+  const selectTracks = (): SavedTrack[] | null => {
+    if (!startDate || !endDate) {
       setError('Please fill in all required fields');
-      return;
+      return null;
     }
 
     // Validate that dates are not in the future
@@ -127,118 +232,97 @@ export default function PlaylistGeneratorPage() {
 
     if (isAfter(parsedStartDate, today)) {
       setError('Start date cannot be in the future');
-      return;
+      return null;
     }
 
     if (isAfter(parsedEndDate, today)) {
       setError('End date cannot be in the future');
-      return;
+      return null;
     }
 
     // Validate that start date is not after end date
     if (isAfter(parsedStartDate, parsedEndDate)) {
       setError('Start date must be before or equal to end date');
-      return;
+      return null;
     }
 
     if (!isReady) {
       setError('Spotify API is not ready. Please try again.');
-      return;
+      return null;
     }
 
     if (tracksError) {
       setError('Failed to load your liked tracks. Please try again.');
-      return;
+      return null;
     }
 
-    try {
-      setIsLoading(true);
-      setError(null);
-      setSuccess(false);
-
-      // Filter tracks by date range
-      let filteredTracks = tracks.filter((track) => {
-        const trackDate = new Date(track.added_at);
-        return isAfter(trackDate, parsedStartDate) && isBefore(trackDate, parsedEndDate);
-      });
+    if (matchingTracks.length === 0) {
+      setError('No tracks found with the selected filters and date range');
+      return null;
+    }
 
-      // Apply genre filters if any are selected
-      if (selectedGenres.length > 0) {
-        // Get unique artist IDs from filtered tracks
-        const artistIds = [
-          ...new Set(
-            filteredTracks.flatMap((track) => track.track.artists.map((artist) => artist.id))
-          ),
-        ];
-
-        // Find artists not in cache
-        const uncachedArtistIds = artistIds.filter((id) => !artistCache[id]);
-
-        // Fetch uncached artists in batches of 50 (Spotify API limit)
-        if (uncachedArtistIds.length > 0) {
-          const batchSize = 50;
-          for (let i = 0; i < uncachedArtistIds.length; i += batchSize) {
-            const batch = uncachedArtistIds.slice(i, i + batchSize);
-            const artistsResponse = await spotifyApi.getArtists(batch);
-            const newArtists = artistsResponse.body.artists.map((artist: any) => ({
-              id: artist.id,
-              name: artist.name,
-              images: artist.images.map((img: any) => ({
-                url: img.url,
-                height: img.height || 0,
-                width: img.width || 0,
-              })),
-              genres: artist.genres,
-              popularity: artist.popularity,
-              external_urls: artist.external_urls,
-            }));
-
-            // Update cache with new artists
-            setArtistCache((prev) => ({
-              ...prev,
-              ...newArtists.reduce(
-                (acc: Record<string, Artist>, artist: Artist) => {
-                  acc[artist.id] = artist;
-                  return acc;
-                },
-                {} as Record<string, Artist>
-              ),
-            }));
-          }
-        }
+    return matchingTracks;
+  };
 
-        // Filter tracks by genre using cached artist data
-        filteredTracks = filteredTracks.filter((track) => {
-          const trackArtists = track.track.artists.map((artist) => artistCache[artist.id]);
-          const trackGenres = trackArtists.flatMap((artist) => artist?.genres || []);
-          return selectedGenres.some((genre) => trackGenres.includes(genre));
-        });
-      }
+  // Generate the custom playlist
+  const generatePlaylist = async (e: React.FormEvent) => {
+    e.preventDefault();
 
-      // Apply artist filters if any are selected
-      if (selectedArtists.length > 0) {
-        filteredTracks = filteredTracks.filter((track) => {
-          return track.track.artists.some((artist) => selectedArtists.includes(artist.id));
-        });
-      }
+    if (!playlistName.trim()) {
+      setError('Please fill in all required fields');
+      return;
+    }
 
-      if (filteredTracks.length === 0) {
-        setError('No tracks found with the selected filters and date range');
-        setIsLoading(false);
-        return;
-      }
+    const filteredTracks = selectTracks();
+    if (!filteredTracks) return;
 
-      setTrackCount(filteredTracks.length);
+    try {
+      setIsLoading(true);
+      setError(null);
+      setSuccess(false);
 
       // Create a new playlist
-      const dateRangeText = `${format(parsedStartDate, 'MMM d, yyyy')} - ${format(parsedEndDate, 'MMM d, yyyy')}`;
+      const dateRangeText = `${format(parseISO(startDate), 'MMM d, yyyy')} - ${format(parseISO(endDate), 'MMM d, yyyy')}`;
       const description = `Custom playlist for ${dateRangeText}. Created with Jermaine's Spotify Time Machine.`;
       const trackUris = filteredTracks.map((track) => `spotify:track:${track.track.id}`);
+      const imageUrls = getTopAlbumImages(filteredTracks);
+
+      // Rule sets that already have a playlist ask whether to update it or make a new one
+      const result = await savePlaylist({
+        key: getGeneratedPlaylistKey({
+          startDate,
+          endDate,
+          rules,
+          featureRanges,
+          trackOrder,
+          includeUnliked,
+        }),
+        name: playlistName,
+        description,
+        trackUris,
+        cover: {
+          title: playlistName,
+          subtitle: dateRangeText,
+          imageUrls,
+        },
+      });
+      if (!result) return;
 
-      const playlistUrl = await createPlaylist(spotifyApi, playlistName, description, trackUris);
-
+      setSuccessMessage(describeSaveResult(result));
       setSuccess(true);
-      setPlaylistUrl(playlistUrl);
+      setSharedPlaylist({
+        name: result.name,
+        spotifyUrl: result.url,
+        trackCount: trackUris.length,
+        startDate,
+        endDate,
+        imageUrls,
+      });
+      setToastMessage(
+        result.choice === 'create'
+          ? describeCreatedPlaylist(playlistName)
+          : describeSaveResult(result)
+      );
       setShowToast(true);
       setTimeout(() => setShowToast(false), 3000);
     } catch (err) {
@@ -249,6 +333,29 @@ export default function PlaylistGeneratorPage() {
     }
   };
 
+  // Save the current rules as a rolling playlist that the background sync keeps up to date
+  const saveSmartPlaylist = async () => {
+    const created = await addSmartPlaylist({
+      nameTemplate: playlistName.trim() || DEFAULT_SMART_PLAYLIST_NAME,
+      windowDays: smartWindowDays,
+      rules,
+    });
+    if (created) {
+      setSmartPlaylistMessage(
+        `Saved "${renderSmartPlaylistName(created)}". It will be created and kept up to date automatically.`
+      );
+    } else {
+      setError('Failed to save the smart playlist. Please try again.');
+    }
+  };
+
+  // Play the current selection on one of the user's devices without creating a playlist
+  const getSelectedTrackUris = () => {
+    setError(null);
+    const selected = selectTracks();
+    return selected?.map((track) => `spotify:track:${track.track.id}`) ?? null;
+  };
+
   // Add keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -271,8 +378,8 @@ export default function PlaylistGeneratorPage() {
         setPlaylistName('');
         setStartDate(getCurrentDate());
         setEndDate(getCurrentDate());
-        setSelectedGenres([]);
-        setSelectedArtists([]);
+        resetRules();
+        setIncludeUnliked(false);
       }
     };
 
@@ -309,10 +416,15 @@ export default function PlaylistGeneratorPage() {
                 'Create personalized playlists by selecting custom date ranges and filtering by your favorite genres and artists.',
               featureList: [
                 'Custom date range selection',
-                'Genre-based filtering',
-                'Artist-based filtering',
+                'Include and exclude rules for genres and artists',
+                'Wildcard genre matching',
+                'Track length, explicit content, release year and popularity filters',
+                'Live preview of matching tracks',
+                'Audio feature filters and tempo/energy ordering',
                 'One-click playlist creation',
+                'Rolling smart playlists',
                 'Instant playlist sharing',
+                'Play selections on any Spotify device',
                 'Keyboard shortcuts support',
               ],
             })
@@ -322,11 +434,7 @@ export default function PlaylistGeneratorPage() {
 
       <main className="bg-spotify-dark-gray rounded-lg p-4 md:p-6" role="main">
         {showToast && (
-          <Toast
-            message={`Playlist "${playlistName}" has been created in your Spotify library!`}
-            onDismiss={() => setShowToast(false)}
-            type="success"
-          />
+          <Toast message={toastMessage} onDismiss={() => setShowToast(false)} type="success" />
         )}
         {!success ? (
           <form
@@ -375,72 +483,243 @@ export default function PlaylistGeneratorPage() {
                   <strong>How filtering works:</strong>
                 </p>
                 <ul className="list-disc list-inside space-y-1">
+                  <li>Tracks must satisfy every rule you set, on top of the date range</li>
                   <li>
-                    When you select multiple filter types (genres AND artists AND dates), tracks
-                    must match at least one criterion from each selected filter type
-                  </li>
-                  <li>
-                    Due to Spotify API limitations, genre filtering is based on artist genres rather
-                    than individual track genres
+                    Included artists or genres keep a track when any of its artists match; excluded
+                    ones drop it when any of its artists match
                   </li>
                   <li>
-                    A track will be included if any of its artists match any of the selected genres
+                    Genres come from artists rather than individual tracks. Use * as a wildcard, so
+                    *metal* matches both death metal and metalcore
                   </li>
+                  <li>Popularity is the artist popularity score from Spotify, from 0 to 100</li>
                   <li>
-                    Some tracks may be included even if they don't perfectly match your genre
-                    preferences
+                    Energy, mood, danceability and acousticness run from 0 to 100. Tracks without
+                    audio features are left out when a feature range is set and placed last when
+                    ordering by tempo or energy
                   </li>
-                  <li>Some tracks may be excluded if their artists' genres don't match exactly</li>
                 </ul>
               </div>
 
-              <FilterSelector
+              <IncludeExcludeSelector
                 title="Genres"
-                items={topGenres}
-                selectedItems={selectedGenres}
-                getItemId={(genre) => genre.name}
-                getItemName={(genre) => genre.name}
-                onToggleItem={toggleGenre}
-                isLoading={loadingFilters}
+                items={genreOptions}
+                included={rules.includeGenres}
+                excluded={rules.excludeGenres}
+                getItemId={getOptionId}
+                getItemName={getOptionName}
+                onChange={(includeGenres, excludeGenres) =>
+                  updateRules({ includeGenres, excludeGenres })
+                }
+                isLoading={isLoadingArtists && genreOptions.length === 0}
                 emptyMessage="No genres found"
+                allowPatterns
               />
 
-              <FilterSelector
+              <IncludeExcludeSelector
                 title="Artists"
-                items={topArtists}
-                selectedItems={selectedArtists}
-                getItemId={(artist) => artist.id}
-                getItemName={(artist) => artist.name}
-                onToggleItem={toggleArtist}
-                isLoading={loadingFilters}
+                items={artistOptions}
+                included={rules.includeArtistIds}
+                excluded={rules.excludeArtistIds}
+                getItemId={getOptionId}
+                getItemName={getOptionName}
+                onChange={(includeArtistIds, excludeArtistIds) =>
+                  updateRules({ includeArtistIds, excludeArtistIds })
+                }
+                isLoading={false}
                 emptyMessage="No artists found"
-                maxItems={20}
               />
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <RangeInput
+                  id="duration"
+                  label="Track length (seconds)"
+                  value={rules.durationSeconds}
+                  onChange={(durationSeconds) => updateRules({ durationSeconds })}
+                  min={0}
+                />
+                <RangeInput
+                  id="releaseYear"
+                  label="Album release year"
+                  value={rules.releaseYear}
+                  onChange={(releaseYear) => updateRules({ releaseYear })}
+                  min={1900}
+                  max={new Date().getFullYear()}
+                />
+                <RangeInput
+                  id="artistPopularity"
+                  label="Artist popularity"
+                  value={rules.artistPopularity}
+                  onChange={(artistPopularity) => updateRules({ artistPopularity })}
+                  min={0}
+                  max={100}
+                />
+              </div>
+
+              <div>
+                <span className="block text-spotify-white mb-2 font-medium">Explicit content</span>
+                <div className="flex flex-wrap gap-2">
+                  {EXPLICIT_OPTIONS.map((option) => (
+                    <ToggleButton
+                      key={option.id}
+                      id={option.id}
+                      label={option.label}
+                      isSelected={rules.explicit === option.id}
+                      onClick={(id) => updateRules({ explicit: id as ExplicitRule })}
+                    />
+                  ))}
+                </div>
+              </div>
+
+              <fieldset className="space-y-4">
+                <legend className="text-spotify-white font-medium mb-2">Audio features</legend>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  {AUDIO_FEATURES.map((feature) => (
+                    <RangeInput
+                      key={feature.key}
+                      id={`feature-${feature.key}`}
+                      label={feature.label}
+                      value={featureRanges[feature.key]}
+                      onChange={(range) =>
+                        setFeatureRanges((prev) => ({ ...prev, [feature.key]: range }))
+                      }
+                      min={0}
+                      max={feature.max}
+                    />
+                  ))}
+                </div>
+
+                <div>
+                  <span className="block text-spotify-white mb-2 font-medium">Track order</span>
+                  <div className="flex flex-wrap gap-2">
+                    {TRACK_ORDERS.map((option) => (
+                      <ToggleButton
+                        key={option.id}
+                        id={option.id}
+                        label={option.label}
+                        isSelected={trackOrder === option.id}
+                        onClick={(id) => setTrackOrder(id as TrackOrder)}
+                      />
+                    ))}
+                  </div>
+                </div>
+
+                {isLoadingFeatures && (
+                  <p className="text-sm text-spotify-light-gray" role="status">
+                    Loading audio features...
+                  </p>
+                )}
+                {featuresError && (
+                  <p className="text-sm text-red-400" role="alert">
+                    {featuresError}
+                  </p>
+                )}
+              </fieldset>
+
+              <div className="flex flex-wrap items-center gap-3">
+                <ToggleButton
+                  id="include-unliked"
+                  label={`Include unliked tracks (${unlikedInRange.length})`}
+                  isSelected={includeUnliked}
+                  onClick={() => setIncludeUnliked((prev) => !prev)}
+                />
+                <span className="text-sm text-spotify-light-gray">
+                  Songs you liked in this range but have since removed from your library
+                </span>
+              </div>
             </section>
 
             {error && <Toast message={error} onDismiss={() => setError(null)} type="error" />}
 
+            <div
+              className="flex flex-wrap items-center justify-between gap-2 text-sm"
+              aria-live="polite"
+            >
+              <p className="text-spotify-white">
+                <strong>{matchingTracks.length.toLocaleString()}</strong> of{' '}
+                {tracksInRange.length.toLocaleString()} tracks in this date range match
+                {activeRuleCount > 0 &&
+                  ` ${activeRuleCount} ${activeRuleCount === 1 ? 'rule' : 'rules'}`}
+              </p>
+              {activeRuleCount > 0 && (
+                <button
+                  type="button"
+                  onClick={resetRules}
+                  className="text-spotify-green hover:underline cursor-pointer"
+                >
+                  Clear rules
+                </button>
+              )}
+            </div>
+
             <ActionButton type="submit" disabled={isLoading} className="w-full">
               {isLoading ? 'Generating...' : 'Generate Playlist'}
             </ActionButton>
+
+            <PlayOnSpotifyButton
+              getTrackUris={getSelectedTrackUris}
+              label="Play selection on Spotify"
+            />
+
+            <section
+              className="border-t border-spotify-medium-gray pt-6 space-y-3"
+              aria-labelledby="smart-playlist-heading"
+            >
+              <h2 id="smart-playlist-heading" className="text-lg font-semibold text-spotify-white">
+                Keep it rolling
+              </h2>
+              <p className="text-sm text-spotify-light-gray">
+                Save these rules as a smart playlist of what you liked recently. It updates itself
+                when you open the app in this browser (at most once an hour) and can be managed on
+                the{' '}
+                <Link href="/smart-playlists" className="text-spotify-green hover:underline">
+                  Smart Playlists
+                </Link>{' '}
+                page. Audio feature filters and ordering are not applied.
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {SMART_PLAYLIST_WINDOWS.map((days) => (
+                  <ToggleButton
+                    key={days}
+                    id={days.toString()}
+                    label={`Last ${days} days`}
+                    isSelected={smartWindowDays === days}
+                    onClick={(id) => setSmartWindowDays(Number(id))}
+                  />
+                ))}
+              </div>
+              <ActionButton type="button" onClick={saveSmartPlaylist} variant="secondary">
+                Save as Smart Playlist
+              </ActionButton>
+              {smartPlaylistMessage && (
+                <Toast
+                  message={smartPlaylistMessage}
+                  onDismiss={() => setSmartPlaylistMessage(null)}
+                  type="success"
+                />
+              )}
+            </section>
           </form>
         ) : (
           <article className="text-center space-y-4" aria-label="Success message">
-            <Toast
-              message={`Playlist "${playlistName}" has been created with ${trackCount} tracks.`}
-              onDismiss={() => setSuccess(false)}
-              type="success"
-            />
+            <Toast message={successMessage} onDismiss={() => setSuccess(false)} type="success" />
             <div className="flex flex-col sm:flex-row gap-4 justify-center">
-              <SharePlaylistButton playlistUrl={playlistUrl} playlistName={playlistName} />
+              {sharedPlaylist && (
+                <ShareButton
+                  sharePath={getPlaylistSharePath(sharedPlaylist)}
+                  text={`Check out my Spotify playlist: ${sharedPlaylist.name}`}
+                  imageUrl={getShareCardUrl(getPlaylistShareCard(sharedPlaylist))}
+                  imageFileName={`${sharedPlaylist.name}.png`}
+                />
+              )}
               <ActionButton
                 onClick={() => {
                   setSuccess(false);
                   setPlaylistName('');
                   setStartDate(getCurrentDate());
                   setEndDate(getCurrentDate());
-                  setSelectedGenres([]);
-                  setSelectedArtists([]);
+                  resetRules();
+                  setIncludeUnliked(false);
                 }}
                 variant="secondary"
               >
@@ -449,7 +728,25 @@ export default function PlaylistGeneratorPage() {
             </div>
           </article>
         )}
+
+        {pendingSave && (
+          <ExistingPlaylistDialog
+            playlist={pendingSave.existing}
+            trackCount={pendingSave.request.trackUris.length}
+            isSaving={isSaving}
+            onChoose={choose}
+            onCancel={cancel}
+          />
+        )}
       </main>
     </PageContainer>
   );
 }
+
+export default function PlaylistGeneratorPage() {
+  return (
+    <Suspense fallback={<PageContainer isLoading={true}>{null}</PageContainer>}>
+      <PlaylistGeneratorContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,14 @@
+import { Metadata } from 'next';
+import { generateEnhancedMetadata } from '@/lib/seo';
+
+export const metadata: Metadata = generateEnhancedMetadata({
+  title: 'Play Log',
+  description:
+    'Browse every track you have played, collected automatically from your recent Spotify activity each time you visit and combined with any streaming history you import.',
+  path: '/plays',
+  tags: ['play history', 'recently played', 'Spotify plays', 'listening log', 'music diary'],
+});
+
+export default function PlaysLayout({ children }: { children: React.ReactNode }) {
+  return children;
+}
@@ -0,0 +1,230 @@
+'use client';
+
+import { format } from 'date-fns';
+import { useSession } from 'next-auth/react';
+import Script from 'next/script';
+import React, { useMemo, useState } from 'react';
+import { usePlayHistory } from '@/hooks/usePlayHistory';
+import { useRecentlyPlayedAccumulator } from '@/hooks/useRecentlyPlayedAccumulator';
+import Breadcrumb from '@/layout/Breadcrumb';
+import PageContainer from '@/layout/PageContainer';
+import { PlayEvent, PlaySource } from '@/lib/playHistory';
+import { generateWebApplicationSchema } from '@/lib/seo';
+import ActionButton from '@/ui/ActionButton';
+import LoadingSpinner from '@/ui/LoadingSpinner';
+import Toast from '@/ui/Toast';
+import ToggleButton from '@/ui/ToggleButton';
+
+type SourceFilter = 'all' | PlaySource;
+
+const SOURCE_FILTERS: Array<{ id: SourceFilter; label: string }> = [
+  { id: 'all', label: 'All plays' },
+  { id: 'recently_played', label: 'Collected' },
+  { id: 'extended_history', label: 'Extended export' },
+  { id: 'streaming_history', label: 'Account export' },
+];
+
+const SOURCE_LABELS: Record<PlaySource, string> = {
+  recently_played: 'Collected',
+  extended_history: 'Extended export',
+  streaming_history: 'Account export',
+};
+
+// Number of plays rendered per "Show more" step
+const PAGE_SIZE = 100;
+
+export default function PlaysPage() {
+  const { status } = useSession();
+  const { plays, isLoading } = usePlayHistory();
+  const { syncNow } = useRecentlyPlayedAccumulator();
+  const [sourceFilter, setSourceFilter] = useState<SourceFilter>('all');
+  const [search, setSearch] = useState('');
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [toast, setToast] = useState<string | null>(null);
+
+  const filteredPlays = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return plays.filter(
+      (event) =>
+        (sourceFilter === 'all' || event.source === sourceFilter) &&
+        (!query ||
+          event.track_name.toLowerCase().includes(query) ||
+          event.artist_name.toLowerCase().includes(query))
+    );
+  }, [plays, sourceFilter, search]);
+
+  // Group the visible plays by day, newest first
+  const playsByDay = useMemo(() => {
+    const days: Array<{ day: string; plays: PlayEvent[] }> = [];
+    filteredPlays.slice(0, visibleCount).forEach((event) => {
+      const day = format(new Date(event.played_at), 'EEEE, MMMM d, yyyy');
+      const last = days[days.length - 1];
+      if (last?.day === day) {
+        last.plays.push(event);
+      } else {
+        days.push({ day, plays: [event] });
+      }
+    });
+    return days;
+  }, [filteredPlays, visibleCount]);
+
+  const handleSync = async () => {
+    setIsSyncing(true);
+    const added = await syncNow();
+    setIsSyncing(false);
+    setToast(added > 0 ? `Added ${added} new plays.` : 'Your play log is up to date.');
+  };
+
+  return (
+    <PageContainer isLoading={status === 'loading'} maxWidth="7xl" className="min-h-screen pb-20">
+      {/* SEO-optimized heading structure */}
+      <header className="mb-8">
+        <h1 className="sr-only">Play Log - Every Track You Have Played</h1>
+        <Breadcrumb
+          items={[
+            { name: 'Home', url: '/dashboard' },
+            { name: 'Plays', url: '/plays' },
+          ]}
+        />
+      </header>
+
+      {/* Structured Data */}
+      <Script
+        id="plays-structured-data"
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{
+          __html: JSON.stringify(
+            generateWebApplicationSchema({
+              '@type': 'WebPage',
+              name: 'Play Log - Spotify Time Machine',
+              description:
+                'A growing log of every track you play, collected from your recent Spotify activity.',
+              featureList: [
+                'Automatic play collection',
+                'Daily play timeline',
+                'Search by track or artist',
+                'Imported streaming history',
+              ],
+            })
+          ),
+        }}
+      />
+
+      {toast && <Toast message={toast} type="success" onDismiss={() => setToast(null)} />}
+
+      <main className="bg-spotify-dark-gray rounded-lg p-4 md:p-6 space-y-6" role="main">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <h2 className="text-2xl font-bold text-spotify-white">Your Play Log</h2>
+            <p className="text-sm text-spotify-light-gray">
+              Spotify only remembers your last 50 plays, so new plays are collected each time you
+              visit. {plays.length.toLocaleString()} plays recorded so far.
+            </p>
+          </div>
+          <ActionButton onClick={handleSync} disabled={isSyncing} variant="secondary">
+            {isSyncing ? 'Syncing...' : 'Sync now'}
+          </ActionButton>
+        </div>
+
+        <div className="flex flex-col md:flex-row md:items-center gap-4">
+          <div className="flex flex-wrap gap-2">
+            {SOURCE_FILTERS.map((filter) => (
+              <ToggleButton
+                key={filter.id}
+                id={filter.id}
+                label={filter.label}
+                isSelected={sourceFilter === filter.id}
+                onClick={(id) => {
+                  setSourceFilter(id as SourceFilter);
+                  setVisibleCount(PAGE_SIZE);
+                }}
+              />
+            ))}
+          </div>
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => {
+              setSearch(e.target.value);
+              setVisibleCount(PAGE_SIZE);
+            }}
+            placeholder="Search tracks or artists"
+            aria-label="Search plays"
+            className="w-full md:w-72 md:ml-auto bg-spotify-black border border-spotify-medium-gray rounded-md p-2 text-sm text-spotify-white focus:outline-hidden focus:ring-2 focus:ring-spotify-green"
+          />
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner />
+          </div>
+        ) : filteredPlays.length === 0 ? (
+          <p className="text-center py-8 text-spotify-light-gray">
+            {plays.length === 0
+              ? 'No plays recorded yet. Listen to something on Spotify and check back soon.'
+              : 'No plays match your filters.'}
+          </p>
+        ) : (
+          <div className="space-y-6">
+            {playsByDay.map(({ day, plays: dayPlays }) => (
+              <section key={day} aria-label={`Plays on ${day}`}>
+                <h3 className="text-sm font-semibold uppercase tracking-wide text-spotify-light-gray mb-2">
+                  {day} • {dayPlays.length} plays
+                </h3>
+                <ol className="divide-y divide-spotify-medium-gray/40">
+                  {dayPlays.map((event) => (
+                    <li
+                      key={`${event.played_at}-${event.track_name}`}
+                      className="flex items-center justify-between gap-4 py-2 text-sm"
+                    >
+                      <div className="min-w-0">
+                        {event.track_id ? (
+                          <button
+                            type="button"
+                            onClick={() =>
+                              window.open(
+                                `https://open.spotify.com/track/${event.track_id}`,
+                                '_blank'
+                              )
+                            }
+                            className="block max-w-full truncate text-left text-spotify-white hover:text-spotify-green cursor-pointer"
+                          >
+                            {event.track_name}
+                          </button>
+                        ) : (
+                          <span className="block truncate text-spotify-white">
+                            {event.track_name}
+                          </span>
+                        )}
+                        <span className="block truncate text-spotify-light-gray">
+                          {event.artist_name}
+                          {event.album_name ? ` • ${event.album_name}` : ''}
+                        </span>
+                      </div>
+                      <div className="shrink-0 text-right text-xs text-spotify-light-gray">
+                        <div>{format(new Date(event.played_at), 'h:mm a')}</div>
+                        <div>{SOURCE_LABELS[event.source]}</div>
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+              </section>
+            ))}
+
+            {visibleCount < filteredPlays.length && (
+              <div className="text-center">
+                <ActionButton
+                  onClick={() => setVisibleCount((count) => count + PAGE_SIZE)}
+                  variant="secondary"
+                >
+                  Show more
+                </ActionButton>
+              </div>
+            )}
+          </div>
+        )}
+      </main>
+    </PageContainer>
+  );
+}
@@ -0,0 +1,77 @@
+import { Metadata } from 'next';
+import Image from 'next/image';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { generateEnhancedMetadata } from '@/lib/seo';
+import {
+  SHARE_CARD_HEIGHT,
+  SHARE_CARD_WIDTH,
+  describeSharedPlaylist,
+  getPlaylistShareCard,
+  getPlaylistSharePath,
+  getShareCardUrl,
+  parseSharedPlaylist,
+  toURLSearchParams,
+} from '@/lib/sharing';
+import ActionButton from '@/ui/ActionButton';
+
+interface SharedPlaylistPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export async function generateMetadata({
+  searchParams,
+}: SharedPlaylistPageProps): Promise<Metadata> {
+  const playlist = parseSharedPlaylist(toURLSearchParams(await searchParams));
+  if (!playlist) {
+    return generateEnhancedMetadata({
+      title: 'Shared Playlist',
+      description: 'A playlist made from liked tracks with Spotify Time Machine.',
+      path: '/share/playlist',
+    });
+  }
+
+  return {
+    ...generateEnhancedMetadata({
+      title: playlist.name,
+      description: `${describeSharedPlaylist(playlist)}. A playlist made from liked tracks with Spotify Time Machine.`,
+      path: getPlaylistSharePath(playlist),
+      image: getShareCardUrl(getPlaylistShareCard(playlist)),
+      tags: ['shared playlist', 'Spotify playlist'],
+    }),
+    // Share links are personal; keep them out of search results but let previews render
+    robots: { index: false, follow: true },
+  };
+}
+
+export default async function SharedPlaylistPage({ searchParams }: SharedPlaylistPageProps) {
+  const playlist = parseSharedPlaylist(toURLSearchParams(await searchParams));
+  if (!playlist) notFound();
+
+  return (
+    <div className="min-h-screen bg-spotify-black flex items-center justify-center px-4 py-12">
+      <div className="w-full max-w-3xl text-center space-y-6">
+        <h1 className="sr-only">{playlist.name} - Shared Playlist</h1>
+        <Image
+          src={getShareCardUrl(getPlaylistShareCard(playlist))}
+          alt={`${playlist.name}: ${describeSharedPlaylist(playlist)}`}
+          width={SHARE_CARD_WIDTH}
+          height={SHARE_CARD_HEIGHT}
+          // Already rendered at its final size by /api/og/share
+          unoptimized
+          priority
+          className="w-full h-auto rounded-lg shadow-lg"
+        />
+
+        <div className="flex flex-col sm:flex-row gap-4 justify-center">
+          <Link href={playlist.spotifyUrl} target="_blank" rel="noopener noreferrer">
+            <ActionButton>Listen on Spotify</ActionButton>
+          </Link>
+          <Link href="/">
+            <ActionButton variant="secondary">Make your own</ActionButton>
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
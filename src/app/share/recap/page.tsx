@@ -0,0 +1,70 @@
+import { Metadata } from 'next';
+import Image from 'next/image';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { generateEnhancedMetadata } from '@/lib/seo';
+import {
+  getRecapShareCard,
+  getRecapSharePath,
+  getShareCardUrl,
+  parseSharedRecap,
+  toURLSearchParams,
+} from '@/lib/sharing';
+import { RECAP_IMAGE_HEIGHT, RECAP_IMAGE_WIDTH, getRecapSlideImageUrl } from '@/lib/yearInReview';
+import ActionButton from '@/ui/ActionButton';
+
+interface SharedRecapPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export async function generateMetadata({ searchParams }: SharedRecapPageProps): Promise<Metadata> {
+  const slide = parseSharedRecap(toURLSearchParams(await searchParams));
+  if (!slide) {
+    return generateEnhancedMetadata({
+      title: 'Year in Review',
+      description: 'A year of liked tracks, recapped with Spotify Time Machine.',
+      path: '/share/recap',
+    });
+  }
+
+  return {
+    ...generateEnhancedMetadata({
+      title: `${slide.eyebrow}: ${slide.title}`,
+      description: `${[slide.title, slide.subtitle].filter(Boolean).join(' ')}. A year of liked tracks, recapped with Spotify Time Machine.`,
+      path: getRecapSharePath(slide),
+      image: getShareCardUrl(getRecapShareCard(slide)),
+      tags: ['year in review', 'Spotify recap'],
+    }),
+    // Share links are personal; keep them out of search results but let previews render
+    robots: { index: false, follow: true },
+  };
+}
+
+export default async function SharedRecapPage({ searchParams }: SharedRecapPageProps) {
+  const slide = parseSharedRecap(toURLSearchParams(await searchParams));
+  if (!slide) notFound();
+
+  return (
+    <div className="min-h-screen bg-spotify-black flex items-center justify-center px-4 py-12">
+      <div className="w-full max-w-sm text-center space-y-6">
+        <h1 className="sr-only">
+          {slide.eyebrow}: {slide.title}
+        </h1>
+        <Image
+          src={getRecapSlideImageUrl(slide)}
+          alt={[slide.eyebrow, slide.title, slide.subtitle].filter(Boolean).join(' - ')}
+          width={RECAP_IMAGE_WIDTH}
+          height={RECAP_IMAGE_HEIGHT}
+          // Already rendered at its final size by /api/og/year-in-review
+          unoptimized
+          priority
+          className="w-full h-auto rounded-2xl shadow-lg"
+        />
+
+        <Link href="/year-in-review">
+          <ActionButton>See your own Year in Review</ActionButton>
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+import { Metadata } from 'next';
+import { generateEnhancedMetadata } from '@/lib/seo';
+
+export const metadata: Metadata = generateEnhancedMetadata({
+  title: 'Smart Playlists',
+  description:
+    'Keep rolling Spotify playlists like "Liked in the last 30 days" up to date automatically. Tracks you like are added and ones that age out are removed when you visit.',
+  path: '/smart-playlists',
+  tags: [
+    'smart playlists',
+    'rolling playlists',
+    'Spotify playlists',
+    'recently liked',
+    'automatic playlists',
+  ],
+});
+
+export default function SmartPlaylistsLayout({ children }: { children: React.ReactNode }) {
+  return children;
+}
@@ -0,0 +1,290 @@
+'use client';
+
+import { format, formatDistanceToNow } from 'date-fns';
+import { useSession } from 'next-auth/react';
+import Link from 'next/link';
+import Script from 'next/script';
+import React, { useState } from 'react';
+import { useSmartPlaylistSync, useSmartPlaylists } from '@/hooks/useSmartPlaylists';
+import Breadcrumb from '@/layout/Breadcrumb';
+import PageContainer from '@/layout/PageContainer';
+import { DEFAULT_PLAYLIST_RULES, countActiveRules } from '@/lib/playlistRules';
+import { generateWebApplicationSchema } from '@/lib/seo';
+import {
+  DEFAULT_SMART_PLAYLIST_NAME,
+  SMART_PLAYLIST_WINDOWS,
+  SmartPlaylist,
+  renderSmartPlaylistName,
+} from '@/lib/smartPlaylists';
+import ActionButton from '@/ui/ActionButton';
+import ErrorDisplay from '@/ui/ErrorDisplay';
+import FormField from '@/ui/FormField';
+import LoadingSpinner from '@/ui/LoadingSpinner';
+import Toast from '@/ui/Toast';
+import ToggleButton from '@/ui/ToggleButton';
+
+// Summarize what the last sync changed
+const describeDelta = (smartPlaylist: SmartPlaylist): string => {
+  if (!smartPlaylist.lastDelta) return 'No changes yet';
+  const { added, removed } = smartPlaylist.lastDelta;
+  if (added === 0 && removed === 0) return 'No changes';
+  return `+${added} added, −${removed} removed`;
+};
+
+export default function SmartPlaylistsPage() {
+  const { status } = useSession();
+  const { smartPlaylists, isLoading, error, addPlaylist, removePlaylist } = useSmartPlaylists();
+  const { syncNow, isLibraryReady, libraryError } = useSmartPlaylistSync(smartPlaylists);
+  const [nameTemplate, setNameTemplate] = useState('');
+  const [windowDays, setWindowDays] = useState(30);
+  const [isCreating, setIsCreating] = useState(false);
+  const [syncingIds, setSyncingIds] = useState<string[]>([]);
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+
+  const sync = async (ids: string[]) => {
+    setSyncingIds(ids);
+    try {
+      const results = await syncNow(ids);
+      const failed = results.filter((result) => result.lastError);
+      setToast(
+        failed.length > 0
+          ? { message: `Failed to sync ${failed.length} playlists.`, type: 'error' }
+          : { message: 'Smart playlists are up to date.', type: 'success' }
+      );
+    } catch (err) {
+      console.error('Error syncing smart playlists:', err);
+      setToast({ message: 'Failed to sync smart playlists.', type: 'error' });
+    } finally {
+      setSyncingIds([]);
+    }
+  };
+
+  const createSmartPlaylist = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+    const created = await addPlaylist({
+      nameTemplate: nameTemplate.trim() || DEFAULT_SMART_PLAYLIST_NAME,
+      windowDays,
+      rules: DEFAULT_PLAYLIST_RULES,
+    });
+    setIsCreating(false);
+
+    // The playlist is created on Spotify by the background sync once your library has loaded
+    if (created) {
+      setNameTemplate('');
+      setToast({
+        message: `Saved "${renderSmartPlaylistName(created)}". It will appear in Spotify shortly.`,
+        type: 'success',
+      });
+    }
+  };
+
+  const removeSmartPlaylist = async (smartPlaylist: SmartPlaylist) => {
+    await removePlaylist(smartPlaylist.id);
+    setToast({
+      message: `Stopped updating "${renderSmartPlaylistName(smartPlaylist)}". The playlist stays in your Spotify library.`,
+      type: 'success',
+    });
+  };
+
+  return (
+    <PageContainer isLoading={status === 'loading'} maxWidth="7xl" className="min-h-screen pb-20">
+      {/* SEO-optimized heading structure */}
+      <header className="mb-8">
+        <h1 className="sr-only">Smart Playlists - Rolling Playlists That Update Themselves</h1>
+        <Breadcrumb
+          items={[
+            { name: 'Home', url: '/dashboard' },
+            { name: 'Smart Playlists', url: '/smart-playlists' },
+          ]}
+        />
+      </header>
+
+      {/* Structured Data */}
+      <Script
+        id="smart-playlists-structured-data"
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{
+          __html: JSON.stringify(
+            generateWebApplicationSchema({
+              '@type': 'WebPage',
+              name: 'Smart Playlists - Spotify Time Machine',
+              description:
+                'Rolling Spotify playlists of recently liked tracks that update themselves.',
+              featureList: [
+                'Rolling date windows',
+                'Automatic sync on every visit',
+                'Genre and artist rules',
+                'Sync history with track changes',
+              ],
+            })
+          ),
+        }}
+      />
+
+      {toast && (
+        <Toast message={toast.message} type={toast.type} onDismiss={() => setToast(null)} />
+      )}
+
+      <main className="space-y-6" role="main">
+        <section
+          className="bg-spotify-dark-gray rounded-lg p-4 md:p-6 space-y-4"
+          aria-labelledby="new-smart-playlist-heading"
+        >
+          <div>
+            <h2 id="new-smart-playlist-heading" className="text-2xl font-bold text-spotify-white">
+              New Smart Playlist
+            </h2>
+            <p className="text-sm text-spotify-light-gray">
+              Smart playlists hold the tracks you liked within a rolling window. When you open the
+              app in this browser (at most once an hour), new likes are added and tracks that aged
+              out or were unliked are removed. Need genre or artist rules? Save them from the{' '}
+              <Link href="/playlist-generator" className="text-spotify-green hover:underline">
+                Playlist Generator
+              </Link>
+              .
+            </p>
+          </div>
+
+          <form onSubmit={createSmartPlaylist} className="space-y-4">
+            <FormField
+              id="smartPlaylistName"
+              label="Name"
+              type="text"
+              value={nameTemplate}
+              onChange={(e) => setNameTemplate(e.target.value)}
+              placeholder={DEFAULT_SMART_PLAYLIST_NAME}
+            />
+            <p className="text-xs text-spotify-light-gray -mt-2">
+              {'{days}'}, {'{start}'} and {'{end}'} are filled in on every sync.
+            </p>
+
+            <fieldset>
+              <legend className="block text-spotify-white mb-2 font-medium">Window</legend>
+              <div className="flex flex-wrap gap-2">
+                {SMART_PLAYLIST_WINDOWS.map((days) => (
+                  <ToggleButton
+                    key={days}
+                    id={days.toString()}
+                    label={`Last ${days} days`}
+                    isSelected={windowDays === days}
+                    onClick={(id) => setWindowDays(Number(id))}
+                  />
+                ))}
+              </div>
+            </fieldset>
+
+            <ActionButton type="submit" disabled={isCreating || syncingIds.length > 0}>
+              {isCreating ? 'Saving...' : 'Create Smart Playlist'}
+            </ActionButton>
+          </form>
+        </section>
+
+        <section
+          className="bg-spotify-dark-gray rounded-lg p-4 md:p-6 space-y-4"
+          aria-labelledby="smart-playlists-heading"
+        >
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+            <h2 id="smart-playlists-heading" className="text-2xl font-bold text-spotify-white">
+              Your Smart Playlists
+            </h2>
+            {smartPlaylists.length > 0 && (
+              <ActionButton
+                onClick={() => sync(smartPlaylists.map((smartPlaylist) => smartPlaylist.id))}
+                disabled={!isLibraryReady || syncingIds.length > 0}
+                variant="secondary"
+              >
+                {syncingIds.length > 0 ? 'Syncing...' : 'Sync all now'}
+              </ActionButton>
+            )}
+          </div>
+
+          {error && <ErrorDisplay message={error} />}
+          {smartPlaylists.length > 0 && libraryError && (
+            <ErrorDisplay
+              message={`${libraryError} Smart playlists won't sync until your liked tracks load.`}
+            />
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <LoadingSpinner />
+            </div>
+          ) : smartPlaylists.length === 0 ? (
+            <p className="text-center py-8 text-spotify-light-gray">
+              No smart playlists yet. Create one above to get started.
+            </p>
+          ) : (
+            <ul className="divide-y divide-spotify-medium-gray/40">
+              {smartPlaylists.map((smartPlaylist) => {
+                const isSyncing = syncingIds.includes(smartPlaylist.id);
+                const ruleCount = countActiveRules(smartPlaylist.rules);
+                return (
+                  <li
+                    key={smartPlaylist.id}
+                    className="flex flex-col md:flex-row md:items-center justify-between gap-4 py-4"
+                  >
+                    <div className="min-w-0 space-y-1">
+                      <h3 className="text-lg font-semibold text-spotify-white truncate">
+                        {renderSmartPlaylistName(smartPlaylist)}
+                      </h3>
+                      <p className="text-sm text-spotify-light-gray">
+                        Last {smartPlaylist.windowDays} days
+                        {ruleCount > 0 && ` • ${ruleCount} ${ruleCount === 1 ? 'rule' : 'rules'}`}
+                        {smartPlaylist.lastTrackCount !== null &&
+                          ` • ${smartPlaylist.lastTrackCount} tracks`}
+                      </p>
+                      <p className="text-xs text-spotify-light-gray">
+                        {smartPlaylist.lastSyncedAt ? (
+                          <span title={format(new Date(smartPlaylist.lastSyncedAt), 'PPpp')}>
+                            Synced{' '}
+                            {formatDistanceToNow(new Date(smartPlaylist.lastSyncedAt), {
+                              addSuffix: true,
+                            })}{' '}
+                            • {describeDelta(smartPlaylist)}
+                          </span>
+                        ) : (
+                          'Not synced yet'
+                        )}
+                      </p>
+                      {smartPlaylist.lastError && (
+                        <p className="text-xs text-red-400" role="alert">
+                          Last sync failed: {smartPlaylist.lastError}
+                        </p>
+                      )}
+                    </div>
+
+                    <div className="flex flex-wrap gap-2 shrink-0">
+                      {smartPlaylist.url && (
+                        <ActionButton
+                          onClick={() => window.open(smartPlaylist.url!, '_blank')}
+                          variant="secondary"
+                        >
+                          Open in Spotify
+                        </ActionButton>
+                      )}
+                      <ActionButton
+                        onClick={() => sync([smartPlaylist.id])}
+                        disabled={!isLibraryReady || syncingIds.length > 0}
+                        variant="secondary"
+                      >
+                        {isSyncing ? 'Syncing...' : 'Sync now'}
+                      </ActionButton>
+                      <ActionButton
+                        onClick={() => removeSmartPlaylist(smartPlaylist)}
+                        disabled={isSyncing}
+                        variant="secondary"
+                      >
+                        Remove
+                      </ActionButton>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </section>
+      </main>
+    </PageContainer>
+  );
+}
@@ -0,0 +1,14 @@
+import { Metadata } from 'next';
+import { generateEnhancedMetadata } from '@/lib/seo';
+
+export const metadata: Metadata = generateEnhancedMetadata({
+  title: 'Year in Review',
+  description:
+    'A Wrapped-style recap of any year of your Spotify liked tracks: total likes, your busiest month, new artists, genre shifts and the first and last tracks you saved.',
+  path: '/year-in-review',
+  tags: ['year in review', 'Spotify recap', 'Spotify wrapped', 'music year', 'liked tracks'],
+});
+
+export default function YearInReviewLayout({ children }: { children: React.ReactNode }) {
+  return children;
+}
@@ -0,0 +1,230 @@
+'use client';
+
+import { useSession } from 'next-auth/react';
+import Script from 'next/script';
+import React, { useEffect, useMemo, useState } from 'react';
+import RecapSlideCard from '@/features/recap/RecapSlideCard';
+import ShareButton from '@/features/share/ShareButton';
+import { useLikedArtists } from '@/hooks/useLikedArtists';
+import Breadcrumb from '@/layout/Breadcrumb';
+import PageContainer from '@/layout/PageContainer';
+import { downloadFile } from '@/lib/exportUtils';
+import { generateWebApplicationSchema } from '@/lib/seo';
+import { getRecapSharePath } from '@/lib/sharing';
+import {
+  buildYearRecap,
+  getRecapSlideImageUrl,
+  getRecapSlides,
+  getRecapYears,
+} from '@/lib/yearInReview';
+import ActionButton from '@/ui/ActionButton';
+import ErrorDisplay from '@/ui/ErrorDisplay';
+import LoadingSpinner from '@/ui/LoadingSpinner';
+import Toast from '@/ui/Toast';
+import ToggleButton from '@/ui/ToggleButton';
+
+export default function YearInReviewPage() {
+  const { status } = useSession();
+  const {
+    tracks,
+    isLoading,
+    isLoadingArtists,
+    error,
+    artistsDetails,
+    currentTimeRange,
+    setTimeRange,
+  } = useLikedArtists();
+  const [selectedYear, setSelectedYear] = useState<number | null>(null);
+  const [slideIndex, setSlideIndex] = useState(0);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+
+  // New artists and first likes only make sense against the whole library
+  useEffect(() => {
+    if (currentTimeRange !== 'ALL_TIME') setTimeRange('ALL_TIME');
+  }, [currentTimeRange, setTimeRange]);
+
+  const years = useMemo(() => getRecapYears(tracks), [tracks]);
+  const year = selectedYear ?? years[0] ?? null;
+
+  const slides = useMemo(
+    () => (year === null ? [] : getRecapSlides(buildYearRecap(tracks, artistsDetails, year))),
+    [tracks, artistsDetails, year]
+  );
+  const currentIndex = Math.min(slideIndex, Math.max(0, slides.length - 1));
+  const slide = slides[currentIndex];
+
+  const goTo = (index: number) => {
+    setSlideIndex(Math.max(0, Math.min(index, slides.length - 1)));
+  };
+
+  // Arrow keys flip through the story
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if (e.key === 'ArrowRight')
+        setSlideIndex((prev) => Math.max(0, Math.min(prev + 1, slides.length - 1)));
+      if (e.key === 'ArrowLeft') setSlideIndex((prev) => Math.max(prev - 1, 0));
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [slides.length]);
+
+  const selectYear = (nextYear: number) => {
+    setSelectedYear(nextYear);
+    setSlideIndex(0);
+  };
+
+  const downloadSlide = async () => {
+    if (!slide || year === null) return;
+    setIsDownloading(true);
+    try {
+      const response = await fetch(getRecapSlideImageUrl(slide));
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      downloadFile(
+        await response.blob(),
+        `year-in-review-${year}-${currentIndex + 1}-${slide.id}.png`,
+        'image/png'
+      );
+    } catch (err) {
+      console.error('Error rendering recap image:', err);
+      setToast({ message: 'Failed to create the image. Please try again.', type: 'error' });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const isOverallLoading = status === 'loading' || (isLoading && tracks.length === 0);
+
+  return (
+    <PageContainer isLoading={status === 'loading'} maxWidth="7xl" className="min-h-screen pb-20">
+      {/* SEO-optimized heading structure */}
+      <header className="mb-8">
+        <h1 className="sr-only">Year in Review - Your Spotify Year Recap</h1>
+        <Breadcrumb
+          items={[
+            { name: 'Home', url: '/dashboard' },
+            { name: 'Year in Review', url: '/year-in-review' },
+          ]}
+        />
+      </header>
+
+      {/* Structured Data */}
+      <Script
+        id="year-in-review-structured-data"
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{
+          __html: JSON.stringify(
+            generateWebApplicationSchema({
+              '@type': 'WebPage',
+              name: 'Year in Review - Spotify Time Machine',
+              description: 'A story-style recap of every year of your liked tracks.',
+              featureList: [
+                'Yearly liked track totals',
+                'Busiest month',
+                'New artists of the year',
+                'Quarter-over-quarter genre shifts',
+                'Downloadable story images',
+              ],
+            })
+          ),
+        }}
+      />
+
+      {toast && (
+        <Toast message={toast.message} type={toast.type} onDismiss={() => setToast(null)} />
+      )}
+
+      <main className="space-y-6" role="main">
+        <section className="bg-spotify-dark-gray rounded-lg p-4 md:p-6 space-y-4">
+          <div>
+            <h2 className="text-2xl font-bold text-spotify-white">Year in Review</h2>
+            <p className="text-sm text-spotify-light-gray">
+              Your year in liked tracks: how many you saved, when you were busiest, who you
+              discovered and how your taste moved. Download or share any slide as a story image.
+            </p>
+          </div>
+
+          {years.length > 1 && (
+            <div className="flex flex-wrap gap-2" role="group" aria-label="Year">
+              {years.map((option) => (
+                <ToggleButton
+                  key={option}
+                  id={option.toString()}
+                  label={option.toString()}
+                  isSelected={option === year}
+                  onClick={(id) => selectYear(Number(id))}
+                />
+              ))}
+            </div>
+          )}
+
+          {isLoadingArtists && (
+            <p className="text-xs text-spotify-light-gray">
+              Still looking up artists; genre shifts will fill in shortly.
+            </p>
+          )}
+        </section>
+
+        {error && <ErrorDisplay message={error} />}
+
+        {isOverallLoading ? (
+          <div className="flex justify-center py-16">
+            <LoadingSpinner />
+          </div>
+        ) : !slide ? (
+          <p className="text-center py-16 text-spotify-light-gray">
+            No liked tracks yet. Like some tracks on Spotify and come back for your recap.
+          </p>
+        ) : (
+          <section className="space-y-4" aria-roledescription="carousel" aria-label="Recap slides">
+            <div aria-live="polite" aria-atomic="true">
+              <RecapSlideCard slide={slide} />
+            </div>
+
+            <div className="flex justify-center gap-2" role="tablist" aria-label="Slides">
+              {slides.map((s, index) => (
+                <button
+                  key={s.id}
+                  type="button"
+                  role="tab"
+                  aria-selected={index === currentIndex}
+                  aria-label={`Slide ${index + 1}: ${s.eyebrow}`}
+                  onClick={() => goTo(index)}
+                  className={`h-2 rounded-full transition-all cursor-pointer ${
+                    index === currentIndex ? 'w-6 bg-spotify-green' : 'w-2 bg-spotify-medium-gray'
+                  }`}
+                />
+              ))}
+            </div>
+
+            <div className="flex flex-wrap justify-center gap-2">
+              <ActionButton
+                onClick={() => goTo(currentIndex - 1)}
+                disabled={currentIndex === 0}
+                variant="secondary"
+              >
+                Previous
+              </ActionButton>
+              <ActionButton onClick={downloadSlide} disabled={isDownloading} variant="secondary">
+                {isDownloading ? 'Rendering...' : 'Download image'}
+              </ActionButton>
+              <ShareButton
+                sharePath={getRecapSharePath(slide)}
+                text={`My ${year} in liked tracks: ${slide.title}`}
+                imageUrl={getRecapSlideImageUrl(slide)}
+                imageFileName={`year-in-review-${year}-${slide.id}.png`}
+              />
+              <ActionButton
+                onClick={() => goTo(currentIndex + 1)}
+                disabled={currentIndex === slides.length - 1}
+              >
+                Next
+              </ActionButton>
+            </div>
+          </section>
+        )}
+      </main>
+    </PageContainer>
+  );
+}
@@ -0,0 +1,283 @@
+'use client';
+
+import { KeyboardEvent, PointerEvent, ReactNode, useId, useMemo, useState } from 'react';
+import ChartFrame from '@/features/charts/ChartFrame';
+import ChartSelectionBar from '@/features/charts/ChartSelectionBar';
+import ChartTooltip, { ChartTooltipContent } from '@/features/charts/ChartTooltip';
+import { useChartBrush } from '@/hooks/useChartBrush';
+import { SPOTIFY_GREEN, SPOTIFY_LIGHT_GRAY, SPOTIFY_MEDIUM_GRAY } from '@/lib/branding';
+import {
+  CHART_FONT_FAMILY,
+  CHART_PADDING,
+  ChartRange,
+  getSvgX,
+  getZoomIndices,
+  niceTicks,
+  scaleLinear,
+} from '@/lib/chartUtils';
+
+export interface BarDatum {
+  // Period key, used for brushing and zooming
+  key: string;
+  label: string;
+  value: number;
+  // Extra tooltip lines
+  details?: string[];
+}
+
+interface BarChartProps {
+  title: string;
+  data: BarDatum[];
+  // Unit of the values, e.g. "tracks"
+  unit: string;
+  yAxisLabel: string;
+  color?: string;
+  // Whether a range of bars can be selected; only makes sense when keys are period keys
+  brushable?: boolean;
+  toolbar?: ReactNode;
+}
+
+const HEIGHT = 320;
+const MIN_WIDTH = 640;
+const MIN_BAND = 28;
+const MAX_BAR_WIDTH = 40;
+// Leave roughly this much room per x axis label
+const LABEL_SPACING = 56;
+
+const zoomButtonClassName =
+  'px-3 py-1 rounded-full text-xs bg-spotify-medium-gray text-spotify-white hover:bg-spotify-medium-gray/70 transition cursor-pointer';
+
+/**
+ * Bar chart over periods with tooltips, brushing to select a range, zoom and export
+ */
+export default function BarChart({
+  title,
+  data,
+  unit,
+  yAxisLabel,
+  color = SPOTIFY_GREEN,
+  brushable = true,
+  toolbar,
+}: BarChartProps) {
+  const tooltipId = useId();
+  const [zoom, setZoom] = useState<ChartRange | null>(null);
+  const [tooltip, setTooltip] = useState<ChartTooltipContent | null>(null);
+
+  const zoomIndices = getZoomIndices(
+    data.map((datum) => datum.key),
+    zoom
+  );
+  const isZoomed = zoomIndices !== null;
+  const [zoomStart, zoomEnd] = zoomIndices ?? [0, data.length - 1];
+  const visibleData = useMemo(() => data.slice(zoomStart, zoomEnd + 1), [data, zoomStart, zoomEnd]);
+
+  const keys = useMemo(() => visibleData.map((datum) => datum.key), [visibleData]);
+  const { selection, isBrushing, startBrush, moveBrush, endBrush, toggleBrushAt, clearBrush } =
+    useChartBrush(keys);
+
+  const width = Math.max(
+    MIN_WIDTH,
+    CHART_PADDING.left + CHART_PADDING.right + visibleData.length * MIN_BAND
+  );
+  const plotWidth = width - CHART_PADDING.left - CHART_PADDING.right;
+  const band = plotWidth / Math.max(1, visibleData.length);
+  const barWidth = Math.min(band * 0.7, MAX_BAR_WIDTH);
+  const baseline = HEIGHT - CHART_PADDING.bottom;
+
+  const ticks = niceTicks(Math.max(0, ...visibleData.map((datum) => datum.value)));
+  const y = scaleLinear([0, ticks.at(-1) ?? 1], [baseline, CHART_PADDING.top]);
+  const labelEvery = Math.max(1, Math.ceil(LABEL_SPACING / band));
+
+  const indexAt = (event: PointerEvent<SVGSVGElement>) =>
+    Math.max(
+      0,
+      Math.min(
+        visibleData.length - 1,
+        Math.floor((getSvgX(event.currentTarget, event.clientX) - CHART_PADDING.left) / band)
+      )
+    );
+
+  const describe = (datum: BarDatum) => [
+    `${datum.value.toLocaleString()} ${unit}`,
+    ...(datum.details ?? []),
+  ];
+
+  const showTooltip = (index: number) => {
+    const datum = visibleData[index];
+    if (!datum) return;
+    setTooltip({
+      x: CHART_PADDING.left + band * (index + 0.5),
+      y: y(datum.value),
+      title: datum.label,
+      lines: describe(datum),
+    });
+  };
+
+  const handlePointerDown = (event: PointerEvent<SVGSVGElement>) => {
+    // Touch drags scroll the chart instead
+    if (!brushable || event.pointerType === 'touch' || event.button !== 0) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    startBrush(indexAt(event));
+  };
+
+  const handlePointerMove = (event: PointerEvent<SVGSVGElement>) => {
+    if (isBrushing) moveBrush(indexAt(event));
+    showTooltip(indexAt(event));
+  };
+
+  const handleBarKeyDown = (event: KeyboardEvent<SVGRectElement>, index: number) => {
+    if (!brushable) return;
+    if (event.key === 'Enter' || event.key === ' ') {
+      event.preventDefault();
+      toggleBrushAt(index);
+    } else if (event.key === 'Escape') {
+      clearBrush();
+    }
+  };
+
+  const zoomToSelection = () => {
+    if (!selection) return;
+    setZoom({ from: selection.from, to: selection.to });
+    clearBrush();
+  };
+
+  return (
+    <ChartFrame
+      title={title}
+      toolbar={
+        <>
+          {toolbar}
+          {isZoomed && (
+            <button type="button" onClick={() => setZoom(null)} className={zoomButtonClassName}>
+              Reset zoom
+            </button>
+          )}
+        </>
+      }
+      footer={
+        !brushable ? null : selection && !isBrushing ? (
+          <ChartSelectionBar
+            range={selection}
+            onZoom={selection.startIndex !== selection.endIndex ? zoomToSelection : undefined}
+            onClear={clearBrush}
+          />
+        ) : (
+          <p className="text-xs text-spotify-light-gray">
+            Drag across the bars, or press Enter on two bars, to select a range.
+          </p>
+        )
+      }
+    >
+      <div className="relative" style={{ minWidth: width }}>
+        <svg
+          viewBox={`0 0 ${width} ${HEIGHT}`}
+          className="w-full h-auto select-none"
+          role="group"
+          aria-label={`${title}. ${yAxisLabel}.`}
+          fontFamily={CHART_FONT_FAMILY}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={endBrush}
+          onPointerLeave={() => setTooltip(null)}
+        >
+          {/* Y axis */}
+          <g aria-hidden="true">
+            {ticks.map((tick) => (
+              <g key={tick}>
+                <line
+                  x1={CHART_PADDING.left}
+                  x2={width - CHART_PADDING.right}
+                  y1={y(tick)}
+                  y2={y(tick)}
+                  stroke={SPOTIFY_MEDIUM_GRAY}
+                  strokeOpacity={0.5}
+                  strokeDasharray={tick === 0 ? undefined : '2 4'}
+                />
+                <text
+                  x={CHART_PADDING.left - 8}
+                  y={y(tick)}
+                  dy="0.32em"
+                  textAnchor="end"
+                  fontSize={11}
+                  fill={SPOTIFY_LIGHT_GRAY}
+                >
+                  {tick.toLocaleString()}
+                </text>
+              </g>
+            ))}
+            <text
+              transform={`translate(12 ${(CHART_PADDING.top + baseline) / 2}) rotate(-90)`}
+              textAnchor="middle"
+              fontSize={11}
+              fill={SPOTIFY_LIGHT_GRAY}
+            >
+              {yAxisLabel}
+            </text>
+          </g>
+
+          {/* Brushed range */}
+          {selection && (
+            <rect
+              x={CHART_PADDING.left + band * selection.startIndex}
+              y={CHART_PADDING.top}
+              width={band * (selection.endIndex - selection.startIndex + 1)}
+              height={baseline - CHART_PADDING.top}
+              fill="#ffffff"
+              fillOpacity={0.08}
+              aria-hidden="true"
+            />
+          )}
+
+          {/* Bars */}
+          <g>
+            {visibleData.map((datum, index) => {
+              const isSelected =
+                !selection || (index >= selection.startIndex && index <= selection.endIndex);
+              const top = datum.value > 0 ? Math.min(y(datum.value), baseline - 2) : baseline;
+              return (
+                <rect
+                  key={datum.key}
+                  x={CHART_PADDING.left + band * index + (band - barWidth) / 2}
+                  y={top}
+                  width={barWidth}
+                  height={baseline - top}
+                  rx={3}
+                  fill={color}
+                  fillOpacity={isSelected ? 1 : 0.35}
+                  tabIndex={0}
+                  role="img"
+                  aria-label={`${datum.label}: ${describe(datum).join(', ')}`}
+                  aria-describedby={tooltip ? tooltipId : undefined}
+                  className="outline-none focus:stroke-white focus:stroke-2"
+                  onFocus={() => showTooltip(index)}
+                  onBlur={() => setTooltip(null)}
+                  onKeyDown={(event) => handleBarKeyDown(event, index)}
+                />
+              );
+            })}
+          </g>
+
+          {/* X axis */}
+          <g aria-hidden="true">
+            {visibleData.map((datum, index) =>
+              index % labelEvery === 0 ? (
+                <text
+                  key={datum.key}
+                  transform={`translate(${CHART_PADDING.left + band * (index + 0.5)} ${
+                    baseline + 14
+                  }) rotate(-35)`}
+                  textAnchor="end"
+                  fontSize={11}
+                  fill={SPOTIFY_LIGHT_GRAY}
+                >
+                  {datum.label}
+                </text>
+              ) : null
+            )}
+          </g>
+        </svg>
+        <ChartTooltip id={tooltipId} tooltip={tooltip} width={width} height={HEIGHT} />
+      </div>
+    </ChartFrame>
+  );
+}
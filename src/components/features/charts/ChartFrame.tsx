@@ -0,0 +1,91 @@
+'use client';
+
+import { ReactNode, useRef, useState } from 'react';
+import { renderSvgToPng, serializeSvg } from '@/lib/chartUtils';
+import { downloadFile } from '@/lib/exportUtils';
+
+interface ChartFrameProps {
+  // Names the chart for screen readers and exported files
+  title: string;
+  // Controls shown above the chart, next to the export buttons
+  toolbar?: ReactNode;
+  // Shown below the chart, e.g. actions for a brushed range
+  footer?: ReactNode;
+  children: ReactNode;
+}
+
+const toFileName = (title: string) =>
+  title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+
+const exportButtonClassName =
+  'px-3 py-1 rounded-full text-xs bg-spotify-medium-gray text-spotify-white hover:bg-spotify-medium-gray/70 transition cursor-pointer disabled:opacity-50';
+
+export default function ChartFrame({ title, toolbar, footer, children }: ChartFrameProps) {
+  const chartRef = useRef<HTMLDivElement>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const getSvg = () => chartRef.current?.querySelector('svg') ?? null;
+
+  const exportSvg = () => {
+    const svg = getSvg();
+    if (!svg) return;
+    downloadFile(serializeSvg(svg), `${toFileName(title)}.svg`, 'image/svg+xml');
+  };
+
+  const exportPng = async () => {
+    const svg = getSvg();
+    if (!svg) return;
+    setIsExporting(true);
+    setExportError(null);
+
+    try {
+      downloadFile(await renderSvgToPng(svg), `${toFileName(title)}.png`, 'image/png');
+    } catch (err) {
+      console.error('Error exporting chart:', err);
+      setExportError('Could not export the chart as an image. Try SVG instead.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <figure className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap items-center gap-2">{toolbar}</div>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={exportPng}
+            disabled={isExporting}
+            className={exportButtonClassName}
+            aria-label={`Download ${title} as PNG`}
+          >
+            {isExporting ? 'Exporting...' : 'PNG'}
+          </button>
+          <button
+            type="button"
+            onClick={exportSvg}
+            className={exportButtonClassName}
+            aria-label={`Download ${title} as SVG`}
+          >
+            SVG
+          </button>
+        </div>
+      </div>
+      <div ref={chartRef} className="overflow-x-auto">
+        {children}
+      </div>
+      {exportError && (
+        <p className="text-xs text-red-400" role="alert">
+          {exportError}
+        </p>
+      )}
+      {footer}
+      <figcaption className="sr-only">{title}</figcaption>
+    </figure>
+  );
+}
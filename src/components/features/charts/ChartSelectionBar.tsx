@@ -0,0 +1,44 @@
+'use client';
+
+import Link from 'next/link';
+import { ChartRange, getChartRangeLinks } from '@/lib/chartUtils';
+
+interface ChartSelectionBarProps {
+  range: ChartRange;
+  onZoom?: () => void;
+  onClear: () => void;
+}
+
+const actionClassName =
+  'px-3 py-1 rounded-full text-xs bg-spotify-medium-gray text-spotify-white hover:bg-spotify-medium-gray/70 transition cursor-pointer';
+
+export default function ChartSelectionBar({ range, onZoom, onClear }: ChartSelectionBarProps) {
+  const links = getChartRangeLinks(range);
+
+  return (
+    <div
+      className="flex flex-wrap items-center gap-2 bg-spotify-black/40 rounded-lg px-3 py-2"
+      role="region"
+      aria-label="Selected range"
+    >
+      <span className="text-sm font-medium text-spotify-white mr-auto">{links.label}</span>
+      {onZoom && (
+        <button type="button" onClick={onZoom} className={actionClassName}>
+          Zoom in
+        </button>
+      )}
+      <Link href={links.historyPath} className={actionClassName}>
+        Open in history
+      </Link>
+      <Link
+        href={links.generatorPath}
+        className="px-3 py-1 rounded-full text-xs bg-spotify-green text-spotify-black font-semibold hover:bg-spotify-green/90 transition"
+      >
+        Make a playlist
+      </Link>
+      <button type="button" onClick={onClear} className={actionClassName}>
+        Clear
+      </button>
+    </div>
+  );
+}
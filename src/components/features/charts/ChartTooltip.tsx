@@ -0,0 +1,42 @@
+'use client';
+
+export interface ChartTooltipContent {
+  // Anchor point in the chart's viewBox units
+  x: number;
+  y: number;
+  title: string;
+  lines: string[];
+}
+
+interface ChartTooltipProps {
+  id: string;
+  tooltip: ChartTooltipContent | null;
+  // The chart's viewBox size, to place the anchor over the scaled SVG
+  width: number;
+  height: number;
+}
+
+export default function ChartTooltip({ id, tooltip, width, height }: ChartTooltipProps) {
+  if (!tooltip) return null;
+
+  // Open below anchors near the top so the tooltip isn't clipped by the chart
+  const opensBelow = tooltip.y < height / 2;
+
+  return (
+    <div
+      id={id}
+      role="tooltip"
+      className={`absolute z-10 pointer-events-none -translate-x-1/2 ${
+        opensBelow ? 'mt-2' : '-translate-y-full -mt-2'
+      } bg-spotify-black/90 border border-spotify-medium-gray/60 rounded-md px-3 py-2 text-xs shadow-lg whitespace-nowrap`}
+      style={{ left: `${(tooltip.x / width) * 100}%`, top: `${(tooltip.y / height) * 100}%` }}
+    >
+      <p className="font-semibold text-spotify-white">{tooltip.title}</p>
+      {tooltip.lines.map((line) => (
+        <p key={line} className="text-spotify-light-gray">
+          {line}
+        </p>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,254 @@
+'use client';
+
+import { KeyboardEvent, ReactNode, useId, useRef, useState } from 'react';
+import ChartFrame from '@/features/charts/ChartFrame';
+import ChartTooltip, { ChartTooltipContent } from '@/features/charts/ChartTooltip';
+import { SPOTIFY_GREEN, SPOTIFY_LIGHT_GRAY, SPOTIFY_MEDIUM_GRAY } from '@/lib/branding';
+import { CHART_FONT_FAMILY } from '@/lib/chartUtils';
+
+export interface HeatmapCell {
+  row: number;
+  column: number;
+}
+
+interface HeatmapChartProps {
+  title: string;
+  rows: Array<{ key: string; label: string }>;
+  // Columns without a label get no axis text, e.g. all but the first week of a month
+  columns: Array<{ key: string; label?: string }>;
+  // values[row][column]; null where there is no cell, e.g. days outside the year
+  values: Array<Array<number | null>>;
+  describeCell: (cell: HeatmapCell, value: number) => Pick<ChartTooltipContent, 'title' | 'lines'>;
+  cellSize?: number;
+  color?: string;
+  selectedCell?: HeatmapCell | null;
+  onSelectCell?: (cell: HeatmapCell) => void;
+  toolbar?: ReactNode;
+}
+
+const GAP = 3;
+const TOP = 20;
+const PADDING = 8;
+// Opacity of the four intensity levels above zero
+const LEVEL_OPACITY = [0.3, 0.5, 0.75, 1];
+
+/**
+ * Intensity level 0-4 of a value: 0 only for nothing, then quarters of the maximum
+ */
+const getLevel = (value: number, max: number) =>
+  value <= 0 || max <= 0 ? 0 : Math.min(4, Math.ceil((value / max) * 4));
+
+/**
+ * Grid of cells shaded by value, with arrow-key navigation, tooltips, an optional selected cell
+ * and export
+ */
+export default function HeatmapChart({
+  title,
+  rows,
+  columns,
+  values,
+  describeCell,
+  cellSize = 24,
+  color = SPOTIFY_GREEN,
+  selectedCell = null,
+  onSelectCell,
+  toolbar,
+}: HeatmapChartProps) {
+  const tooltipId = useId();
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [tooltip, setTooltip] = useState<ChartTooltipContent | null>(null);
+  const [activeCell, setActiveCell] = useState<HeatmapCell>({ row: 0, column: 0 });
+
+  const labelWidth = Math.min(
+    160,
+    PADDING + Math.max(0, ...rows.map((row) => row.label.length)) * 6.5
+  );
+  const pitch = cellSize + GAP;
+  const width = labelWidth + columns.length * pitch + PADDING;
+  const height = TOP + rows.length * pitch + PADDING;
+  const max = Math.max(0, ...values.flat().map((value) => value ?? 0));
+
+  const cellX = (column: number) => labelWidth + column * pitch;
+  const cellY = (row: number) => TOP + row * pitch;
+  const valueAt = ({ row, column }: HeatmapCell) => values[row]?.[column] ?? null;
+
+  // The first existing cell gets focus until the user moves it
+  const focusableCell =
+    valueAt(activeCell) !== null
+      ? activeCell
+      : (() => {
+          for (let column = 0; column < columns.length; column++) {
+            for (let row = 0; row < rows.length; row++) {
+              if (valueAt({ row, column }) !== null) return { row, column };
+            }
+          }
+          return activeCell;
+        })();
+
+  const showTooltip = (cell: HeatmapCell) => {
+    const value = valueAt(cell);
+    if (value === null) return;
+    setTooltip({
+      x: cellX(cell.column) + cellSize / 2,
+      y: cellY(cell.row),
+      ...describeCell(cell, value),
+    });
+  };
+
+  const moveFocus = (cell: HeatmapCell, rowStep: number, columnStep: number) => {
+    let next = { row: cell.row + rowStep, column: cell.column + columnStep };
+    // Skip over missing cells in the direction of travel
+    while (
+      next.row >= 0 &&
+      next.row < rows.length &&
+      next.column >= 0 &&
+      next.column < columns.length &&
+      valueAt(next) === null
+    ) {
+      next = { row: next.row + rowStep, column: next.column + columnStep };
+    }
+    if (valueAt(next) === null) return;
+
+    setActiveCell(next);
+    svgRef.current
+      ?.querySelector<SVGRectElement>(`[data-cell="${next.row}-${next.column}"]`)
+      ?.focus();
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<SVGRectElement>, cell: HeatmapCell) => {
+    const moves: Record<string, [number, number]> = {
+      ArrowUp: [-1, 0],
+      ArrowDown: [1, 0],
+      ArrowLeft: [0, -1],
+      ArrowRight: [0, 1],
+    };
+    if (moves[event.key]) {
+      event.preventDefault();
+      moveFocus(cell, ...moves[event.key]);
+    } else if ((event.key === 'Enter' || event.key === ' ') && onSelectCell) {
+      event.preventDefault();
+      onSelectCell(cell);
+    }
+  };
+
+  return (
+    <ChartFrame
+      title={title}
+      toolbar={toolbar}
+      footer={
+        <div className="flex items-center justify-end gap-1 text-xs text-spotify-light-gray">
+          <span className="mr-1">Less</span>
+          {[0, ...LEVEL_OPACITY].map((opacity, level) => (
+            <span
+              key={level}
+              className="w-3 h-3 rounded-sm"
+              style={{
+                backgroundColor: level === 0 ? SPOTIFY_MEDIUM_GRAY : color,
+                opacity: level === 0 ? 0.4 : opacity,
+              }}
+              aria-hidden="true"
+            />
+          ))}
+          <span className="ml-1">More</span>
+        </div>
+      }
+    >
+      <div className="relative" style={{ minWidth: width }}>
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${width} ${height}`}
+          className="w-full h-auto select-none"
+          role="group"
+          aria-label={`${title}. Use the arrow keys to move between cells.`}
+          fontFamily={CHART_FONT_FAMILY}
+          onPointerLeave={() => setTooltip(null)}
+        >
+          {/* Column labels */}
+          <g aria-hidden="true">
+            {columns.map((column, index) =>
+              column.label ? (
+                <text
+                  key={column.key}
+                  x={cellX(index)}
+                  y={TOP - 6}
+                  fontSize={11}
+                  fill={SPOTIFY_LIGHT_GRAY}
+                >
+                  {column.label}
+                </text>
+              ) : null
+            )}
+          </g>
+
+          {/* Row labels */}
+          <g aria-hidden="true">
+            {rows.map((row, index) => (
+              <text
+                key={row.key}
+                x={labelWidth - PADDING}
+                y={cellY(index) + cellSize / 2}
+                dy="0.32em"
+                textAnchor="end"
+                fontSize={11}
+                fill={SPOTIFY_LIGHT_GRAY}
+              >
+                {row.label}
+              </text>
+            ))}
+          </g>
+
+          {/* Cells */}
+          <g>
+            {rows.map((row, rowIndex) =>
+              columns.map((column, columnIndex) => {
+                const cell = { row: rowIndex, column: columnIndex };
+                const value = valueAt(cell);
+                if (value === null) return null;
+
+                const level = getLevel(value, max);
+                const isSelected =
+                  selectedCell?.row === rowIndex && selectedCell?.column === columnIndex;
+                const isFocusable =
+                  focusableCell.row === rowIndex && focusableCell.column === columnIndex;
+                const { title: cellTitle, lines } = describeCell(cell, value);
+
+                return (
+                  <rect
+                    key={`${row.key}-${column.key}`}
+                    data-cell={`${rowIndex}-${columnIndex}`}
+                    x={cellX(columnIndex)}
+                    y={cellY(rowIndex)}
+                    width={cellSize}
+                    height={cellSize}
+                    rx={Math.min(4, cellSize / 5)}
+                    fill={level === 0 ? SPOTIFY_MEDIUM_GRAY : color}
+                    fillOpacity={level === 0 ? 0.4 : LEVEL_OPACITY[level - 1]}
+                    stroke={isSelected ? '#ffffff' : undefined}
+                    strokeWidth={isSelected ? 2 : undefined}
+                    tabIndex={isFocusable ? 0 : -1}
+                    role={onSelectCell ? 'button' : 'img'}
+                    aria-label={[cellTitle, ...lines].join(', ')}
+                    aria-pressed={onSelectCell ? isSelected : undefined}
+                    aria-describedby={tooltip ? tooltipId : undefined}
+                    className={`outline-none focus:stroke-white focus:stroke-2 ${
+                      onSelectCell ? 'cursor-pointer' : ''
+                    }`}
+                    onPointerEnter={() => showTooltip(cell)}
+                    onFocus={() => {
+                      setActiveCell(cell);
+                      showTooltip(cell);
+                    }}
+                    onBlur={() => setTooltip(null)}
+                    onClick={onSelectCell ? () => onSelectCell(cell) : undefined}
+                    onKeyDown={(event) => handleKeyDown(event, cell)}
+                  />
+                );
+              })
+            )}
+          </g>
+        </svg>
+        <ChartTooltip id={tooltipId} tooltip={tooltip} width={width} height={height} />
+      </div>
+    </ChartFrame>
+  );
+}
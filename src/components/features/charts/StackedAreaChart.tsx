@@ -0,0 +1,352 @@
+'use client';
+
+import { KeyboardEvent, PointerEvent, ReactNode, useId, useMemo, useState } from 'react';
+import ChartFrame from '@/features/charts/ChartFrame';
+import ChartSelectionBar from '@/features/charts/ChartSelectionBar';
+import ChartTooltip, { ChartTooltipContent } from '@/features/charts/ChartTooltip';
+import { useChartBrush } from '@/hooks/useChartBrush';
+import { SPOTIFY_LIGHT_GRAY, SPOTIFY_MEDIUM_GRAY } from '@/lib/branding';
+import {
+  CHART_FONT_FAMILY,
+  CHART_PADDING,
+  ChartRange,
+  ChartSeries,
+  StackOffset,
+  getChartColor,
+  getSvgX,
+  getZoomIndices,
+  niceTicks,
+  scaleLinear,
+  stackSeries,
+} from '@/lib/chartUtils';
+
+interface StackedAreaChartProps {
+  title: string;
+  // Period keys along the x axis, oldest first
+  periods: string[];
+  formatPeriod: (period: string) => string;
+  series: ChartSeries[];
+  // zero: stacked counts, expand: shares of each period, silhouette: streamgraph
+  offset: StackOffset;
+  unit: string;
+  toolbar?: ReactNode;
+}
+
+const HEIGHT = 360;
+const MIN_WIDTH = 640;
+const MIN_STEP = 36;
+const LABEL_SPACING = 56;
+// Series listed in a tooltip, largest first
+const TOOLTIP_SERIES = 6;
+
+const buttonClassName =
+  'px-3 py-1 rounded-full text-xs bg-spotify-medium-gray text-spotify-white hover:bg-spotify-medium-gray/70 transition cursor-pointer';
+
+const formatShare = (share: number) => `${Math.round(share * 100)}%`;
+
+/**
+ * Stacked area chart and streamgraph over periods, with a legend that highlights a series,
+ * tooltips per period, brushing to select a range, zoom and export
+ */
+export default function StackedAreaChart({
+  title,
+  periods,
+  formatPeriod,
+  series,
+  offset,
+  unit,
+  toolbar,
+}: StackedAreaChartProps) {
+  const tooltipId = useId();
+  const [zoom, setZoom] = useState<ChartRange | null>(null);
+  const [tooltip, setTooltip] = useState<ChartTooltipContent | null>(null);
+  const [highlighted, setHighlighted] = useState<string | null>(null);
+
+  const zoomIndices = getZoomIndices(periods, zoom);
+  const isZoomed = zoomIndices !== null;
+  const [zoomStart, zoomEnd] = zoomIndices ?? [0, periods.length - 1];
+  const visiblePeriods = useMemo(
+    () => periods.slice(zoomStart, zoomEnd + 1),
+    [periods, zoomStart, zoomEnd]
+  );
+  const visibleSeries = useMemo(
+    () => series.map((s) => ({ ...s, values: s.values.slice(zoomStart, zoomEnd + 1) })),
+    [series, zoomStart, zoomEnd]
+  );
+  const layers = useMemo(() => stackSeries(visibleSeries, offset), [visibleSeries, offset]);
+  const totals = visiblePeriods.map((_, i) =>
+    visibleSeries.reduce((sum, s) => sum + (s.values[i] ?? 0), 0)
+  );
+
+  const { selection, isBrushing, startBrush, moveBrush, endBrush, toggleBrushAt, clearBrush } =
+    useChartBrush(visiblePeriods);
+
+  const count = visiblePeriods.length;
+  const width = Math.max(MIN_WIDTH, CHART_PADDING.left + CHART_PADDING.right + count * MIN_STEP);
+  const plotWidth = width - CHART_PADDING.left - CHART_PADDING.right;
+  const baseline = HEIGHT - CHART_PADDING.bottom;
+  // Periods sit on evenly spaced points; a single period is drawn across the whole plot
+  const step = count > 1 ? plotWidth / (count - 1) : plotWidth;
+  const xAt = (index: number) =>
+    count > 1 ? CHART_PADDING.left + index * step : CHART_PADDING.left + plotWidth / 2;
+
+  const maxTotal = Math.max(0, ...totals);
+  const ticks =
+    offset === 'expand' ? [0, 0.25, 0.5, 0.75, 1] : offset === 'zero' ? niceTicks(maxTotal) : [];
+  const domain: [number, number] =
+    offset === 'silhouette' ? [-maxTotal / 2, maxTotal / 2] : [0, ticks.at(-1) || 1];
+  const y = scaleLinear(domain, [baseline, CHART_PADDING.top]);
+  const labelEvery = Math.max(1, Math.ceil(LABEL_SPACING / (count > 1 ? step : plotWidth)));
+
+  const areaPath = (layer: Array<[number, number]>) => {
+    const xs =
+      count > 1 ? layer.map((_, i) => xAt(i)) : [CHART_PADDING.left, width - CHART_PADDING.right];
+    const points = count > 1 ? layer : [layer[0], layer[0]];
+    const upper = points.map(([, y1], i) => `${xs[i]},${y(y1)}`);
+    const lower = points.map(([y0], i) => `${xs[i]},${y(y0)}`).toReversed();
+    return `M${upper.join('L')}L${lower.join('L')}Z`;
+  };
+
+  const describePeriod = (index: number): string[] =>
+    visibleSeries
+      .map((s) => ({ label: s.label, value: s.values[index] ?? 0 }))
+      .filter(({ value }) => value > 0)
+      .toSorted((a, b) => b.value - a.value)
+      .map(
+        ({ label, value }) =>
+          `${label}: ${value.toLocaleString()} ${unit} (${formatShare(
+            totals[index] > 0 ? value / totals[index] : 0
+          )})`
+      );
+
+  const showTooltip = (index: number) => {
+    if (!visiblePeriods[index]) return;
+    const lines = describePeriod(index);
+    setTooltip({
+      x: xAt(index),
+      y: CHART_PADDING.top + 8,
+      title: `${formatPeriod(visiblePeriods[index])} · ${totals[index].toLocaleString()} ${unit}`,
+      lines:
+        lines.length > TOOLTIP_SERIES
+          ? [...lines.slice(0, TOOLTIP_SERIES), `+${lines.length - TOOLTIP_SERIES} more`]
+          : lines,
+    });
+  };
+
+  const indexAt = (event: PointerEvent<SVGSVGElement>) =>
+    count > 1
+      ? Math.max(
+          0,
+          Math.min(
+            count - 1,
+            Math.round((getSvgX(event.currentTarget, event.clientX) - CHART_PADDING.left) / step)
+          )
+        )
+      : 0;
+
+  const handlePointerDown = (event: PointerEvent<SVGSVGElement>) => {
+    // Touch drags scroll the chart instead
+    if (event.pointerType === 'touch' || event.button !== 0) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    startBrush(indexAt(event));
+  };
+
+  const handlePointerMove = (event: PointerEvent<SVGSVGElement>) => {
+    if (isBrushing) moveBrush(indexAt(event));
+    showTooltip(indexAt(event));
+  };
+
+  const handlePeriodKeyDown = (event: KeyboardEvent<SVGRectElement>, index: number) => {
+    if (event.key === 'Enter' || event.key === ' ') {
+      event.preventDefault();
+      toggleBrushAt(index);
+    } else if (event.key === 'Escape') {
+      clearBrush();
+    }
+  };
+
+  const zoomToSelection = () => {
+    if (!selection) return;
+    setZoom({ from: selection.from, to: selection.to });
+    clearBrush();
+  };
+
+  // Half a step either side of a period, clamped to the plot
+  const columnBounds = (index: number): [number, number] =>
+    count > 1
+      ? [
+          Math.max(CHART_PADDING.left, xAt(index) - step / 2),
+          Math.min(width - CHART_PADDING.right, xAt(index) + step / 2),
+        ]
+      : [CHART_PADDING.left, width - CHART_PADDING.right];
+
+  return (
+    <ChartFrame
+      title={title}
+      toolbar={
+        <>
+          {toolbar}
+          {isZoomed && (
+            <button type="button" onClick={() => setZoom(null)} className={buttonClassName}>
+              Reset zoom
+            </button>
+          )}
+        </>
+      }
+      footer={
+        <>
+          <ul className="flex flex-wrap gap-2" aria-label="Legend">
+            {series.map((s, index) => (
+              <li key={s.key}>
+                <button
+                  type="button"
+                  onClick={() => setHighlighted((prev) => (prev === s.key ? null : s.key))}
+                  aria-pressed={highlighted === s.key}
+                  className={`flex items-center gap-1.5 px-2 py-0.5 rounded-full text-xs capitalize transition cursor-pointer ${
+                    highlighted === s.key
+                      ? 'bg-spotify-medium-gray text-spotify-white'
+                      : 'text-spotify-light-gray hover:text-spotify-white'
+                  }`}
+                >
+                  <span
+                    className="w-3 h-3 rounded-full"
+                    style={{ backgroundColor: getChartColor(index) }}
+                    aria-hidden="true"
+                  />
+                  {s.label}
+                </button>
+              </li>
+            ))}
+          </ul>
+          {selection && !isBrushing ? (
+            <ChartSelectionBar
+              range={selection}
+              onZoom={selection.startIndex !== selection.endIndex ? zoomToSelection : undefined}
+              onClear={clearBrush}
+            />
+          ) : (
+            <p className="text-xs text-spotify-light-gray">
+              Drag across the chart, or press Enter on two periods, to select a range. Pick a legend
+              entry to highlight it.
+            </p>
+          )}
+        </>
+      }
+    >
+      <div className="relative" style={{ minWidth: width }}>
+        <svg
+          viewBox={`0 0 ${width} ${HEIGHT}`}
+          className="w-full h-auto select-none"
+          role="group"
+          aria-label={title}
+          fontFamily={CHART_FONT_FAMILY}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={endBrush}
+          onPointerLeave={() => setTooltip(null)}
+        >
+          {/* Y axis; a streamgraph has no meaningful scale */}
+          <g aria-hidden="true">
+            {ticks.map((tick) => (
+              <g key={tick}>
+                <line
+                  x1={CHART_PADDING.left}
+                  x2={width - CHART_PADDING.right}
+                  y1={y(tick)}
+                  y2={y(tick)}
+                  stroke={SPOTIFY_MEDIUM_GRAY}
+                  strokeOpacity={0.5}
+                  strokeDasharray={tick === 0 ? undefined : '2 4'}
+                />
+                <text
+                  x={CHART_PADDING.left - 8}
+                  y={y(tick)}
+                  dy="0.32em"
+                  textAnchor="end"
+                  fontSize={11}
+                  fill={SPOTIFY_LIGHT_GRAY}
+                >
+                  {offset === 'expand' ? formatShare(tick) : tick.toLocaleString()}
+                </text>
+              </g>
+            ))}
+          </g>
+
+          {/* Layers */}
+          <g aria-hidden="true">
+            {layers.map((layer, index) => (
+              <path
+                key={visibleSeries[index].key}
+                d={areaPath(layer)}
+                fill={getChartColor(index)}
+                fillOpacity={
+                  highlighted === null || highlighted === visibleSeries[index].key ? 0.9 : 0.15
+                }
+                stroke={getChartColor(index)}
+                strokeWidth={0.5}
+              />
+            ))}
+          </g>
+
+          {/* Brushed range */}
+          {selection && (
+            <rect
+              x={columnBounds(selection.startIndex)[0]}
+              y={CHART_PADDING.top}
+              width={columnBounds(selection.endIndex)[1] - columnBounds(selection.startIndex)[0]}
+              height={baseline - CHART_PADDING.top}
+              fill="#ffffff"
+              fillOpacity={0.12}
+              aria-hidden="true"
+            />
+          )}
+
+          {/* One focusable column per period carries its values for keyboard and screen readers */}
+          <g>
+            {visiblePeriods.map((period, index) => {
+              const [left, right] = columnBounds(index);
+              return (
+                <rect
+                  key={period}
+                  x={left}
+                  y={CHART_PADDING.top}
+                  width={right - left}
+                  height={baseline - CHART_PADDING.top}
+                  fill="transparent"
+                  tabIndex={0}
+                  role="img"
+                  aria-label={`${formatPeriod(period)}: ${
+                    describePeriod(index).join(', ') || `no ${unit}`
+                  }`}
+                  aria-describedby={tooltip ? tooltipId : undefined}
+                  className="outline-none focus:stroke-white focus:stroke-1"
+                  onFocus={() => showTooltip(index)}
+                  onBlur={() => setTooltip(null)}
+                  onKeyDown={(event) => handlePeriodKeyDown(event, index)}
+                />
+              );
+            })}
+          </g>
+
+          {/* X axis */}
+          <g aria-hidden="true">
+            {visiblePeriods.map((period, index) =>
+              index % labelEvery === 0 ? (
+                <text
+                  key={period}
+                  transform={`translate(${xAt(index)} ${baseline + 14}) rotate(-35)`}
+                  textAnchor="end"
+                  fontSize={11}
+                  fill={SPOTIFY_LIGHT_GRAY}
+                >
+                  {formatPeriod(period)}
+                </text>
+              ) : null
+            )}
+          </g>
+        </svg>
+        <ChartTooltip id={tooltipId} tooltip={tooltip} width={width} height={HEIGHT} />
+      </div>
+    </ChartFrame>
+  );
+}
@@ -2,6 +2,7 @@
 
 import React, { useState } from 'react';
 import VisualizationContainer from '@/features/visualization/VisualizationContainer';
+import { PageProgress } from '@/lib/spotifyTrackUtils';
 import { getTimeRangeButtonTextStyle } from '@/lib/styleUtils';
 import {
   InternalTimeRange,
@@ -22,6 +23,8 @@ interface DataFetcherAndControlsWrapperProps {
   currentTimeRange: SpotifyTimeRange | InternalTimeRange;
   setTimeRange: (range: SpotifyTimeRange | InternalTimeRange) => void;
   isLoadingRange: Record<InternalTimeRange, boolean>;
+  // Pages fetched so far while the current range loads, shown as a progress bar
+  progress?: PageProgress | null;
   children: React.ReactNode;
   // Optional props for elements specific to certain visualizations, like granularity controls
   granularityControls?: React.ReactNode;
@@ -39,6 +42,7 @@ export default function DataFetcherAndControlsWrapper({
   currentTimeRange,
   setTimeRange,
   isLoadingRange,
+  progress,
   children,
   granularityControls,
   timeRangeDisplay,
@@ -88,6 +92,7 @@ export default function DataFetcherAndControlsWrapper({
       error={error?.message}
       isEmpty={isEmpty}
       emptyDataMessage={emptyDataMessage}
+      progress={progress}
     >
       {isLoadingRange[mapToInternalTimeRange(currentSpotifyRange)] && (
         <div className="mb-2 text-xs text-yellow-400">
@@ -13,6 +13,10 @@ interface GranularitySelectorProps {
   isDisabled: boolean;
   onSelect: (value: string) => void;
   onHover: (value: string | null) => void;
+  // Optional toggle for which series is plotted (e.g. likes vs plays)
+  seriesOptions?: GranularityOption[];
+  selectedSeries?: string;
+  onSelectSeries?: (value: string) => void;
 }
 
 export default function GranularitySelector({
@@ -22,32 +26,46 @@ export default function GranularitySelector({
   isDisabled,
   onSelect,
   onHover,
+  seriesOptions,
+  selectedSeries,
+  onSelectSeries,
 }: GranularitySelectorProps) {
+  const renderOption = (option: GranularityOption, isSelected: boolean, select: () => void) => (
+    <button
+      key={option.value}
+      onClick={select}
+      disabled={isDisabled}
+      style={getTimeRangeButtonTextStyle(hoveredValue === option.value, isSelected)}
+      onMouseOver={() => onHover(option.value)}
+      onFocus={() => onHover(option.value)}
+      onMouseOut={() => onHover(null)}
+      onBlur={() => onHover(null)}
+      className={`px-2 py-0.5 rounded-full text-xs ${
+        isSelected ? 'bg-spotify-green' : 'bg-spotify-light-black hover:bg-spotify-medium-gray/50'
+      }${isDisabled ? ' opacity-50 cursor-not-allowed' : ' cursor-pointer'}`}
+    >
+      {option.label}
+    </button>
+  );
+
   return (
-    <div className="flex items-center space-x-2 text-sm self-end sm:self-center">
-      <span className="text-spotify-light-gray text-xs">Granularity:</span>
-      {options.map((option) => (
-        <button
-          key={option.value}
-          onClick={() => onSelect(option.value)}
-          disabled={isDisabled}
-          style={getTimeRangeButtonTextStyle(
-            hoveredValue === option.value,
-            selectedValue === option.value
+    <div className="flex flex-wrap items-center gap-2 text-sm self-end sm:self-center">
+      {seriesOptions && seriesOptions.length > 1 && onSelectSeries && (
+        <div className="flex items-center space-x-2 mr-2">
+          <span className="text-spotify-light-gray text-xs">Show:</span>
+          {seriesOptions.map((option) =>
+            renderOption(option, selectedSeries === option.value, () =>
+              onSelectSeries(option.value)
+            )
           )}
-          onMouseOver={() => onHover(option.value)}
-          onFocus={() => onHover(option.value)}
-          onMouseOut={() => onHover(null)}
-          onBlur={() => onHover(null)}
-          className={`px-2 py-0.5 rounded-full text-xs ${
-            selectedValue === option.value
-              ? 'bg-spotify-green'
-              : 'bg-spotify-light-black hover:bg-spotify-medium-gray/50'
-          }${isDisabled ? ' opacity-50 cursor-not-allowed' : ' cursor-pointer'}`}
-        >
-          {option.label}
-        </button>
-      ))}
+        </div>
+      )}
+      <div className="flex items-center space-x-2">
+        <span className="text-spotify-light-gray text-xs">Granularity:</span>
+        {options.map((option) =>
+          renderOption(option, selectedValue === option.value, () => onSelect(option.value))
+        )}
+      </div>
     </div>
   );
 }
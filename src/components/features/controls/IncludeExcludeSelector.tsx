@@ -0,0 +1,189 @@
+import { useMemo, useState } from 'react';
+import { FiX } from 'react-icons/fi';
+import LoadingSpinner from '@/ui/LoadingSpinner';
+
+interface IncludeExcludeSelectorProps<T> {
+  title: string;
+  items: T[];
+  included: string[];
+  excluded: string[];
+  isLoading: boolean;
+  getItemId: (item: T) => string;
+  getItemName: (item: T) => string;
+  onChange: (included: string[], excluded: string[]) => void;
+  emptyMessage?: string;
+  maxItems?: number;
+  // Allow free-text entries such as "*metal*" alongside the listed items
+  allowPatterns?: boolean;
+}
+
+type SelectionState = 'none' | 'include' | 'exclude';
+
+const stateStyles: Record<SelectionState, string> = {
+  none: 'bg-spotify-medium-gray text-spotify-white hover:bg-spotify-light-gray',
+  include: 'bg-spotify-green text-spotify-black hover:bg-spotify-green-darker',
+  exclude: 'bg-red-500/80 text-spotify-white hover:bg-red-500 line-through',
+};
+
+export default function IncludeExcludeSelector<T>({
+  title,
+  items,
+  included,
+  excluded,
+  isLoading,
+  getItemId,
+  getItemName,
+  onChange,
+  emptyMessage = 'No items found',
+  maxItems = 60,
+  allowPatterns = false,
+}: IncludeExcludeSelectorProps<T>) {
+  const [search, setSearch] = useState('');
+
+  const namesById = useMemo(
+    () => new Map(items.map((item) => [getItemId(item), getItemName(item)])),
+    [items, getItemId, getItemName]
+  );
+
+  const displayItems = useMemo(() => {
+    const query = search.trim().toLowerCase().replaceAll('*', '');
+    const matching = query
+      ? items.filter((item) => getItemName(item).toLowerCase().includes(query))
+      : items;
+    return matching.slice(0, maxItems);
+  }, [items, search, getItemName, maxItems]);
+
+  const getState = (id: string): SelectionState =>
+    included.includes(id) ? 'include' : excluded.includes(id) ? 'exclude' : 'none';
+
+  // Clicking cycles an item through include → exclude → no rule
+  const cycle = (id: string) => {
+    const state = getState(id);
+    const nextIncluded = included.filter((i) => i !== id);
+    const nextExcluded = excluded.filter((i) => i !== id);
+    if (state === 'none') nextIncluded.push(id);
+    if (state === 'include') nextExcluded.push(id);
+    onChange(nextIncluded, nextExcluded);
+  };
+
+  const addPattern = (mode: 'include' | 'exclude') => {
+    const pattern = search.trim().toLowerCase();
+    if (!pattern) return;
+    const nextIncluded = included.filter((i) => i !== pattern);
+    const nextExcluded = excluded.filter((i) => i !== pattern);
+    onChange(
+      mode === 'include' ? [...nextIncluded, pattern] : nextIncluded,
+      mode === 'exclude' ? [...nextExcluded, pattern] : nextExcluded
+    );
+    setSearch('');
+  };
+
+  const remove = (id: string) => {
+    onChange(
+      included.filter((i) => i !== id),
+      excluded.filter((i) => i !== id)
+    );
+  };
+
+  const selected = [
+    ...included.map((id) => ({ id, state: 'include' as const })),
+    ...excluded.map((id) => ({ id, state: 'exclude' as const })),
+  ];
+
+  return (
+    <div>
+      <label className="block text-spotify-white mb-2 font-medium">{title}</label>
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <LoadingSpinner size="sm" />
+        </div>
+      ) : (
+        <div className="w-full bg-spotify-black rounded-xl p-4 space-y-3">
+          <div className="flex flex-col sm:flex-row gap-2">
+            <input
+              type="search"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              onKeyDown={(e) => {
+                if (allowPatterns && e.key === 'Enter') {
+                  e.preventDefault();
+                  addPattern('include');
+                }
+              }}
+              placeholder={allowPatterns ? 'Search or type a pattern like *metal*' : 'Search'}
+              aria-label={`Search ${title.toLowerCase()}`}
+              className="flex-grow bg-spotify-dark-gray border border-spotify-medium-gray rounded-md p-2 text-sm text-spotify-white focus:outline-hidden focus:ring-2 focus:ring-spotify-green"
+            />
+            {allowPatterns && search.trim() && (
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => addPattern('include')}
+                  className="px-3 py-2 rounded-md text-sm bg-spotify-green text-spotify-black cursor-pointer"
+                >
+                  Include
+                </button>
+                <button
+                  type="button"
+                  onClick={() => addPattern('exclude')}
+                  className="px-3 py-2 rounded-md text-sm bg-red-500/80 text-spotify-white cursor-pointer"
+                >
+                  Exclude
+                </button>
+              </div>
+            )}
+          </div>
+
+          {selected.length > 0 && (
+            <ul className="flex flex-wrap gap-2" aria-label={`Selected ${title.toLowerCase()}`}>
+              {selected.map(({ id, state }) => (
+                <li
+                  key={`${state}-${id}`}
+                  className={`flex items-center gap-1 pl-3 pr-1 py-1 rounded-full text-xs ${
+                    state === 'include'
+                      ? 'bg-spotify-green/20 text-spotify-green'
+                      : 'bg-red-500/20 text-red-300'
+                  }`}
+                >
+                  {state === 'include' ? 'Include' : 'Exclude'}: {namesById.get(id) ?? id}
+                  <button
+                    type="button"
+                    onClick={() => remove(id)}
+                    aria-label={`Remove ${namesById.get(id) ?? id}`}
+                    className="p-1 rounded-full hover:bg-spotify-black/40 cursor-pointer"
+                  >
+                    <FiX size={12} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex flex-wrap gap-2 min-h-[60px] max-h-[40vh] overflow-y-auto content-start">
+            {displayItems.map((item) => {
+              const id = getItemId(item);
+              const state = getState(id);
+              return (
+                <button
+                  key={id}
+                  type="button"
+                  onClick={() => cycle(id)}
+                  aria-pressed={state !== 'none'}
+                  className={`px-4 py-2 rounded-full text-sm transition-colors duration-150 ease-in-out focus:outline-hidden focus:ring-2 focus:ring-spotify-green/50 cursor-pointer ${stateStyles[state]}`}
+                >
+                  {getItemName(item)}
+                </button>
+              );
+            })}
+            {displayItems.length === 0 && (
+              <p className="text-spotify-light-gray text-sm p-2">{emptyMessage}</p>
+            )}
+          </div>
+          <p className="text-xs text-spotify-light-gray">
+            Click once to include, twice to exclude, three times to clear.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
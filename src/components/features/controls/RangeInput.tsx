@@ -0,0 +1,66 @@
+import { NumericRange } from '@/lib/playlistRules';
+
+interface RangeInputProps {
+  id: string;
+  label: string;
+  value: NumericRange;
+  onChange: (value: NumericRange) => void;
+  min?: number;
+  max?: number;
+  minPlaceholder?: string;
+  maxPlaceholder?: string;
+}
+
+// Empty inputs leave that side of the range open
+const parseBound = (value: string): number | null => {
+  if (value.trim() === '') return null;
+  const parsed = Number(value);
+  return Number.isNaN(parsed) ? null : parsed;
+};
+
+export default function RangeInput({
+  id,
+  label,
+  value,
+  onChange,
+  min,
+  max,
+  minPlaceholder = 'Min',
+  maxPlaceholder = 'Max',
+}: RangeInputProps) {
+  const inputClassName =
+    'w-full bg-spotify-black border border-spotify-medium-gray rounded-md p-3 text-spotify-white focus:outline-hidden focus:ring-2 focus:ring-spotify-green';
+
+  return (
+    <fieldset>
+      <legend className="block text-spotify-white mb-2 font-medium">{label}</legend>
+      <div className="flex items-center gap-2">
+        <input
+          id={`${id}-min`}
+          type="number"
+          inputMode="numeric"
+          value={value.min ?? ''}
+          onChange={(e) => onChange({ ...value, min: parseBound(e.target.value) })}
+          min={min}
+          max={max}
+          placeholder={minPlaceholder}
+          aria-label={`${label} minimum`}
+          className={inputClassName}
+        />
+        <span className="text-spotify-light-gray">–</span>
+        <input
+          id={`${id}-max`}
+          type="number"
+          inputMode="numeric"
+          value={value.max ?? ''}
+          onChange={(e) => onChange({ ...value, max: parseBound(e.target.value) })}
+          min={min}
+          max={max}
+          placeholder={maxPlaceholder}
+          aria-label={`${label} maximum`}
+          className={inputClassName}
+        />
+      </div>
+    </fieldset>
+  );
+}
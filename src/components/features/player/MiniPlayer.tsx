@@ -0,0 +1,132 @@
+'use client';
+
+import Image from 'next/image';
+import { useEffect } from 'react';
+import { FiPause, FiPlay, FiSkipBack, FiSkipForward, FiX } from 'react-icons/fi';
+import { usePlayer } from '@/hooks/usePlayer';
+
+// Don't steal keys from form fields or focused controls
+const isTypingTarget = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT', 'BUTTON'].includes(target.tagName));
+
+export default function MiniPlayer() {
+  const { currentTrack, status, error, progress, hasNext, togglePlay, next, previous, stop } =
+    usePlayer();
+
+  // Keyboard controls: Space toggles playback, Shift+Arrow keys skip
+  useEffect(() => {
+    if (!currentTrack) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || e.ctrlKey || e.metaKey || e.altKey) return;
+      if (isTypingTarget(e.target)) return;
+
+      if (e.key === ' ' && !e.shiftKey) {
+        e.preventDefault();
+        togglePlay();
+      } else if (e.key === 'ArrowRight' && e.shiftKey) {
+        e.preventDefault();
+        next();
+      } else if (e.key === 'ArrowLeft' && e.shiftKey) {
+        e.preventDefault();
+        previous();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [currentTrack, togglePlay, next, previous]);
+
+  if (!currentTrack && !error) {
+    return null;
+  }
+
+  const isPlaying = status === 'playing' || status === 'loading';
+  const artistNames = currentTrack?.artists.map((a) => a.name).join(', ');
+
+  return (
+    <>
+      {/* Keep the footer clear of the fixed bar */}
+      <div className="h-20" aria-hidden="true" />
+      <section
+        aria-label="Preview player"
+        className="fixed bottom-0 inset-x-0 z-40 bg-spotify-dark-gray border-t border-spotify-medium-gray"
+      >
+        {currentTrack && (
+          <div
+            className="h-1 bg-spotify-green transition-[width] duration-200"
+            style={{ width: `${progress * 100}%` }}
+            role="progressbar"
+            aria-label="Preview progress"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={Math.round(progress * 100)}
+          />
+        )}
+        <div className="max-w-7xl mx-auto px-4 h-[76px] flex items-center gap-4">
+          {currentTrack ? (
+            <>
+              <div className="w-12 h-12 shrink-0 relative rounded overflow-hidden">
+                <Image
+                  src={currentTrack.album.images[0]?.url || '/default-album.png'}
+                  alt={currentTrack.album.name}
+                  fill
+                  className="object-cover"
+                />
+              </div>
+              <div className="flex-grow min-w-0">
+                <p className="font-medium text-spotify-white truncate">{currentTrack.name}</p>
+                <p className="text-xs text-spotify-light-gray truncate">
+                  {error ?? (status === 'loading' ? 'Loading preview...' : artistNames)}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  type="button"
+                  onClick={previous}
+                  aria-label="Previous track"
+                  aria-keyshortcuts="Shift+ArrowLeft"
+                  className="p-2 text-spotify-light-gray hover:text-spotify-white cursor-pointer"
+                >
+                  <FiSkipBack size={18} />
+                </button>
+                <button
+                  type="button"
+                  onClick={togglePlay}
+                  aria-label={isPlaying ? 'Pause preview' : 'Play preview'}
+                  aria-keyshortcuts="Space"
+                  className="w-10 h-10 flex items-center justify-center rounded-full bg-spotify-white text-spotify-black hover:scale-105 transition cursor-pointer"
+                >
+                  {isPlaying ? <FiPause size={18} /> : <FiPlay size={18} />}
+                </button>
+                <button
+                  type="button"
+                  onClick={next}
+                  disabled={!hasNext}
+                  aria-label="Next track"
+                  aria-keyshortcuts="Shift+ArrowRight"
+                  className="p-2 text-spotify-light-gray hover:text-spotify-white disabled:opacity-40 cursor-pointer"
+                >
+                  <FiSkipForward size={18} />
+                </button>
+              </div>
+            </>
+          ) : (
+            <p className="flex-grow text-sm text-spotify-light-gray" role="alert">
+              {error}
+            </p>
+          )}
+          <button
+            type="button"
+            onClick={stop}
+            aria-label="Close player"
+            className="p-2 text-spotify-light-gray hover:text-spotify-white cursor-pointer"
+          >
+            <FiX size={18} />
+          </button>
+        </div>
+      </section>
+    </>
+  );
+}
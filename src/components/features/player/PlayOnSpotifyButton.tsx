@@ -0,0 +1,159 @@
+import { useState } from 'react';
+import { useSpotify } from '@/hooks/useSpotify';
+import { SpotifyDevice } from '@/lib/spotifyModels';
+import {
+  MAX_PLAYBACK_URIS,
+  getPlaybackErrorMessage,
+  getPlayableDevices,
+  playTracksOnDevice,
+} from '@/lib/spotifyPlayback';
+import ActionButton from '@/ui/ActionButton';
+import LoadingSpinner from '@/ui/LoadingSpinner';
+
+interface PlayOnSpotifyButtonProps {
+  // Resolve the tracks to play when a device is picked; null cancels playback
+  getTrackUris: () => string[] | null | Promise<string[] | null>;
+  label?: string;
+  className?: string;
+}
+
+export default function PlayOnSpotifyButton({
+  getTrackUris,
+  label = 'Play on Spotify',
+  className = '',
+}: PlayOnSpotifyButtonProps) {
+  const { spotifyApi, isReady } = useSpotify();
+  const [isOpen, setIsOpen] = useState(false);
+  const [devices, setDevices] = useState<SpotifyDevice[]>([]);
+  const [isLoadingDevices, setIsLoadingDevices] = useState(false);
+  const [startingDeviceId, setStartingDeviceId] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const loadDevices = async () => {
+    setIsLoadingDevices(true);
+    setMessage(null);
+    try {
+      setDevices(await getPlayableDevices(spotifyApi));
+    } catch (err) {
+      console.error('Error loading Spotify devices:', err);
+      setMessage({ text: getPlaybackErrorMessage(err), isError: true });
+    } finally {
+      setIsLoadingDevices(false);
+    }
+  };
+
+  const handleToggle = () => {
+    const opening = !isOpen;
+    setIsOpen(opening);
+    if (opening) loadDevices();
+  };
+
+  const handlePlay = async (device: SpotifyDevice) => {
+    setStartingDeviceId(device.id);
+    setMessage(null);
+    try {
+      const trackUris = await getTrackUris();
+      if (!trackUris) return;
+      if (trackUris.length === 0) {
+        setMessage({ text: 'There are no tracks to play.', isError: true });
+        return;
+      }
+
+      const { played, skipped } = await playTracksOnDevice(spotifyApi, device, trackUris);
+      setMessage({
+        text:
+          skipped > 0
+            ? `Playing the first ${played} tracks on ${device.name}. Create a playlist to hear all ${played + skipped}.`
+            : `Playing ${played} tracks on ${device.name}.`,
+        isError: false,
+      });
+      setDevices((prev) => prev.map((d) => ({ ...d, is_active: d.id === device.id })));
+    } catch (err) {
+      console.error('Error starting Spotify playback:', err);
+      setMessage({ text: getPlaybackErrorMessage(err), isError: true });
+    } finally {
+      setStartingDeviceId(null);
+    }
+  };
+
+  return (
+    <div className={className}>
+      <ActionButton
+        onClick={handleToggle}
+        disabled={!isReady}
+        variant="secondary"
+        className="w-full"
+      >
+        {label}
+      </ActionButton>
+
+      {isOpen && (
+        <div
+          className="mt-3 bg-spotify-black/50 rounded-md p-4 text-sm space-y-3"
+          aria-label="Choose a device"
+          role="group"
+        >
+          <div className="flex justify-between items-center">
+            <h3 className="font-semibold text-spotify-white">Choose a device</h3>
+            <button
+              type="button"
+              onClick={loadDevices}
+              disabled={isLoadingDevices}
+              className="text-spotify-green hover:underline disabled:opacity-50 cursor-pointer"
+            >
+              Refresh
+            </button>
+          </div>
+
+          {isLoadingDevices ? (
+            <div className="flex justify-center py-2">
+              <LoadingSpinner size="sm" />
+            </div>
+          ) : devices.length === 0 ? (
+            <p className="text-spotify-light-gray">
+              No devices found. Open Spotify on your phone, computer or speaker, then refresh.
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {devices.map((device) => (
+                <li key={device.id}>
+                  <button
+                    type="button"
+                    onClick={() => handlePlay(device)}
+                    disabled={startingDeviceId !== null}
+                    className="w-full flex justify-between items-center gap-4 px-3 py-2 rounded-md bg-spotify-dark-gray hover:bg-spotify-medium-gray/40 disabled:opacity-50 text-left cursor-pointer"
+                  >
+                    <span className="truncate text-spotify-white">
+                      {device.name}
+                      <span className="text-spotify-light-gray"> • {device.type}</span>
+                    </span>
+                    <span className="shrink-0 text-xs text-spotify-light-gray">
+                      {startingDeviceId === device.id
+                        ? 'Starting...'
+                        : device.is_active
+                          ? 'Active'
+                          : ''}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <p className="text-xs text-spotify-light-gray">
+            Requires Spotify Premium. Up to {MAX_PLAYBACK_URIS} tracks are sent to your device.
+          </p>
+
+          {message && (
+            <p
+              className={message.isError ? 'text-red-400' : 'text-spotify-green'}
+              role={message.isError ? 'alert' : 'status'}
+            >
+              {message.text}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
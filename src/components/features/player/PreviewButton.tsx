@@ -0,0 +1,37 @@
+import { FiPause, FiPlay } from 'react-icons/fi';
+import { PlayerTrack, hasPreview, usePlayer } from '@/hooks/usePlayer';
+
+interface PreviewButtonProps {
+  track: PlayerTrack;
+  className?: string;
+}
+
+export default function PreviewButton({ track, className = '' }: PreviewButtonProps) {
+  const { currentTrack, status, playTrack } = usePlayer();
+  const isCurrent = currentTrack?.id === track.id;
+  const isActive = isCurrent && (status === 'playing' || status === 'loading');
+  const canPlay = hasPreview(track);
+
+  const label = !canPlay
+    ? `No preview available for ${track.name}`
+    : isActive
+      ? `Pause preview of ${track.name}`
+      : `Play preview of ${track.name}`;
+
+  return (
+    <button
+      type="button"
+      onClick={() => playTrack(track)}
+      disabled={!canPlay}
+      aria-label={label}
+      title={canPlay ? undefined : 'No preview available'}
+      className={`w-9 h-9 shrink-0 flex items-center justify-center rounded-full transition ${
+        !canPlay
+          ? 'text-spotify-medium-gray cursor-not-allowed'
+          : `${isCurrent ? 'text-spotify-green' : 'text-spotify-white'} hover:bg-spotify-medium-gray/40 cursor-pointer`
+      } ${className}`}
+    >
+      {isActive ? <FiPause size={18} /> : <FiPlay size={18} />}
+    </button>
+  );
+}
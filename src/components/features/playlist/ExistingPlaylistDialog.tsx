@@ -0,0 +1,115 @@
+import { format } from 'date-fns';
+import { useEffect, useRef } from 'react';
+import { FiX } from 'react-icons/fi';
+import { SavePlaylistChoice } from '@/hooks/useSavePlaylist';
+import { CreatedPlaylist } from '@/lib/playlistRegistry';
+import LoadingSpinner from '@/ui/LoadingSpinner';
+
+interface ExistingPlaylistDialogProps {
+  playlist: CreatedPlaylist;
+  trackCount: number;
+  isSaving: boolean;
+  onChoose: (choice: SavePlaylistChoice) => void;
+  onCancel: () => void;
+}
+
+const CHOICES: Array<{ id: SavePlaylistChoice; label: string; description: string }> = [
+  {
+    id: 'sync',
+    label: 'Sync',
+    description: 'Add missing tracks and remove ones that are no longer selected.',
+  },
+  {
+    id: 'append',
+    label: 'Append',
+    description: 'Only add tracks the playlist does not have yet.',
+  },
+  {
+    id: 'replace',
+    label: 'Replace',
+    description: 'Overwrite the playlist with the current selection.',
+  },
+  {
+    id: 'create',
+    label: 'Create new',
+    description: 'Leave it as it is and create another playlist.',
+  },
+];
+
+export default function ExistingPlaylistDialog({
+  playlist,
+  trackCount,
+  isSaving,
+  onChoose,
+  onCancel,
+}: ExistingPlaylistDialogProps) {
+  const firstChoiceRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    firstChoiceRef.current?.focus();
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape' && !isSaving) onCancel();
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isSaving, onCancel]);
+
+  return (
+    <div className="fixed inset-0 bg-spotify-black/80 flex items-center justify-center z-[100] p-4">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="existing-playlist-title"
+        className="relative w-full max-w-md bg-spotify-dark-gray rounded-xl border border-spotify-medium-gray p-6 space-y-4"
+      >
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={isSaving}
+          aria-label="Cancel"
+          className="absolute top-3 right-3 p-2 rounded-full text-spotify-light-gray hover:text-spotify-white hover:bg-spotify-medium-gray cursor-pointer disabled:opacity-50"
+        >
+          <FiX size={18} />
+        </button>
+
+        <div>
+          <h2 id="existing-playlist-title" className="text-lg font-bold text-spotify-white pr-8">
+            You already made this playlist
+          </h2>
+          <p className="text-sm text-spotify-light-gray mt-1">
+            &ldquo;{playlist.name}&rdquo; was last updated on{' '}
+            {format(new Date(playlist.updatedAt), 'MMM d, yyyy')} with {playlist.trackCount} tracks.
+            The current selection has {trackCount} tracks.
+          </p>
+        </div>
+
+        {isSaving ? (
+          <div className="flex items-center justify-center gap-3 py-6 text-spotify-light-gray">
+            <LoadingSpinner size="sm" />
+            <span>Updating playlist...</span>
+          </div>
+        ) : (
+          <ul className="space-y-2">
+            {CHOICES.map((choice, index) => (
+              <li key={choice.id}>
+                <button
+                  type="button"
+                  ref={index === 0 ? firstChoiceRef : undefined}
+                  onClick={() => onChoose(choice.id)}
+                  className="w-full text-left p-3 rounded-lg bg-spotify-black hover:bg-spotify-medium-gray focus:outline-hidden focus:ring-2 focus:ring-spotify-green cursor-pointer transition-colors"
+                >
+                  <span className="block font-medium text-spotify-white">{choice.label}</span>
+                  <span className="block text-xs text-spotify-light-gray">
+                    {choice.description}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
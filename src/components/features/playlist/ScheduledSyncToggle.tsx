@@ -0,0 +1,83 @@
+'use client';
+
+import { format, parse } from 'date-fns';
+import React, { useEffect, useState } from 'react';
+import { useDemoMode } from '@/hooks/useDemoMode';
+import ToggleButton from '@/ui/ToggleButton';
+
+interface ScheduledSyncStatus {
+  enabled: boolean;
+  lastRunAt: number | null;
+  lastRunMonth: string | null;
+  lastError: string | null;
+}
+
+// Opt in or out of having last month's playlist created on the server on the 1st. Hidden in
+// demo mode, which has no NextAuth session for the server to act on.
+export default function ScheduledSyncToggle() {
+  const isDemo = useDemoMode();
+  const [status, setStatus] = useState<ScheduledSyncStatus | null>(null);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isDemo) return;
+    let isMounted = true;
+
+    fetch('/api/playlist-sync')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data: ScheduledSyncStatus | null) => {
+        if (isMounted && data) setStatus(data);
+      })
+      .catch((err) => console.error('Error loading scheduled sync status:', err));
+
+    return () => {
+      isMounted = false;
+    };
+  }, [isDemo]);
+
+  const toggle = async () => {
+    if (!status) return;
+    setIsUpdating(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/playlist-sync', {
+        method: status.enabled ? 'DELETE' : 'POST',
+      });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      setStatus(await response.json());
+    } catch (err) {
+      console.error('Error updating scheduled sync:', err);
+      setError('Failed to update automatic monthly playlists. Please try again.');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  if (isDemo || !status) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-sm">
+      <ToggleButton
+        id="scheduled-sync"
+        label={isUpdating ? 'Saving...' : 'Create monthly playlists automatically'}
+        isSelected={status.enabled}
+        onClick={toggle}
+      />
+      <span className="text-spotify-light-gray">
+        {status.enabled
+          ? status.lastRunMonth
+            ? `Last made: ${format(parse(status.lastRunMonth, 'yyyy-MM', new Date()), 'MMMM yyyy')}`
+            : 'On the 1st of each month, the month that just ended becomes a playlist.'
+          : 'Turn on to get each month as a playlist without opening the app.'}
+      </span>
+      {/* A subscription turned off after Spotify revoked its token still explains why */}
+      {(error || status.lastError) && (
+        <span className="text-red-400" role="alert">
+          {error ?? `Last run failed: ${status.lastError}`}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+'use client';
+
+import { useSmartPlaylists, useSmartPlaylistSync } from '@/hooks/useSmartPlaylists';
+import { SmartPlaylist } from '@/lib/smartPlaylists';
+
+// Loads the liked library only for users who actually have smart playlists
+function SmartPlaylistSyncRunner({ smartPlaylists }: { smartPlaylists: SmartPlaylist[] }) {
+  useSmartPlaylistSync(smartPlaylists);
+  return null;
+}
+
+// Keeps rolling smart playlists up to date each time the app is opened
+export default function SmartPlaylistSync() {
+  const { smartPlaylists } = useSmartPlaylists();
+  if (smartPlaylists.length === 0) return null;
+  return <SmartPlaylistSyncRunner smartPlaylists={smartPlaylists} />;
+}
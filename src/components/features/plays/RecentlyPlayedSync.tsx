@@ -0,0 +1,9 @@
+'use client';
+
+import { useRecentlyPlayedAccumulator } from '@/hooks/useRecentlyPlayedAccumulator';
+
+// Keeps the play log growing in the background for signed-in users
+export default function RecentlyPlayedSync() {
+  useRecentlyPlayedAccumulator();
+  return null;
+}
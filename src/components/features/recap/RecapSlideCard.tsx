@@ -0,0 +1,70 @@
+import Image from 'next/image';
+import { RecapSlide } from '@/lib/yearInReview';
+
+interface RecapSlideCardProps {
+  slide: RecapSlide;
+}
+
+// On-page version of a Year in Review slide; mirrors the image from /api/og/year-in-review
+export default function RecapSlideCard({ slide }: RecapSlideCardProps) {
+  const maxBar = Math.max(1, ...(slide.bars ?? []));
+
+  return (
+    <div className="relative flex flex-col justify-center aspect-[9/16] w-full max-w-sm mx-auto rounded-2xl p-8 bg-gradient-to-br from-spotify-dark-gray to-spotify-black border border-spotify-medium-gray/40 overflow-hidden">
+      <p className="text-sm uppercase tracking-widest text-spotify-light-gray mb-2">
+        {slide.eyebrow}
+      </p>
+      <h2
+        className={`font-extrabold text-spotify-white leading-tight break-words ${
+          slide.title.length > 20 ? 'text-3xl' : 'text-5xl'
+        }`}
+      >
+        {slide.title}
+      </h2>
+      {slide.subtitle && (
+        <p className="text-lg font-bold text-spotify-green mt-2">{slide.subtitle}</p>
+      )}
+
+      {slide.bars && (
+        <div className="flex items-end gap-1 h-32 mt-8" aria-hidden="true">
+          {slide.bars.map((bar, index) => (
+            <div
+              key={index}
+              className={`flex-1 rounded-sm ${
+                index === slide.highlight ? 'bg-spotify-green' : 'bg-spotify-medium-gray'
+              }`}
+              style={{ height: `${Math.max(4, (bar / maxBar) * 100)}%` }}
+            />
+          ))}
+        </div>
+      )}
+
+      {slide.imageUrls && slide.imageUrls.length > 0 && (
+        <div className="flex flex-wrap gap-2 mt-8">
+          {slide.imageUrls.map((url) => (
+            <div
+              key={url}
+              className={`relative rounded-lg overflow-hidden ${
+                slide.imageUrls!.length > 2 ? 'w-14 h-14' : 'w-24 h-24'
+              }`}
+            >
+              <Image src={url} alt="" fill sizes="96px" className="object-cover" />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {slide.items && (
+        <ul className="mt-8 space-y-2 text-sm text-spotify-light-gray">
+          {slide.items.map((item) => (
+            <li key={item}>{item}</li>
+          ))}
+        </ul>
+      )}
+
+      <p className="absolute left-8 bottom-6 text-xs font-bold uppercase tracking-widest text-spotify-green">
+        Spotify Time Machine
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+'use client';
+
+import React, { useState } from 'react';
+
+interface ShareButtonProps {
+  // App page to share, e.g. from getPlaylistSharePath; its link preview is rendered for it
+  sharePath: string;
+  // Sentence posted alongside the link
+  text: string;
+  // Rendered image offered for "Copy image" and attached to native shares when supported
+  imageUrl?: string;
+  imageFileName?: string;
+}
+
+export default function ShareButton({
+  sharePath,
+  text,
+  imageUrl,
+  imageFileName = 'spotify-time-machine.png',
+}: ShareButtonProps) {
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const shareUrl = () => new URL(sharePath, window.location.origin).toString();
+
+  const showNotice = (message: string) => {
+    setNotice(message);
+    setTimeout(() => setNotice(null), 2000);
+  };
+
+  const toggleMenu = () => {
+    setIsMenuOpen((prev) => !prev);
+  };
+
+  const fetchImage = async (): Promise<Blob> => {
+    const response = await fetch(imageUrl!);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    return response.blob();
+  };
+
+  // Opens the device share sheet (mobile, Safari, Edge); attaches the image when allowed
+  const shareNatively = async () => {
+    setIsMenuOpen(false);
+    const data: ShareData = { title: text, text, url: shareUrl() };
+
+    try {
+      if (imageUrl) {
+        const file = new File([await fetchImage()], imageFileName, { type: 'image/png' });
+        if (navigator.canShare?.({ files: [file] })) data.files = [file];
+      }
+      await navigator.share(data);
+    } catch (err) {
+      // Closing the share sheet rejects with AbortError
+      if (err instanceof DOMException && err.name === 'AbortError') return;
+      console.error('Error sharing:', err);
+      showNotice('Sharing failed');
+    }
+  };
+
+  const copyToClipboard = () => {
+    navigator.clipboard.writeText(shareUrl()).then(() => showNotice('Link copied!'));
+    setIsMenuOpen(false);
+  };
+
+  const copyImage = () => {
+    setIsMenuOpen(false);
+    // Safari needs the clipboard write to start inside the click, so the image is passed as a
+    // promise rather than awaited first
+    navigator.clipboard
+      .write([new ClipboardItem({ 'image/png': fetchImage() })])
+      .then(() => showNotice('Image copied!'))
+      .catch((err) => {
+        console.error('Error copying image:', err);
+        showNotice('Copying the image failed');
+      });
+  };
+
+  const shareOnTwitter = () => {
+    const url = `https://twitter.com/intent/tweet?text=${encodeURIComponent(text)}&url=${encodeURIComponent(shareUrl())}`;
+    window.open(url, '_blank');
+    setIsMenuOpen(false);
+  };
+
+  const shareOnFacebook = () => {
+    const url = `https://www.facebook.com/sharer/sharer.php?u=${encodeURIComponent(shareUrl())}`;
+    window.open(url, '_blank');
+    setIsMenuOpen(false);
+  };
+
+  // Only known after hydration, and the menu only opens after a click
+  const canShareNatively = typeof navigator !== 'undefined' && 'share' in navigator;
+  const canCopyImage =
+    Boolean(imageUrl) &&
+    typeof ClipboardItem !== 'undefined' &&
+    Boolean(navigator.clipboard?.write);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={toggleMenu}
+        className="flex items-center gap-2 bg-spotify-medium-gray hover:bg-spotify-medium-gray/70 text-spotify-white px-4 py-2 rounded-full transition"
+      >
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          className="h-5 w-5"
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z"
+          />
+        </svg>
+        Share
+      </button>
+
+      {isMenuOpen && (
+        <div className="absolute right-0 mt-2 w-48 bg-spotify-dark-gray rounded-md shadow-lg z-10">
+          <ul className="py-1">
+            {canShareNatively && (
+              <li>
+                <button
+                  onClick={shareNatively}
+                  className="flex items-center gap-2 w-full text-left px-4 py-2 text-spotify-white hover:bg-spotify-medium-gray/30"
+                >
+                  <svg
+                    xmlns="http://www.w3.org/2000/svg"
+                    className="h-5 w-5"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12"
+                    />
+                  </svg>
+                  Share...
+                </button>
+              </li>
+            )}
+            <li>
+              <button
+                onClick={copyToClipboard}
+                className="flex items-center gap-2 w-full text-left px-4 py-2 text-spotify-white hover:bg-spotify-medium-gray/30"
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  className="h-5 w-5"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                  stroke="currentColor"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M8 5H6a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2v-1M8 5a2 2 0 002 2h2a2 2 0 002-2M8 5a2 2 0 012-2h2a2 2 0 012 2m0 0h2a2 2 0 012 2v3m2 4H10m0 0l3-3m-3 3l3 3"
+                  />
+                </svg>
+                Copy link
+              </button>
+            </li>
+            {canCopyImage && (
+              <li>
+                <button
+                  onClick={copyImage}
+                  className="flex items-center gap-2 w-full text-left px-4 py-2 text-spotify-white hover:bg-spotify-medium-gray/30"
+                >
+                  <svg
+                    xmlns="http://www.w3.org/2000/svg"
+                    className="h-5 w-5"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z"
+                    />
+                  </svg>
+                  Copy image
+                </button>
+              </li>
+            )}
+            <li>
+              <button
+                onClick={shareOnTwitter}
+                className="flex items-center gap-2 w-full text-left px-4 py-2 text-spotify-white hover:bg-spotify-medium-gray/30"
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  className="h-5 w-5"
+                  viewBox="0 0 24 24"
+                  fill="currentColor"
+                >
+                  <path d="M24 4.557c-.883.392-1.832.656-2.828.775 1.017-.609 1.798-1.574 2.165-2.724-.951.564-2.005.974-3.127 1.195-.897-.957-2.178-1.555-3.594-1.555-3.179 0-5.515 2.966-4.797 6.045-4.091-.205-7.719-2.165-10.148-5.144-1.29 2.213-.669 5.108 1.523 6.574-.806-.026-1.566-.247-2.229-.616-.054 2.281 1.581 4.415 3.949 4.89-.693.188-1.452.232-2.224.084.626 1.956 2.444 3.379 4.6 3.419-2.07 1.623-4.678 2.348-7.29 2.04 2.179 1.397 4.768 2.212 7.548 2.212 9.142 0 14.307-7.721 13.995-14.646.962-.695 1.797-1.562 2.457-2.549z" />
+                </svg>
+                Share on Twitter
+              </button>
+            </li>
+            <li>
+              <button
+                onClick={shareOnFacebook}
+                className="flex items-center gap-2 w-full text-left px-4 py-2 text-spotify-white hover:bg-spotify-medium-gray/30"
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  className="h-5 w-5"
+                  viewBox="0 0 24 24"
+                  fill="currentColor"
+                >
+                  <path d="M9 8h-3v4h3v12h5v-12h3.642l.358-4h-4v-1.667c0-.955.192-1.333 1.115-1.333h2.885v-5h-3.808c-3.596 0-5.192 1.583-5.192 4.615v3.385z" />
+                </svg>
+                Share on Facebook
+              </button>
+            </li>
+          </ul>
+        </div>
+      )}
+
+      {notice && (
+        <div
+          className="absolute top-10 right-0 mt-2 bg-spotify-green text-spotify-black px-3 py-1 rounded-md text-sm"
+          role="status"
+        >
+          {notice}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import { format } from 'date-fns';
+import Link from 'next/link';
+import { useMemo } from 'react';
+import { usePlayHistory } from '@/hooks/usePlayHistory';
+import { getPlayHistorySummary } from '@/lib/playHistory';
+
+export default function PlayHistorySummary() {
+  const { plays, hasPlays, isLoading } = usePlayHistory();
+  const summary = useMemo(() => getPlayHistorySummary(plays), [plays]);
+
+  if (isLoading) {
+    return null;
+  }
+
+  if (!hasPlays) {
+    return (
+      <div className="bg-spotify-dark-gray rounded-lg p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <p className="text-sm text-spotify-light-gray">
+          Likes only tell half the story. Import your Spotify data export to see how much you
+          actually listened, going back years.
+        </p>
+        <Link
+          href="/import"
+          className="shrink-0 bg-spotify-green text-spotify-black font-medium px-4 py-2 rounded-full hover:bg-spotify-green/90 transition text-sm text-center"
+        >
+          Import history
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-spotify-dark-gray rounded-lg p-4">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold text-spotify-white">Play History</h3>
+        <Link href="/import" className="text-sm text-spotify-green hover:underline">
+          Manage
+        </Link>
+      </div>
+      <dl className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+        <div>
+          <dt className="text-spotify-light-gray">Plays</dt>
+          <dd className="text-xl font-bold text-spotify-white">
+            {summary.totalPlays.toLocaleString()}
+          </dd>
+        </div>
+        <div>
+          <dt className="text-spotify-light-gray">Hours listened</dt>
+          <dd className="text-xl font-bold text-spotify-white">
+            {Math.round(summary.totalMinutes / 60).toLocaleString()}
+          </dd>
+        </div>
+        <div>
+          <dt className="text-spotify-light-gray">Since</dt>
+          <dd className="text-xl font-bold text-spotify-white">
+            {summary.firstPlayedAt ? format(new Date(summary.firstPlayedAt), 'MMM yyyy') : '–'}
+          </dd>
+        </div>
+        <div>
+          <dt className="text-spotify-light-gray">Most played artist</dt>
+          <dd className="text-xl font-bold text-spotify-white truncate">
+            {summary.topArtist?.name ?? '–'}
+          </dd>
+        </div>
+      </dl>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { PlayHistory } from '@/hooks/useUserStats';
+import { PlayHistory } from '@/lib/spotifyModels';
 import ErrorDisplay from '@/ui/ErrorDisplay';
 import LoadingSpinner from '@/ui/LoadingSpinner';
 import TrackItem from './TrackItem';
@@ -57,6 +57,7 @@ export default function RecentlyPlayed({ tracks, isLoading, error, onRetry }: Re
           key={`${item.track.id}-${index}`}
           track={item.track}
           rightContent={formatPlayTime(item.played_at)}
+          showPreview={true}
           onClick={() => window.open(`https://open.spotify.com/track/${item.track.id}`, '_blank')}
         />
       ))}
@@ -1,6 +1,6 @@
 import Image from 'next/image';
 import Link from 'next/link';
-import { Artist } from '@/hooks/useUserStats';
+import { Artist } from '@/lib/spotifyModels';
 import ErrorDisplay from '@/ui/ErrorDisplay';
 import LoadingSpinner from '@/ui/LoadingSpinner';
 
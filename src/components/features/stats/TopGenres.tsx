@@ -1,6 +1,6 @@
 import { useMemo } from 'react';
-import { Artist } from '@/hooks/useUserStats';
 import { extractTopGenres } from '@/lib/genreUtils';
+import { Artist } from '@/lib/spotifyModels';
 import ErrorDisplay from '@/ui/ErrorDisplay';
 import LoadingSpinner from '@/ui/LoadingSpinner';
 
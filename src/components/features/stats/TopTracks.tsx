@@ -1,4 +1,4 @@
-import { Track } from '@/hooks/useUserStats';
+import { Track } from '@/lib/spotifyModels';
 import ErrorDisplay from '@/ui/ErrorDisplay';
 import LoadingSpinner from '@/ui/LoadingSpinner';
 import TrackItem from './TrackItem';
@@ -45,6 +45,7 @@ export default function TopTracks({ tracks, isLoading, error, onRetry }: TopTrac
           key={track.id}
           track={track}
           rightContent={formatDuration(track.duration_ms)}
+          showPreview={true}
           onClick={() => window.open(`https://open.spotify.com/track/${track.id}`, '_blank')}
         />
       ))}
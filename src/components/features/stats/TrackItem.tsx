@@ -1,29 +1,8 @@
 import { format } from 'date-fns';
 import Image from 'next/image';
 import type { ReactNode } from 'react';
-
-interface Artist {
-  id: string;
-  name: string;
-}
-
-interface Album {
-  name: string;
-  images: Array<{
-    url: string;
-    height?: number;
-    width?: number;
-  }>;
-}
-
-interface Track {
-  id: string;
-  name: string;
-  album: Album;
-  artists: Artist[];
-  duration_ms?: number;
-  preview_url?: string | null;
-}
+import PreviewButton from '@/features/player/PreviewButton';
+import { Track } from '@/lib/spotifyModels';
 
 interface TrackItemProps {
   track: Track;
@@ -32,6 +11,8 @@ interface TrackItemProps {
   rightContent?: ReactNode;
   onClick?: () => void;
   className?: string;
+  // Show a play/pause control for the track's 30 second preview
+  showPreview?: boolean;
 }
 
 export default function TrackItem({
@@ -41,10 +22,11 @@ export default function TrackItem({
   rightContent,
   onClick,
   className = '',
+  showPreview = false,
 }: TrackItemProps) {
   const artistNames = track.artists.map((a) => a.name).join(', ');
 
-  return (
+  const item = (
     <button
       className={`flex items-center p-2 rounded-md hover:bg-spotify-medium-gray/20 transition cursor-pointer ${className}`}
       onClick={onClick}
@@ -72,4 +54,16 @@ export default function TrackItem({
       )}
     </button>
   );
+
+  // The preview control can't be nested inside the item button
+  if (!showPreview) {
+    return item;
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <PreviewButton track={track} />
+      <div className="flex-grow min-w-0 [&>button]:w-full">{item}</div>
+    </div>
+  );
 }
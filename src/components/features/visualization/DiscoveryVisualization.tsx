@@ -0,0 +1,229 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import DataFetcherAndControlsWrapper from '@/features/controls/DataFetcherAndControlsWrapper';
+import GranularitySelector, { GranularityOption } from '@/features/controls/GranularitySelector';
+import { useLikedArtists } from '@/hooks/useLikedArtists';
+import {
+  getDiscoveryByPeriod,
+  getGenreDiversityByPeriod,
+  summarizeDiscovery,
+} from '@/lib/discoveryMetrics';
+import { CompactTrack } from '@/lib/spotifyModels';
+import {
+  InternalTimeRange,
+  SpotifyTimeRange,
+  getTimeRangeCutoffDate,
+  mapToInternalTimeRange,
+  timeRangeDisplays,
+} from '@/lib/timeRanges';
+import { TrendGranularity, formatPeriodLabel } from '@/lib/trendUtils';
+
+const GRANULARITY_OPTIONS: GranularityOption[] = [
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'quarterly', label: 'Quarterly' },
+];
+
+const formatPercent = (share: number) => `${Math.round(share * 100)}%`;
+
+export default function DiscoveryVisualization() {
+  const {
+    tracks,
+    isLoading,
+    isLoadingRange,
+    progress,
+    isLoadingArtists,
+    error,
+    artistsDetails,
+    currentTimeRange,
+    setTimeRange,
+    getCompactTracks,
+  } = useLikedArtists();
+  const [granularity, setGranularity] = useState<TrendGranularity>('monthly');
+  const [hoveredGranularity, setHoveredGranularity] = useState<string | null>(null);
+
+  const internalRange = ['PAST_YEAR', 'PAST_TWO_YEARS', 'ALL_TIME'].includes(currentTimeRange)
+    ? (currentTimeRange as InternalTimeRange)
+    : mapToInternalTimeRange(currentTimeRange as SpotifyTimeRange);
+
+  const rangeTracks = useMemo<CompactTrack[]>(
+    () =>
+      tracks.map(({ added_at, track }) => ({
+        id: track.id,
+        added_at,
+        artist_ids: track.artists.map((artist) => artist.id),
+      })),
+    [tracks]
+  );
+
+  // Discoveries are judged against the whole library once it's loaded, so an artist first
+  // liked years ago doesn't count as new just because it's the start of the selected range
+  const discovery = useMemo(() => {
+    const allTracks = getCompactTracks('ALL_TIME');
+    return getDiscoveryByPeriod(
+      allTracks.length >= rangeTracks.length ? allTracks : rangeTracks,
+      granularity,
+      getTimeRangeCutoffDate(internalRange)
+    );
+  }, [rangeTracks, internalRange, granularity, getCompactTracks]);
+
+  const diversity = useMemo(
+    () => getGenreDiversityByPeriod(rangeTracks, artistsDetails),
+    [rangeTracks, artistsDetails]
+  );
+
+  const summary = summarizeDiscovery(discovery);
+  const maxLikes = Math.max(0, ...discovery.map((period) => period.likes));
+  const maxDiversity = Math.max(0, ...diversity.map((period) => period.diversity));
+  const latestDiversity = diversity.at(-1);
+
+  const isOverallLoading = isLoading && tracks.length === 0;
+  const hasData = discovery.length > 0;
+
+  const granularityControls = (
+    <GranularitySelector
+      options={GRANULARITY_OPTIONS}
+      selectedValue={granularity}
+      hoveredValue={hoveredGranularity}
+      isDisabled={isLoading}
+      onSelect={(value) => setGranularity(value as TrendGranularity)}
+      onHover={setHoveredGranularity}
+    />
+  );
+
+  return (
+    <DataFetcherAndControlsWrapper
+      title="Discovery"
+      isLoading={isOverallLoading}
+      isProcessing={false}
+      error={error ? (typeof error === 'string' ? new Error(error) : error) : null}
+      isEmpty={!isOverallLoading && !error && !hasData}
+      emptyDataMessage="No liked tracks to measure discovery for in this time range."
+      currentTimeRange={currentTimeRange}
+      setTimeRange={setTimeRange}
+      isLoadingRange={isLoadingRange}
+      progress={progress}
+      granularityControls={granularityControls}
+      timeRangeDisplay={timeRangeDisplays.visualization}
+    >
+      {hasData && (
+        <div className="space-y-8">
+          <dl className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="bg-spotify-black/40 rounded-lg p-4">
+              <dt className="text-sm text-spotify-light-gray">New artists</dt>
+              <dd className="text-2xl font-bold text-spotify-white">
+                {summary.newArtists.toLocaleString()}
+              </dd>
+            </div>
+            <div className="bg-spotify-black/40 rounded-lg p-4">
+              <dt className="text-sm text-spotify-light-gray">Likes going to repeat artists</dt>
+              <dd className="text-2xl font-bold text-spotify-white">
+                {formatPercent(summary.repeatShare)}
+              </dd>
+            </div>
+            <div className="bg-spotify-black/40 rounded-lg p-4">
+              <dt className="text-sm text-spotify-light-gray">
+                Genre diversity
+                {latestDiversity && ` (${formatPeriodLabel(latestDiversity.period)})`}
+              </dt>
+              <dd className="text-2xl font-bold text-spotify-white">
+                {latestDiversity ? latestDiversity.diversity.toFixed(2) : '—'}
+              </dd>
+            </div>
+          </dl>
+
+          {/* Comfort zone vs exploration */}
+          <div>
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+              <h3 className="font-semibold text-spotify-white">Comfort zone vs exploration</h3>
+              <div className="flex gap-4 text-xs text-spotify-light-gray">
+                <span className="flex items-center gap-1">
+                  <span className="w-3 h-3 rounded-sm bg-spotify-green" aria-hidden="true" />
+                  New artists
+                </span>
+                <span className="flex items-center gap-1">
+                  <span className="w-3 h-3 rounded-sm bg-spotify-medium-gray" aria-hidden="true" />
+                  Artists you already liked
+                </span>
+              </div>
+            </div>
+            <div className="flex items-end space-x-2 overflow-x-auto h-72 pb-8 pt-4">
+              {discovery.map((period, idx) => (
+                <div
+                  key={period.period}
+                  className={`flex flex-col items-center min-w-[50px] h-full ${
+                    idx === 0 ? 'pl-8' : ''
+                  }`}
+                  title={`${formatPeriodLabel(period.period)}: ${period.explorationLikes} exploring, ${
+                    period.repeatLikes
+                  } comfort zone, ${period.newArtists} new artists`}
+                >
+                  <div className="flex flex-col justify-end h-full w-full items-center">
+                    <div
+                      className="w-8 flex flex-col rounded-t-md overflow-hidden"
+                      style={{
+                        height: `${maxLikes > 0 ? (period.likes / maxLikes) * 100 : 0}%`,
+                        minHeight: '4px',
+                      }}
+                    >
+                      <div
+                        className="bg-spotify-green"
+                        style={{ flexGrow: period.explorationLikes }}
+                      />
+                      <div
+                        className="bg-spotify-medium-gray"
+                        style={{ flexGrow: period.repeatLikes }}
+                      />
+                    </div>
+                  </div>
+                  <div className="text-xs text-spotify-light-gray mt-2 pb-6 transform -rotate-45 origin-top-right -translate-x-1/2 whitespace-nowrap">
+                    {formatPeriodLabel(period.period)}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Genre diversity per quarter */}
+          <div>
+            <h3 className="font-semibold text-spotify-white mb-1">Genre diversity by quarter</h3>
+            <p className="text-xs text-spotify-light-gray mb-2">
+              Shannon diversity of the genres you liked. Higher means your likes were spread over
+              more genres, more evenly.
+              {isLoadingArtists && ' Still looking up artist genres...'}
+            </p>
+            {diversity.length === 0 ? (
+              <p className="text-sm text-spotify-light-gray py-4">
+                Genre data will appear once artist details have loaded.
+              </p>
+            ) : (
+              <ul className="space-y-2">
+                {diversity.map((period) => (
+                  <li key={period.period} className="flex items-center gap-3 text-sm">
+                    <span className="w-20 shrink-0 text-spotify-light-gray">
+                      {formatPeriodLabel(period.period)}
+                    </span>
+                    <div className="flex-grow h-3 bg-spotify-black/40 rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-spotify-green rounded-full"
+                        style={{
+                          width: `${maxDiversity > 0 ? (period.diversity / maxDiversity) * 100 : 0}%`,
+                        }}
+                      />
+                    </div>
+                    <span
+                      className="w-32 shrink-0 text-right text-spotify-light-gray"
+                      title={`Evenness ${formatPercent(period.evenness)}`}
+                    >
+                      {period.diversity.toFixed(2)} · {period.genreCount} genres
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </DataFetcherAndControlsWrapper>
+  );
+}
@@ -1,10 +1,15 @@
 'use client';
 
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import HeatmapChart from '@/features/charts/HeatmapChart';
+import StackedAreaChart from '@/features/charts/StackedAreaChart';
 import DataFetcherAndControlsWrapper from '@/features/controls/DataFetcherAndControlsWrapper';
 import GranularitySelector, { GranularityOption } from '@/features/controls/GranularitySelector';
 import { useLikedArtists } from '@/hooks/useLikedArtists';
+import { ChartSeries, StackOffset } from '@/lib/chartUtils';
 import { timeRangeDisplays } from '@/lib/timeRanges';
+import { formatPeriodLabel } from '@/lib/trendUtils';
+import ToggleButton from '@/ui/ToggleButton';
 
 interface GenreTimeData {
   genre: string;
@@ -14,11 +19,30 @@ interface GenreTimeData {
 
 const CHUNK_SIZE = 250; // Process 250 tracks per chunk
 
+type GenreChartView = 'share' | 'stacked' | 'stream' | 'heatmap';
+
+const VIEW_OPTIONS: Array<{ id: GenreChartView; label: string }> = [
+  { id: 'share', label: 'Share' },
+  { id: 'stacked', label: 'Stacked' },
+  { id: 'stream', label: 'Stream' },
+  { id: 'heatmap', label: 'Heatmap' },
+];
+
+const VIEW_OFFSETS: Record<Exclude<GenreChartView, 'heatmap'>, StackOffset> = {
+  share: 'expand',
+  stacked: 'zero',
+  stream: 'silhouette',
+};
+
+// Every other period gets an axis label on the heatmap, so labels don't overlap
+const HEATMAP_LABEL_EVERY = 2;
+
 export default function GenreTrendsVisualization() {
   const {
     tracks,
     isLoading,
     isLoadingRange,
+    progress,
     isLoadingArtists,
     error,
     artistsDetails,
@@ -32,33 +56,10 @@ export default function GenreTrendsVisualization() {
   const [processingData, setProcessingData] = useState(false);
   const [granularity, setGranularity] = useState<'quarterly' | 'yearly'>('quarterly');
   const [hoveredGranularity, setHoveredGranularity] = useState<string | null>(null);
+  const [view, setView] = useState<GenreChartView>('share');
   const isMountedRef = useRef(true);
   const processingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
-  // Color palette for genres
-  const colorPalette = [
-    'bg-blue-500',
-    'bg-green-500',
-    'bg-yellow-500',
-    'bg-red-500',
-    'bg-purple-500',
-    'bg-pink-500',
-    'bg-indigo-500',
-    'bg-teal-500',
-    'bg-orange-500',
-    'bg-cyan-500',
-    'bg-emerald-500',
-    'bg-violet-500',
-    'bg-fuchsia-500',
-    'bg-rose-500',
-    'bg-sky-500',
-    'bg-lime-500',
-    'bg-amber-500',
-    'bg-blue-400',
-    'bg-green-400',
-    'bg-purple-400',
-  ];
-
   useEffect(() => {
     isMountedRef.current = true;
     return () => {
@@ -187,6 +188,32 @@ export default function GenreTrendsVisualization() {
     }
   }, [currentTimeRange]);
 
+  // One series per top genre, with its count in every period
+  const series = useMemo<ChartSeries[]>(() => {
+    const counts = new Map(
+      genreData.map((entry) => [`${entry.period}|${entry.genre}`, entry.count])
+    );
+    return topGenres.map((genre) => ({
+      key: genre,
+      label: genre,
+      values: periods.map((period) => counts.get(`${period}|${genre}`) ?? 0),
+    }));
+  }, [genreData, topGenres, periods]);
+
+  const periodTotals = periods.map((_, index) =>
+    series.reduce((sum, genre) => sum + genre.values[index], 0)
+  );
+
+  const viewControls = VIEW_OPTIONS.map((option) => (
+    <ToggleButton
+      key={option.id}
+      id={option.id}
+      label={option.label}
+      isSelected={view === option.id}
+      onClick={(id) => setView(id as GenreChartView)}
+    />
+  ));
+
   // Combined processing state that includes initial loading and artist loading
   const isOverallLoading = isLoading && tracks.length === 0;
   const isDataProcessing = (isLoadingArtists || processingData) && !isOverallLoading;
@@ -228,60 +255,42 @@ export default function GenreTrendsVisualization() {
       currentTimeRange={currentTimeRange}
       setTimeRange={setTimeRange}
       isLoadingRange={isLoadingRange}
+      progress={progress}
       granularityControls={granularityControls}
       timeRangeDisplay={timeRangeDisplays.visualization}
     >
       {hasPartialData && (
         <div className="flex flex-col">
-          <div className="overflow-x-auto pb-4">
-            <div className="min-w-[600px]">
-              {/* Legend */}
-              <div className="flex flex-wrap gap-2 mb-6">
-                {topGenres.map((genre, index) => (
-                  <div key={genre} className="flex items-center gap-1.5">
-                    <div
-                      className={`w-3 h-3 rounded-full ${colorPalette[index % colorPalette.length]}`}
-                    ></div>
-                    <span className="text-xs text-spotify-light-gray capitalize">{genre}</span>
-                  </div>
-                ))}
-              </div>
-
-              {/* Chart */}
-              <div className="space-y-4">
-                {periods.map((period) => {
-                  const periodTotal = topGenres.reduce((sum, genre) => {
-                    const entry = genreData.find((d) => d.period === period && d.genre === genre);
-                    return sum + (entry?.count || 0);
-                  }, 0);
-
-                  return (
-                    <div key={period} className="flex items-center">
-                      <div className="w-16 shrink-0 text-xs text-spotify-light-gray">{period}</div>
-                      <div className="flex-grow h-8 flex rounded-full overflow-hidden">
-                        {topGenres.map((genre, index) => {
-                          const entry = genreData.find(
-                            (d) => d.period === period && d.genre === genre
-                          );
-                          const count = entry?.count || 0;
-                          const percentage = periodTotal > 0 ? (count / periodTotal) * 100 : 0;
-
-                          return percentage > 0 ? (
-                            <div
-                              key={genre}
-                              className={`h-full ${colorPalette[index % colorPalette.length]}`}
-                              style={{ width: `${percentage}%` }}
-                              title={`${genre.toUpperCase()}: ${Math.round(percentage)}%`}
-                            ></div>
-                          ) : null;
-                        })}
-                      </div>
-                    </div>
-                  );
-                })}
-              </div>
-            </div>
-          </div>
+          {view === 'heatmap' ? (
+            <HeatmapChart
+              title="Your Genre Evolution"
+              rows={series.map((genre) => ({ key: genre.key, label: genre.label }))}
+              columns={periods.map((period, index) => ({
+                key: period,
+                label: index % HEATMAP_LABEL_EVERY === 0 ? formatPeriodLabel(period) : undefined,
+              }))}
+              values={series.map((genre) => genre.values)}
+              describeCell={({ row, column }, value) => ({
+                title: `${series[row].label} · ${formatPeriodLabel(periods[column])}`,
+                lines: [
+                  `${value.toLocaleString()} tracks (${
+                    periodTotals[column] > 0 ? Math.round((value / periodTotals[column]) * 100) : 0
+                  }% of the period)`,
+                ],
+              })}
+              toolbar={viewControls}
+            />
+          ) : (
+            <StackedAreaChart
+              title="Your Genre Evolution"
+              periods={periods}
+              formatPeriod={formatPeriodLabel}
+              series={series}
+              offset={VIEW_OFFSETS[view]}
+              unit="tracks"
+              toolbar={viewControls}
+            />
+          )}
 
           <p className="text-sm text-spotify-light-gray mt-6">
             This visualization shows how your genre preferences have changed over time by quarter.
@@ -0,0 +1,319 @@
+'use client';
+
+import { format, parseISO } from 'date-fns';
+import { useMemo, useState } from 'react';
+import BarChart, { BarDatum } from '@/features/charts/BarChart';
+import HeatmapChart, { HeatmapCell } from '@/features/charts/HeatmapChart';
+import DataFetcherAndControlsWrapper from '@/features/controls/DataFetcherAndControlsWrapper';
+import ExistingPlaylistDialog from '@/features/playlist/ExistingPlaylistDialog';
+import TrackItem from '@/features/stats/TrackItem';
+import { useLikedTracks } from '@/hooks/useLikedTracks';
+import {
+  describeCreatedPlaylist,
+  describeSaveResult,
+  useSavePlaylist,
+} from '@/hooks/useSavePlaylist';
+import {
+  WEEKDAY_LABELS,
+  buildLikeCalendar,
+  getCalendarYears,
+  getTracksLikedOn,
+} from '@/lib/likeCalendar';
+import { getTopAlbumImages } from '@/lib/playlistCover';
+import { getDayPlaylistKey } from '@/lib/playlistRegistry';
+import { timeRangeDisplays } from '@/lib/timeRanges';
+import ActionButton from '@/ui/ActionButton';
+import Toast from '@/ui/Toast';
+import ToggleButton from '@/ui/ToggleButton';
+
+type Breakdown = 'weekday' | 'hour';
+
+const BREAKDOWN_OPTIONS: Array<{ id: Breakdown; label: string }> = [
+  { id: 'weekday', label: 'Day of week' },
+  { id: 'hour', label: 'Hour of day' },
+];
+
+const yearButtonClassName =
+  'w-8 h-8 rounded-full bg-spotify-medium-gray text-spotify-white hover:bg-spotify-medium-gray/70 transition cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed';
+
+const formatHour = (hour: number) => format(new Date(2000, 0, 1, hour), 'h a');
+
+export default function LikeCalendarVisualization() {
+  const { tracks, isLoading, isLoadingRange, progress, error, currentTimeRange, setTimeRange } =
+    useLikedTracks();
+  const { savePlaylist, pendingSave, isSaving, choose, cancel } = useSavePlaylist();
+  const [selectedYear, setSelectedYear] = useState<number | null>(null);
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
+  const [breakdown, setBreakdown] = useState<Breakdown>('weekday');
+  const [isCreating, setIsCreating] = useState(false);
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+
+  const years = useMemo(() => getCalendarYears(tracks), [tracks]);
+  // Show the latest year until another is picked, and fall back if it's no longer loaded
+  const year =
+    selectedYear !== null && years.includes(selectedYear) ? selectedYear : (years[0] ?? null);
+  const yearIndex = year === null ? -1 : years.indexOf(year);
+
+  const calendar = useMemo(
+    () => (year === null ? null : buildLikeCalendar(tracks, year)),
+    [tracks, year]
+  );
+  const dayTracks = useMemo(
+    () => (selectedDay ? getTracksLikedOn(tracks, selectedDay) : []),
+    [tracks, selectedDay]
+  );
+
+  // Rows are days of the week, columns are weeks
+  const heatmapValues = useMemo(
+    () =>
+      WEEKDAY_LABELS.map((_, weekday) =>
+        (calendar?.weeks ?? []).map((week) => week[weekday]?.count ?? null)
+      ),
+    [calendar]
+  );
+
+  const selectedCell = useMemo<HeatmapCell | null>(() => {
+    if (!calendar || !selectedDay) return null;
+    for (let column = 0; column < calendar.weeks.length; column++) {
+      const row = calendar.weeks[column].findIndex((day) => day?.date === selectedDay);
+      if (row >= 0) return { row, column };
+    }
+    return null;
+  }, [calendar, selectedDay]);
+
+  const breakdownData: BarDatum[] = useMemo(() => {
+    if (!calendar) return [];
+    return breakdown === 'weekday'
+      ? calendar.byWeekday.map((count, weekday) => ({
+          key: WEEKDAY_LABELS[weekday],
+          label: WEEKDAY_LABELS[weekday],
+          value: count,
+        }))
+      : calendar.byHour.map((count, hour) => ({
+          key: String(hour),
+          label: formatHour(hour),
+          value: count,
+        }));
+  }, [calendar, breakdown]);
+
+  const selectYear = (nextYear: number) => {
+    setSelectedYear(nextYear);
+    setSelectedDay(null);
+  };
+
+  const selectCell = ({ row, column }: HeatmapCell) => {
+    const day = calendar?.weeks[column]?.[row];
+    if (!day) return;
+    setSelectedDay((prev) => (prev === day.date ? null : day.date));
+  };
+
+  const createDayPlaylist = async () => {
+    if (!selectedDay || dayTracks.length === 0) return;
+    setIsCreating(true);
+
+    try {
+      const date = parseISO(selectedDay);
+      const name = `Liked on ${format(date, 'MMM d, yyyy')}`;
+      const result = await savePlaylist({
+        key: getDayPlaylistKey(selectedDay),
+        name,
+        description: `The tracks I liked on ${format(date, 'EEEE, MMMM d, yyyy')}. Created with Jermaine's Spotify Time Machine.`,
+        trackUris: dayTracks.map((savedTrack) => `spotify:track:${savedTrack.track.id}`),
+        cover: {
+          title: format(date, 'MMM d'),
+          subtitle: format(date, 'yyyy'),
+          imageUrls: getTopAlbumImages(dayTracks),
+        },
+      });
+      if (!result) return;
+
+      setToast({
+        message:
+          result.choice === 'create' ? describeCreatedPlaylist(name) : describeSaveResult(result),
+        type: 'success',
+      });
+    } catch (err) {
+      console.error('Error creating day playlist:', err);
+      setToast({ message: 'Failed to create playlist. Please try again later.', type: 'error' });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const isOverallLoading = isLoading && tracks.length === 0;
+  const hasData = calendar !== null && calendar.total > 0;
+
+  const yearControls = year !== null && (
+    <div className="flex items-center gap-2" role="group" aria-label="Year">
+      <button
+        type="button"
+        onClick={() => selectYear(years[yearIndex + 1])}
+        disabled={yearIndex >= years.length - 1}
+        className={yearButtonClassName}
+        aria-label="Previous year"
+      >
+        ‹
+      </button>
+      <span className="text-lg font-semibold text-spotify-white tabular-nums" aria-live="polite">
+        {year}
+      </span>
+      <button
+        type="button"
+        onClick={() => selectYear(years[yearIndex - 1])}
+        disabled={yearIndex <= 0}
+        className={yearButtonClassName}
+        aria-label="Next year"
+      >
+        ›
+      </button>
+    </div>
+  );
+
+  return (
+    <DataFetcherAndControlsWrapper
+      title="Your Liking Calendar"
+      isLoading={isOverallLoading}
+      isProcessing={false}
+      error={error ? (typeof error === 'string' ? new Error(error) : error) : null}
+      isEmpty={!isOverallLoading && !error && !hasData}
+      emptyDataMessage="No liked tracks to put on the calendar in this time range."
+      currentTimeRange={currentTimeRange}
+      setTimeRange={setTimeRange}
+      isLoadingRange={isLoadingRange}
+      progress={progress}
+      timeRangeDisplay={timeRangeDisplays.visualization}
+    >
+      {toast && (
+        <Toast message={toast.message} type={toast.type} onDismiss={() => setToast(null)} />
+      )}
+
+      {pendingSave && (
+        <ExistingPlaylistDialog
+          playlist={pendingSave.existing}
+          trackCount={pendingSave.request.trackUris.length}
+          isSaving={isSaving}
+          onChoose={choose}
+          onCancel={cancel}
+        />
+      )}
+
+      {hasData && (
+        <div className="space-y-8">
+          <dl className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="bg-spotify-black/40 rounded-lg p-4">
+              <dt className="text-sm text-spotify-light-gray">Likes in {calendar.year}</dt>
+              <dd className="text-2xl font-bold text-spotify-white">
+                {calendar.total.toLocaleString()}
+              </dd>
+            </div>
+            <div className="bg-spotify-black/40 rounded-lg p-4">
+              <dt className="text-sm text-spotify-light-gray">Days with a like</dt>
+              <dd className="text-2xl font-bold text-spotify-white">
+                {calendar.activeDays.toLocaleString()}
+              </dd>
+            </div>
+            <div className="bg-spotify-black/40 rounded-lg p-4">
+              <dt className="text-sm text-spotify-light-gray">Busiest day</dt>
+              <dd className="text-2xl font-bold text-spotify-white">
+                {calendar.busiestDay
+                  ? `${format(parseISO(calendar.busiestDay.date), 'MMM d')} · ${calendar.busiestDay.count}`
+                  : '—'}
+              </dd>
+            </div>
+          </dl>
+
+          <HeatmapChart
+            title={`Tracks liked per day in ${calendar.year}`}
+            rows={WEEKDAY_LABELS.map((label) => ({ key: label, label }))}
+            columns={calendar.weeks.map((_, week) => ({
+              key: String(week),
+              label: calendar.monthStarts.find((month) => month.week === week)?.label,
+            }))}
+            values={heatmapValues}
+            describeCell={({ row, column }, value) => {
+              const day = calendar.weeks[column][row]!;
+              return {
+                title: format(parseISO(day.date), 'EEEE, MMM d, yyyy'),
+                lines: [`${value} ${value === 1 ? 'track' : 'tracks'} liked`],
+              };
+            }}
+            cellSize={12}
+            selectedCell={selectedCell}
+            onSelectCell={selectCell}
+            toolbar={yearControls}
+          />
+          <p className="text-xs text-spotify-light-gray -mt-4">
+            Pick a day to see what you liked. Days and hours are in your time zone (
+            {Intl.DateTimeFormat().resolvedOptions().timeZone}).
+            {currentTimeRange !== 'ALL_TIME' && ' Choose All Time to browse earlier years.'}
+          </p>
+
+          {selectedDay && (
+            <section
+              className="bg-spotify-black/40 rounded-lg p-4 space-y-4"
+              aria-labelledby="liking-calendar-day-heading"
+            >
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <div>
+                  <h3
+                    id="liking-calendar-day-heading"
+                    className="text-lg font-semibold text-spotify-white"
+                  >
+                    {format(parseISO(selectedDay), 'EEEE, MMMM d, yyyy')}
+                  </h3>
+                  <p className="text-sm text-spotify-light-gray">
+                    {dayTracks.length} {dayTracks.length === 1 ? 'track' : 'tracks'} liked
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <ActionButton
+                    onClick={createDayPlaylist}
+                    disabled={isCreating || dayTracks.length === 0}
+                  >
+                    {isCreating ? 'Creating...' : 'Make a playlist'}
+                  </ActionButton>
+                  <ActionButton onClick={() => setSelectedDay(null)} variant="secondary">
+                    Close
+                  </ActionButton>
+                </div>
+              </div>
+              <div className="space-y-1">
+                {dayTracks.map((savedTrack) => (
+                  <TrackItem
+                    key={savedTrack.track.id}
+                    track={savedTrack.track}
+                    addedAt={savedTrack.added_at}
+                    showAddedDate={true}
+                    showPreview={true}
+                    onClick={() =>
+                      window.open(`https://open.spotify.com/track/${savedTrack.track.id}`, '_blank')
+                    }
+                  />
+                ))}
+              </div>
+            </section>
+          )}
+
+          <BarChart
+            title={`Likes by ${breakdown === 'weekday' ? 'day of the week' : 'hour of the day'} in ${
+              calendar.year
+            }`}
+            data={breakdownData}
+            unit="tracks"
+            yAxisLabel="Tracks liked"
+            brushable={false}
+            toolbar={BREAKDOWN_OPTIONS.map((option) => (
+              <ToggleButton
+                key={option.id}
+                id={option.id}
+                label={option.label}
+                isSelected={breakdown === option.id}
+                onClick={(id) => setBreakdown(id as Breakdown)}
+              />
+            ))}
+          />
+        </div>
+      )}
+    </DataFetcherAndControlsWrapper>
+  );
+}
@@ -1,10 +1,26 @@
 'use client';
 
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import BarChart, { BarDatum } from '@/features/charts/BarChart';
 import DataFetcherAndControlsWrapper from '@/features/controls/DataFetcherAndControlsWrapper';
 import GranularitySelector, { GranularityOption } from '@/features/controls/GranularitySelector';
-import { CompactTrack, useLikedTracks } from '@/hooks/useLikedTracks';
-import { timeRangeDisplays } from '@/lib/timeRanges';
+import { useLikedTracks } from '@/hooks/useLikedTracks';
+import { usePlayHistory } from '@/hooks/usePlayHistory';
+import { CompactTrack } from '@/lib/spotifyModels';
+import {
+  InternalTimeRange,
+  SpotifyTimeRange,
+  getTimeRangeCutoffDate,
+  mapToInternalTimeRange,
+  timeRangeDisplays,
+} from '@/lib/timeRanges';
+import {
+  TrendGranularity,
+  TrendSeries,
+  aggregatePlaysByPeriod,
+  formatPeriodLabel,
+  getPeriodKey,
+} from '@/lib/trendUtils';
 
 interface MonthlyData {
   month: string;
@@ -13,13 +29,17 @@ interface MonthlyData {
 
 const CHUNK_SIZE = 250; // Process 250 tracks per chunk
 
-const formatPeriodLabel = (periodStr: string) => {
-  if (periodStr.includes('Q')) {
-    const [year, quarter] = periodStr.split('-Q');
-    return `Q${quarter} ${year}`;
-  }
-  const [year, month] = periodStr.split('-');
-  return `${new Date(parseInt(year), parseInt(month) - 1).toLocaleString('default', { month: 'short' })} ${year}`;
+const GRANULARITY_UNITS: Record<TrendGranularity, string> = {
+  daily: 'Day',
+  weekly: 'Week',
+  monthly: 'Month',
+  quarterly: 'Quarter',
+};
+
+const SERIES_LABELS: Record<TrendSeries, { axis: string; unit: string; description: string }> = {
+  likes: { axis: 'Tracks', unit: 'tracks', description: "Timeline of songs you've liked" },
+  plays: { axis: 'Plays', unit: 'plays', description: 'Timeline of how often you listened' },
+  minutes: { axis: 'Minutes', unit: 'minutes', description: 'Timeline of time spent listening' },
 };
 
 export default function ListeningTrends() {
@@ -27,15 +47,17 @@ export default function ListeningTrends() {
     tracks,
     isLoading,
     isLoadingRange,
+    progress,
     error,
     currentTimeRange,
     setTimeRange,
     getCompactTracks,
   } = useLikedTracks();
   const [monthlyData, setMonthlyData] = useState<MonthlyData[]>([]);
-  const [maxCount, setMaxCount] = useState(0);
   const [processingData, setProcessingData] = useState(false);
-  const [granularity, setGranularity] = useState<'monthly' | 'quarterly'>('monthly');
+  const [granularity, setGranularity] = useState<TrendGranularity>('monthly');
+  const [series, setSeries] = useState<TrendSeries>('likes');
+  const { plays, hasPlays } = usePlayHistory();
   const [hoveredGranularity, setHoveredGranularity] = useState<string | null>(null);
 
   const isMountedRef = useRef(true);
@@ -60,7 +82,6 @@ export default function ListeningTrends() {
     // Only set to empty state if we have no data yet
     if (isLoading && tracks.length === 0) {
       setMonthlyData([]);
-      setMaxCount(0);
       setProcessingData(false);
       return;
     }
@@ -72,7 +93,6 @@ export default function ListeningTrends() {
       // Use compact tracks for trends
       const compactTracks: CompactTrack[] = getCompactTracks(currentTimeRange);
       const currentTracksByPeriod: Record<string, number> = {};
-      let currentMaxVal = 0;
 
       const processChunk = (startIndex: number) => {
         if (!isMountedRef.current) return;
@@ -80,16 +100,7 @@ export default function ListeningTrends() {
         const endIndex = Math.min(startIndex + CHUNK_SIZE, compactTracks.length);
         for (let i = startIndex; i < endIndex; i++) {
           const item = compactTracks[i];
-          const date = new Date(item.added_at);
-          let periodKey: string;
-
-          if (granularity === 'monthly') {
-            const month = (date.getMonth() + 1).toString().padStart(2, '0');
-            periodKey = `${date.getFullYear()}-${month}`;
-          } else {
-            const quarter = Math.floor(date.getMonth() / 3) + 1;
-            periodKey = `${date.getFullYear()}-Q${quarter}`;
-          }
+          const periodKey = getPeriodKey(new Date(item.added_at), granularity);
 
           if (!currentTracksByPeriod[periodKey]) {
             currentTracksByPeriod[periodKey] = 0;
@@ -105,11 +116,8 @@ export default function ListeningTrends() {
           }))
           .toSorted((a, b) => a.month.localeCompare(b.month));
 
-        currentMaxVal = Math.max(0, ...monthlyDataArray.map((item) => item.count));
-
         if (isMountedRef.current) {
           setMonthlyData(monthlyDataArray);
-          setMaxCount(currentMaxVal);
         }
 
         if (endIndex < compactTracks.length) {
@@ -126,24 +134,71 @@ export default function ListeningTrends() {
     }
   }, [tracks, isLoading, currentTimeRange, getCompactTracks, granularity]);
 
+  // Plays and minutes per period from the play log, limited to the selected time range
+  const playTotals = useMemo(() => {
+    const internalRange = ['PAST_YEAR', 'PAST_TWO_YEARS', 'ALL_TIME'].includes(currentTimeRange)
+      ? (currentTimeRange as InternalTimeRange)
+      : mapToInternalTimeRange(currentTimeRange as SpotifyTimeRange);
+    return aggregatePlaysByPeriod(plays, granularity, getTimeRangeCutoffDate(internalRange));
+  }, [plays, granularity, currentTimeRange]);
+
+  // Play series are only offered once there is play data
+  const activeSeries: TrendSeries = hasPlays ? series : 'likes';
+  const chartData: MonthlyData[] = useMemo(() => {
+    if (activeSeries === 'likes') return monthlyData;
+    return Object.entries(playTotals)
+      .map(([month, totals]) => ({
+        month,
+        count: activeSeries === 'plays' ? totals.plays : totals.minutes,
+      }))
+      .toSorted((a, b) => a.month.localeCompare(b.month));
+  }, [activeSeries, monthlyData, playTotals]);
+  const seriesLabels = SERIES_LABELS[activeSeries];
+  const barData: BarDatum[] = useMemo(
+    () =>
+      chartData.map((data) => ({
+        key: data.month,
+        label: formatPeriodLabel(data.month),
+        value: data.count,
+        details:
+          activeSeries === 'likes' && hasPlays
+            ? [`${(playTotals[data.month]?.plays ?? 0).toLocaleString()} plays`]
+            : undefined,
+      })),
+    [chartData, activeSeries, hasPlays, playTotals]
+  );
+
   // Determine UI states
   const isOverallLoading = isLoading && tracks.length === 0;
   const isIncrementallyProcessing = processingData && !isOverallLoading;
-  const hasData = monthlyData.length > 0;
+  const hasData = chartData.length > 0;
 
   const granularityOptions: GranularityOption[] = [
+    { value: 'daily', label: 'Daily' },
+    { value: 'weekly', label: 'Weekly' },
     { value: 'monthly', label: 'Monthly' },
     { value: 'quarterly', label: 'Quarterly' },
   ];
 
+  const seriesOptions: GranularityOption[] = hasPlays
+    ? [
+        { value: 'likes', label: 'Likes' },
+        { value: 'plays', label: 'Plays' },
+        { value: 'minutes', label: 'Minutes' },
+      ]
+    : [];
+
   const granularityControls = (
     <GranularitySelector
       options={granularityOptions}
       selectedValue={granularity}
       hoveredValue={hoveredGranularity}
       isDisabled={isLoading || processingData}
-      onSelect={(value) => setGranularity(value as 'monthly' | 'quarterly')}
+      onSelect={(value) => setGranularity(value as TrendGranularity)}
       onHover={setHoveredGranularity}
+      seriesOptions={seriesOptions}
+      selectedSeries={activeSeries}
+      onSelectSeries={(value) => setSeries(value as TrendSeries)}
     />
   );
 
@@ -153,53 +208,33 @@ export default function ListeningTrends() {
       isLoading={isOverallLoading}
       isProcessing={isIncrementallyProcessing}
       error={error ? (typeof error === 'string' ? new Error(error) : error) : null}
-      isEmpty={!isOverallLoading && !error && !hasData && !processingData}
+      isEmpty={
+        !isOverallLoading && !error && !hasData && (activeSeries !== 'likes' || !processingData)
+      }
       emptyDataMessage="No listening data available to visualize after processing. If you think this is an error, please clear your cache (Spotify Account Portrait > Clear Cache) and refresh the page."
       currentTimeRange={currentTimeRange}
       setTimeRange={setTimeRange}
       isLoadingRange={isLoadingRange}
+      progress={progress}
       granularityControls={granularityControls}
       timeRangeDisplay={timeRangeDisplays.visualization}
     >
       {hasData && (
         <>
-          {/* Chart Content */}
-          <div className="flex h-96">
-            <div className="flex items-center justify-center w-10 text-xs text-spotify-light-gray shrink-0 mr-2">
-              <span className="transform -rotate-90 whitespace-nowrap">
-                Tracks / {granularity === 'monthly' ? 'Month' : 'Quarter'}
-              </span>
-            </div>
-            <div className="flex-grow flex items-end space-x-2 overflow-x-auto pb-8 pt-4">
-              {monthlyData.map((data, idx) => (
-                <div
-                  key={data.month}
-                  className={`flex flex-col items-center min-w-[50px] h-full ${
-                    idx === 0 ? 'pl-8' : ''
-                  }`}
-                  title={`${formatPeriodLabel(data.month)}: ${data.count} tracks`}
-                >
-                  <div className="flex flex-col justify-end h-full w-full items-center">
-                    <div
-                      className="w-8 bg-spotify-green rounded-t-md"
-                      style={{
-                        height: `${maxCount > 0 ? (data.count / maxCount) * 100 : 0}%`,
-                        minHeight: '4px',
-                      }}
-                    />
-                  </div>
-                  <div className="text-xs text-spotify-light-gray mt-2 pb-6 transform -rotate-45 origin-top-right -translate-x-1/2 whitespace-nowrap">
-                    {formatPeriodLabel(data.month)}
-                  </div>
-                </div>
-              ))}
+          <BarChart
+            title="Your Listening Trends"
+            data={barData}
+            unit={seriesLabels.unit}
+            yAxisLabel={`${seriesLabels.axis} / ${GRANULARITY_UNITS[granularity]}`}
+          />
+
+          <div className="flex justify-between text-sm text-spotify-light-gray mt-6">
+            <div>{seriesLabels.description}</div>
+            <div>
+              Total: {chartData.reduce((sum, data) => sum + data.count, 0).toLocaleString()}{' '}
+              {seriesLabels.unit}
             </div>
           </div>
-
-          <div className="flex justify-between text-sm text-spotify-light-gray mt-8">
-            <div>Timeline of songs you've liked</div>
-            <div>Total: {monthlyData.reduce((sum, data) => sum + data.count, 0)} tracks</div>
-          </div>
         </>
       )}
     </DataFetcherAndControlsWrapper>
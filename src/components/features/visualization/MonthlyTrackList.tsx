@@ -1,27 +1,8 @@
 import React, { useState } from 'react';
+import { MonthlyPlayStats } from '@/lib/playHistory';
+import { SavedTrack } from '@/lib/spotifyModels';
 import { getTextStyle } from '@/lib/styleUtils';
 
-interface Track {
-  id: string;
-  name: string;
-  album: {
-    name: string;
-    images: Array<{
-      url: string;
-      height?: number;
-      width?: number;
-    }>;
-  };
-  artists: Array<{ id: string; name: string }>;
-  duration_ms: number;
-  preview_url: string | null;
-}
-
-interface SavedTrack {
-  added_at: string;
-  track: Track;
-}
-
 interface MonthlyTrackListProps {
   month: string;
   tracks: SavedTrack[];
@@ -29,6 +10,10 @@ interface MonthlyTrackListProps {
   onToggle: (month: string) => void;
   onCreatePlaylist: (month: string, tracks: SavedTrack[]) => void;
   renderTrackItem: (track: SavedTrack) => React.ReactNode;
+  unlikedTracks?: SavedTrack[];
+  playStats?: MonthlyPlayStats;
+  onPlayMonth?: (month: string, tracks: SavedTrack[]) => void;
+  renderMonthActions?: (month: string, tracks: SavedTrack[]) => React.ReactNode;
 }
 
 export default function MonthlyTrackList({
@@ -38,8 +23,13 @@ export default function MonthlyTrackList({
   onToggle,
   onCreatePlaylist,
   renderTrackItem,
+  unlikedTracks = [],
+  playStats,
+  onPlayMonth,
+  renderMonthActions,
 }: MonthlyTrackListProps) {
   const [hovered, setHovered] = useState<string | null>(null);
+  const hasPreviews = tracks.some((savedTrack) => savedTrack.track.preview_url);
 
   return (
     <div className="bg-spotify-dark-gray rounded-lg overflow-hidden">
@@ -65,17 +55,42 @@ export default function MonthlyTrackList({
           style={getTextStyle(hovered === month, expanded)}
         >
           {month} • {tracks.length} tracks
+          {unlikedTracks.length > 0 && (
+            <span className="text-sm font-normal text-spotify-light-gray">
+              {' '}
+              • {unlikedTracks.length} unliked
+            </span>
+          )}
+          {playStats && (
+            <span className="text-sm font-normal text-spotify-light-gray">
+              {' '}
+              • {playStats.plays.toLocaleString()} plays
+            </span>
+          )}
         </h2>
         <div className="flex gap-4 items-center">
-          <button
-            className="bg-spotify-green text-spotify-black font-medium px-4 py-2 rounded-full hover:bg-spotify-green/90 transition text-sm cursor-pointer"
-            onClick={(e) => {
-              e.stopPropagation();
-              onCreatePlaylist(month, tracks);
-            }}
-          >
-            Create Playlist
-          </button>
+          {onPlayMonth && hasPreviews && (
+            <button
+              className="border border-spotify-light-gray text-spotify-white font-medium px-4 py-2 rounded-full hover:border-spotify-white transition text-sm cursor-pointer"
+              onClick={(e) => {
+                e.stopPropagation();
+                onPlayMonth(month, tracks);
+              }}
+            >
+              Play Previews
+            </button>
+          )}
+          {tracks.length > 0 && (
+            <button
+              className="bg-spotify-green text-spotify-black font-medium px-4 py-2 rounded-full hover:bg-spotify-green/90 transition text-sm cursor-pointer"
+              onClick={(e) => {
+                e.stopPropagation();
+                onCreatePlaylist(month, tracks);
+              }}
+            >
+              Create Playlist
+            </button>
+          )}
           <span className="text-white text-2xl" style={getTextStyle(hovered === month, expanded)}>
             {expanded ? '−' : '+'}
           </span>
@@ -85,7 +100,46 @@ export default function MonthlyTrackList({
       {/* Track List (only show when expanded) */}
       {expanded && (
         <div className="px-6 py-4">
+          {renderMonthActions && tracks.length > 0 && (
+            <div className="mb-6">{renderMonthActions(month, tracks)}</div>
+          )}
+
+          {/* Most played this month, from imported streaming history */}
+          {playStats && playStats.topTracks.length > 0 && (
+            <section className="mb-6" aria-label={`Most played in ${month}`}>
+              <h3 className="text-sm font-semibold uppercase tracking-wide text-spotify-light-gray mb-3">
+                Most played • {playStats.minutes.toLocaleString()} minutes listened
+              </h3>
+              <ol className="space-y-1 text-sm">
+                {playStats.topTracks.map((t, index) => (
+                  <li
+                    key={`${t.artist_name}-${t.track_name}`}
+                    className="flex justify-between gap-4 text-spotify-white"
+                  >
+                    <span className="truncate">
+                      {index + 1}. {t.track_name}{' '}
+                      <span className="text-spotify-light-gray">– {t.artist_name}</span>
+                    </span>
+                    <span className="shrink-0 text-spotify-light-gray">{t.plays} plays</span>
+                  </li>
+                ))}
+              </ol>
+            </section>
+          )}
+
           <div className="space-y-3">{tracks.map((savedTrack) => renderTrackItem(savedTrack))}</div>
+
+          {/* Tracks liked this month that are no longer in the library */}
+          {unlikedTracks.length > 0 && (
+            <section className="mt-6" aria-label={`Tracks you unliked from ${month}`}>
+              <h3 className="text-sm font-semibold uppercase tracking-wide text-spotify-light-gray mb-3">
+                Tracks you unliked
+              </h3>
+              <div className="space-y-3 opacity-60">
+                {unlikedTracks.map((savedTrack) => renderTrackItem(savedTrack))}
+              </div>
+            </section>
+          )}
         </div>
       )}
     </div>
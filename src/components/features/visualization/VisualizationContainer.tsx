@@ -1,5 +1,6 @@
 import { Suspense, useEffect, useState } from 'react';
 import { clearAllCachesAndRefreshComplete } from '@/lib/cacheUtils';
+import { PageProgress } from '@/lib/spotifyTrackUtils';
 import LoadingSpinner from '@/ui/LoadingSpinner';
 
 type VisualizationContainerProps = {
@@ -11,8 +12,33 @@ type VisualizationContainerProps = {
   error?: string | null;
   isEmpty?: boolean;
   emptyDataMessage?: string;
+  progress?: PageProgress | null;
 };
 
+function LoadingProgress({ pagesDone, totalPages }: PageProgress) {
+  return (
+    <div className="w-full max-w-xs mt-4">
+      <div
+        className="h-2 rounded-full bg-spotify-medium-gray overflow-hidden"
+        role="progressbar"
+        aria-label="Liked tracks loaded"
+        aria-valuemin={0}
+        aria-valuemax={totalPages}
+        aria-valuenow={pagesDone}
+        aria-valuetext={`${pagesDone} of ${totalPages} pages`}
+      >
+        <div
+          className="h-full bg-spotify-green transition-all duration-300"
+          style={{ width: `${(pagesDone / totalPages) * 100}%` }}
+        />
+      </div>
+      <p className="text-spotify-light-gray mt-2 text-xs text-center" aria-hidden="true">
+        {pagesDone.toLocaleString()} of {totalPages.toLocaleString()} pages
+      </p>
+    </div>
+  );
+}
+
 function EmptyOrErrorDisplay() {
   const handleClearCache = async () => {
     try {
@@ -53,6 +79,7 @@ export default function VisualizationContainer({
   isProcessing = false,
   error = null,
   isEmpty = false,
+  progress = null,
 }: VisualizationContainerProps) {
   const [showLoading, setShowLoading] = useState(true);
   const [showProcessing, setShowProcessing] = useState(false);
@@ -100,6 +127,7 @@ export default function VisualizationContainer({
         <div className="h-64 flex flex-col justify-center items-center" role="status">
           <LoadingSpinner size="lg" />
           <p className="text-spotify-light-gray mt-2 text-sm">Loading data...</p>
+          {progress && progress.totalPages > 1 && <LoadingProgress {...progress} />}
         </div>
       )}
 
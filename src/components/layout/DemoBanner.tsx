@@ -0,0 +1,41 @@
+'use client';
+
+import { useState } from 'react';
+import { useDemoMode } from '@/hooks/useDemoMode';
+import { exitDemoMode } from '@/lib/demoMode';
+
+// Reminds demo visitors that nothing they see or save is real
+export default function DemoBanner() {
+  const isDemo = useDemoMode();
+  const [isExiting, setIsExiting] = useState(false);
+
+  if (!isDemo) return null;
+
+  const exit = () => {
+    setIsExiting(true);
+    exitDemoMode().catch((error) => {
+      console.error('Error leaving demo mode:', error);
+      setIsExiting(false);
+    });
+  };
+
+  return (
+    <div
+      role="status"
+      className="bg-spotify-green text-spotify-black px-6 py-2 text-sm flex flex-wrap items-center justify-center gap-x-4 gap-y-1"
+    >
+      <span>
+        <strong>Demo mode:</strong> you&apos;re exploring a generated sample library. Playlists are
+        simulated and never reach Spotify.
+      </span>
+      <button
+        type="button"
+        onClick={exit}
+        disabled={isExiting}
+        className="underline font-medium cursor-pointer disabled:opacity-60"
+      >
+        {isExiting ? 'Leaving...' : 'Exit demo'}
+      </button>
+    </div>
+  );
+}
@@ -3,6 +3,11 @@
 import { useSession } from 'next-auth/react';
 import { usePathname } from 'next/navigation';
 import React from 'react';
+import MiniPlayer from '@/features/player/MiniPlayer';
+import SmartPlaylistSync from '@/features/playlist/SmartPlaylistSync';
+import RecentlyPlayedSync from '@/features/plays/RecentlyPlayedSync';
+import { PlayerProvider } from '@/providers/PlayerProvider';
+import DemoBanner from './DemoBanner';
 import Footer from './Footer';
 import Header from './Header';
 
@@ -18,10 +23,16 @@ export function LayoutContent({ children }: { children: React.ReactNode }) {
   const showNavigation = isAuthenticated && !isAuthPage;
 
   return (
-    <div className="flex flex-col min-h-screen">
-      {showNavigation && <Header />}
-      <main className="flex-grow">{children}</main>
-      <Footer />
-    </div>
+    <PlayerProvider>
+      <div className="flex flex-col min-h-screen">
+        {showNavigation && <DemoBanner />}
+        {showNavigation && <Header />}
+        {showNavigation && <RecentlyPlayedSync />}
+        {showNavigation && <SmartPlaylistSync />}
+        <main className="flex-grow">{children}</main>
+        <Footer />
+        {showNavigation && <MiniPlayer />}
+      </div>
+    </PlayerProvider>
   );
 }
@@ -4,11 +4,19 @@ import Image from 'next/image';
 import Link from 'next/link';
 import { usePathname, useRouter } from 'next/navigation';
 import { useState } from 'react';
-import { HiOutlineChartBar, HiOutlineLogout, HiOutlineTrash } from 'react-icons/hi';
+import {
+  HiOutlineChartBar,
+  HiOutlineDownload,
+  HiOutlineLogout,
+  HiOutlineTrash,
+  HiOutlineUpload,
+} from 'react-icons/hi';
 import Toast from '@/ui/Toast';
 import ActionButton from '@/ui/ActionButton';
+import { useDemoMode } from '@/hooks/useDemoMode';
 import { getTextStyle } from '@/lib/styleUtils';
 import { clearAllCachesOnlyComplete } from '@/lib/cacheUtils';
+import { exitDemoMode } from '@/lib/demoMode';
 
 interface NavigationProps {
   user?:
@@ -23,6 +31,7 @@ interface NavigationProps {
 export default function Navigation({ user }: NavigationProps) {
   const pathname = usePathname();
   const router = useRouter();
+  const isDemo = useDemoMode();
   const [toast, setToast] = useState<{
     message: string;
     type: 'success' | 'error' | 'warning' | 'info';
@@ -48,6 +57,12 @@ export default function Navigation({ user }: NavigationProps) {
   };
 
   const handleLogout = async () => {
+    // The demo never signed in to NextAuth
+    if (isDemo) {
+      await exitDemoMode();
+      return;
+    }
+
     try {
       sessionStorage.removeItem('sign_in_process_started');
       localStorage.removeItem('spotify-auth-state');
@@ -72,7 +87,10 @@ export default function Navigation({ user }: NavigationProps) {
   const navLinks = [
     { label: 'Dashboard', href: '/dashboard' },
     { label: 'History', href: '/history' },
+    { label: 'Plays', href: '/plays' },
     { label: 'Playlist Generator', href: '/playlist-generator' },
+    { label: 'Smart Playlists', href: '/smart-playlists' },
+    { label: 'Year in Review', href: '/year-in-review' },
   ];
 
   return (
@@ -157,6 +175,24 @@ export default function Navigation({ user }: NavigationProps) {
                   </ActionButton>
                 </Link>
 
+                <Link href="/export">
+                  <ActionButton variant="secondary" className="w-full justify-start">
+                    <span className="flex items-center gap-2">
+                      <HiOutlineDownload className="h-4 w-4" />
+                      Export Library
+                    </span>
+                  </ActionButton>
+                </Link>
+
+                <Link href="/import">
+                  <ActionButton variant="secondary" className="w-full justify-start">
+                    <span className="flex items-center gap-2">
+                      <HiOutlineUpload className="h-4 w-4" />
+                      Import History
+                    </span>
+                  </ActionButton>
+                </Link>
+
                 <ActionButton
                   onClick={handleClearCache}
                   variant="secondary"
@@ -175,7 +211,7 @@ export default function Navigation({ user }: NavigationProps) {
                 >
                   <span className="flex items-center gap-2">
                     <HiOutlineLogout className="h-4 w-4" />
-                    Logout
+                    {isDemo ? 'Exit demo' : 'Logout'}
                   </span>
                 </ActionButton>
               </div>
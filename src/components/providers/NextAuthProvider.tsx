@@ -1,8 +1,25 @@
 'use client';
 
-import { SessionProvider } from 'next-auth/react';
+import { SessionContext, SessionProvider } from 'next-auth/react';
 import type React from 'react';
+import { useState } from 'react';
+import { useDemoMode } from '@/hooks/useDemoMode';
+import { createDemoSession } from '@/lib/demoMode';
+
+// In demo mode pages see a signed-in session without NextAuth being involved
+function DemoSessionProvider({ children }: { children: React.ReactNode }) {
+  const [value] = useState(() => {
+    const session = createDemoSession();
+    return { data: session, status: 'authenticated' as const, update: async () => session };
+  });
+  return <SessionContext.Provider value={value}>{children}</SessionContext.Provider>;
+}
 
 export function NextAuthProvider({ children }: { children: React.ReactNode }) {
+  const isDemo = useDemoMode();
+
+  if (isDemo) {
+    return <DemoSessionProvider>{children}</DemoSessionProvider>;
+  }
   return <SessionProvider>{children}</SessionProvider>;
 }
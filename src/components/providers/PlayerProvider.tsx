@@ -0,0 +1,219 @@
+'use client';
+
+import type React from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  PlayerContext,
+  PlayerContextValue,
+  PlayerStatus,
+  PlayerTrack,
+  hasPreview,
+} from '@/hooks/usePlayer';
+
+const NO_PREVIEW_MESSAGE = 'No preview is available for this track.';
+
+export function PlayerProvider({ children }: { children: React.ReactNode }) {
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const [queue, setQueue] = useState<PlayerTrack[]>([]);
+  const [currentIndex, setCurrentIndex] = useState(-1);
+  const [status, setStatus] = useState<PlayerStatus>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState(0);
+  // Bumped on every track selection so re-selecting the same track restarts it
+  const [loadCount, setLoadCount] = useState(0);
+
+  const currentTrack = queue[currentIndex] ?? null;
+  const hasNext = currentIndex < queue.length - 1;
+  const hasPrevious = currentIndex > 0;
+
+  // Move to another queue entry; the track effect below loads it
+  const selectIndex = useCallback((update: (index: number) => number) => {
+    setCurrentIndex(update);
+    setLoadCount((count) => count + 1);
+    setProgress(0);
+    setError(null);
+    setStatus('loading');
+  }, []);
+
+  // Keep the latest advance logic reachable from the audio listeners
+  const advanceRef = useRef<() => void>(() => {});
+  useEffect(() => {
+    advanceRef.current = () => {
+      if (hasNext) {
+        selectIndex((index) => index + 1);
+      } else {
+        setStatus('idle');
+        setProgress(0);
+      }
+    };
+  }, [hasNext, selectIndex]);
+
+  // Create a single audio element for the whole app
+  useEffect(() => {
+    const audio = new Audio();
+    audio.preload = 'auto';
+    audioRef.current = audio;
+
+    const handlePlaying = () => setStatus('playing');
+    const handleWaiting = () => setStatus('loading');
+    const handlePause = () => {
+      if (!audio.ended) setStatus('paused');
+    };
+    const handleTimeUpdate = () => {
+      setProgress(audio.duration ? audio.currentTime / audio.duration : 0);
+    };
+    const handleEnded = () => advanceRef.current();
+    const handleError = () => {
+      // Ignore errors from clearing the source on stop
+      if (!audio.getAttribute('src')) return;
+      setStatus('error');
+      setError('This preview could not be played.');
+    };
+
+    audio.addEventListener('playing', handlePlaying);
+    audio.addEventListener('waiting', handleWaiting);
+    audio.addEventListener('pause', handlePause);
+    audio.addEventListener('timeupdate', handleTimeUpdate);
+    audio.addEventListener('ended', handleEnded);
+    audio.addEventListener('error', handleError);
+
+    return () => {
+      audio.pause();
+      audio.removeEventListener('playing', handlePlaying);
+      audio.removeEventListener('waiting', handleWaiting);
+      audio.removeEventListener('pause', handlePause);
+      audio.removeEventListener('timeupdate', handleTimeUpdate);
+      audio.removeEventListener('ended', handleEnded);
+      audio.removeEventListener('error', handleError);
+      audioRef.current = null;
+    };
+  }, []);
+
+  // Load and start the preview whenever the current track changes
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio || !currentTrack?.preview_url) return;
+
+    audio.src = currentTrack.preview_url;
+    audio.play().catch((err) => {
+      // A newer track replaced this one before it started
+      if (err instanceof DOMException && err.name === 'AbortError') return;
+      console.error('Error playing preview:', err);
+      setStatus('error');
+      setError('This preview could not be played.');
+    });
+  }, [currentTrack, loadCount]);
+
+  // Replace the queue, skipping tracks Spotify has no preview for
+  const playQueue = useCallback(
+    (tracks: PlayerTrack[], startTrackId?: string) => {
+      const playable = tracks.filter(hasPreview);
+      if (playable.length === 0) {
+        // Leave whatever is playing alone and just explain why nothing started
+        setError(
+          tracks.length === 1
+            ? NO_PREVIEW_MESSAGE
+            : 'None of these tracks have a preview available.'
+        );
+        return;
+      }
+
+      const startIndex = startTrackId ? playable.findIndex((t) => t.id === startTrackId) : 0;
+      setQueue(playable);
+      selectIndex(() => Math.max(startIndex, 0));
+    },
+    [selectIndex]
+  );
+
+  const togglePlay = useCallback(() => {
+    const audio = audioRef.current;
+    if (!audio || !currentTrack) return;
+
+    if (audio.paused) {
+      audio.play().catch((err) => {
+        console.error('Error resuming preview:', err);
+        setStatus('error');
+        setError('This preview could not be played.');
+      });
+    } else {
+      audio.pause();
+    }
+  }, [currentTrack]);
+
+  // Play a single track, or toggle it if it's already the current track
+  const playTrack = useCallback(
+    (track: PlayerTrack) => {
+      if (currentTrack?.id === track.id) {
+        togglePlay();
+        return;
+      }
+      playQueue([track]);
+    },
+    [currentTrack, togglePlay, playQueue]
+  );
+
+  const next = useCallback(() => {
+    if (hasNext) selectIndex((index) => index + 1);
+  }, [hasNext, selectIndex]);
+
+  // Restart the current preview unless we're near its start, like most players
+  const previous = useCallback(() => {
+    const audio = audioRef.current;
+    if (audio && audio.currentTime > 3) {
+      audio.currentTime = 0;
+      return;
+    }
+    if (hasPrevious) selectIndex((index) => index - 1);
+  }, [hasPrevious, selectIndex]);
+
+  const stop = useCallback(() => {
+    const audio = audioRef.current;
+    if (audio) {
+      audio.pause();
+      audio.removeAttribute('src');
+      audio.load();
+    }
+    setQueue([]);
+    setCurrentIndex(-1);
+    setStatus('idle');
+    setError(null);
+    setProgress(0);
+  }, []);
+
+  const value = useMemo<PlayerContextValue>(
+    () => ({
+      queue,
+      currentIndex,
+      currentTrack,
+      status,
+      error,
+      progress,
+      hasNext,
+      hasPrevious,
+      playTrack,
+      playQueue,
+      togglePlay,
+      next,
+      previous,
+      stop,
+    }),
+    [
+      queue,
+      currentIndex,
+      currentTrack,
+      status,
+      error,
+      progress,
+      hasNext,
+      hasPrevious,
+      playTrack,
+      playQueue,
+      togglePlay,
+      next,
+      previous,
+      stop,
+    ]
+  );
+
+  return <PlayerContext.Provider value={value}>{children}</PlayerContext.Provider>;
+}
@@ -0,0 +1,145 @@
+import { useEffect, useState } from 'react';
+import { isAbortError } from '@/lib/abortUtils';
+import { AudioFeatures } from '@/lib/audioFeatures';
+import {
+  CACHE_VERSION,
+  debugEnabled,
+  getCachedDataSmart,
+  setCachedDataSmart,
+} from '@/lib/cacheUtils';
+import { SpotifyApiError } from '@/lib/spotify';
+import { useSpotify } from './useSpotify';
+
+// Audio features never change for a track, so they are kept for a long time (1 year)
+const AUDIO_FEATURES_KEY = `${CACHE_VERSION}_audioFeatures`;
+const AUDIO_FEATURES_TTL_MINUTES = 365 * 24 * 60;
+
+// Maximum ids per request (Spotify limit)
+const AUDIO_FEATURES_BATCH_SIZE = 100;
+
+// Global features cache keyed by track id - null marks tracks Spotify has no features for
+let audioFeaturesCache: Map<string, AudioFeatures | null> | null = null;
+
+const UNAVAILABLE_MESSAGE = 'Spotify does not provide audio features for this app.';
+
+// Set once Spotify refuses the endpoint, so we don't retry on every render
+let featuresUnavailable = false;
+
+const loadAudioFeaturesCache = async (): Promise<Map<string, AudioFeatures | null>> => {
+  if (!audioFeaturesCache) {
+    const cached =
+      await getCachedDataSmart<Record<string, AudioFeatures | null>>(AUDIO_FEATURES_KEY);
+    audioFeaturesCache = new Map(Object.entries(cached ?? {}));
+    if (debugEnabled()) console.log(`Restored ${audioFeaturesCache.size} audio features`);
+  }
+  return audioFeaturesCache;
+};
+
+// Only keep tracks that actually have features
+const toFeatureMap = (cache: Map<string, AudioFeatures | null>, trackIds: string[]) => {
+  const features = new Map<string, AudioFeatures>();
+  trackIds.forEach((id) => {
+    const entry = cache.get(id);
+    if (entry) features.set(id, entry);
+  });
+  return features;
+};
+
+/**
+ * Fetch and cache audio features for a set of tracks. Pass a memoized id list; nothing is
+ * fetched until `enabled` is true.
+ */
+export function useAudioFeatures(trackIds: string[], enabled: boolean) {
+  const { spotifyApi, isReady } = useSpotify();
+  const [audioFeatures, setAudioFeatures] = useState<Map<string, AudioFeatures>>(new Map());
+  const [isLoadingFeatures, setIsLoadingFeatures] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled || !isReady) return;
+
+    let isMounted = true;
+    // Batches still queued when the page goes away are dropped
+    const controller = new AbortController();
+
+    const loadFeatures = async () => {
+      const cache = await loadAudioFeaturesCache();
+      const missingIds = featuresUnavailable ? [] : trackIds.filter((id) => !cache.has(id));
+
+      if (missingIds.length === 0) {
+        if (isMounted) {
+          setAudioFeatures(toFeatureMap(cache, trackIds));
+          if (featuresUnavailable) setError(UNAVAILABLE_MESSAGE);
+        }
+        return;
+      }
+
+      if (isMounted) setIsLoadingFeatures(true);
+      if (debugEnabled()) console.log(`Fetching audio features for ${missingIds.length} tracks`);
+
+      try {
+        for (let i = 0; i < missingIds.length; i += AUDIO_FEATURES_BATCH_SIZE) {
+          const batch = missingIds.slice(i, i + AUDIO_FEATURES_BATCH_SIZE);
+          const response = await spotifyApi.getAudioFeatures(batch, {
+            signal: controller.signal,
+          });
+          const results = response.body.audio_features;
+
+          batch.forEach((id, index) => {
+            const result = results[index];
+            cache.set(
+              id,
+              result
+                ? {
+                    tempo: result.tempo,
+                    energy: result.energy,
+                    valence: result.valence,
+                    danceability: result.danceability,
+                    acousticness: result.acousticness,
+                  }
+                : null
+            );
+          });
+        }
+
+        if (isMounted) setError(null);
+      } catch (err) {
+        if (isAbortError(err)) return;
+        console.error('Error fetching audio features:', err);
+        if (err instanceof SpotifyApiError && err.status === 403) {
+          featuresUnavailable = true;
+          if (isMounted) setError(UNAVAILABLE_MESSAGE);
+        } else if (isMounted) {
+          setError('Failed to load audio features. Some tracks may be missing.');
+        }
+      } finally {
+        await setCachedDataSmart(
+          AUDIO_FEATURES_KEY,
+          Object.fromEntries(cache),
+          AUDIO_FEATURES_TTL_MINUTES,
+          true
+        );
+        if (isMounted) {
+          setAudioFeatures(toFeatureMap(cache, trackIds));
+          setIsLoadingFeatures(false);
+        }
+      }
+    };
+
+    loadFeatures();
+
+    return () => {
+      isMounted = false;
+      controller.abort();
+    };
+  }, [trackIds, enabled, isReady, spotifyApi]);
+
+  return { audioFeatures, isLoadingFeatures, error };
+}
+
+export function clearAudioFeaturesInMemoryCache(): void {
+  audioFeaturesCache = null;
+  featuresUnavailable = false;
+
+  console.log('In-memory audio features cache cleared');
+}
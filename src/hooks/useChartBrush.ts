@@ -0,0 +1,73 @@
+import { useCallback, useState } from 'react';
+import { ChartRange } from '@/lib/chartUtils';
+
+export interface ChartBrushSelection extends ChartRange {
+  startIndex: number;
+  endIndex: number;
+}
+
+/**
+ * Select a contiguous run of periods on a chart, by dragging with a pointer or by pressing
+ * Enter on the first and last period with the keyboard.
+ * The selection is kept as period keys, so it survives data arriving progressively and
+ * disappears by itself once its periods are no longer shown.
+ * @param keys - Period keys currently drawn, in order
+ */
+export function useChartBrush(keys: string[]) {
+  const [brush, setBrush] = useState<{ anchor: string; focus: string } | null>(null);
+  const [isBrushing, setIsBrushing] = useState(false);
+
+  const anchorIndex = brush ? keys.indexOf(brush.anchor) : -1;
+  const focusIndex = brush ? keys.indexOf(brush.focus) : -1;
+  const selection: ChartBrushSelection | null =
+    anchorIndex >= 0 && focusIndex >= 0
+      ? {
+          from: keys[Math.min(anchorIndex, focusIndex)],
+          to: keys[Math.max(anchorIndex, focusIndex)],
+          startIndex: Math.min(anchorIndex, focusIndex),
+          endIndex: Math.max(anchorIndex, focusIndex),
+        }
+      : null;
+
+  const startBrush = useCallback(
+    (index: number) => {
+      if (!keys[index]) return;
+      setBrush({ anchor: keys[index], focus: keys[index] });
+      setIsBrushing(true);
+    },
+    [keys]
+  );
+
+  const moveBrush = useCallback(
+    (index: number) => {
+      if (!isBrushing) return;
+      const key = keys[Math.max(0, Math.min(index, keys.length - 1))];
+      if (key) setBrush((prev) => (prev ? { ...prev, focus: key } : prev));
+    },
+    [keys, isBrushing]
+  );
+
+  const endBrush = useCallback(() => setIsBrushing(false), []);
+
+  // Keyboard selection: the first press marks the start, the second the end
+  const toggleBrushAt = useCallback(
+    (index: number) => {
+      if (!keys[index]) return;
+      if (isBrushing) {
+        setBrush((prev) => (prev ? { ...prev, focus: keys[index] } : prev));
+        setIsBrushing(false);
+      } else {
+        setBrush({ anchor: keys[index], focus: keys[index] });
+        setIsBrushing(true);
+      }
+    },
+    [keys, isBrushing]
+  );
+
+  const clearBrush = useCallback(() => {
+    setBrush(null);
+    setIsBrushing(false);
+  }, []);
+
+  return { selection, isBrushing, startBrush, moveBrush, endBrush, toggleBrushAt, clearBrush };
+}
@@ -0,0 +1,12 @@
+import { useSyncExternalStore } from 'react';
+import { isDemoModeActive } from '@/lib/demoMode';
+
+// Starting or leaving the demo reloads the page, so there is nothing to subscribe to
+const subscribe = () => () => {};
+
+/**
+ * Whether the app is running the demo on a generated library. False during server rendering.
+ */
+export function useDemoMode(): boolean {
+  return useSyncExternalStore(subscribe, isDemoModeActive, () => false);
+}
@@ -1,32 +1,17 @@
 import { useCallback, useEffect, useState } from 'react';
+import { isAbortError } from '@/lib/abortUtils';
 import {
   CACHE_VERSION,
   debugEnabled,
   getCachedDataSmart,
   setCachedDataSmart,
 } from '@/lib/cacheUtils';
-import { SavedTrack, useLikedTracks } from './useLikedTracks';
+import { Artist, CompactArtist, SavedTrack } from '@/lib/spotifyModels';
+import { useLikedTracks } from './useLikedTracks';
 import { useSpotify } from './useSpotify';
 
-// Interface for cached artist data
-export interface ArtistDetail {
-  id: string;
-  name: string;
-  genres: string[];
-  popularity: number;
-  images: Array<{
-    url: string;
-    height?: number;
-    width?: number;
-  }>;
-}
-
-// Compact artist representation for genre trends
-export interface CompactArtist {
-  id: string;
-  name: string;
-  genres: string[];
-}
+// Artist details kept in the cache
+export type ArtistDetail = Pick<Artist, 'id' | 'name' | 'genres' | 'popularity' | 'images'>;
 
 // Maximum cache size for artists
 const MAX_ARTISTS_CACHE_SIZE = 10000;
@@ -87,12 +72,15 @@ export function useLikedArtists() {
   // Leverage the base tracks hook - with progressive loading
   const {
     tracks,
+    unlikedTracks,
     isLoading,
     isLoadingRange,
+    progress,
     error,
     currentTimeRange,
     setTimeRange,
     getTracksForRange,
+    getCompactTracks,
   } = useLikedTracks();
 
   // Additional state for artist details
@@ -102,7 +90,10 @@ export function useLikedArtists() {
 
   // Fetch artist details for a specific set of tracks
   const fetchArtistDetailsForTracks = useCallback(
-    async (tracksToProcess: SavedTrack[]): Promise<Map<string, ArtistDetail>> => {
+    async (
+      tracksToProcess: SavedTrack[],
+      signal?: AbortSignal
+    ): Promise<Map<string, ArtistDetail>> => {
       if (!isReady || tracksToProcess.length === 0) {
         return new Map(artistsCache);
       }
@@ -164,10 +155,11 @@ export function useLikedArtists() {
         for (let i = 0; i < artistIdArray.length; i += batchSize) {
           const batch = artistIdArray.slice(i, i + batchSize);
 
-          const response = await spotifyApi.getArtists(batch);
+          const response = await spotifyApi.getArtists(batch, { signal });
 
           // Add to both caches and mark as processed
-          response.body.artists.forEach((artist: ArtistDetail) => {
+          response.body.artists.forEach((artist) => {
+            if (!artist) return;
             artistsCache.set(artist.id, artist);
             compactArtistsCache.set(artist.id, toCompactArtist(artist));
             processedArtistIds.add(artist.id);
@@ -179,7 +171,7 @@ export function useLikedArtists() {
 
         return new Map(artistsCache);
       } catch (err) {
-        console.error('Error fetching artists details:', err);
+        if (!isAbortError(err)) console.error('Error fetching artists details:', err);
         return new Map(artistsCache);
       } finally {
         setIsLoadingArtists(false);
@@ -196,19 +188,22 @@ export function useLikedArtists() {
   // Progressive loading effect - process artists as tracks become available
   useEffect(() => {
     let isMounted = true;
+    // New tracks or leaving the page drop the artist batches still queued for the old ones
+    const controller = new AbortController();
+    const { signal } = controller;
 
     // Process available tracks immediately
     const processCurrentTracks = async () => {
       if (tracks.length === 0 || !isReady) return;
 
       try {
-        const updatedArtistDetails = await fetchArtistDetailsForTracks(tracks);
+        const updatedArtistDetails = await fetchArtistDetailsForTracks(tracks, signal);
 
         if (isMounted) {
           setArtistsDetails(updatedArtistDetails);
         }
       } catch (err) {
-        console.error('Error processing current tracks:', err);
+        if (!isAbortError(err)) console.error('Error processing current tracks:', err);
       }
     };
 
@@ -221,29 +216,29 @@ export function useLikedArtists() {
       try {
         // Process past year if we're not currently on it
         if (currentTimeRange !== 'PAST_YEAR' && isLoadingRange.PAST_YEAR === false) {
-          const pastYearTracks = await getTracksForRange('PAST_YEAR');
+          const pastYearTracks = await getTracksForRange('PAST_YEAR', signal);
           if (isMounted) {
-            await fetchArtistDetailsForTracks(pastYearTracks);
+            await fetchArtistDetailsForTracks(pastYearTracks, signal);
           }
         }
 
         // Process past two years if we're not currently on it
         if (currentTimeRange !== 'PAST_TWO_YEARS' && isLoadingRange.PAST_TWO_YEARS === false) {
-          const pastTwoYearsTracks = await getTracksForRange('PAST_TWO_YEARS');
+          const pastTwoYearsTracks = await getTracksForRange('PAST_TWO_YEARS', signal);
           if (isMounted) {
-            await fetchArtistDetailsForTracks(pastTwoYearsTracks);
+            await fetchArtistDetailsForTracks(pastTwoYearsTracks, signal);
           }
         }
 
         // Process all time if we're not currently on it
         if (currentTimeRange !== 'ALL_TIME' && isLoadingRange.ALL_TIME === false) {
-          const allTimeTracks = await getTracksForRange('ALL_TIME');
+          const allTimeTracks = await getTracksForRange('ALL_TIME', signal);
           if (isMounted) {
-            await fetchArtistDetailsForTracks(allTimeTracks);
+            await fetchArtistDetailsForTracks(allTimeTracks, signal);
           }
         }
       } catch (err) {
-        console.error('Error loading additional artist ranges:', err);
+        if (!isAbortError(err)) console.error('Error loading additional artist ranges:', err);
       }
     };
 
@@ -252,6 +247,7 @@ export function useLikedArtists() {
 
     return () => {
       isMounted = false;
+      controller.abort();
       clearTimeout(backgroundLoadTimeout);
     };
   }, [
@@ -265,6 +261,7 @@ export function useLikedArtists() {
 
   return {
     tracks,
+    unlikedTracks,
     isLoading,
     isLoadingArtists,
     error,
@@ -272,6 +269,8 @@ export function useLikedArtists() {
     currentTimeRange,
     setTimeRange,
     isLoadingRange,
+    progress,
+    getCompactTracks,
     getCompactArtists,
   };
 }
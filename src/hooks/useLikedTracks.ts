@@ -1,39 +1,29 @@
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { SharedTask, isAbortError } from '@/lib/abortUtils';
 import {
   CACHE_VERSION,
   debugEnabled,
-  getCachedDataCompressed,
-  setCachedDataCompressed,
+  getCachedDataSmart,
   setCachedDataSmart,
 } from '@/lib/cacheUtils';
-import { InternalTimeRange, SpotifyTimeRange, mapToInternalTimeRange } from '@/lib/timeRanges';
+import { SpotifyApi } from '@/lib/spotify';
+import { Album, CompactTrack, SavedTrack } from '@/lib/spotifyModels';
+import {
+  PageProgress,
+  SAVED_TRACKS_PAGE_SIZE,
+  fetchSavedTrackPages,
+} from '@/lib/spotifyTrackUtils';
+import {
+  InternalTimeRange,
+  SpotifyTimeRange,
+  getTimeRangeCutoffDate,
+  mapToInternalTimeRange,
+} from '@/lib/timeRanges';
 import { useSpotify } from './useSpotify';
 
-// Type for a single saved track
-export interface SavedTrack {
-  added_at: string;
-  track: {
-    id: string;
-    name: string;
-    album: {
-      name: string;
-      images: Array<{
-        url: string;
-        height?: number;
-        width?: number;
-      }>;
-    };
-    artists: Array<{ id: string; name: string }>;
-    duration_ms: number;
-    preview_url: string | null;
-  };
-}
-
-// Compact track representation for trends (minimal data)
-export interface CompactTrack {
-  id: string;
-  added_at: string;
-  artist_ids: string[];
+// A liked track that disappeared from the library between two syncs
+export interface UnlikedTrack extends SavedTrack {
+  removed_at: string;
 }
 
 // Efficient normalized storage structures
@@ -45,16 +35,11 @@ interface NormalizedTrack {
   artist_ids: string[];
   duration_ms: number;
   preview_url: string | null;
+  explicit?: boolean;
 }
 
-interface AlbumData {
+interface AlbumData extends Album {
   id: string;
-  name: string;
-  images: Array<{
-    url: string;
-    height?: number;
-    width?: number;
-  }>;
 }
 
 interface ArtistData {
@@ -67,6 +52,10 @@ interface NormalizedCache {
   albums: Record<string, AlbumData>;
   artists: Record<string, ArtistData>;
   lastUpdated: number;
+  // Library-wide `total` reported by Spotify at the last sync, used to detect removals
+  libraryTotal?: number;
+  // Newest `added_at` in the snapshot, the point where a delta sync can stop paging
+  newestAddedAt?: string;
 }
 
 // Time ranges supported
@@ -81,8 +70,18 @@ const CACHE_KEYS = {
 
 // Cache TTL (24 hours in milliseconds)
 // Cache TTL in milliseconds (24 hours). NOTE: Functions that expect minutes must convert.
+// Once a snapshot is older than this it is refreshed with a delta sync rather than discarded.
 const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
 
+// How long a persisted snapshot is kept around as the base for delta syncs (90 days)
+const SNAPSHOT_RETENTION_MINUTES = 90 * 24 * 60;
+
+// Key for the log of tracks that were unliked on Spotify
+const UNLIKED_TRACKS_KEY = `${CACHE_VERSION}_unlikedTracks`;
+
+// The tombstone log can't be rebuilt from the API, so it is kept for much longer (5 years)
+const UNLIKED_TRACKS_RETENTION_MINUTES = 5 * 365 * 24 * 60;
+
 // Maximum cache size (in number of tracks) - increased since data is more compact
 const MAX_CACHE_SIZE = 25000;
 
@@ -93,13 +92,34 @@ const normalizedCache: Record<InternalTimeRange, NormalizedCache | null> = {
   ALL_TIME: null,
 };
 
-// For deduplicating fetch requests
+// For deduplicating fetch requests; a fetch is aborted once no mounted hook is waiting for it
 const ongoingFetches = {
-  PAST_YEAR: null as Promise<NormalizedCache> | null,
-  PAST_TWO_YEARS: null as Promise<NormalizedCache> | null,
-  ALL_TIME: null as Promise<NormalizedCache> | null,
+  PAST_YEAR: null as SharedTask<NormalizedCache> | null,
+  PAST_TWO_YEARS: null as SharedTask<NormalizedCache> | null,
+  ALL_TIME: null as SharedTask<NormalizedCache> | null,
+};
+
+// How long an abandoned fetch keeps going, so the next page can pick it up after a navigation
+const ABANDONED_FETCH_GRACE_MS = 2000;
+
+// Pages fetched so far by each full fetch in progress, shared by every hook instance
+const fetchProgress: Record<InternalTimeRange, PageProgress | null> = {
+  PAST_YEAR: null,
+  PAST_TWO_YEARS: null,
+  ALL_TIME: null,
 };
 
+// Listeners notified whenever fetch progress changes
+const progressListeners = new Set<() => void>();
+
+const setFetchProgress = (range: InternalTimeRange, progress: PageProgress | null) => {
+  fetchProgress[range] = progress;
+  progressListeners.forEach((listener) => listener());
+};
+
+// In-memory copy of the unliked tracks log, newest removals first
+let unlikedTracksLog: UnlikedTrack[] | null = null;
+
 // Helper to generate a stable (very low collision) album id without external deps
 const generateAlbumId = (track: SavedTrack): string => {
   const base = `${track.track.album.name}|${
@@ -123,6 +143,7 @@ const normalizeTrack = (track: SavedTrack): NormalizedTrack => {
     artist_ids: track.track.artists.map((a) => a.id),
     duration_ms: track.track.duration_ms,
     preview_url: track.track.preview_url,
+    explicit: track.track.explicit ?? false,
   };
 };
 
@@ -132,6 +153,7 @@ const extractAlbumData = (track: SavedTrack): AlbumData => {
     id: generateAlbumId(track),
     name: track.track.album.name,
     images: track.track.album.images,
+    release_date: track.track.album.release_date,
   };
 };
 
@@ -158,6 +180,7 @@ const denormalizeTrack = (
     artists: track.artist_ids.map((id) => artists[id] || { id, name: 'Unknown Artist' }),
     duration_ms: track.duration_ms,
     preview_url: track.preview_url,
+    explicit: track.explicit,
   },
 });
 
@@ -176,10 +199,339 @@ const toInternalRange = (range: TimeRange): InternalTimeRange => {
   return mapToInternalTimeRange(range as SpotifyTimeRange);
 };
 
+const ALL_RANGES: InternalTimeRange[] = ['PAST_YEAR', 'PAST_TWO_YEARS', 'ALL_TIME'];
+
+// Helper to check whether a snapshot is due for a refresh
+const isCacheStale = (cache: NormalizedCache): boolean =>
+  Date.now() - cache.lastUpdated > CACHE_TTL_MS;
+
+// Helper to denormalize a whole snapshot
+const denormalizeCache = (cache: NormalizedCache): SavedTrack[] =>
+  cache.tracks.map((track) => denormalizeTrack(track, cache.albums, cache.artists));
+
+// Helper to find the newest added_at in a list of normalized tracks
+const findNewestAddedAt = (tracks: NormalizedTrack[]): string | undefined =>
+  tracks.reduce<string | undefined>(
+    (newest, track) =>
+      !newest || new Date(track.added_at) > new Date(newest) ? track.added_at : newest,
+    undefined
+  );
+
+// Helper to keep only the albums and artists referenced by a set of tracks
+const pickReferencedEntities = (
+  tracks: NormalizedTrack[],
+  albums: Record<string, AlbumData>,
+  artists: Record<string, ArtistData>
+) => {
+  const usedAlbumIds = new Set(tracks.map((t) => t.album_id));
+  const usedArtistIds = new Set(tracks.flatMap((t) => t.artist_ids));
+
+  const pickedAlbums: Record<string, AlbumData> = {};
+  const pickedArtists: Record<string, ArtistData> = {};
+
+  Object.entries(albums).forEach(([id, album]) => {
+    if (usedAlbumIds.has(id)) {
+      pickedAlbums[id] = album;
+    }
+  });
+
+  Object.entries(artists).forEach(([id, artist]) => {
+    if (usedArtistIds.has(id)) {
+      pickedArtists[id] = artist;
+    }
+  });
+
+  return { albums: pickedAlbums, artists: pickedArtists };
+};
+
+// Helper to build a normalized snapshot from raw saved tracks
+const buildNormalizedCache = (items: SavedTrack[], libraryTotal: number): NormalizedCache => {
+  const normalizedTracks: NormalizedTrack[] = [];
+  const albums: Record<string, AlbumData> = {};
+  const artists: Record<string, ArtistData> = {};
+
+  items.forEach((track) => {
+    // Add normalized track
+    normalizedTracks.push(normalizeTrack(track));
+
+    // Add album data
+    const albumData = extractAlbumData(track);
+    albums[albumData.id] = albumData;
+
+    // Add artist data
+    track.track.artists.forEach((artist) => {
+      const artistData = extractArtistData(artist);
+      artists[artistData.id] = artistData;
+    });
+  });
+
+  return {
+    tracks: normalizedTracks,
+    albums,
+    artists,
+    lastUpdated: Date.now(),
+    libraryTotal,
+    newestAddedAt: findNewestAddedAt(normalizedTracks),
+  };
+};
+
+// Helper to put newly liked tracks on top of an existing snapshot, dropping tracks that have
+// aged out of the range
+const mergeIntoCache = (
+  cache: NormalizedCache,
+  newItems: SavedTrack[],
+  libraryTotal: number,
+  cutoffDate: Date
+): NormalizedCache => {
+  const delta = buildNormalizedCache(newItems, libraryTotal);
+  const newIds = new Set(delta.tracks.map((t) => t.id));
+
+  const tracks = [...delta.tracks, ...cache.tracks.filter((t) => !newIds.has(t.id))].filter(
+    (t) => new Date(t.added_at) >= cutoffDate
+  );
+  const { albums, artists } = pickReferencedEntities(
+    tracks,
+    { ...cache.albums, ...delta.albums },
+    { ...cache.artists, ...delta.artists }
+  );
+
+  return {
+    tracks,
+    albums,
+    artists,
+    lastUpdated: Date.now(),
+    libraryTotal,
+    newestAddedAt: findNewestAddedAt(tracks),
+  };
+};
+
+// Helper to store a snapshot in memory and in persistent storage
+const persistCache = async (range: InternalTimeRange, data: NormalizedCache) => {
+  normalizedCache[range] = data;
+  // Force IndexedDB for large datasets (TTL passed in minutes)
+  await setCachedDataSmart(CACHE_KEYS[range], data, SNAPSHOT_RETENTION_MINUTES, true);
+};
+
+// Helper to get a snapshot from memory, falling back to persistent storage
+const loadPersistedCache = async (range: InternalTimeRange): Promise<NormalizedCache | null> => {
+  if (normalizedCache[range]) {
+    return normalizedCache[range];
+  }
+
+  let cachedData = await getCachedDataSmart<NormalizedCache>(CACHE_KEYS[range]);
+  if (cachedData) {
+    if (debugEnabled()) console.log(`Restored persistent normalized cache for ${range}`);
+
+    // Snapshots saved before explicit flags and release dates were stored can't be patched
+    // with a delta, so mark them stale and without a library total to force one full refetch
+    if (cachedData.tracks.length > 0 && cachedData.tracks[0].explicit === undefined) {
+      cachedData = { ...cachedData, lastUpdated: 0, libraryTotal: undefined };
+    }
+
+    normalizedCache[range] = cachedData;
+  }
+  return cachedData;
+};
+
+// Helper to get the unliked tracks log from memory, falling back to persistent storage
+const loadUnlikedTracks = async (): Promise<UnlikedTrack[]> => {
+  if (!unlikedTracksLog) {
+    unlikedTracksLog = (await getCachedDataSmart<UnlikedTrack[]>(UNLIKED_TRACKS_KEY)) ?? [];
+  }
+  return unlikedTracksLog;
+};
+
+// Diff two snapshots of the same range and add tombstones for tracks that are no longer liked,
+// dropping the tombstones of tracks that were liked again
+const recordRemovedTracks = async (
+  previous: NormalizedCache,
+  next: NormalizedCache,
+  cutoffDate: Date
+) => {
+  const currentIds = new Set(next.tracks.map((t) => t.id));
+  const removed = previous.tracks.filter(
+    (t) => !currentIds.has(t.id) && new Date(t.added_at) >= cutoffDate
+  );
+
+  const log = await loadUnlikedTracks();
+  const stillUnliked = log.filter((t) => !currentIds.has(t.track.id));
+
+  // Overlapping ranges detect the same removal, so dedupe against the existing log
+  const knownKeys = new Set(log.map((t) => `${t.track.id}|${t.added_at}`));
+  const removedAt = new Date().toISOString();
+  const tombstones: UnlikedTrack[] = removed
+    .filter((t) => !knownKeys.has(`${t.id}|${t.added_at}`))
+    .map((t) => ({
+      ...denormalizeTrack(t, previous.albums, previous.artists),
+      removed_at: removedAt,
+    }));
+  if (tombstones.length === 0 && stillUnliked.length === log.length) return;
+
+  unlikedTracksLog = [...tombstones, ...stillUnliked];
+  await setCachedDataSmart(
+    UNLIKED_TRACKS_KEY,
+    unlikedTracksLog,
+    UNLIKED_TRACKS_RETENTION_MINUTES,
+    true
+  );
+
+  if (debugEnabled())
+    console.log(
+      `Recorded ${tombstones.length} unliked tracks, ${log.length - stillUnliked.length} liked again`
+    );
+};
+
+// Helper to derive a shorter range from a fresh ALL_TIME snapshot without hitting the API
+const deriveFromAllTime = (range: InternalTimeRange): NormalizedCache | null => {
+  const allTime = normalizedCache.ALL_TIME;
+  if (range === 'ALL_TIME' || !allTime || isCacheStale(allTime)) {
+    return null;
+  }
+  return {
+    ...mergeIntoCache(allTime, [], allTime.libraryTotal ?? 0, getTimeRangeCutoffDate(range)),
+    libraryTotal: allTime.libraryTotal,
+    lastUpdated: allTime.lastUpdated,
+  };
+};
+
+// Fetch every saved track in a range, newest first, stopping at the range cutoff
+const fetchFullRange = async (
+  api: SpotifyApi,
+  range: InternalTimeRange,
+  signal?: AbortSignal
+): Promise<NormalizedCache> => {
+  const cutoffDate = getTimeRangeCutoffDate(range);
+  const isBeforeCutoff = (track: SavedTrack) => new Date(track.added_at) < cutoffDate;
+
+  try {
+    const { items, total } = await fetchSavedTrackPages(api, {
+      signal,
+      onProgress: (progress) => setFetchProgress(range, progress),
+      // Pages are newest first, so none is needed after the one that reaches the cutoff
+      isLastPage:
+        range === 'ALL_TIME'
+          ? undefined
+          : (pageItems) => {
+              const oldest = pageItems.at(-1);
+              return oldest !== undefined && isBeforeCutoff(oldest);
+            },
+    });
+
+    return buildNormalizedCache(
+      range === 'ALL_TIME' ? items : items.filter((track) => !isBeforeCutoff(track)),
+      total
+    );
+  } finally {
+    setFetchProgress(range, null);
+  }
+};
+
+/**
+ * Pages the saved tracks endpoint from the newest end until it reaches a track that is already
+ * in the snapshot. Returns null when the library total no longer adds up (a track was removed),
+ * in which case the snapshot can't be patched and has to be refetched.
+ */
+const fetchLibraryDelta = async (
+  api: SpotifyApi,
+  cache: NormalizedCache,
+  cutoffDate: Date,
+  signal?: AbortSignal
+): Promise<{ newItems: SavedTrack[]; total: number } | null> => {
+  if (cache.libraryTotal === undefined || !cache.newestAddedAt) {
+    return null;
+  }
+
+  const knownKeys = new Set(cache.tracks.map((t) => `${t.id}|${t.added_at}`));
+  const newestKnownTime = new Date(cache.newestAddedAt).getTime();
+  const limit = SAVED_TRACKS_PAGE_SIZE;
+  const newItems: SavedTrack[] = [];
+  let offset = 0;
+  let total = 0;
+  let reachedKnown = false;
+
+  do {
+    const response = await api.getMySavedTracks({ limit, offset }, { signal });
+    const { items, skipped } = response.body;
+    total = response.body.total;
+
+    for (const item of items) {
+      const addedAt = new Date(item.added_at);
+      if (
+        knownKeys.has(`${item.track.id}|${item.added_at}`) ||
+        addedAt.getTime() < newestKnownTime ||
+        addedAt < cutoffDate
+      ) {
+        reachedKnown = true;
+        break;
+      }
+      newItems.push(item);
+    }
+
+    if (items.length + skipped === 0) break;
+    offset += limit;
+  } while (!reachedKnown && offset < total);
+
+  if (total !== cache.libraryTotal + newItems.length) {
+    return null;
+  }
+
+  return { newItems, total };
+};
+
+// Refresh a stale snapshot with the fewest possible requests, patching the other ranges with the
+// same delta when they were synced against the same library state
+const syncRangeIncrementally = async (
+  api: SpotifyApi,
+  range: InternalTimeRange,
+  cache: NormalizedCache,
+  signal?: AbortSignal
+): Promise<NormalizedCache> => {
+  const cutoffDate = getTimeRangeCutoffDate(range);
+  const delta = await fetchLibraryDelta(api, cache, cutoffDate, signal);
+
+  if (!delta) {
+    if (debugEnabled())
+      console.log(`Library total changed for ${range}, falling back to a full refetch`);
+    const fresh = deriveFromAllTime(range) ?? (await fetchFullRange(api, range, signal));
+    await recordRemovedTracks(cache, fresh, cutoffDate);
+    await persistCache(range, fresh);
+    return fresh;
+  }
+
+  const updated = mergeIntoCache(cache, delta.newItems, delta.total, cutoffDate);
+  // Nothing was removed, but a newly liked track may have been unliked before
+  await recordRemovedTracks(cache, updated, cutoffDate);
+  await persistCache(range, updated);
+
+  if (debugEnabled())
+    console.log(`Delta sync for ${range}: ${delta.newItems.length} new tracks merged`);
+
+  await Promise.all(
+    ALL_RANGES.filter((other) => other !== range).map(async (other) => {
+      if (ongoingFetches[other]) return;
+
+      const otherCache = await loadPersistedCache(other);
+      if (
+        !otherCache ||
+        otherCache.libraryTotal !== cache.libraryTotal ||
+        otherCache.newestAddedAt !== cache.newestAddedAt
+      ) {
+        return;
+      }
+
+      await persistCache(
+        other,
+        mergeIntoCache(otherCache, delta.newItems, delta.total, getTimeRangeCutoffDate(other))
+      );
+    })
+  );
+
+  return updated;
+};
+
 // Helper to check cache size and cleanup if needed
 const checkAndCleanupCache = (range: TimeRange) => {
   const internalRange = toInternalRange(range);
-  const cacheKey = CACHE_KEYS[internalRange];
   const cache = normalizedCache[internalRange];
 
   if (cache && cache.tracks.length > MAX_CACHE_SIZE) {
@@ -189,34 +541,20 @@ const checkAndCleanupCache = (range: TimeRange) => {
       .slice(0, MAX_CACHE_SIZE);
 
     // Remove unused albums and artists
-    const usedAlbumIds = new Set(trimmedTracks.map((t) => t.album_id));
-    const usedArtistIds = new Set(trimmedTracks.flatMap((t) => t.artist_ids));
-
-    const trimmedAlbums: Record<string, AlbumData> = {};
-    const trimmedArtists: Record<string, ArtistData> = {};
-
-    Object.entries(cache.albums).forEach(([id, album]) => {
-      if (usedAlbumIds.has(id)) {
-        trimmedAlbums[id] = album;
-      }
-    });
-
-    Object.entries(cache.artists).forEach(([id, artist]) => {
-      if (usedArtistIds.has(id)) {
-        trimmedArtists[id] = artist;
-      }
-    });
+    const { albums: trimmedAlbums, artists: trimmedArtists } = pickReferencedEntities(
+      trimmedTracks,
+      cache.albums,
+      cache.artists
+    );
 
     const trimmedCache: NormalizedCache = {
+      ...cache,
       tracks: trimmedTracks,
       albums: trimmedAlbums,
       artists: trimmedArtists,
-      lastUpdated: cache.lastUpdated,
     };
 
-    normalizedCache[internalRange] = trimmedCache;
-    // setCachedDataCompressed expects ttl in MINUTES, current constant is in ms
-    setCachedDataCompressed(cacheKey, trimmedCache, Math.floor(CACHE_TTL_MS / (60 * 1000)));
+    persistCache(internalRange, trimmedCache).catch(console.error);
 
     if (debugEnabled())
       console.log(
@@ -238,135 +576,76 @@ export function useLikedTracks() {
   });
   const [error, setError] = useState<string | null>(null);
   const [currentTimeRange, setCurrentTimeRange] = useState<TimeRange>('PAST_YEAR');
+  const [allUnlikedTracks, setAllUnlikedTracks] = useState<UnlikedTrack[]>([]);
+  const [progressByRange, setProgressByRange] = useState(() => ({ ...fetchProgress }));
 
-  // Helper function to get cutoff date for a time range
-  const getCutoffDate = useCallback((range: TimeRange) => {
-    const now = new Date();
-    const cutoffDate = new Date();
-
-    switch (range) {
-      case 'PAST_YEAR':
-        cutoffDate.setFullYear(now.getFullYear() - 1);
-        break;
-      case 'PAST_TWO_YEARS':
-        cutoffDate.setFullYear(now.getFullYear() - 2);
-        break;
-      case 'ALL_TIME':
-        return new Date(0); // Beginning of time
-    }
-    return cutoffDate;
+  // Follow full fetches started by any instance of this hook
+  useEffect(() => {
+    const listener = () => setProgressByRange({ ...fetchProgress });
+    progressListeners.add(listener);
+    return () => {
+      progressListeners.delete(listener);
+    };
   }, []);
 
   // Fetch tracks for a specific time range
   const fetchTracksForRange = useCallback(
-    async (range: TimeRange): Promise<SavedTrack[]> => {
+    async (range: TimeRange, signal?: AbortSignal): Promise<SavedTrack[]> => {
       if (!isReady) return [];
 
       const internalRange = toInternalRange(range);
+      const findOngoingFetch = () => {
+        const ongoing = ongoingFetches[internalRange];
+        return ongoing && !ongoing.isAborted ? ongoing : null;
+      };
 
-      // Check in-memory cache first
-      if (normalizedCache[internalRange]) {
-        if (debugEnabled()) console.log(`Using in-memory normalized cache for ${range}`);
-        const cache = normalizedCache[internalRange]!;
-        return cache.tracks.map((track) => denormalizeTrack(track, cache.albums, cache.artists));
+      // Check if fetch is already in progress
+      const ongoing = findOngoingFetch();
+      if (ongoing) {
+        if (debugEnabled()) console.log(`Waiting for ongoing fetch for ${range}`);
+        return denormalizeCache(await ongoing.join(signal));
       }
 
-      // Then check persistent cache
-      const cacheKey = CACHE_KEYS[internalRange];
-      const cachedData = await getCachedDataCompressed<NormalizedCache>(cacheKey);
+      // Check in-memory cache first, then persistent cache
+      const existingCache = await loadPersistedCache(internalRange);
 
-      if (cachedData) {
-        if (debugEnabled()) console.log(`Using persistent normalized cache for ${range}`);
-        normalizedCache[internalRange] = cachedData;
-        return cachedData.tracks.map((track) =>
-          denormalizeTrack(track, cachedData.albums, cachedData.artists)
-        );
+      if (existingCache && !isCacheStale(existingCache)) {
+        if (debugEnabled()) console.log(`Using normalized cache for ${range}`);
+        return denormalizeCache(existingCache);
       }
 
-      // Check if fetch is already in progress
-      if (ongoingFetches[internalRange]) {
-        if (debugEnabled()) console.log(`Waiting for ongoing fetch for ${range}`);
-        const cache = await ongoingFetches[internalRange]!;
-        return cache.tracks.map((track) => denormalizeTrack(track, cache.albums, cache.artists));
+      // Another caller may have started a sync while the persistent cache was being read
+      const startedMeanwhile = findOngoingFetch();
+      if (startedMeanwhile) {
+        return denormalizeCache(await startedMeanwhile.join(signal));
       }
 
-      // Prepare to fetch from API
-      const cutoffDate = getCutoffDate(range);
-      if (debugEnabled()) console.log(`Fetching ${range} tracks from API`);
-
-      const fetchPromise = (async (): Promise<NormalizedCache> => {
+      const task = new SharedTask<NormalizedCache>(async (taskSignal) => {
         try {
-          const limit = 50;
-          let offset = 0;
-          let allTracks: SavedTrack[] = [];
-          let total = 0;
-          let fetchedItemsCount = 0;
-          let reachedCutoff = false;
-
-          do {
-            const response = await spotifyApi.getMySavedTracks({
-              limit,
-              offset,
-            });
-            const newTracks = response.body.items as SavedTrack[];
-            fetchedItemsCount = newTracks.length;
-
-            // Check if we've reached the time cutoff
-            if (range !== 'ALL_TIME' && fetchedItemsCount > 0) {
-              const oldestTrackDate = new Date(newTracks[fetchedItemsCount - 1].added_at);
-              if (oldestTrackDate < cutoffDate) {
-                reachedCutoff = true;
-
-                // Filter out tracks older than cutoff
-                const filteredTracks = newTracks.filter(
-                  (track) => new Date(track.added_at) >= cutoffDate
-                );
-                allTracks = [...allTracks, ...filteredTracks];
-                break;
-              }
-            }
-
-            allTracks = [...allTracks, ...newTracks];
-            total = response.body.total;
-            offset += limit;
-          } while (offset < total && fetchedItemsCount > 0 && !reachedCutoff);
-
-          // Normalize the data
-          const normalizedTracks: NormalizedTrack[] = [];
-          const albums: Record<string, AlbumData> = {};
-          const artists: Record<string, ArtistData> = {};
-
-          allTracks.forEach((track) => {
-            // Add normalized track
-            normalizedTracks.push(normalizeTrack(track));
-
-            // Add album data
-            const albumData = extractAlbumData(track);
-            albums[albumData.id] = albumData;
-
-            // Add artist data
-            track.track.artists.forEach((artist) => {
-              const artistData = extractArtistData(artist);
-              artists[artistData.id] = artistData;
-            });
-          });
+          // A stale snapshot only needs the tracks liked since it was taken
+          if (existingCache) {
+            if (debugEnabled()) console.log(`Delta syncing ${range} tracks`);
+            return await syncRangeIncrementally(
+              spotifyApi,
+              internalRange,
+              existingCache,
+              taskSignal
+            );
+          }
 
-          const normalizedCacheData: NormalizedCache = {
-            tracks: normalizedTracks,
-            albums,
-            artists,
-            lastUpdated: Date.now(),
-          };
+          if (debugEnabled()) console.log(`Fetching ${range} tracks from API`);
+          const normalizedCacheData =
+            deriveFromAllTime(internalRange) ??
+            (await fetchFullRange(spotifyApi, internalRange, taskSignal));
 
           // Cache the normalized results using smart caching
-          normalizedCache[internalRange] = normalizedCacheData;
-          await setCachedDataSmart(cacheKey, normalizedCacheData, CACHE_TTL_MS / (60 * 1000), true); // Force IndexedDB for large datasets (TTL passed in minutes)
+          await persistCache(internalRange, normalizedCacheData);
 
           if (debugEnabled())
             console.log(
-              `Cached ${normalizedTracks.length} normalized tracks for ${range} (${
-                Object.keys(albums).length
-              } albums, ${Object.keys(artists).length} artists)`
+              `Cached ${normalizedCacheData.tracks.length} normalized tracks for ${range} (${
+                Object.keys(normalizedCacheData.albums).length
+              } albums, ${Object.keys(normalizedCacheData.artists).length} artists)`
             );
 
           // After fetching, check and cleanup cache
@@ -374,18 +653,27 @@ export function useLikedTracks() {
 
           return normalizedCacheData;
         } catch (err) {
+          // Nobody is waiting for an aborted fetch, and the next caller starts a new one
+          if (isAbortError(err)) throw err;
+          if (existingCache) {
+            // Serving a day-old snapshot beats showing an error
+            console.warn(`Delta sync failed for ${range}, using existing snapshot:`, err);
+            return existingCache;
+          }
           console.error(`Error fetching tracks for ${range}:`, err);
           throw err;
-        } finally {
-          ongoingFetches[internalRange] = null;
         }
-      })();
-
-      ongoingFetches[internalRange] = fetchPromise;
-      const cache = await fetchPromise;
-      return cache.tracks.map((track) => denormalizeTrack(track, cache.albums, cache.artists));
+      }, ABANDONED_FETCH_GRACE_MS);
+
+      ongoingFetches[internalRange] = task;
+      const clearOngoingFetch = () => {
+        // A new fetch may have replaced this one after it was aborted
+        if (ongoingFetches[internalRange] === task) ongoingFetches[internalRange] = null;
+      };
+      task.promise.then(clearOngoingFetch, clearOngoingFetch);
+      return denormalizeCache(await task.join(signal));
     },
-    [isReady, spotifyApi, getCutoffDate]
+    [isReady, spotifyApi]
   );
 
   // Get compact tracks for trends (now more efficient)
@@ -403,9 +691,29 @@ export function useLikedTracks() {
     return [];
   }, []);
 
+  // Aborted only on unmount: changing range keeps the background crawls going
+  const abortRef = useRef<AbortController | null>(null);
+  useEffect(() => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    return () => controller.abort();
+  }, []);
+
   // Load tracks for current time range and start loading other ranges in the background
   useEffect(() => {
     let isMounted = true;
+    const signal = abortRef.current?.signal;
+    const logUnlessAborted = (err: unknown) => {
+      if (!isAbortError(err)) console.error(err);
+    };
+
+    // Pick up any tombstones recorded by the syncs below
+    const refreshUnlikedTracks = () =>
+      loadUnlikedTracks()
+        .then((log) => {
+          if (isMounted) setAllUnlikedTracks(log);
+        })
+        .catch(console.error);
 
     const loadTrackData = async () => {
       if (!isReady) return;
@@ -415,7 +723,7 @@ export function useLikedTracks() {
         setError(null);
 
         // First, prioritize loading data for current range
-        const currentRangeTracks = await fetchTracksForRange(currentTimeRange);
+        const currentRangeTracks = await fetchTracksForRange(currentTimeRange, signal);
 
         if (isMounted) {
           setTracks(currentRangeTracks);
@@ -424,44 +732,49 @@ export function useLikedTracks() {
             ...prev,
             [toInternalRange(currentTimeRange)]: false,
           }));
+          refreshUnlikedTracks();
         }
 
         // Then load other ranges in the background, starting with the closest to current
         if (currentTimeRange === 'PAST_YEAR') {
           // If viewing past year, load past 2 years next, then all time
-          fetchTracksForRange('PAST_TWO_YEARS')
+          fetchTracksForRange('PAST_TWO_YEARS', signal)
             .then(() => {
               if (isMounted) setLoadingState((prev) => ({ ...prev, PAST_TWO_YEARS: false }));
-              return fetchTracksForRange('ALL_TIME');
+              return fetchTracksForRange('ALL_TIME', signal);
             })
             .then(() => {
               if (isMounted) setLoadingState((prev) => ({ ...prev, ALL_TIME: false }));
+              refreshUnlikedTracks();
             })
-            .catch(console.error);
+            .catch(logUnlessAborted);
         } else if (currentTimeRange === 'PAST_TWO_YEARS') {
           // If viewing past 2 years, load past year first (might be faster), then all time
-          fetchTracksForRange('PAST_YEAR')
+          fetchTracksForRange('PAST_YEAR', signal)
             .then(() => {
               if (isMounted) setLoadingState((prev) => ({ ...prev, PAST_YEAR: false }));
-              return fetchTracksForRange('ALL_TIME');
+              return fetchTracksForRange('ALL_TIME', signal);
             })
             .then(() => {
               if (isMounted) setLoadingState((prev) => ({ ...prev, ALL_TIME: false }));
+              refreshUnlikedTracks();
             })
-            .catch(console.error);
+            .catch(logUnlessAborted);
         } else {
           // If viewing all time, load past year first, then past 2 years
-          fetchTracksForRange('PAST_YEAR')
+          fetchTracksForRange('PAST_YEAR', signal)
             .then(() => {
               if (isMounted) setLoadingState((prev) => ({ ...prev, PAST_YEAR: false }));
-              return fetchTracksForRange('PAST_TWO_YEARS');
+              return fetchTracksForRange('PAST_TWO_YEARS', signal);
             })
             .then(() => {
               if (isMounted) setLoadingState((prev) => ({ ...prev, PAST_TWO_YEARS: false }));
+              refreshUnlikedTracks();
             })
-            .catch(console.error);
+            .catch(logUnlessAborted);
         }
       } catch (err) {
+        if (isAbortError(err)) return;
         console.error('Error in useLikedTracks:', err);
         if (isMounted) {
           setError('Failed to load your music data. Please try again later.');
@@ -489,11 +802,7 @@ export function useLikedTracks() {
 
     // If we already have data for this range, update immediately
     if (normalizedCache[internalRange]) {
-      const cache = normalizedCache[internalRange]!;
-      const denormalizedTracks = cache.tracks.map((track) =>
-        denormalizeTrack(track, cache.albums, cache.artists)
-      );
-      setTracks(denormalizedTracks);
+      setTracks(denormalizeCache(normalizedCache[internalRange]!));
       setIsLoading(false);
     } else {
       // Otherwise, show loading state
@@ -501,10 +810,21 @@ export function useLikedTracks() {
     }
   }, []);
 
+  // Only the tombstones whose original like falls inside the current range
+  const unlikedTracks = useMemo(() => {
+    const cutoffDate = getTimeRangeCutoffDate(toInternalRange(currentTimeRange));
+    return allUnlikedTracks.filter((t) => new Date(t.added_at) >= cutoffDate);
+  }, [allUnlikedTracks, currentTimeRange]);
+
+  // Pages done out of the pages needed while the current range is fetched in full
+  const progress = progressByRange[toInternalRange(currentTimeRange)];
+
   return {
     tracks,
+    unlikedTracks,
     isLoading,
     isLoadingRange: loadingState,
+    progress,
     error,
     currentTimeRange,
     setTimeRange,
@@ -525,5 +845,7 @@ export function clearTracksInMemoryCache(): void {
   ongoingFetches.PAST_TWO_YEARS = null;
   ongoingFetches.ALL_TIME = null;
 
+  unlikedTracksLog = null;
+
   if (debugEnabled()) console.log('In-memory tracks cache cleared');
 }
@@ -0,0 +1,124 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  PlayEvent,
+  addPlayEvents,
+  clearPlayHistory,
+  loadPlayHistory,
+  subscribeToPlayHistory,
+} from '@/lib/playHistory';
+import {
+  StreamingHistoryFile,
+  StreamingHistoryParseResult,
+  StreamingHistoryWorkerResponse,
+  parseStreamingHistoryFiles,
+} from '@/lib/streamingHistory';
+
+export interface ImportSummary {
+  added: number;
+  parsedFiles: string[];
+  skippedFiles: Array<{ name: string; reason: string }>;
+}
+
+// Parse export files in a worker, falling back to the main thread where workers aren't available
+const parseInWorker = (files: StreamingHistoryFile[]): Promise<StreamingHistoryParseResult> => {
+  if (typeof Worker === 'undefined') {
+    return Promise.resolve(parseStreamingHistoryFiles(files));
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(
+      new URL('../workers/streamingHistoryParser.worker.ts', import.meta.url)
+    );
+
+    worker.addEventListener('message', (event: MessageEvent<StreamingHistoryWorkerResponse>) => {
+      worker.terminate();
+      if (event.data.type === 'result') {
+        resolve(event.data.result);
+      } else {
+        reject(new Error(event.data.message));
+      }
+    });
+    worker.addEventListener('error', (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Streaming history worker failed'));
+    });
+
+    // Workers have no target origin
+    // oxlint-disable-next-line require-post-message-target-origin
+    worker.postMessage({ files });
+  });
+};
+
+export function usePlayHistory() {
+  const [plays, setPlays] = useState<PlayEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the stored play log and keep it in sync with other hook instances
+  useEffect(() => {
+    let isMounted = true;
+
+    loadPlayHistory()
+      .then((log) => {
+        if (isMounted) setPlays(log);
+      })
+      .catch((err) => {
+        console.error('Error loading play history:', err);
+        if (isMounted) setError('Failed to load your play history.');
+      })
+      .finally(() => {
+        if (isMounted) setIsLoading(false);
+      });
+
+    const unsubscribe = subscribeToPlayHistory((log) => {
+      if (isMounted) setPlays(log);
+    });
+
+    return () => {
+      isMounted = false;
+      unsubscribe();
+    };
+  }, []);
+
+  // Import StreamingHistory*.json / endsong_*.json files from a privacy export
+  const importFiles = useCallback(async (files: File[]): Promise<ImportSummary | null> => {
+    setIsImporting(true);
+    setError(null);
+
+    try {
+      const contents = await Promise.all(
+        files.map(async (file) => ({ name: file.name, text: await file.text() }))
+      );
+      const result = await parseInWorker(contents);
+      const { added } = await addPlayEvents(result.events);
+
+      return { added, parsedFiles: result.parsedFiles, skippedFiles: result.skippedFiles };
+    } catch (err) {
+      console.error('Error importing streaming history:', err);
+      setError('Failed to import your streaming history. Please check the files and try again.');
+      return null;
+    } finally {
+      setIsImporting(false);
+    }
+  }, []);
+
+  const clearPlays = useCallback(async () => {
+    try {
+      await clearPlayHistory();
+    } catch (err) {
+      console.error('Error clearing play history:', err);
+      setError('Failed to clear your play history.');
+    }
+  }, []);
+
+  return {
+    plays,
+    hasPlays: plays.length > 0,
+    isLoading,
+    isImporting,
+    error,
+    importFiles,
+    clearPlays,
+  };
+}
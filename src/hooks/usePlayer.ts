@@ -0,0 +1,45 @@
+import { createContext, useContext } from 'react';
+
+// Minimal track shape the preview player needs
+export interface PlayerTrack {
+  id: string;
+  name: string;
+  album: {
+    name: string;
+    images: Array<{ url: string }>;
+  };
+  artists: Array<{ name: string }>;
+  preview_url?: string | null;
+}
+
+export type PlayerStatus = 'idle' | 'loading' | 'playing' | 'paused' | 'error';
+
+export interface PlayerContextValue {
+  queue: PlayerTrack[];
+  currentIndex: number;
+  currentTrack: PlayerTrack | null;
+  status: PlayerStatus;
+  error: string | null;
+  // Current playback position from 0 to 1
+  progress: number;
+  hasNext: boolean;
+  hasPrevious: boolean;
+  playTrack: (track: PlayerTrack) => void;
+  playQueue: (tracks: PlayerTrack[], startTrackId?: string) => void;
+  togglePlay: () => void;
+  next: () => void;
+  previous: () => void;
+  stop: () => void;
+}
+
+export const PlayerContext = createContext<PlayerContextValue | null>(null);
+
+export const hasPreview = (track: PlayerTrack): boolean => Boolean(track.preview_url);
+
+export function usePlayer(): PlayerContextValue {
+  const context = useContext(PlayerContext);
+  if (!context) {
+    throw new Error('usePlayer must be used within a PlayerProvider');
+  }
+  return context;
+}
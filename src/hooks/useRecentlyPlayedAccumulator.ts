@@ -0,0 +1,122 @@
+import { useEffect } from 'react';
+import { debugEnabled } from '@/lib/cacheUtils';
+import {
+  PlayEvent,
+  addPlayEvents,
+  getLatestRecentlyPlayedAt,
+  loadPlayHistory,
+} from '@/lib/playHistory';
+import { SpotifyApi } from '@/lib/spotify';
+import { PlayHistory } from '@/lib/spotifyModels';
+import { useSpotify } from './useSpotify';
+
+// How often to poll while the app stays open
+const SYNC_INTERVAL_MS = 15 * 60 * 1000;
+
+// Spotify maximum for the recently played endpoint
+const RECENTLY_PLAYED_PAGE_SIZE = 50;
+
+// Safety limit on pages fetched per sync
+const MAX_PAGES_PER_SYNC = 5;
+
+// Shared across hook instances so remounts don't trigger extra syncs
+let lastSyncAt = 0;
+let ongoingSync: Promise<number> | null = null;
+
+const toPlayEvent = (item: PlayHistory): PlayEvent => ({
+  played_at: new Date(item.played_at).toISOString(),
+  ms_played: item.track.duration_ms,
+  track_name: item.track.name,
+  artist_name: item.track.artists[0]?.name ?? 'Unknown Artist',
+  album_name: item.track.album.name,
+  track_id: item.track.id,
+  source: 'recently_played',
+});
+
+/**
+ * Fetch everything played since the last sync using the `after` cursor and append it to the
+ * play log. Spotify only keeps the last 50 plays, so anything older than that is already lost.
+ * @returns The number of plays added
+ */
+const syncRecentlyPlayed = async (api: SpotifyApi): Promise<number> => {
+  const latest = getLatestRecentlyPlayedAt(await loadPlayHistory());
+  let after = latest ? new Date(latest).getTime() : undefined;
+  const items: PlayHistory[] = [];
+
+  for (let page = 0; page < MAX_PAGES_PER_SYNC; page++) {
+    const response = await api.getMyRecentlyPlayedTracks({
+      limit: RECENTLY_PLAYED_PAGE_SIZE,
+      after,
+    });
+    const pageItems = response.body.items;
+    items.push(...pageItems);
+
+    const nextCursor = Number(response.body.cursors?.after);
+    if (pageItems.length < RECENTLY_PLAYED_PAGE_SIZE || !nextCursor || nextCursor === after) {
+      break;
+    }
+    after = nextCursor;
+  }
+
+  // The cursor is inclusive to the millisecond, so the newest known play can come back again
+  const newItems = items.filter((item) => !latest || new Date(item.played_at) > new Date(latest));
+  if (newItems.length === 0) return 0;
+
+  const { added } = await addPlayEvents(newItems.map(toPlayEvent));
+  if (debugEnabled()) console.log(`Recently played sync added ${added} plays`);
+  return added;
+};
+
+// Run a sync unless one is already running or one finished recently
+const runSync = (api: SpotifyApi, force = false): Promise<number> => {
+  if (ongoingSync) return ongoingSync;
+  if (!force && Date.now() - lastSyncAt < SYNC_INTERVAL_MS) return Promise.resolve(0);
+
+  ongoingSync = syncRecentlyPlayed(api)
+    .catch((err) => {
+      console.error('Error syncing recently played tracks:', err);
+      return 0;
+    })
+    .finally(() => {
+      lastSyncAt = Date.now();
+      ongoingSync = null;
+    });
+  return ongoingSync;
+};
+
+/**
+ * Keeps the play log growing from the recently played endpoint: syncs on each visit and every
+ * 15 minutes while the tab is visible.
+ */
+export function useRecentlyPlayedAccumulator() {
+  const { spotifyApi, isReady } = useSpotify();
+
+  useEffect(() => {
+    if (!isReady) return;
+
+    runSync(spotifyApi);
+
+    const interval = setInterval(() => {
+      if (document.visibilityState === 'visible') {
+        runSync(spotifyApi);
+      }
+    }, SYNC_INTERVAL_MS);
+
+    // Catch up as soon as the user returns to a tab that sat in the background
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        runSync(spotifyApi);
+      }
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [isReady, spotifyApi]);
+
+  return {
+    syncNow: () => runSync(spotifyApi, true),
+  };
+}
@@ -0,0 +1,188 @@
+import { useCallback, useState } from 'react';
+import { isDemoModeActive } from '@/lib/demoMode';
+import { PlaylistCoverOptions, uploadGeneratedCover } from '@/lib/playlistCover';
+import { CreatedPlaylist, findExistingPlaylist, rememberPlaylist } from '@/lib/playlistRegistry';
+import {
+  PlaylistUpdateMode,
+  createPlaylistWithId,
+  updatePlaylistTracks,
+} from '@/lib/spotifyTrackUtils';
+import { useSpotify } from './useSpotify';
+
+export type SavePlaylistChoice = PlaylistUpdateMode | 'create';
+
+export interface SavePlaylistRequest {
+  // Registry key describing what the playlist was generated from
+  key: string;
+  name: string;
+  description: string;
+  trackUris: string[];
+  // Branded cover uploaded when a new playlist is created
+  cover?: PlaylistCoverOptions;
+}
+
+export interface SavePlaylistResult {
+  choice: SavePlaylistChoice;
+  playlistId: string;
+  url: string;
+  // The name on Spotify; updated playlists keep the name they were created with
+  name: string;
+  added: number;
+  removed: number;
+}
+
+interface PendingSave {
+  request: SavePlaylistRequest;
+  existing: CreatedPlaylist;
+  resolve: (result: SavePlaylistResult | null) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Create playlists while remembering which playlist was made for which month or rule set.
+ * When one already exists on the user's account, `savePlaylist` waits until the user picks
+ * how to update it (render ExistingPlaylistDialog for `pendingSave`) and resolves to null if
+ * they cancel.
+ */
+export function useSavePlaylist() {
+  const { spotifyApi } = useSpotify();
+  const [pendingSave, setPendingSave] = useState<PendingSave | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const performSave = useCallback(
+    async (
+      request: SavePlaylistRequest,
+      choice: SavePlaylistChoice,
+      existing: CreatedPlaylist | null
+    ): Promise<SavePlaylistResult> => {
+      if (choice === 'create' || !existing) {
+        const { id, url } = await createPlaylistWithId(
+          spotifyApi,
+          request.name,
+          request.description,
+          request.trackUris
+        );
+        if (request.cover) {
+          await uploadGeneratedCover(spotifyApi, id, request.cover);
+        }
+        await rememberPlaylist(request.key, {
+          playlistId: id,
+          url,
+          name: request.name,
+          trackCount: request.trackUris.length,
+        });
+        return {
+          choice: 'create',
+          playlistId: id,
+          url,
+          name: request.name,
+          added: request.trackUris.length,
+          removed: 0,
+        };
+      }
+
+      const { added, removed } = await updatePlaylistTracks(
+        spotifyApi,
+        existing.playlistId,
+        request.trackUris,
+        choice
+      );
+      const trackCount =
+        choice === 'append' ? existing.trackCount + added : request.trackUris.length;
+      await rememberPlaylist(request.key, {
+        playlistId: existing.playlistId,
+        url: existing.url,
+        name: existing.name,
+        trackCount,
+      });
+      return {
+        choice,
+        playlistId: existing.playlistId,
+        url: existing.url,
+        name: existing.name,
+        added,
+        removed,
+      };
+    },
+    [spotifyApi]
+  );
+
+  const savePlaylist = useCallback(
+    async (request: SavePlaylistRequest): Promise<SavePlaylistResult | null> => {
+      const existing = await findExistingPlaylist(spotifyApi, request.key);
+      if (!existing) {
+        setIsSaving(true);
+        try {
+          return await performSave(request, 'create', null);
+        } finally {
+          setIsSaving(false);
+        }
+      }
+
+      return new Promise((resolve, reject) => {
+        setPendingSave({ request, existing, resolve, reject });
+      });
+    },
+    [spotifyApi, performSave]
+  );
+
+  const choose = useCallback(
+    async (choice: SavePlaylistChoice) => {
+      if (!pendingSave) return;
+      setIsSaving(true);
+      try {
+        pendingSave.resolve(await performSave(pendingSave.request, choice, pendingSave.existing));
+      } catch (error) {
+        pendingSave.reject(error);
+      } finally {
+        setPendingSave(null);
+        setIsSaving(false);
+      }
+    },
+    [pendingSave, performSave]
+  );
+
+  const cancel = useCallback(() => {
+    pendingSave?.resolve(null);
+    setPendingSave(null);
+  }, [pendingSave]);
+
+  return { savePlaylist, pendingSave, isSaving, choose, cancel };
+}
+
+// In demo mode playlists only exist in the in-browser mock server
+const DEMO_SAVE_NOTE = 'Demo only: nothing was saved to Spotify.';
+
+const summarizeSaveResult = (result: SavePlaylistResult): string => {
+  switch (result.choice) {
+    case 'create':
+      return `Playlist "${result.name}" has been created with ${result.added} tracks.`;
+    case 'replace':
+      return `Playlist "${result.name}" has been replaced with the current selection.`;
+    case 'append':
+      return result.added > 0
+        ? `Added ${result.added} new tracks to "${result.name}".`
+        : `"${result.name}" already has every track.`;
+    case 'sync':
+      return result.added > 0 || result.removed > 0
+        ? `Synced "${result.name}": ${result.added} added, ${result.removed} removed.`
+        : `"${result.name}" is already up to date.`;
+  }
+};
+
+/**
+ * Summarize what saving did, for toasts and success messages
+ */
+export function describeSaveResult(result: SavePlaylistResult): string {
+  const summary = summarizeSaveResult(result);
+  return isDemoModeActive() ? `${summary} ${DEMO_SAVE_NOTE}` : summary;
+}
+
+/**
+ * Message for a playlist that was just created
+ */
+export function describeCreatedPlaylist(name: string): string {
+  return isDemoModeActive()
+    ? `Playlist "${name}" has been created. ${DEMO_SAVE_NOTE}`
+    : `Playlist "${name}" has been created in your Spotify library!`;
+}
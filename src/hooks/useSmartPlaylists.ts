@@ -0,0 +1,142 @@
+import { useCallback, useEffect, useState } from 'react';
+import { rulesNeedArtistDetails } from '@/lib/playlistRules';
+import {
+  SMART_PLAYLIST_SYNC_INTERVAL_MS,
+  SmartPlaylist,
+  SmartPlaylistInput,
+  addSmartPlaylist,
+  isSmartPlaylistDue,
+  loadSmartPlaylists,
+  removeSmartPlaylist,
+  subscribeToSmartPlaylists,
+  syncSmartPlaylists,
+  updateSmartPlaylist,
+} from '@/lib/smartPlaylists';
+import { useLikedArtists } from './useLikedArtists';
+import { useSpotify } from './useSpotify';
+
+// When each playlist was last synced automatically, shared across hook instances so a failing
+// playlist isn't retried on every library update
+const autoSyncAttempts = new Map<string, number>();
+
+/**
+ * The stored smart playlist definitions, kept in sync across hook instances
+ */
+export function useSmartPlaylists() {
+  const [smartPlaylists, setSmartPlaylists] = useState<SmartPlaylist[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    loadSmartPlaylists()
+      .then((stored) => {
+        if (isMounted) setSmartPlaylists(stored);
+      })
+      .catch((err) => {
+        console.error('Error loading smart playlists:', err);
+        if (isMounted) setError('Failed to load your smart playlists.');
+      })
+      .finally(() => {
+        if (isMounted) setIsLoading(false);
+      });
+
+    const unsubscribe = subscribeToSmartPlaylists((stored) => {
+      if (isMounted) setSmartPlaylists(stored);
+    });
+
+    return () => {
+      isMounted = false;
+      unsubscribe();
+    };
+  }, []);
+
+  const addPlaylist = useCallback(async (input: SmartPlaylistInput) => {
+    try {
+      return await addSmartPlaylist(input);
+    } catch (err) {
+      console.error('Error saving smart playlist:', err);
+      setError('Failed to save the smart playlist.');
+      return null;
+    }
+  }, []);
+
+  const updatePlaylist = useCallback(async (id: string, changes: Partial<SmartPlaylistInput>) => {
+    try {
+      await updateSmartPlaylist(id, changes);
+    } catch (err) {
+      console.error('Error updating smart playlist:', err);
+      setError('Failed to update the smart playlist.');
+    }
+  }, []);
+
+  const removePlaylist = useCallback(async (id: string) => {
+    try {
+      await removeSmartPlaylist(id);
+    } catch (err) {
+      console.error('Error removing smart playlist:', err);
+      setError('Failed to remove the smart playlist.');
+    }
+  }, []);
+
+  return {
+    smartPlaylists,
+    isLoading,
+    error,
+    addPlaylist,
+    updatePlaylist,
+    removePlaylist,
+  };
+}
+
+/**
+ * Re-sync due smart playlists from the liked-track cache once the library (and artist
+ * details, when a playlist has genre or popularity rules) has loaded. Only mount this when
+ * there are smart playlists, since it loads the liked library.
+ */
+export function useSmartPlaylistSync(smartPlaylists: SmartPlaylist[]) {
+  const { spotifyApi, isReady } = useSpotify();
+  const { tracks, isLoading, error, isLoadingArtists, artistsDetails } = useLikedArtists();
+
+  const needsArtists = smartPlaylists.some((smartPlaylist) =>
+    rulesNeedArtistDetails(smartPlaylist.rules)
+  );
+  // A sync removes every track that isn't in the library it is given, so it must never run
+  // against a library that failed to load and is left empty
+  const isLibraryReady =
+    isReady &&
+    !isLoading &&
+    !error &&
+    (!needsArtists || (!isLoadingArtists && artistsDetails.size > 0));
+  // Joined into a string so the effect only re-runs when the set of due playlists changes
+  const dueIds = smartPlaylists
+    .filter((smartPlaylist) => isSmartPlaylistDue(smartPlaylist))
+    .map((smartPlaylist) => smartPlaylist.id)
+    .join(',');
+
+  useEffect(() => {
+    if (!isLibraryReady || !dueIds) return;
+
+    const now = Date.now();
+    const ids = dueIds
+      .split(',')
+      .filter((id) => now - (autoSyncAttempts.get(id) ?? 0) >= SMART_PLAYLIST_SYNC_INTERVAL_MS);
+    if (ids.length === 0) return;
+
+    ids.forEach((id) => autoSyncAttempts.set(id, now));
+    syncSmartPlaylists(spotifyApi, tracks, artistsDetails, { ids }).catch(console.error);
+  }, [isLibraryReady, dueIds, spotifyApi, tracks, artistsDetails]);
+
+  const syncNow = useCallback(
+    async (ids?: string[]) => {
+      if (!isLibraryReady) {
+        throw new Error('Your liked tracks have not loaded, so smart playlists were not synced');
+      }
+      return syncSmartPlaylists(spotifyApi, tracks, artistsDetails, { force: true, ids });
+    },
+    [isLibraryReady, spotifyApi, tracks, artistsDetails]
+  );
+
+  return { syncNow, isLibraryReady, libraryError: error };
+}
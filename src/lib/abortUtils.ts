@@ -0,0 +1,70 @@
+/**
+ * Whether an error comes from an aborted signal rather than a real failure
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+/**
+ * Settle like `promise`, or reject with the signal's reason as soon as it aborts
+ */
+export function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(signal.reason);
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Work shared by several callers, like a deduplicated request or a library crawl. Each caller
+ * joins with its own signal, and the work itself is only aborted once every caller that
+ * joined has aborted. Callers that join without a signal keep it running to the end.
+ * With a grace period the work keeps going that long after the last caller left, in case
+ * another one joins, e.g. the next page after a navigation.
+ */
+export class SharedTask<T> {
+  readonly promise: Promise<T>;
+  private controller = new AbortController();
+  private callers = 0;
+  private readonly graceMs: number;
+
+  constructor(run: (signal: AbortSignal) => Promise<T>, graceMs = 0) {
+    this.graceMs = graceMs;
+    this.promise = run(this.controller.signal);
+    // Callers see the rejection through join; this keeps an aborted task from going unhandled
+    this.promise.catch(() => {});
+  }
+
+  // Once aborted the task can't be joined any more; start a new one instead
+  get isAborted() {
+    return this.controller.signal.aborted;
+  }
+
+  join(signal?: AbortSignal): Promise<T> {
+    if (signal?.aborted) return Promise.reject(signal.reason);
+
+    this.callers++;
+    if (!signal) return this.promise;
+
+    const onAbort = () => {
+      this.callers--;
+      if (this.callers > 0) return;
+      if (this.graceMs === 0) {
+        this.controller.abort(signal.reason);
+        return;
+      }
+      setTimeout(() => {
+        if (this.callers === 0) this.controller.abort(signal.reason);
+      }, this.graceMs);
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    // Long-lived signals, like one per mounted hook, shouldn't keep finished tasks around
+    const detach = () => signal.removeEventListener('abort', onAbort);
+    this.promise.then(detach, detach);
+    return raceAbort(this.promise, signal);
+  }
+}
@@ -0,0 +1,168 @@
+import { differenceInCalendarDays, format } from 'date-fns';
+import { SavedTrack } from './spotifyModels';
+
+// The artist details a timeline needs; matches ArtistDetail from useLikedArtists
+export interface TimelineArtist {
+  id: string;
+  name: string;
+  genres: string[];
+  images: Array<{ url: string }>;
+}
+
+export type ArtistTimelineEntry =
+  | { type: 'month'; month: string; tracks: SavedTrack[] }
+  | { type: 'gap'; from: string; to: string; days: number };
+
+export interface RelatedLibraryArtist {
+  id: string;
+  name: string;
+  imageUrl: string | null;
+  sharedGenres: string[];
+  // Liked tracks shared with the artist for collaborators, liked tracks overall for related artists
+  trackCount: number;
+}
+
+export interface ArtistTimeline {
+  artistId: string;
+  name: string;
+  imageUrl: string | null;
+  genres: string[];
+  // Oldest first
+  tracks: SavedTrack[];
+  firstLikedAt: string;
+  lastLikedAt: string;
+  // Months with likes, oldest first, with gaps between likes that were long enough to notice
+  entries: ArtistTimelineEntry[];
+  gaps: Array<Extract<ArtistTimelineEntry, { type: 'gap' }>>;
+  // Artists credited on the same liked tracks
+  collaborators: RelatedLibraryArtist[];
+  // Other library artists sharing the most genres with this one
+  relatedArtists: RelatedLibraryArtist[];
+}
+
+// Months are keyed as "2024-06"
+export const TIMELINE_MONTH_FORMAT = 'yyyy-MM';
+
+// A stretch without likes this long is called out on the timeline
+export const TIMELINE_GAP_DAYS = 90;
+
+const MAX_RELATED_ARTISTS = 8;
+
+const toRelatedArtist = (
+  id: string,
+  name: string,
+  artistsById: Map<string, TimelineArtist>,
+  trackCount: number,
+  sharedGenres: string[] = []
+): RelatedLibraryArtist => {
+  const artist = artistsById.get(id);
+  return {
+    id,
+    name: artist?.name ?? name,
+    imageUrl: artist?.images[0]?.url ?? null,
+    sharedGenres,
+    trackCount,
+  };
+};
+
+/**
+ * Build one artist's history in the library: every liked track by them, when they first and
+ * last showed up, quiet stretches in between, and the library artists closest to them.
+ * @returns null when no liked track features the artist
+ */
+export function buildArtistTimeline(
+  tracks: SavedTrack[],
+  artistId: string,
+  artistsById: Map<string, TimelineArtist>
+): ArtistTimeline | null {
+  const artistTracks = tracks
+    .filter(({ track }) => track.artists.some((artist) => artist.id === artistId))
+    .toSorted((a, b) => new Date(a.added_at).getTime() - new Date(b.added_at).getTime());
+  if (artistTracks.length === 0) return null;
+
+  const details = artistsById.get(artistId);
+  const genres = details?.genres ?? [];
+
+  // Group by month and note the quiet stretches between consecutive likes
+  const entries: ArtistTimelineEntry[] = [];
+  artistTracks.forEach((savedTrack, index) => {
+    const month = format(new Date(savedTrack.added_at), TIMELINE_MONTH_FORMAT);
+    const previous = artistTracks[index - 1];
+
+    if (previous) {
+      const days = differenceInCalendarDays(
+        new Date(savedTrack.added_at),
+        new Date(previous.added_at)
+      );
+      if (days >= TIMELINE_GAP_DAYS) {
+        entries.push({ type: 'gap', from: previous.added_at, to: savedTrack.added_at, days });
+      }
+    }
+
+    const last = entries.at(-1);
+    if (last?.type === 'month' && last.month === month) {
+      last.tracks.push(savedTrack);
+    } else {
+      entries.push({ type: 'month', month, tracks: [savedTrack] });
+    }
+  });
+
+  // Library track counts for every artist, used to rank collaborators and related artists
+  const libraryCounts = new Map<string, { name: string; count: number }>();
+  tracks.forEach(({ track }) => {
+    track.artists.forEach(({ id, name }) => {
+      const entry = libraryCounts.get(id) ?? { name, count: 0 };
+      entry.count++;
+      libraryCounts.set(id, entry);
+    });
+  });
+
+  const collaboratorCounts = new Map<string, { name: string; count: number }>();
+  artistTracks.forEach(({ track }) => {
+    track.artists
+      .filter(({ id }) => id !== artistId)
+      .forEach(({ id, name }) => {
+        const entry = collaboratorCounts.get(id) ?? { name, count: 0 };
+        entry.count++;
+        collaboratorCounts.set(id, entry);
+      });
+  });
+
+  const genreSet = new Set(genres);
+  const relatedArtists =
+    genreSet.size === 0
+      ? []
+      : Array.from(libraryCounts, ([id, { name, count }]) => ({
+          id,
+          name,
+          count,
+          sharedGenres: (artistsById.get(id)?.genres ?? []).filter((genre) => genreSet.has(genre)),
+        }))
+          .filter(({ id, sharedGenres }) => id !== artistId && sharedGenres.length > 0)
+          .toSorted((a, b) => b.sharedGenres.length - a.sharedGenres.length || b.count - a.count)
+          .slice(0, MAX_RELATED_ARTISTS)
+          .map(({ id, name, count, sharedGenres }) =>
+            toRelatedArtist(id, name, artistsById, count, sharedGenres)
+          );
+
+  return {
+    artistId,
+    name:
+      details?.name ??
+      artistTracks[0].track.artists.find((artist) => artist.id === artistId)?.name ??
+      'Unknown artist',
+    imageUrl: details?.images[0]?.url ?? null,
+    genres,
+    tracks: artistTracks,
+    firstLikedAt: artistTracks[0].added_at,
+    lastLikedAt: artistTracks.at(-1)!.added_at,
+    entries,
+    gaps: entries.filter((entry) => entry.type === 'gap'),
+    collaborators: Array.from(collaboratorCounts, ([id, { name, count }]) =>
+      toRelatedArtist(id, name, artistsById, count)
+    )
+      .toSorted((a, b) => b.trackCount - a.trackCount)
+      .slice(0, MAX_RELATED_ARTISTS),
+    relatedArtists,
+  };
+}
@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import {
+  AudioFeatures,
+  DEFAULT_AUDIO_FEATURE_RANGES,
+  filterTracksByAudioFeatures,
+  orderTracks,
+} from './audioFeatures';
+import { SavedTrack } from './spotifyModels';
+
+const savedTrack = (id: string): SavedTrack => ({
+  added_at: '2024-01-15T12:00:00Z',
+  track: {
+    id,
+    name: `Track ${id}`,
+    album: { name: 'Album', images: [] },
+    artists: [{ id: 'artist', name: 'Artist' }],
+    duration_ms: 180_000,
+    preview_url: null,
+  },
+});
+
+const features = (overrides: Partial<AudioFeatures>): AudioFeatures => ({
+  tempo: 100,
+  energy: 0.5,
+  valence: 0.5,
+  danceability: 0.5,
+  acousticness: 0.5,
+  ...overrides,
+});
+
+const ids = (tracks: SavedTrack[]) => tracks.map(({ track }) => track.id);
+
+// Same tempo throughout, so intensity rises with energy from t1 to t5
+const fixture = () => {
+  const tracks = ['t3', 't5', 't1', 't4', 't2'].map(savedTrack);
+  const featuresById = new Map([
+    ['t1', features({ energy: 0.1 })],
+    ['t2', features({ energy: 0.2 })],
+    ['t3', features({ energy: 0.3 })],
+    ['t4', features({ energy: 0.4 })],
+    ['t5', features({ energy: 0.5 })],
+  ]);
+  return { tracks, featuresById };
+};
+
+describe('orderTracks', () => {
+  it('keeps the original order by date', () => {
+    const { tracks, featuresById } = fixture();
+    expect(orderTracks(tracks, 'date', featuresById)).toBe(tracks);
+  });
+
+  it('warms up to the most intense tracks', () => {
+    const { tracks, featuresById } = fixture();
+    expect(ids(orderTracks(tracks, 'warm-up', featuresById))).toEqual([
+      't1',
+      't2',
+      't3',
+      't4',
+      't5',
+    ]);
+  });
+
+  it('builds to a peak in the middle and cools down again', () => {
+    const { tracks, featuresById } = fixture();
+    expect(ids(orderTracks(tracks, 'arc', featuresById))).toEqual(['t1', 't3', 't5', 't4', 't2']);
+  });
+
+  it('breaks ties by track id in either direction', () => {
+    const tracks = ['b', 'c', 'a'].map(savedTrack);
+    const featuresById = new Map(
+      ['a', 'b', 'c'].map((id) => [id, features({ tempo: 120 })] as const)
+    );
+
+    expect(ids(orderTracks(tracks, 'tempo-asc', featuresById))).toEqual(['a', 'b', 'c']);
+    expect(ids(orderTracks(tracks, 'tempo-desc', featuresById))).toEqual(['a', 'b', 'c']);
+  });
+
+  it('keeps tracks without features at the end in their original order', () => {
+    const tracks = ['x2', 'fast', 'x1', 'slow'].map(savedTrack);
+    const featuresById = new Map([
+      ['fast', features({ tempo: 160 })],
+      ['slow', features({ tempo: 80 })],
+    ]);
+
+    expect(ids(orderTracks(tracks, 'tempo-asc', featuresById))).toEqual([
+      'slow',
+      'fast',
+      'x2',
+      'x1',
+    ]);
+  });
+});
+
+describe('filterTracksByAudioFeatures', () => {
+  const tracks = ['calm', 'lively', 'unknown'].map(savedTrack);
+  const featuresById = new Map([
+    ['calm', features({ energy: 0.4, tempo: 110 })],
+    ['lively', features({ energy: 0.6, tempo: 130 })],
+  ]);
+
+  it('keeps every track, with or without features, when no range is set', () => {
+    expect(filterTracksByAudioFeatures(tracks, DEFAULT_AUDIO_FEATURE_RANGES, featuresById)).toBe(
+      tracks
+    );
+  });
+
+  it('compares 0–1 features against ranges on a 0–100 scale', () => {
+    const ranges = { ...DEFAULT_AUDIO_FEATURE_RANGES, energy: { min: 50, max: null } };
+    expect(ids(filterTracksByAudioFeatures(tracks, ranges, featuresById))).toEqual(['lively']);
+  });
+
+  it('compares tempo in BPM without scaling', () => {
+    const ranges = { ...DEFAULT_AUDIO_FEATURE_RANGES, tempo: { min: null, max: 120 } };
+    expect(ids(filterTracksByAudioFeatures(tracks, ranges, featuresById))).toEqual(['calm']);
+  });
+
+  it('includes the range bounds', () => {
+    const ranges = {
+      ...DEFAULT_AUDIO_FEATURE_RANGES,
+      energy: { min: 40, max: 60 },
+      tempo: { min: 110, max: 130 },
+    };
+    expect(ids(filterTracksByAudioFeatures(tracks, ranges, featuresById))).toEqual([
+      'calm',
+      'lively',
+    ]);
+  });
+});
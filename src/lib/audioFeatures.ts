@@ -0,0 +1,148 @@
+import { NumericRange } from './playlistRules';
+import { SavedTrack } from './spotifyModels';
+
+// The subset of Spotify's audio features the generator works with
+export interface AudioFeatures {
+  tempo: number;
+  energy: number;
+  valence: number;
+  danceability: number;
+  acousticness: number;
+}
+
+export type AudioFeatureKey = keyof AudioFeatures;
+
+export type AudioFeatureRanges = Record<AudioFeatureKey, NumericRange>;
+
+// Spotify reports everything but tempo from 0 to 1; rules use 0–100 so they read as percentages
+export const AUDIO_FEATURES: Array<{
+  key: AudioFeatureKey;
+  label: string;
+  scale: number;
+  max: number;
+}> = [
+  { key: 'tempo', label: 'Tempo (BPM)', scale: 1, max: 250 },
+  { key: 'energy', label: 'Energy', scale: 100, max: 100 },
+  { key: 'valence', label: 'Mood (sad to happy)', scale: 100, max: 100 },
+  { key: 'danceability', label: 'Danceability', scale: 100, max: 100 },
+  { key: 'acousticness', label: 'Acousticness', scale: 100, max: 100 },
+];
+
+export const DEFAULT_AUDIO_FEATURE_RANGES: AudioFeatureRanges = {
+  tempo: { min: null, max: null },
+  energy: { min: null, max: null },
+  valence: { min: null, max: null },
+  danceability: { min: null, max: null },
+  acousticness: { min: null, max: null },
+};
+
+export type TrackOrder =
+  | 'date'
+  | 'tempo-asc'
+  | 'tempo-desc'
+  | 'energy-asc'
+  | 'energy-desc'
+  | 'warm-up'
+  | 'arc';
+
+export const TRACK_ORDERS: Array<{ id: TrackOrder; label: string }> = [
+  { id: 'date', label: 'Date liked' },
+  { id: 'warm-up', label: 'Warm-up to peak' },
+  { id: 'arc', label: 'Build and cool down' },
+  { id: 'tempo-asc', label: 'Slowest first' },
+  { id: 'tempo-desc', label: 'Fastest first' },
+  { id: 'energy-asc', label: 'Calmest first' },
+  { id: 'energy-desc', label: 'Most energetic first' },
+];
+
+const isRangeSet = (range: NumericRange): boolean => range.min !== null || range.max !== null;
+
+/**
+ * Whether the ranges or the order need audio features to be fetched
+ */
+export function needsAudioFeatures(ranges: AudioFeatureRanges, order: TrackOrder): boolean {
+  return order !== 'date' || Object.values(ranges).some(isRangeSet);
+}
+
+/**
+ * Keep the tracks whose features fall inside every set range. Tracks without features
+ * can't satisfy a range and are dropped when any range is set.
+ */
+export function filterTracksByAudioFeatures(
+  tracks: SavedTrack[],
+  ranges: AudioFeatureRanges,
+  featuresById: Map<string, AudioFeatures>
+): SavedTrack[] {
+  const activeRanges = AUDIO_FEATURES.filter(({ key }) => isRangeSet(ranges[key]));
+  if (activeRanges.length === 0) return tracks;
+
+  return tracks.filter(({ track }) => {
+    const features = featuresById.get(track.id);
+    if (!features) return false;
+
+    return activeRanges.every(({ key, scale }) => {
+      const value = features[key] * scale;
+      const { min, max } = ranges[key];
+      return (min === null || value >= min) && (max === null || value <= max);
+    });
+  });
+}
+
+// Blend energy and tempo into a single intensity score from 0 to 1
+const getIntensity = (features: AudioFeatures): number =>
+  features.energy * 0.7 + Math.min(features.tempo / 200, 1) * 0.3;
+
+// Ties are broken by track id so the same input always yields the same order
+const compareBy =
+  (score: (features: AudioFeatures) => number, direction: 1 | -1) =>
+  (
+    a: { id: string; features: AudioFeatures },
+    b: { id: string; features: AudioFeatures }
+  ): number =>
+    (score(a.features) - score(b.features)) * direction || a.id.localeCompare(b.id);
+
+/**
+ * Order tracks for a generated playlist. Feature-based orders are deterministic: equal scores
+ * fall back to track id, and tracks without features keep their original order at the end.
+ *
+ * - warm-up: rising intensity, ending on the most intense tracks
+ * - arc: rising to a peak in the middle, then easing off again
+ */
+export function orderTracks(
+  tracks: SavedTrack[],
+  order: TrackOrder,
+  featuresById: Map<string, AudioFeatures>
+): SavedTrack[] {
+  if (order === 'date') return tracks;
+
+  const withFeatures: Array<{ id: string; features: AudioFeatures; track: SavedTrack }> = [];
+  const withoutFeatures: SavedTrack[] = [];
+  tracks.forEach((track) => {
+    const features = featuresById.get(track.track.id);
+    if (features) {
+      withFeatures.push({ id: track.track.id, features, track });
+    } else {
+      withoutFeatures.push(track);
+    }
+  });
+
+  const comparators = {
+    'tempo-asc': compareBy((f) => f.tempo, 1),
+    'tempo-desc': compareBy((f) => f.tempo, -1),
+    'energy-asc': compareBy((f) => f.energy, 1),
+    'energy-desc': compareBy((f) => f.energy, -1),
+    'warm-up': compareBy(getIntensity, 1),
+    arc: compareBy(getIntensity, 1),
+  };
+
+  let sorted = withFeatures.toSorted(comparators[order]);
+
+  if (order === 'arc') {
+    // Deal the rising list alternately to the way up and the way down
+    const rising = sorted.filter((_, index) => index % 2 === 0);
+    const falling = sorted.filter((_, index) => index % 2 === 1).toReversed();
+    sorted = [...rising, ...falling];
+  }
+
+  return [...sorted.map((entry) => entry.track), ...withoutFeatures];
+}
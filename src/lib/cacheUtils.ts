@@ -1,3 +1,5 @@
+import { isDemoModeActive } from './demoMode';
+
 export const CACHE_VERSION = 'v1'; // Increment to invalidate prior cache schemas
 
 interface CachedData<T> {
@@ -16,7 +18,10 @@ interface CacheError {
 }
 
 const BASE_CACHE_PREFIX = 'spotifyTimeMachineCache_';
-const CACHE_PREFIX = `${BASE_CACHE_PREFIX}${CACHE_VERSION}_`;
+
+// Demo mode gets its own keys so the sample library never mixes with a real user's data
+const getCachePrefix = () =>
+  `${BASE_CACHE_PREFIX}${isDemoModeActive() ? 'demo_' : ''}${CACHE_VERSION}_`;
 
 export const debugEnabled = () => process.env.NEXT_PUBLIC_DEBUG === 'true';
 
@@ -68,6 +73,7 @@ function clearOldestCacheEntry(): boolean {
     return false;
   }
 
+  const cachePrefix = getCachePrefix();
   let oldestKey: string | null = null;
   let oldestTimestamp = Infinity;
   let corruptedItemsCount = 0;
@@ -75,7 +81,7 @@ function clearOldestCacheEntry(): boolean {
   try {
     for (let i = 0; i < localStorage.length; i++) {
       const key = localStorage.key(i);
-      if (key && key.startsWith(CACHE_PREFIX)) {
+      if (key && key.startsWith(cachePrefix)) {
         try {
           const itemString = localStorage.getItem(key);
           if (itemString) {
@@ -125,7 +131,7 @@ function clearOldestCacheEntry(): boolean {
         localStorage.removeItem(oldestKey);
         console.info(
           `Cache cleanup: Removed oldest item (${oldestKey.replace(
-            CACHE_PREFIX,
+            cachePrefix,
             ''
           )}) from ${new Date(oldestTimestamp).toLocaleString()}`
         );
@@ -311,7 +317,7 @@ export function setCachedData<T>(key: string, data: T, ttlMinutes: number): void
     ttl: ttlMinutes * 60 * 1000, // Convert minutes to milliseconds
   };
 
-  const cacheKey = CACHE_PREFIX + key;
+  const cacheKey = getCachePrefix() + key;
   const itemString = JSON.stringify(item);
   const itemSizeKB = Math.round(new Blob([itemString]).size / 1024);
 
@@ -385,7 +391,7 @@ export function getCachedData<T>(key: string): T | null {
     return null;
   }
 
-  const cacheKey = CACHE_PREFIX + key;
+  const cacheKey = getCachePrefix() + key;
 
   try {
     const cachedItem = localStorage.getItem(cacheKey);
@@ -560,7 +566,7 @@ export async function setCachedDataCompressed<T>(
     compressedSize: useCompression ? compressedSize : undefined,
   };
 
-  const cacheKey = CACHE_PREFIX + key;
+  const cacheKey = getCachePrefix() + key;
   const itemString = JSON.stringify(item);
   const itemSizeKB = Math.round(new Blob([itemString]).size / 1024);
 
@@ -641,7 +647,7 @@ export async function getCachedDataCompressed<T>(key: string): Promise<T | null>
     return null;
   }
 
-  const cacheKey = CACHE_PREFIX + key;
+  const cacheKey = getCachePrefix() + key;
 
   try {
     const cachedItem = localStorage.getItem(cacheKey);
@@ -796,6 +802,7 @@ export function clearAllCache(): number {
     return 0;
   }
 
+  const cachePrefix = getCachePrefix();
   let removedCount = 0;
   const keysToRemove: string[] = [];
 
@@ -803,7 +810,7 @@ export function clearAllCache(): number {
     // Collect all cache keys first to avoid modifying storage while iterating
     for (let i = 0; i < localStorage.length; i++) {
       const key = localStorage.key(i);
-      if (key && key.startsWith(CACHE_PREFIX)) {
+      if (key && key.startsWith(cachePrefix)) {
         keysToRemove.push(key);
       }
     }
@@ -813,7 +820,7 @@ export function clearAllCache(): number {
       try {
         localStorage.removeItem(key);
         removedCount++;
-        console.debug(`Removed cache item: ${key.replace(CACHE_PREFIX, '')}`);
+        console.debug(`Removed cache item: ${key.replace(cachePrefix, '')}`);
       } catch (removeError: any) {
         logCacheError({
           type: 'STORAGE_ACCESS',
@@ -875,7 +882,7 @@ class IndexedDBCacheStorage implements IndexedDBStorage {
       const db = await this.open();
       const timestamp = Date.now();
       const item = {
-        key: CACHE_PREFIX + key,
+        key: getCachePrefix() + key,
         data,
         timestamp,
         ttl: ttlMinutes * 60 * 1000,
@@ -904,7 +911,7 @@ class IndexedDBCacheStorage implements IndexedDBStorage {
       const store = transaction.objectStore(this.storeName);
 
       const item = await new Promise<any>((resolve, reject) => {
-        const request = store.get(CACHE_PREFIX + key);
+        const request = store.get(getCachePrefix() + key);
         request.onsuccess = () => resolve(request.result);
         request.addEventListener('error', () => reject(request.error));
       });
@@ -922,7 +929,7 @@ class IndexedDBCacheStorage implements IndexedDBStorage {
         // Remove expired item
         const deleteTransaction = db.transaction([this.storeName], 'readwrite');
         const deleteStore = deleteTransaction.objectStore(this.storeName);
-        deleteStore.delete(CACHE_PREFIX + key);
+        deleteStore.delete(getCachePrefix() + key);
         return null;
       }
 
@@ -941,7 +948,8 @@ class IndexedDBCacheStorage implements IndexedDBStorage {
       const store = transaction.objectStore(this.storeName);
 
       // Clear only items with our prefix
-      const range = IDBKeyRange.bound(CACHE_PREFIX, CACHE_PREFIX + '\uffff');
+      const cachePrefix = getCachePrefix();
+      const range = IDBKeyRange.bound(cachePrefix, cachePrefix + '\uffff');
       const request = store.openCursor(range);
 
       let removedCount = 0;
@@ -1194,10 +1202,12 @@ export async function clearAllCachesAndRefreshComplete(): Promise<{
   // Dynamically import the cache clearing functions to avoid circular dependencies
   const { clearTracksInMemoryCache } = await import('@/hooks/useLikedTracks');
   const { clearArtistsInMemoryCache } = await import('@/hooks/useLikedArtists');
+  const { clearAudioFeaturesInMemoryCache } = await import('@/hooks/useAudioFeatures');
 
   const clearInMemoryCaches = () => {
     clearTracksInMemoryCache();
     clearArtistsInMemoryCache();
+    clearAudioFeaturesInMemoryCache();
   };
 
   return clearAllCachesAndRefresh(clearInMemoryCaches);
@@ -1212,10 +1222,12 @@ export async function clearAllCachesOnlyComplete(): Promise<number> {
   // Dynamically import the cache clearing functions to avoid circular dependencies
   const { clearTracksInMemoryCache } = await import('@/hooks/useLikedTracks');
   const { clearArtistsInMemoryCache } = await import('@/hooks/useLikedArtists');
+  const { clearAudioFeaturesInMemoryCache } = await import('@/hooks/useAudioFeatures');
 
   const clearInMemoryCaches = () => {
     clearTracksInMemoryCache();
     clearArtistsInMemoryCache();
+    clearAudioFeaturesInMemoryCache();
   };
 
   return clearAllCachesOnly(clearInMemoryCaches);
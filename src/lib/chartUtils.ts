@@ -0,0 +1,202 @@
+import { format } from 'date-fns';
+import { SPOTIFY_DARK_GRAY, SPOTIFY_GREEN } from './branding';
+import { formatPeriodLabel, getPeriodDateRange } from './trendUtils';
+
+// How the layers of a stacked chart sit on top of each other
+// zero: from the baseline, expand: as shares of each period's total, silhouette: centered (streamgraph)
+export type StackOffset = 'zero' | 'expand' | 'silhouette';
+
+export interface ChartSeries {
+  key: string;
+  label: string;
+  // One value per period, in period order
+  values: number[];
+}
+
+// Lower and upper edge of a layer at each period
+export type StackedLayer = Array<[number, number]>;
+
+// A brushed stretch of a chart, as period keys (inclusive)
+export interface ChartRange {
+  from: string;
+  to: string;
+}
+
+export interface ChartRangeLinks {
+  label: string;
+  historyPath: string;
+  generatorPath: string;
+}
+
+export interface ChartPadding {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+export const CHART_PADDING: ChartPadding = { top: 16, right: 16, bottom: 48, left: 56 };
+
+export const CHART_FONT_FAMILY = 'Helvetica, Arial, sans-serif';
+
+// Spread hues around the color wheel from Spotify green with the golden angle, so any number
+// of series stays distinguishable and neighbours never share a hue
+const GOLDEN_ANGLE = 137.508;
+const GREEN_HUE = 141;
+
+/**
+ * Color for the nth series of a chart. The first series is always Spotify green.
+ */
+export function getChartColor(index: number): string {
+  if (index === 0) return SPOTIFY_GREEN;
+  const hue = Math.round((GREEN_HUE + index * GOLDEN_ANGLE) % 360);
+  return `hsl(${hue}, 65%, ${index % 2 === 0 ? 55 : 65}%)`;
+}
+
+/**
+ * Map a value from a domain onto a range, linearly
+ */
+export function scaleLinear(
+  [domainMin, domainMax]: [number, number],
+  [rangeMin, rangeMax]: [number, number]
+): (value: number) => number {
+  const span = domainMax - domainMin || 1;
+  return (value) => rangeMin + ((value - domainMin) / span) * (rangeMax - rangeMin);
+}
+
+/**
+ * Round axis ticks from zero up to at least `max`, in steps of 1, 2 or 5 times a power of ten
+ * @param integer - Never step by less than 1, for counts
+ */
+export function niceTicks(max: number, count = 4, integer = true): number[] {
+  if (max <= 0) return [0];
+
+  const rawStep = max / count;
+  const magnitude = 10 ** Math.floor(Math.log10(rawStep));
+  const niceStep = [1, 2, 5, 10]
+    .map((factor) => factor * magnitude)
+    .find((candidate) => candidate >= rawStep)!;
+  const step = integer ? Math.max(1, Math.round(niceStep)) : niceStep;
+
+  return Array.from({ length: Math.ceil(max / step) + 1 }, (_, i) => i * step);
+}
+
+/**
+ * Stack series on top of each other per period
+ * @returns One layer per series, in series order
+ */
+export function stackSeries(series: ChartSeries[], offset: StackOffset): StackedLayer[] {
+  const periodCount = Math.max(0, ...series.map((s) => s.values.length));
+  const totals = Array.from({ length: periodCount }, (_, i) =>
+    series.reduce((sum, s) => sum + (s.values[i] ?? 0), 0)
+  );
+
+  const baselines = totals.map((total) => (offset === 'silhouette' ? -total / 2 : 0));
+  return series.map((s) =>
+    totals.map((total, i) => {
+      const value = s.values[i] ?? 0;
+      const y0 = baselines[i];
+      const y1 = y0 + (offset === 'expand' ? (total > 0 ? value / total : 0) : value);
+      baselines[i] = y1;
+      return [y0, y1];
+    })
+  );
+}
+
+/**
+ * Index range a zoom covers among the keys currently charted
+ * @returns null when either end of the zoom is no longer charted, e.g. after a granularity change
+ */
+export function getZoomIndices(keys: string[], zoom: ChartRange | null): [number, number] | null {
+  if (!zoom) return null;
+  const start = keys.indexOf(zoom.from);
+  const end = keys.indexOf(zoom.to);
+  return start >= 0 && end >= start ? [start, end] : null;
+}
+
+/**
+ * Links that open a brushed range in the history page or the playlist generator
+ */
+export function getChartRangeLinks({ from, to }: ChartRange): ChartRangeLinks {
+  const start = getPeriodDateRange(from).start;
+  const end = getPeriodDateRange(to).end;
+
+  return {
+    label:
+      from === to
+        ? formatPeriodLabel(from)
+        : `${formatPeriodLabel(from)} – ${formatPeriodLabel(to)}`,
+    historyPath: `/history?${new URLSearchParams({
+      from: format(start, 'yyyy-MM'),
+      to: format(end, 'yyyy-MM'),
+    })}`,
+    generatorPath: `/playlist-generator?${new URLSearchParams({
+      start: format(start, 'yyyy-MM-dd'),
+      end: format(end, 'yyyy-MM-dd'),
+    })}`,
+  };
+}
+
+/**
+ * Horizontal position of a pointer in an SVG's viewBox units
+ */
+export function getSvgX(svg: SVGSVGElement, clientX: number): number {
+  const rect = svg.getBoundingClientRect();
+  const { width } = svg.viewBox.baseVal;
+  return rect.width > 0 ? ((clientX - rect.left) * width) / rect.width : 0;
+}
+
+/**
+ * Standalone SVG markup for a rendered chart, with a background so it reads outside the app
+ */
+export function serializeSvg(svg: SVGSVGElement): string {
+  const { width, height } = svg.viewBox.baseVal;
+  const copy = svg.cloneNode(true) as SVGSVGElement;
+  copy.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  copy.setAttribute('width', String(width));
+  copy.setAttribute('height', String(height));
+  copy.setAttribute('font-family', CHART_FONT_FAMILY);
+
+  const background = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
+  background.setAttribute('x', String(svg.viewBox.baseVal.x));
+  background.setAttribute('y', String(svg.viewBox.baseVal.y));
+  background.setAttribute('width', String(width));
+  background.setAttribute('height', String(height));
+  background.setAttribute('fill', SPOTIFY_DARK_GRAY);
+  copy.insertBefore(background, copy.firstChild);
+
+  return new XMLSerializer().serializeToString(copy);
+}
+
+/**
+ * Rasterize a rendered chart to a PNG at `scale` times its viewBox size
+ */
+export async function renderSvgToPng(svg: SVGSVGElement, scale = 2): Promise<Blob> {
+  const { width, height } = svg.viewBox.baseVal;
+  const url = URL.createObjectURL(new Blob([serializeSvg(svg)], { type: 'image/svg+xml' }));
+
+  try {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.addEventListener('load', () => resolve());
+      image.addEventListener('error', () => reject(new Error('Could not render the chart image')));
+      image.src = url;
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas is not supported in this browser');
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    return await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob(
+        (blob) => (blob ? resolve(blob) : reject(new Error('Could not encode the chart image'))),
+        'image/png'
+      )
+    );
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,76 @@
+import type { Session } from 'next-auth';
+import type { MockSpotifyConfig } from './mockSpotifyServer';
+import type { SpotifyTransport } from './spotify';
+
+// The demo runs the mock Spotify server in the browser against a generated library, so it
+// works without a Spotify account. It lasts for the browser tab, like a sign-in would.
+const DEMO_MODE_KEY = 'spotify_time_machine_demo';
+
+// Fixed so every visitor gets the same sample library
+const DEMO_SPOTIFY_CONFIG: MockSpotifyConfig = {
+  librarySize: 3000,
+  seed: 42,
+  latencyMs: 20,
+  scenarios: [],
+};
+
+// Far enough ahead that the demo session never looks expired
+const DEMO_SESSION_LIFETIME_MS = 365 * 24 * 60 * 60 * 1000;
+
+/**
+ * Whether this tab is in demo mode; always false on the server
+ */
+export function isDemoModeActive(): boolean {
+  if (typeof window === 'undefined') return false;
+  try {
+    return sessionStorage.getItem(DEMO_MODE_KEY) === 'true';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Enter the demo. The page is reloaded so the Spotify client starts out on the mock server
+ * and nothing from a previous session is still in memory.
+ */
+export function startDemoMode(path = '/dashboard') {
+  sessionStorage.setItem(DEMO_MODE_KEY, 'true');
+  window.location.assign(path);
+}
+
+/**
+ * Leave the demo: drop everything it cached and reload on the landing page
+ */
+export async function exitDemoMode() {
+  // Imported here to avoid a circular dependency, as cacheUtils checks for demo mode
+  const { clearAllCacheSmart } = await import('./cacheUtils');
+  // Still in demo mode at this point, so only the demo's entries are cleared
+  await clearAllCacheSmart();
+  sessionStorage.removeItem(DEMO_MODE_KEY);
+  window.location.assign('/');
+}
+
+/**
+ * Session standing in for a NextAuth sign-in. The token is one the mock server accepts.
+ */
+export function createDemoSession(): Session {
+  const expiresAt = Date.now() + DEMO_SESSION_LIFETIME_MS;
+  return {
+    user: { name: 'Demo Listener', email: null, image: null },
+    expires: new Date(expiresAt).toISOString(),
+    accessToken: `mock-access-${Date.now()}`,
+    expiresAt: Math.floor(expiresAt / 1000),
+  };
+}
+
+/**
+ * Answer SpotifyApi requests from the in-browser mock server instead of the network. Only
+ * the /v1/... part of the URL matters, so it works whatever base URL the client has.
+ */
+export const demoTransport: SpotifyTransport = async (url, init) => {
+  // Loaded on first use so the generator stays out of the bundle for signed-in users
+  const { handleMockSpotifyRequest } = await import('./mockSpotifyServer');
+  const request = new Request(new URL(url, window.location.origin), init);
+  const path = new URL(request.url).pathname.split('/').filter(Boolean);
+  return handleMockSpotifyRequest(request, path.slice(path.indexOf('v1')), DEMO_SPOTIFY_CONFIG);
+};
@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getDiscoveryByPeriod,
+  getGenreDiversityByPeriod,
+  shannonDiversity,
+  shannonEvenness,
+  summarizeDiscovery,
+} from './discoveryMetrics';
+import { CompactArtist, CompactTrack } from './spotifyModels';
+
+// Mid-month timestamps so the period keys don't depend on the time zone
+const like = (id: string, addedAt: string, ...artistIds: string[]): CompactTrack => ({
+  id,
+  added_at: addedAt,
+  artist_ids: artistIds,
+});
+
+const artist = (id: string, ...genres: string[]): CompactArtist => ({ id, name: id, genres });
+
+describe('shannonDiversity', () => {
+  it('is 0 for a single genre', () => {
+    expect(shannonDiversity([12])).toBe(0);
+  });
+
+  it('is ln(n) for an even spread over n genres', () => {
+    expect(shannonDiversity([5, 5, 5, 5])).toBeCloseTo(Math.log(4));
+  });
+
+  it('ignores empty categories and handles empty input', () => {
+    expect(shannonDiversity([3, 0, 3])).toBeCloseTo(Math.log(2));
+    expect(shannonDiversity([])).toBe(0);
+  });
+});
+
+describe('shannonEvenness', () => {
+  it('is 1 for an even spread', () => {
+    expect(shannonEvenness([4, 4, 4])).toBeCloseTo(1);
+  });
+
+  it('is below 1 for an uneven spread', () => {
+    const evenness = shannonEvenness([10, 1, 1]);
+    expect(evenness).toBeGreaterThan(0);
+    expect(evenness).toBeLessThan(1);
+  });
+
+  it('is 0 for a single genre or empty input', () => {
+    expect(shannonEvenness([7])).toBe(0);
+    expect(shannonEvenness([])).toBe(0);
+  });
+});
+
+describe('getDiscoveryByPeriod', () => {
+  const tracks = [
+    like('t3', '2024-02-15T12:00:00Z', 'a', 'c'),
+    like('t1', '2024-01-15T12:00:00Z', 'a'),
+    like('t2', '2024-01-16T12:00:00Z', 'a', 'b'),
+    like('t4', '2024-02-16T12:00:00Z', 'b'),
+  ];
+
+  it('counts first-time artists and repeat likes per period, oldest first', () => {
+    expect(getDiscoveryByPeriod(tracks, 'monthly')).toEqual([
+      {
+        period: '2024-01',
+        likes: 2,
+        newArtists: 2,
+        explorationLikes: 2,
+        repeatLikes: 0,
+        repeatShare: 0,
+      },
+      {
+        period: '2024-02',
+        likes: 2,
+        newArtists: 1,
+        explorationLikes: 1,
+        repeatLikes: 1,
+        repeatShare: 0.5,
+      },
+    ]);
+  });
+
+  it('still seeds the artists seen before the since cutoff', () => {
+    const [february] = getDiscoveryByPeriod(tracks, 'monthly', new Date('2024-02-01T00:00:00Z'));
+
+    expect(february.period).toBe('2024-02');
+    // a and b were first liked in January, so only c is new
+    expect(february.newArtists).toBe(1);
+    expect(february.repeatLikes).toBe(1);
+  });
+
+  it('returns no periods for empty input', () => {
+    expect(getDiscoveryByPeriod([], 'monthly')).toEqual([]);
+  });
+});
+
+describe('getGenreDiversityByPeriod', () => {
+  it('measures each period and leaves out likes without genres', () => {
+    const artists = new Map([
+      ['a', artist('a', 'indie rock')],
+      ['b', artist('b', 'jazz')],
+      ['c', artist('c')],
+    ]);
+    const tracks = [
+      like('t1', '2024-01-15T12:00:00Z', 'a'),
+      like('t2', '2024-01-16T12:00:00Z', 'a'),
+      like('t3', '2024-04-15T12:00:00Z', 'a'),
+      like('t4', '2024-04-16T12:00:00Z', 'b'),
+      like('t5', '2024-04-17T12:00:00Z', 'c'),
+    ];
+
+    const [first, second] = getGenreDiversityByPeriod(tracks, artists, 'quarterly');
+
+    expect(first).toEqual({
+      period: '2024-Q1',
+      diversity: 0,
+      evenness: 0,
+      genreCount: 1,
+      taggedLikes: 2,
+    });
+    expect(second.period).toBe('2024-Q2');
+    expect(second.taggedLikes).toBe(2);
+    expect(second.evenness).toBeCloseTo(1);
+  });
+
+  it('returns no periods for empty input', () => {
+    expect(getGenreDiversityByPeriod([], new Map())).toEqual([]);
+  });
+});
+
+describe('summarizeDiscovery', () => {
+  it('totals the periods', () => {
+    const periods = getDiscoveryByPeriod(
+      [
+        like('t1', '2024-01-15T12:00:00Z', 'a'),
+        like('t2', '2024-02-15T12:00:00Z', 'a'),
+        like('t3', '2024-03-15T12:00:00Z', 'a'),
+        like('t4', '2024-03-16T12:00:00Z', 'b'),
+      ],
+      'monthly'
+    );
+
+    expect(summarizeDiscovery(periods)).toEqual({
+      likes: 4,
+      newArtists: 2,
+      repeatShare: 0.5,
+      explorationShare: 0.5,
+    });
+  });
+
+  it('is all zeros for empty input', () => {
+    expect(summarizeDiscovery([])).toEqual({
+      likes: 0,
+      newArtists: 0,
+      repeatShare: 0,
+      explorationShare: 0,
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import { CompactArtist, CompactTrack } from './spotifyModels';
+import { TrendGranularity, getPeriodKey } from './trendUtils';
+
+export interface DiscoveryPeriod {
+  // Period key from getPeriodKey
+  period: string;
+  likes: number;
+  // Artists liked for the first time in this period
+  newArtists: number;
+  // Likes that introduced at least one new artist ("exploration")
+  explorationLikes: number;
+  // Likes where every artist had been liked before ("comfort zone")
+  repeatLikes: number;
+  // repeatLikes / likes, 0-1
+  repeatShare: number;
+}
+
+export interface GenreDiversityPeriod {
+  period: string;
+  // Shannon index (natural log) of the period's genre distribution
+  diversity: number;
+  // Diversity relative to the most even spread possible over the same genres, 0-1
+  evenness: number;
+  genreCount: number;
+  // Likes with at least one genre, i.e. the likes the index is based on
+  taggedLikes: number;
+}
+
+export interface DiscoverySummary {
+  likes: number;
+  newArtists: number;
+  repeatShare: number;
+  explorationShare: number;
+}
+
+/**
+ * Shannon diversity index H = -Σ p·ln(p) of a set of counts. 0 for a single category;
+ * higher when likes are spread over more categories more evenly.
+ */
+export function shannonDiversity(counts: Iterable<number>): number {
+  const values = Array.from(counts).filter((count) => count > 0);
+  const total = values.reduce((sum, count) => sum + count, 0);
+  if (total === 0) return 0;
+
+  return values.reduce((h, count) => {
+    const p = count / total;
+    return h - p * Math.log(p);
+  }, 0);
+}
+
+/**
+ * Pielou's evenness: Shannon diversity divided by its maximum, ln(number of categories).
+ * 1 when every category is equally common; 0 with fewer than two categories.
+ */
+export function shannonEvenness(counts: Iterable<number>): number {
+  const values = Array.from(counts).filter((count) => count > 0);
+  if (values.length < 2) return 0;
+  return shannonDiversity(values) / Math.log(values.length);
+}
+
+/**
+ * First-time artists and repeat-artist likes per period. "First time" is relative to the
+ * tracks passed in, so pass the whole library for lifetime discoveries and use `since` to
+ * only report recent periods.
+ * @returns Periods with likes on or after `since`, oldest first
+ */
+export function getDiscoveryByPeriod(
+  tracks: CompactTrack[],
+  granularity: TrendGranularity,
+  since: Date = new Date(0)
+): DiscoveryPeriod[] {
+  const seenArtists = new Set<string>();
+  const periods = new Map<string, DiscoveryPeriod>();
+
+  tracks
+    .toSorted((a, b) => new Date(a.added_at).getTime() - new Date(b.added_at).getTime())
+    .forEach((track) => {
+      // Earlier likes still count towards the artists already seen
+      const newArtistIds = new Set(track.artist_ids.filter((id) => !seenArtists.has(id)));
+      newArtistIds.forEach((id) => seenArtists.add(id));
+      if (new Date(track.added_at) < since) return;
+
+      const key = getPeriodKey(new Date(track.added_at), granularity);
+      const period = periods.get(key) ?? {
+        period: key,
+        likes: 0,
+        newArtists: 0,
+        explorationLikes: 0,
+        repeatLikes: 0,
+        repeatShare: 0,
+      };
+
+      period.likes++;
+      period.newArtists += newArtistIds.size;
+      if (newArtistIds.size > 0) {
+        period.explorationLikes++;
+      } else {
+        period.repeatLikes++;
+      }
+      periods.set(key, period);
+    });
+
+  return Array.from(periods.values(), (period) => ({
+    ...period,
+    repeatShare: period.likes > 0 ? period.repeatLikes / period.likes : 0,
+  })).toSorted((a, b) => a.period.localeCompare(b.period));
+}
+
+/**
+ * Shannon diversity of genres per period. Each like counts once for every distinct genre of
+ * its artists; likes whose artists have no known genres are left out.
+ * @returns Periods with at least one genre-tagged like, oldest first
+ */
+export function getGenreDiversityByPeriod(
+  tracks: CompactTrack[],
+  artistsById: Map<string, CompactArtist>,
+  granularity: TrendGranularity = 'quarterly'
+): GenreDiversityPeriod[] {
+  const periods = new Map<string, { genres: Map<string, number>; taggedLikes: number }>();
+
+  tracks.forEach((track) => {
+    const genres = new Set(track.artist_ids.flatMap((id) => artistsById.get(id)?.genres ?? []));
+    if (genres.size === 0) return;
+
+    const key = getPeriodKey(new Date(track.added_at), granularity);
+    const period = periods.get(key) ?? { genres: new Map<string, number>(), taggedLikes: 0 };
+    period.taggedLikes++;
+    genres.forEach((genre) => period.genres.set(genre, (period.genres.get(genre) ?? 0) + 1));
+    periods.set(key, period);
+  });
+
+  return Array.from(periods, ([period, { genres, taggedLikes }]) => ({
+    period,
+    diversity: shannonDiversity(genres.values()),
+    evenness: shannonEvenness(genres.values()),
+    genreCount: genres.size,
+    taggedLikes,
+  })).toSorted((a, b) => a.period.localeCompare(b.period));
+}
+
+/**
+ * Totals across periods from getDiscoveryByPeriod
+ */
+export function summarizeDiscovery(periods: DiscoveryPeriod[]): DiscoverySummary {
+  const likes = periods.reduce((sum, period) => sum + period.likes, 0);
+  const repeatLikes = periods.reduce((sum, period) => sum + period.repeatLikes, 0);
+
+  return {
+    likes,
+    newArtists: periods.reduce((sum, period) => sum + period.newArtists, 0),
+    repeatShare: likes > 0 ? repeatLikes / likes : 0,
+    explorationShare: likes > 0 ? (likes - repeatLikes) / likes : 0,
+  };
+}
@@ -0,0 +1,218 @@
+import { format, isBefore, parseISO } from 'date-fns';
+import { SavedTrack } from '@/lib/spotifyModels';
+import { groupTracksByMonth } from '@/lib/spotifyTrackUtils';
+
+export type ExportFormat = 'json' | 'csv' | 'xspf';
+
+export interface ExportTrack {
+  id: string;
+  uri: string;
+  name: string;
+  album: string;
+  artists: Array<{ id: string; name: string }>;
+  genres: string[];
+  duration_ms: number;
+  added_at: string;
+}
+
+export const EXPORT_FORMATS: Array<{ id: ExportFormat; label: string; mimeType: string }> = [
+  { id: 'json', label: 'JSON', mimeType: 'application/json' },
+  { id: 'csv', label: 'CSV', mimeType: 'text/csv' },
+  { id: 'xspf', label: 'XSPF Playlist', mimeType: 'application/xspf+xml' },
+];
+
+/**
+ * Select the tracks liked during any of the given months ("MMMM yyyy")
+ */
+export function selectTracksByMonths(tracks: SavedTrack[], months: string[]): SavedTrack[] {
+  const selected = new Set(months);
+  return groupTracksByMonth(tracks)
+    .filter((m) => selected.has(m.month))
+    .flatMap((m) => m.tracks);
+}
+
+/**
+ * Select the tracks liked between two dates (inclusive, YYYY-MM-DD)
+ */
+export function selectTracksByDateRange(
+  tracks: SavedTrack[],
+  startDate: string,
+  endDate: string
+): SavedTrack[] {
+  const start = parseISO(startDate);
+  // Include the whole end day
+  const end = new Date(parseISO(endDate).getTime() + 24 * 60 * 60 * 1000);
+
+  return tracks.filter((track) => {
+    const addedAt = new Date(track.added_at);
+    return !isBefore(addedAt, start) && isBefore(addedAt, end);
+  });
+}
+
+/**
+ * Flatten saved tracks into export rows, attaching genres from the artists they credit
+ */
+export function buildExportTracks(
+  tracks: SavedTrack[],
+  artistGenres: Map<string, { genres: string[] }>
+): ExportTrack[] {
+  return tracks
+    .map((item) => ({
+      id: item.track.id,
+      uri: `spotify:track:${item.track.id}`,
+      name: item.track.name,
+      album: item.track.album.name,
+      artists: item.track.artists.map((artist) => ({ id: artist.id, name: artist.name })),
+      genres: [
+        ...new Set(
+          item.track.artists.flatMap((artist) => artistGenres.get(artist.id)?.genres ?? [])
+        ),
+      ],
+      duration_ms: item.track.duration_ms,
+      added_at: item.added_at,
+    }))
+    .toSorted((a, b) => new Date(b.added_at).getTime() - new Date(a.added_at).getTime());
+}
+
+/**
+ * Serialize export rows to pretty-printed JSON
+ */
+export function toJSON(tracks: ExportTrack[]): string {
+  return JSON.stringify(
+    {
+      exportedAt: new Date().toISOString(),
+      count: tracks.length,
+      tracks,
+    },
+    null,
+    2
+  );
+}
+
+// Quote a CSV field when it contains a delimiter, quote or line break
+const escapeCsvField = (value: string | number): string => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serialize export rows to CSV (multi-value columns are joined with "; ")
+ */
+export function toCSV(tracks: ExportTrack[]): string {
+  const header = [
+    'id',
+    'uri',
+    'name',
+    'album',
+    'artists',
+    'artist_ids',
+    'genres',
+    'duration_ms',
+    'added_at',
+  ];
+
+  const rows = tracks.map((track) =>
+    [
+      track.id,
+      track.uri,
+      track.name,
+      track.album,
+      track.artists.map((a) => a.name).join('; '),
+      track.artists.map((a) => a.id).join('; '),
+      track.genres.join('; '),
+      track.duration_ms,
+      track.added_at,
+    ]
+      .map(escapeCsvField)
+      .join(',')
+  );
+
+  return [header.join(','), ...rows].join('\r\n');
+}
+
+// Escape text for use inside XML elements
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+/**
+ * Serialize export rows to an XSPF playlist that other players can import
+ */
+export function toXSPF(tracks: ExportTrack[], title: string): string {
+  const trackList = tracks
+    .map((track) =>
+      [
+        '    <track>',
+        `      <location>https://open.spotify.com/track/${track.id}</location>`,
+        `      <identifier>${track.uri}</identifier>`,
+        `      <title>${escapeXml(track.name)}</title>`,
+        `      <creator>${escapeXml(track.artists.map((a) => a.name).join(', '))}</creator>`,
+        `      <album>${escapeXml(track.album)}</album>`,
+        `      <duration>${track.duration_ms}</duration>`,
+        `      <annotation>Liked ${track.added_at}</annotation>`,
+        '    </track>',
+      ].join('\n')
+    )
+    .join('\n');
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<playlist version="1" xmlns="http://xspf.org/ns/0/">',
+    `  <title>${escapeXml(title)}</title>`,
+    `  <date>${new Date().toISOString()}</date>`,
+    '  <trackList>',
+    trackList,
+    '  </trackList>',
+    '</playlist>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Serialize export rows in the requested format
+ */
+export function serializeTracks(
+  tracks: ExportTrack[],
+  exportFormat: ExportFormat,
+  title: string
+): string {
+  switch (exportFormat) {
+    case 'csv':
+      return toCSV(tracks);
+    case 'xspf':
+      return toXSPF(tracks, title);
+    default:
+      return toJSON(tracks);
+  }
+}
+
+/**
+ * Build a file name such as "liked-tracks-2025-01-31.csv"
+ */
+export function getExportFileName(exportFormat: ExportFormat, label = 'liked-tracks'): string {
+  const slug = label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+  return `${slug}-${format(new Date(), 'yyyy-MM-dd')}.${exportFormat}`;
+}
+
+/**
+ * Trigger a browser download for generated content
+ */
+export function downloadFile(content: string | Blob, fileName: string, mimeType: string): void {
+  const blob =
+    content instanceof Blob ? content : new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
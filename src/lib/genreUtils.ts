@@ -1,4 +1,4 @@
-import { Artist } from '@/hooks/useUserStats';
+import { Artist } from './spotifyModels';
 
 export interface GenreCount {
   name: string;
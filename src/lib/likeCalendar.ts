@@ -0,0 +1,102 @@
+import {
+  addDays,
+  differenceInCalendarWeeks,
+  endOfYear,
+  format,
+  startOfWeek,
+  startOfYear,
+} from 'date-fns';
+
+export interface CalendarDay {
+  // Local date, CALENDAR_DAY_FORMAT
+  date: string;
+  count: number;
+}
+
+export interface LikeCalendar {
+  year: number;
+  // Weeks starting on Sunday, each indexed by day of the week; days outside the year are null
+  weeks: Array<Array<CalendarDay | null>>;
+  // The week each month starts in, for axis labels
+  monthStarts: Array<{ week: number; label: string }>;
+  total: number;
+  activeDays: number;
+  busiestDay: CalendarDay | null;
+  // Likes per day of the week (Sunday first) and per hour of the day
+  byWeekday: number[];
+  byHour: number[];
+}
+
+// Days are keyed as "2024-06-01", in the user's time zone
+export const CALENDAR_DAY_FORMAT = 'yyyy-MM-dd';
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Years with at least one like, in the user's time zone, newest first
+ */
+export function getCalendarYears(tracks: Array<{ added_at: string }>): number[] {
+  const years = new Set(tracks.map((track) => new Date(track.added_at).getFullYear()));
+  return Array.from(years).toSorted((a, b) => b - a);
+}
+
+/**
+ * Likes per day of one year laid out as a calendar, plus when in the week and day they happened.
+ * Everything is bucketed in the user's local time zone, so a like saved late at night lands on
+ * the day the user saw it.
+ */
+export function buildLikeCalendar(tracks: Array<{ added_at: string }>, year: number): LikeCalendar {
+  const counts = new Map<string, number>();
+  const byWeekday: number[] = Array.from({ length: 7 }, () => 0);
+  const byHour: number[] = Array.from({ length: 24 }, () => 0);
+
+  tracks.forEach((track) => {
+    const addedAt = new Date(track.added_at);
+    if (addedAt.getFullYear() !== year) return;
+
+    const day = format(addedAt, CALENDAR_DAY_FORMAT);
+    counts.set(day, (counts.get(day) ?? 0) + 1);
+    byWeekday[addedAt.getDay()]++;
+    byHour[addedAt.getHours()]++;
+  });
+
+  const firstDay = startOfYear(new Date(year, 0, 1));
+  const lastDay = endOfYear(firstDay);
+  const weeks: Array<Array<CalendarDay | null>> = [];
+  for (let day = startOfWeek(firstDay); day <= lastDay; day = addDays(day, 1)) {
+    const week = differenceInCalendarWeeks(day, firstDay);
+    weeks[week] ??= Array.from({ length: 7 }, () => null);
+    if (day.getFullYear() !== year) continue;
+
+    const date = format(day, CALENDAR_DAY_FORMAT);
+    weeks[week][day.getDay()] = { date, count: counts.get(date) ?? 0 };
+  }
+
+  const busiest = Array.from(counts).reduce<[string, number] | null>(
+    (best, entry) => (!best || entry[1] > best[1] ? entry : best),
+    null
+  );
+
+  return {
+    year,
+    weeks,
+    monthStarts: Array.from({ length: 12 }, (_, month) => {
+      const start = new Date(year, month, 1);
+      return { week: differenceInCalendarWeeks(start, firstDay), label: format(start, 'MMM') };
+    }),
+    total: Array.from(counts.values()).reduce((sum, count) => sum + count, 0),
+    activeDays: counts.size,
+    busiestDay: busiest ? { date: busiest[0], count: busiest[1] } : null,
+    byWeekday,
+    byHour,
+  };
+}
+
+/**
+ * Tracks liked on a local day (CALENDAR_DAY_FORMAT), in the order they were liked
+ */
+export function getTracksLikedOn<T extends { added_at: string }>(tracks: T[], day: string): T[] {
+  return tracks
+    .filter((track) => format(new Date(track.added_at), CALENDAR_DAY_FORMAT) === day)
+    .toSorted((a, b) => new Date(a.added_at).getTime() - new Date(b.added_at).getTime());
+}
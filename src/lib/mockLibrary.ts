@@ -0,0 +1,283 @@
+import { startOfDay } from 'date-fns';
+import { AudioFeatures } from './audioFeatures';
+import { Album, Artist, PlayHistory, SavedTrack, Track } from './spotifyModels';
+
+// A generated Spotify library: the same seed and day always give the same liked tracks
+export interface MockLibrary {
+  // Newest first, the order /me/tracks returns them in
+  savedTracks: SavedTrack[];
+  artists: Map<string, Artist>;
+  audioFeatures: Map<string, AudioFeatures>;
+  // Newest first, the last 50 plays
+  recentlyPlayed: PlayHistory[];
+}
+
+export interface MockLibraryOptions {
+  // Number of liked tracks
+  size?: number;
+  seed?: number;
+  // Likes are spread over the years before this day
+  now?: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Years of liking history behind the newest track
+const HISTORY_YEARS = 6;
+
+const GENRES = [
+  'indie rock',
+  'indie pop',
+  'bedroom pop',
+  'dream pop',
+  'shoegaze',
+  'post-punk',
+  'synthpop',
+  'alternative r&b',
+  'neo soul',
+  'hip hop',
+  'trap',
+  'uk garage',
+  'house',
+  'deep house',
+  'techno',
+  'ambient',
+  'lo-fi beats',
+  'jazz',
+  'nu jazz',
+  'afrobeats',
+  'latin pop',
+  'reggaeton',
+  'k-pop',
+  'j-pop',
+  'folk',
+  'americana',
+  'country',
+  'metal',
+  'classical',
+  'singer-songwriter',
+];
+
+const FIRST_WORDS = [
+  'Velvet',
+  'Golden',
+  'Neon',
+  'Paper',
+  'Silver',
+  'Midnight',
+  'Crystal',
+  'Hollow',
+  'Electric',
+  'Quiet',
+  'Wild',
+  'Lunar',
+  'Copper',
+  'Static',
+  'Violet',
+  'Northern',
+  'Broken',
+  'Honey',
+  'Glass',
+  'Distant',
+];
+
+const SECOND_WORDS = [
+  'Harbor',
+  'Echoes',
+  'Lights',
+  'Garden',
+  'Rivers',
+  'Motel',
+  'Satellites',
+  'Horizon',
+  'Parade',
+  'Waves',
+  'Signals',
+  'Summer',
+  'Ghosts',
+  'Avenue',
+  'Machines',
+  'Tides',
+  'Letters',
+  'Fever',
+  'Skyline',
+  'Bloom',
+];
+
+const TRACK_WORDS = [
+  'Heartbeat',
+  'Slow Motion',
+  'Afterglow',
+  'Weekend',
+  'Runaway',
+  'Daydream',
+  'Gravity',
+  'Overdrive',
+  'Wildfire',
+  'Moonlight',
+  'Undertow',
+  'Kaleidoscope',
+  'Starlight',
+  'Paper Planes',
+  'Holding On',
+  'Lost in You',
+  'Cold Water',
+  'Sunday',
+  'Blue Hour',
+  'Never Enough',
+];
+
+/**
+ * Small, fast seeded random number generator (mulberry32), returning values in [0, 1)
+ */
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const BASE62 = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+
+/**
+ * 22 character base62 id in the same format as Spotify's, stable for a kind and index
+ */
+const toSpotifyId = (kind: string, index: number) => {
+  const random = createRandom(
+    [...`${kind}:${index}`].reduce(
+      (hash, char) => (Math.imul(hash, 31) + char.charCodeAt(0)) | 0,
+      7
+    )
+  );
+  return Array.from({ length: 22 }, () => BASE62[Math.floor(random() * 62)]).join('');
+};
+
+// Spotify timestamps have second precision
+const toSpotifyTimestamp = (date: Date) => date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+const mockImages = (kind: 'album' | 'artist', index: number) => [
+  { url: `/api/mock-spotify/images/${kind}-${index}.svg`, height: 640, width: 640 },
+];
+
+/**
+ * Generate a realistic liked-tracks library: artists with genres, several albums each,
+ * features, bursts of likes on some days and more likes in recent years, like most real
+ * libraries. Used by the mock Spotify server.
+ */
+export function createMockLibrary({
+  size = 1500,
+  seed = 1,
+  now = new Date(),
+}: MockLibraryOptions = {}): MockLibrary {
+  const random = createRandom(seed);
+  const pick = <T>(items: T[]) => items[Math.floor(random() * items.length)];
+  const between = (min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+
+  const artistCount = Math.max(1, Math.round(size / 8));
+  const artists: Artist[] = Array.from({ length: artistCount }, (_, index) => {
+    const id = toSpotifyId('artist', index);
+    return {
+      id,
+      name: `${pick(FIRST_WORDS)} ${pick(SECOND_WORDS)}`,
+      images: mockImages('artist', index),
+      genres: Array.from(new Set(Array.from({ length: between(1, 3) }, () => pick(GENRES)))),
+      popularity: between(5, 95),
+      external_urls: { spotify: `https://open.spotify.com/artist/${id}` },
+    };
+  });
+
+  let albumIndex = 0;
+  const albums: Array<{ album: Album; artist: Artist }> = artists.flatMap((artist) =>
+    Array.from({ length: between(1, 4) }, () => {
+      const index = albumIndex++;
+      return {
+        artist,
+        album: {
+          id: toSpotifyId('album', index),
+          name: `${pick(SECOND_WORDS)} ${pick(['', 'EP', 'Vol. 2', 'Deluxe', 'Sessions'])}`.trim(),
+          images: mockImages('album', index),
+          release_date: `${between(1975, now.getFullYear() - 1)}-${String(between(1, 12)).padStart(2, '0')}-${String(between(1, 28)).padStart(2, '0')}`,
+        },
+      };
+    })
+  );
+
+  // Some days get a burst of likes, e.g. after finding a new album
+  const end = startOfDay(now).getTime();
+  const burstDays = Array.from(
+    { length: Math.max(1, Math.round(size / 50)) },
+    () => end - Math.floor(Math.pow(random(), 1.5) * HISTORY_YEARS * 365) * DAY_MS
+  );
+
+  const savedTracks: SavedTrack[] = Array.from({ length: size }, (_, index) => {
+    const { album, artist } = pick(albums);
+    const featured = random() < 0.15 ? pick(artists) : null;
+    const id = toSpotifyId('track', index);
+    const track: Track = {
+      id,
+      name: random() < 0.2 ? `${pick(TRACK_WORDS)} (${pick(FIRST_WORDS)} Mix)` : pick(TRACK_WORDS),
+      album,
+      artists: [artist, ...(featured && featured.id !== artist.id ? [featured] : [])].map(
+        ({ id: artistId, name }) => ({ id: artistId, name })
+      ),
+      duration_ms: between(95_000, 380_000),
+      // Spotify no longer sends previews for most tracks
+      preview_url: null,
+      explicit: random() < 0.15,
+      popularity: Math.min(100, Math.max(0, artist.popularity + between(-15, 15))),
+      external_urls: { spotify: `https://open.spotify.com/track/${id}` },
+    };
+
+    // Recent years are denser than older ones
+    const day =
+      random() < 0.2
+        ? pick(burstDays)
+        : end - Math.floor(Math.pow(random(), 1.6) * HISTORY_YEARS * 365) * DAY_MS;
+    const addedAt = new Date(
+      Math.min(now.getTime(), day + between(7 * 60, 24 * 60 - 1) * 60 * 1000)
+    );
+    return { added_at: toSpotifyTimestamp(addedAt), track };
+  }).toSorted((a, b) => b.added_at.localeCompare(a.added_at));
+
+  const audioFeatures = new Map<string, AudioFeatures>(
+    savedTracks.map(({ track }) => [
+      track.id,
+      {
+        tempo: between(70, 175),
+        energy: random(),
+        valence: random(),
+        danceability: random(),
+        acousticness: Math.pow(random(), 2),
+      },
+    ])
+  );
+
+  // Recent plays lean on recently liked tracks
+  const recentPool = savedTracks.slice(0, Math.max(1, Math.min(200, savedTracks.length)));
+  let playedAt = now.getTime() - between(5, 60) * 60 * 1000;
+  const recentlyPlayed: PlayHistory[] =
+    savedTracks.length === 0
+      ? []
+      : Array.from({ length: 50 }, () => {
+          const { track } = pick(recentPool);
+          const play: PlayHistory = {
+            track,
+            played_at: new Date(playedAt).toISOString(),
+            context: null,
+          };
+          // Now and then a gap between listening sessions
+          playedAt -= track.duration_ms + (random() < 0.1 ? between(1, 3) * 60 * 60 * 1000 : 0);
+          return play;
+        });
+
+  return {
+    savedTracks,
+    artists: new Map(artists.map((artist) => [artist.id, artist])),
+    audioFeatures,
+    recentlyPlayed,
+  };
+}
@@ -0,0 +1,488 @@
+import { format, subMonths, subWeeks } from 'date-fns';
+import { MockLibrary, createMockLibrary } from './mockLibrary';
+import { Artist, SavedTrack } from './spotifyModels';
+
+// Failure modes the mock server can simulate, e.g. SPOTIFY_MOCK_SCENARIOS=token-expiry,rate-limit
+// - token-expiry: access tokens stop working after a minute, so the client has to refresh
+// - rate-limit: every few API requests get a 429 with a Retry-After header
+// - partial-failure: recently played answers 503 and audio features 403 while the rest works
+export const MOCK_SPOTIFY_SCENARIOS = ['token-expiry', 'rate-limit', 'partial-failure'] as const;
+
+export type MockSpotifyScenario = (typeof MOCK_SPOTIFY_SCENARIOS)[number];
+
+export interface MockSpotifyConfig {
+  librarySize: number;
+  seed: number;
+  // Delay added to every API response
+  latencyMs: number;
+  scenarios: MockSpotifyScenario[];
+}
+
+interface MockPlaylist {
+  id: string;
+  name: string;
+  description: string;
+  uris: string[];
+  snapshot: number;
+}
+
+interface MockSpotifyState {
+  library: MockLibrary;
+  // The library is regenerated each day so the newest likes stay recent
+  libraryKey: string;
+  playlists: Map<string, MockPlaylist>;
+  requestCount: number;
+}
+
+interface RouteContext {
+  request: Request;
+  url: URL;
+  match: RegExpMatchArray;
+  state: MockSpotifyState;
+  config: MockSpotifyConfig;
+}
+
+type RouteHandler = (context: RouteContext) => Response | Promise<Response>;
+
+const MOCK_USER = {
+  id: 'mock-user',
+  display_name: 'Mock Listener',
+  email: 'mock-listener@example.com',
+  images: [],
+};
+
+const MOCK_DEVICE = {
+  id: 'mock-device',
+  name: 'Mock Speaker',
+  type: 'Speaker',
+  is_active: true,
+  is_restricted: false,
+  volume_percent: 60,
+};
+
+const ACCESS_TOKEN_PREFIX = 'mock-access-';
+
+// How long access tokens work under the token-expiry scenario
+const EXPIRING_TOKEN_LIFETIME_MS = 60 * 1000;
+
+// Under the rate-limit scenario every Nth API request is rejected
+const RATE_LIMIT_EVERY = 12;
+const RATE_LIMIT_RETRY_AFTER_SECONDS = 2;
+
+// Windows of the top items endpoints, in the same terms as Spotify's time_range
+const TOP_ITEMS_WINDOWS: Record<string, (now: Date) => Date | null> = {
+  short_term: (now) => subWeeks(now, 4),
+  medium_term: (now) => subMonths(now, 6),
+  long_term: () => null,
+};
+
+// Kept for the life of the server process
+let serverState: MockSpotifyState | null = null;
+
+const readNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+/**
+ * Mock server settings from the environment
+ */
+export function getMockSpotifyConfig(): MockSpotifyConfig {
+  return {
+    librarySize: readNumber(process.env.SPOTIFY_MOCK_LIBRARY_SIZE, 1500),
+    seed: readNumber(process.env.SPOTIFY_MOCK_SEED, 1),
+    latencyMs: readNumber(process.env.SPOTIFY_MOCK_LATENCY_MS, 120),
+    scenarios: (process.env.SPOTIFY_MOCK_SCENARIOS ?? '')
+      .split(',')
+      .map((scenario) => scenario.trim())
+      .filter((scenario): scenario is MockSpotifyScenario =>
+        MOCK_SPOTIFY_SCENARIOS.includes(scenario as MockSpotifyScenario)
+      ),
+  };
+}
+
+const getState = (config: MockSpotifyConfig): MockSpotifyState => {
+  const now = new Date();
+  const libraryKey = `${config.librarySize}:${config.seed}:${format(now, 'yyyy-MM-dd')}`;
+  if (serverState?.libraryKey !== libraryKey) {
+    serverState = {
+      library: createMockLibrary({ size: config.librarySize, seed: config.seed, now }),
+      libraryKey,
+      // Playlists survive a new library, like they would on Spotify
+      playlists: serverState?.playlists ?? new Map(),
+      requestCount: serverState?.requestCount ?? 0,
+    };
+  }
+  return serverState;
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const json = (body: unknown, status = 200, headers?: HeadersInit) =>
+  Response.json(body, { status, headers });
+
+// Errors have the same shape as Spotify's, which SpotifyApi reads the message from
+const spotifyError = (status: number, message: string, headers?: HeadersInit) =>
+  json({ error: { status, message } }, status, headers);
+
+const noContent = (status = 204) => new Response(null, { status });
+
+const getPageParams = (url: URL, maxLimit: number) => ({
+  limit: Math.min(
+    maxLimit,
+    Math.max(1, readNumber(url.searchParams.get('limit') ?? undefined, 20))
+  ),
+  offset: readNumber(url.searchParams.get('offset') ?? undefined, 0),
+});
+
+/**
+ * Offset-based page in Spotify's paging object format, with next and previous links
+ */
+const toPage = <T>(items: T[], url: URL, maxLimit = 50) => {
+  const { limit, offset } = getPageParams(url, maxLimit);
+  const pageUrl = (pageOffset: number) => {
+    const next = new URL(url);
+    next.searchParams.set('offset', String(pageOffset));
+    next.searchParams.set('limit', String(limit));
+    return next.toString();
+  };
+
+  return {
+    href: url.toString(),
+    items: items.slice(offset, offset + limit),
+    limit,
+    offset,
+    total: items.length,
+    next: offset + limit < items.length ? pageUrl(offset + limit) : null,
+    previous: offset > 0 ? pageUrl(Math.max(0, offset - limit)) : null,
+  };
+};
+
+const getIds = (url: URL) => (url.searchParams.get('ids') ?? '').split(',').filter(Boolean);
+
+const readJson = async <T>(request: Request): Promise<Partial<T>> => {
+  try {
+    return (await request.json()) as Partial<T>;
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Liked tracks inside a top items window; the whole library when the window is empty
+ */
+const getTopItemsSource = (library: MockLibrary, timeRange: string | null): SavedTrack[] => {
+  const since = (TOP_ITEMS_WINDOWS[timeRange ?? 'medium_term'] ?? TOP_ITEMS_WINDOWS.medium_term)(
+    new Date()
+  );
+  const inWindow = since
+    ? library.savedTracks.filter((item) => new Date(item.added_at) >= since)
+    : library.savedTracks;
+  return inWindow.length > 0 ? inWindow : library.savedTracks;
+};
+
+const getTopArtists = (library: MockLibrary, timeRange: string | null): Artist[] => {
+  const counts = new Map<string, number>();
+  getTopItemsSource(library, timeRange).forEach(({ track }) => {
+    track.artists.forEach((artist) => counts.set(artist.id, (counts.get(artist.id) ?? 0) + 1));
+  });
+  return [...counts.entries()]
+    .toSorted((a, b) => b[1] - a[1])
+    .flatMap(([id]) => library.artists.get(id) ?? []);
+};
+
+const getPlaylist = ({ match, state: { playlists } }: RouteContext) => playlists.get(match[1]);
+
+const updatePlaylist = (playlist: MockPlaylist, uris: string[]) => {
+  playlist.uris = uris;
+  playlist.snapshot++;
+  return json({ snapshot_id: `${playlist.id}-${playlist.snapshot}` });
+};
+
+// Web API routes, matched against the path after /v1/
+const ROUTES: Array<[method: string, path: RegExp, handler: RouteHandler]> = [
+  ['GET', /^me$/, () => json(MOCK_USER)],
+  ['GET', /^me\/tracks$/, ({ url, state }) => json(toPage(state.library.savedTracks, url))],
+  [
+    'GET',
+    /^me\/top\/artists$/,
+    ({ url, state }) =>
+      json(toPage(getTopArtists(state.library, url.searchParams.get('time_range')), url)),
+  ],
+  [
+    'GET',
+    /^me\/top\/tracks$/,
+    ({ url, state }) =>
+      json(
+        toPage(
+          getTopItemsSource(state.library, url.searchParams.get('time_range'))
+            .map(({ track }) => track)
+            .toSorted((a, b) => (b.popularity ?? 0) - (a.popularity ?? 0)),
+          url
+        )
+      ),
+  ],
+  [
+    'GET',
+    /^me\/player\/recently-played$/,
+    ({ url, state, config }) => {
+      if (config.scenarios.includes('partial-failure')) {
+        return spotifyError(503, 'Service unavailable');
+      }
+
+      const after = readNumber(url.searchParams.get('after') ?? undefined, 0);
+      const before = readNumber(url.searchParams.get('before') ?? undefined, Infinity);
+      const { limit } = getPageParams(url, 50);
+      const items = state.library.recentlyPlayed
+        .filter((play) => {
+          const playedAt = new Date(play.played_at).getTime();
+          return playedAt > after && playedAt < before;
+        })
+        .slice(0, limit);
+
+      return json({
+        href: url.toString(),
+        items,
+        limit,
+        next: null,
+        cursors:
+          items.length > 0
+            ? {
+                after: String(new Date(items[0].played_at).getTime()),
+                before: String(new Date(items.at(-1)!.played_at).getTime()),
+              }
+            : null,
+      });
+    },
+  ],
+  [
+    'GET',
+    /^artists$/,
+    ({ url, state }) =>
+      json({ artists: getIds(url).map((id) => state.library.artists.get(id) ?? null) }),
+  ],
+  [
+    'GET',
+    /^audio-features$/,
+    ({ url, state, config }) => {
+      // What Spotify answers for apps created after audio features were deprecated
+      if (config.scenarios.includes('partial-failure')) {
+        return spotifyError(403, 'Forbidden');
+      }
+      return json({
+        audio_features: getIds(url).map((id) => {
+          const features = state.library.audioFeatures.get(id);
+          return features ? { id, ...features } : null;
+        }),
+      });
+    },
+  ],
+  [
+    'POST',
+    /^users\/([^/]+)\/playlists$/,
+    async ({ request, state }) => {
+      const body = await readJson<{ name: string; description: string }>(request);
+      const id = `mockplaylist${state.playlists.size + 1}`;
+      state.playlists.set(id, {
+        id,
+        name: body.name ?? 'New Playlist',
+        description: body.description ?? '',
+        uris: [],
+        snapshot: 0,
+      });
+      return json(
+        {
+          id,
+          name: body.name,
+          external_urls: { spotify: `https://open.spotify.com/playlist/${id}` },
+        },
+        201
+      );
+    },
+  ],
+  [
+    'GET',
+    /^playlists\/([^/]+)\/tracks$/,
+    (context) => {
+      const playlist = getPlaylist(context);
+      if (!playlist) return spotifyError(404, 'Not found.');
+      return json(
+        toPage(
+          playlist.uris.map((uri) => ({ track: { uri } })),
+          context.url,
+          100
+        )
+      );
+    },
+  ],
+  [
+    'POST',
+    /^playlists\/([^/]+)\/tracks$/,
+    async (context) => {
+      const playlist = getPlaylist(context);
+      if (!playlist) return spotifyError(404, 'Not found.');
+      const { uris = [] } = await readJson<{ uris: string[] }>(context.request);
+      return updatePlaylist(playlist, [...playlist.uris, ...uris]);
+    },
+  ],
+  [
+    'PUT',
+    /^playlists\/([^/]+)\/tracks$/,
+    async (context) => {
+      const playlist = getPlaylist(context);
+      if (!playlist) return spotifyError(404, 'Not found.');
+      const { uris = [] } = await readJson<{ uris: string[] }>(context.request);
+      return updatePlaylist(playlist, uris);
+    },
+  ],
+  [
+    'DELETE',
+    /^playlists\/([^/]+)\/tracks$/,
+    async (context) => {
+      const playlist = getPlaylist(context);
+      if (!playlist) return spotifyError(404, 'Not found.');
+      const { tracks = [] } = await readJson<{ tracks: Array<{ uri: string }> }>(context.request);
+      const removed = new Set(tracks.map((track) => track.uri));
+      return updatePlaylist(
+        playlist,
+        playlist.uris.filter((uri) => !removed.has(uri))
+      );
+    },
+  ],
+  [
+    'GET',
+    /^playlists\/([^/]+)\/followers\/contains$/,
+    (context) => json([Boolean(getPlaylist(context))]),
+  ],
+  [
+    'PUT',
+    /^playlists\/([^/]+)$/,
+    async (context) => {
+      const playlist = getPlaylist(context);
+      if (!playlist) return spotifyError(404, 'Not found.');
+      const details = await readJson<{ name: string; description: string }>(context.request);
+      playlist.name = details.name ?? playlist.name;
+      playlist.description = details.description ?? playlist.description;
+      return noContent(200);
+    },
+  ],
+  [
+    'PUT',
+    /^playlists\/([^/]+)\/images$/,
+    (context) => (getPlaylist(context) ? noContent(202) : spotifyError(404, 'Not found.')),
+  ],
+  ['GET', /^me\/player\/devices$/, () => json({ devices: [MOCK_DEVICE] })],
+  // Nothing is playing
+  ['GET', /^me\/player$/, () => noContent()],
+  ['PUT', /^me\/player$/, () => noContent()],
+  ['PUT', /^me\/player\/play$/, () => noContent()],
+];
+
+/**
+ * Check the bearer token; under the token-expiry scenario tokens only last a minute
+ */
+const checkAccessToken = (request: Request, config: MockSpotifyConfig): Response | null => {
+  const token = request.headers.get('Authorization')?.replace(/^Bearer /, '') ?? '';
+  if (!token.startsWith(ACCESS_TOKEN_PREFIX)) {
+    return spotifyError(401, 'Invalid access token');
+  }
+
+  const issuedAt = Number(token.slice(ACCESS_TOKEN_PREFIX.length));
+  if (
+    config.scenarios.includes('token-expiry') &&
+    Date.now() - issuedAt > EXPIRING_TOKEN_LIFETIME_MS
+  ) {
+    return spotifyError(401, 'The access token expired');
+  }
+  return null;
+};
+
+const handleApiRequest = async (request: Request, path: string[], config: MockSpotifyConfig) => {
+  const mockState = getState(config);
+  const route = path.join('/');
+  const url = new URL(request.url);
+
+  await sleep(config.latencyMs);
+
+  const authError = checkAccessToken(request, config);
+  if (authError) return authError;
+
+  mockState.requestCount++;
+  // The profile is exempt so signing in always works
+  if (
+    config.scenarios.includes('rate-limit') &&
+    route !== 'me' &&
+    mockState.requestCount % RATE_LIMIT_EVERY === 0
+  ) {
+    return spotifyError(429, 'API rate limit exceeded', {
+      'Retry-After': String(RATE_LIMIT_RETRY_AFTER_SECONDS),
+    });
+  }
+
+  for (const [method, pattern, handler] of ROUTES) {
+    const match = route.match(pattern);
+    if (match && method === request.method) {
+      return handler({ request, url, match, state: mockState, config });
+    }
+  }
+  return spotifyError(404, 'Service not found');
+};
+
+/**
+ * Authorization step of the OAuth flow: approve straight away and send the user back
+ */
+const authorize = (request: Request) => {
+  const { searchParams } = new URL(request.url);
+  const redirectUri = searchParams.get('redirect_uri');
+  if (!redirectUri) return spotifyError(400, 'Missing redirect_uri');
+
+  const callback = new URL(redirectUri);
+  callback.searchParams.set('code', 'mock-authorization-code');
+  const stateParam = searchParams.get('state');
+  if (stateParam) callback.searchParams.set('state', stateParam);
+  return Response.redirect(callback, 302);
+};
+
+/**
+ * Token endpoint, for both the authorization code and refresh token grants
+ */
+const issueToken = () =>
+  json({
+    access_token: `${ACCESS_TOKEN_PREFIX}${Date.now()}`,
+    token_type: 'Bearer',
+    expires_in: 3600,
+    refresh_token: 'mock-refresh-token',
+    scope: 'user-library-read',
+  });
+
+/**
+ * Generated artwork so the mock works offline: a gradient with a hue derived from the name
+ */
+const artwork = (name: string) => {
+  const hue = [...name].reduce((hash, char) => (hash * 31 + char.charCodeAt(0)) % 360, 0);
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="640" height="640" viewBox="0 0 640 640"><defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="hsl(${hue} 70% 55%)"/><stop offset="1" stop-color="hsl(${(hue + 60) % 360} 60% 25%)"/></linearGradient></defs><rect width="640" height="640" fill="url(#g)"/></svg>`;
+  return new Response(svg, {
+    headers: { 'Content-Type': 'image/svg+xml', 'Cache-Control': 'public, max-age=86400' },
+  });
+};
+
+/**
+ * Answer a request to the mock server. The path is what follows /api/mock-spotify:
+ * - v1/...: the Web API, e.g. v1/me/tracks
+ * - authorize and api/token: the accounts service, used by NextAuth and token refreshes
+ * - images/<name>.svg: artwork referenced by the generated library
+ * The config defaults to the environment's; demo mode passes its own.
+ */
+export async function handleMockSpotifyRequest(
+  request: Request,
+  path: string[],
+  config = getMockSpotifyConfig()
+) {
+  const [root, ...rest] = path;
+
+  if (root === 'v1') return handleApiRequest(request, rest, config);
+  if (root === 'authorize' && request.method === 'GET') return authorize(request);
+  if (root === 'api' && rest[0] === 'token' && request.method === 'POST') return issueToken();
+  if (root === 'images' && request.method === 'GET' && rest[0]) return artwork(rest[0]);
+  return spotifyError(404, 'Service not found');
+}
@@ -0,0 +1,199 @@
+import { format } from 'date-fns';
+import { CACHE_VERSION, debugEnabled, getCachedDataSmart, setCachedDataSmart } from './cacheUtils';
+
+// Where a play event came from
+export type PlaySource = 'streaming_history' | 'extended_history' | 'recently_played';
+
+// A single play of a track, normalized across every play data source
+export interface PlayEvent {
+  played_at: string; // ISO timestamp of the play as reported by the source
+  ms_played: number; // Track duration for recently played, which doesn't report listening time
+  track_name: string;
+  artist_name: string;
+  album_name: string | null;
+  track_id: string | null; // Only known for sources that include Spotify URIs
+  source: PlaySource;
+}
+
+export interface MonthlyPlayStats {
+  plays: number;
+  minutes: number;
+  topTracks: Array<{ track_name: string; artist_name: string; plays: number }>;
+}
+
+// Spotify only counts a stream once it has played for 30 seconds
+export const MIN_PLAY_MS = 30_000;
+
+// Versioned key for the play log
+const PLAY_HISTORY_KEY = `${CACHE_VERSION}_playHistory`;
+
+// Plays can't be fetched again from the API, so keep them for a long time (10 years)
+const PLAY_HISTORY_RETENTION_MINUTES = 10 * 365 * 24 * 60;
+
+// In-memory play log, newest first
+let playHistoryCache: PlayEvent[] | null = null;
+
+// Listeners notified whenever the play log changes
+const listeners = new Set<(plays: PlayEvent[]) => void>();
+
+/**
+ * Build a dedupe key for a play. Timestamps are compared to the minute because the basic
+ * streaming history export has no seconds.
+ */
+export const getPlayEventKey = (event: PlayEvent): string =>
+  `${event.played_at.slice(0, 16)}|${event.artist_name}|${event.track_name}`.toLowerCase();
+
+/**
+ * Whether a play event lasted long enough to count as a stream
+ */
+export const isCountedPlay = (event: PlayEvent): boolean => event.ms_played >= MIN_PLAY_MS;
+
+/**
+ * Subscribe to play log changes, returns an unsubscribe function
+ */
+export function subscribeToPlayHistory(listener: (plays: PlayEvent[]) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Load the play log from memory, falling back to IndexedDB
+ */
+export async function loadPlayHistory(): Promise<PlayEvent[]> {
+  if (!playHistoryCache) {
+    playHistoryCache = (await getCachedDataSmart<PlayEvent[]>(PLAY_HISTORY_KEY)) ?? [];
+    if (debugEnabled()) console.log(`Restored ${playHistoryCache.length} play events`);
+  }
+  return playHistoryCache;
+}
+
+// Replace the play log in memory and storage, then notify listeners
+const savePlayHistory = async (plays: PlayEvent[]) => {
+  playHistoryCache = plays;
+  await setCachedDataSmart(PLAY_HISTORY_KEY, plays, PLAY_HISTORY_RETENTION_MINUTES, true);
+  listeners.forEach((listener) => listener(plays));
+};
+
+/**
+ * Merge new play events into the log, skipping plays that are already recorded
+ * @returns The updated log and how many events were actually added
+ */
+export async function addPlayEvents(
+  events: PlayEvent[]
+): Promise<{ plays: PlayEvent[]; added: number }> {
+  const existing = await loadPlayHistory();
+  const byKey = new Map(existing.map((event) => [getPlayEventKey(event), event]));
+  let added = 0;
+  let upgraded = 0;
+
+  events.forEach((event) => {
+    const key = getPlayEventKey(event);
+    const known = byKey.get(key);
+    if (!known) {
+      byKey.set(key, event);
+      added++;
+    } else if (!known.track_id && event.track_id) {
+      // Prefer the richer record when the same play shows up in both export formats
+      byKey.set(key, event);
+      upgraded++;
+    }
+  });
+
+  if (added === 0 && upgraded === 0) {
+    return { plays: existing, added };
+  }
+
+  const plays = Array.from(byKey.values()).toSorted(
+    (a, b) => new Date(b.played_at).getTime() - new Date(a.played_at).getTime()
+  );
+  await savePlayHistory(plays);
+
+  if (debugEnabled()) console.log(`Added ${added} play events (${plays.length} total)`);
+
+  return { plays, added };
+}
+
+/**
+ * Get the newest play recorded from the recently played endpoint, the cursor for the next sync
+ */
+export function getLatestRecentlyPlayedAt(plays: PlayEvent[]): string | null {
+  // The log is sorted newest first
+  return plays.find((event) => event.source === 'recently_played')?.played_at ?? null;
+}
+
+/**
+ * Remove every recorded play
+ */
+export async function clearPlayHistory(): Promise<void> {
+  await savePlayHistory([]);
+}
+
+/**
+ * Group counted plays by month ("MMMM yyyy", matching groupTracksByMonth)
+ */
+export function getMonthlyPlayStats(
+  plays: PlayEvent[],
+  topTrackCount = 5
+): Map<string, MonthlyPlayStats> {
+  const months = new Map<
+    string,
+    { plays: number; ms: number; tracks: Map<string, MonthlyPlayStats['topTracks'][number]> }
+  >();
+
+  plays.filter(isCountedPlay).forEach((event) => {
+    const month = format(new Date(event.played_at), 'MMMM yyyy');
+    const entry = months.get(month) ?? { plays: 0, ms: 0, tracks: new Map() };
+    entry.plays++;
+    entry.ms += event.ms_played;
+
+    const trackKey = `${event.artist_name}|${event.track_name}`;
+    const track = entry.tracks.get(trackKey) ?? {
+      track_name: event.track_name,
+      artist_name: event.artist_name,
+      plays: 0,
+    };
+    track.plays++;
+    entry.tracks.set(trackKey, track);
+    months.set(month, entry);
+  });
+
+  return new Map(
+    Array.from(months.entries()).map(([month, entry]) => [
+      month,
+      {
+        plays: entry.plays,
+        minutes: Math.round(entry.ms / 60000),
+        topTracks: Array.from(entry.tracks.values())
+          .toSorted((a, b) => b.plays - a.plays)
+          .slice(0, topTrackCount),
+      },
+    ])
+  );
+}
+
+/**
+ * Summarize the play log for display
+ */
+export function getPlayHistorySummary(plays: PlayEvent[]) {
+  const counted = plays.filter(isCountedPlay);
+  const artistPlays = new Map<string, number>();
+  counted.forEach((event) => {
+    artistPlays.set(event.artist_name, (artistPlays.get(event.artist_name) ?? 0) + 1);
+  });
+  const topArtist = Array.from(artistPlays.entries()).toSorted((a, b) => b[1] - a[1])[0];
+
+  return {
+    totalPlays: counted.length,
+    totalMinutes: Math.round(counted.reduce((sum, event) => sum + event.ms_played, 0) / 60000),
+    firstPlayedAt: plays.length > 0 ? plays[plays.length - 1].played_at : null,
+    lastPlayedAt: plays.length > 0 ? plays[0].played_at : null,
+    topArtist: topArtist ? { name: topArtist[0], plays: topArtist[1] } : null,
+  };
+}
+
+// Export function to clear in-memory cache - useful for debugging or cache corruption
+export function clearPlayHistoryInMemoryCache(): void {
+  playHistoryCache = null;
+}
@@ -0,0 +1,108 @@
+import { SpotifyApi } from './spotify';
+import { SavedTrack } from './spotifyModels';
+
+// Covers are rendered square; Spotify shows them at up to 640px
+export const PLAYLIST_COVER_SIZE = 640;
+
+export const PLAYLIST_COVER_MAX_IMAGES = 4;
+
+// Spotify rejects cover uploads over 256 KB of base64 JPEG
+const MAX_COVER_BASE64_LENGTH = 256 * 1024;
+
+export interface PlaylistCoverOptions {
+  title: string;
+  subtitle?: string;
+  imageUrls: string[];
+}
+
+/**
+ * Whether an image URL points at Spotify's artwork CDN
+ */
+export function isAllowedCoverImageUrl(url: string): boolean {
+  try {
+    const { protocol, hostname } = new URL(url);
+    return protocol === 'https:' && hostname === 'i.scdn.co';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Pick artwork for a cover from the albums that appear most often in a set of tracks
+ */
+export function getTopAlbumImages(
+  tracks: SavedTrack[],
+  count: number = PLAYLIST_COVER_MAX_IMAGES
+): string[] {
+  const albums = new Map<string, { url: string; count: number }>();
+
+  tracks.forEach(({ track }) => {
+    // Images are largest first; the 300px one is plenty for a 320px collage tile
+    const image = track.album.images[1] ?? track.album.images[0];
+    if (!image) return;
+    const album = albums.get(image.url) ?? { url: image.url, count: 0 };
+    album.count++;
+    albums.set(image.url, album);
+  });
+
+  return Array.from(albums.values())
+    .toSorted((a, b) => b.count - a.count)
+    .slice(0, count)
+    .map((album) => album.url);
+}
+
+/**
+ * URL of the cover rendered by /api/playlist-cover
+ */
+export function getPlaylistCoverUrl({ title, subtitle, imageUrls }: PlaylistCoverOptions): string {
+  const params = new URLSearchParams({ title });
+  if (subtitle) params.set('subtitle', subtitle);
+  imageUrls.forEach((url) => params.append('image', url));
+  return `/api/playlist-cover?${params}`;
+}
+
+/**
+ * Render the cover and re-encode it as JPEG (the only format Spotify accepts), lowering the
+ * quality until it fits the upload limit
+ * @returns Base64 JPEG data without the data URL prefix
+ */
+export async function renderPlaylistCoverJpeg(options: PlaylistCoverOptions): Promise<string> {
+  const response = await fetch(getPlaylistCoverUrl(options));
+  if (!response.ok) {
+    throw new Error(`Failed to render playlist cover: HTTP ${response.status}`);
+  }
+
+  const bitmap = await createImageBitmap(await response.blob());
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  for (const quality of [0.9, 0.8, 0.7, 0.6, 0.5]) {
+    const base64 = canvas.toDataURL('image/jpeg', quality).split(',')[1];
+    if (base64.length <= MAX_COVER_BASE64_LENGTH) return base64;
+  }
+  throw new Error('Playlist cover is too large to upload');
+}
+
+/**
+ * Generate a branded cover and set it as the playlist image. Covers are a nice-to-have, so
+ * failures (e.g. sessions from before the image upload permission was requested) are logged
+ * rather than thrown.
+ * @returns Whether the cover was uploaded
+ */
+export async function uploadGeneratedCover(
+  spotifyApi: SpotifyApi,
+  playlistId: string,
+  options: PlaylistCoverOptions
+): Promise<boolean> {
+  try {
+    const base64 = await renderPlaylistCoverJpeg(options);
+    await spotifyApi.uploadPlaylistCover(playlistId, base64);
+    return true;
+  } catch (error) {
+    console.warn('Could not upload playlist cover:', error);
+    return false;
+  }
+}
@@ -0,0 +1,133 @@
+import { AudioFeatureRanges, TrackOrder } from './audioFeatures';
+import { CACHE_VERSION, debugEnabled, getCachedDataSmart, setCachedDataSmart } from './cacheUtils';
+import { PlaylistRules } from './playlistRules';
+import { SpotifyApi } from './spotify';
+
+// The playlists we created can't be recovered from Spotify, so the registry is kept for a
+// long time (5 years) in IndexedDB
+const REGISTRY_KEY = `${CACHE_VERSION}_createdPlaylists`;
+const REGISTRY_TTL_MINUTES = 5 * 365 * 24 * 60;
+
+export interface CreatedPlaylist {
+  // What the playlist was generated from, see getMonthPlaylistKey/getGeneratedPlaylistKey
+  key: string;
+  playlistId: string;
+  url: string;
+  name: string;
+  trackCount: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+type PlaylistRegistry = Record<string, CreatedPlaylist>;
+
+/**
+ * Registry key for a monthly playlist from the history page
+ */
+export function getMonthPlaylistKey(month: string): string {
+  return `month:${month}`;
+}
+
+/**
+ * Registry key for an artist's playlist from their artist page
+ */
+export function getArtistPlaylistKey(artistId: string): string {
+  return `artist:${artistId}`;
+}
+
+/**
+ * Registry key for a playlist of one day's likes from the liking calendar
+ */
+export function getDayPlaylistKey(day: string): string {
+  return `day:${day}`;
+}
+
+/**
+ * Registry key for a generated playlist. Rules are serialized in a fixed order so the same
+ * selection always maps to the same key.
+ */
+export function getGeneratedPlaylistKey(options: {
+  startDate: string;
+  endDate: string;
+  rules: PlaylistRules;
+  featureRanges: AudioFeatureRanges;
+  trackOrder: TrackOrder;
+  includeUnliked: boolean;
+}): string {
+  const { startDate, endDate, rules, featureRanges, trackOrder, includeUnliked } = options;
+  const signature = JSON.stringify([
+    rules.includeArtistIds.toSorted(),
+    rules.excludeArtistIds.toSorted(),
+    rules.includeGenres.toSorted(),
+    rules.excludeGenres.toSorted(),
+    rules.durationSeconds,
+    rules.explicit,
+    rules.releaseYear,
+    rules.artistPopularity,
+    Object.entries(featureRanges).toSorted(([a], [b]) => a.localeCompare(b)),
+    trackOrder,
+    includeUnliked,
+  ]);
+  return `range:${startDate}..${endDate}:${signature}`;
+}
+
+const loadRegistry = async (): Promise<PlaylistRegistry> =>
+  (await getCachedDataSmart<PlaylistRegistry>(REGISTRY_KEY)) ?? {};
+
+const saveRegistry = (registry: PlaylistRegistry): Promise<void> =>
+  setCachedDataSmart(REGISTRY_KEY, registry, REGISTRY_TTL_MINUTES, true);
+
+/**
+ * Remember the playlist created (or updated) for a key
+ */
+export async function rememberPlaylist(
+  key: string,
+  playlist: { playlistId: string; url: string; name: string; trackCount: number }
+): Promise<void> {
+  const registry = await loadRegistry();
+  const now = Date.now();
+  const previous = registry[key];
+  registry[key] = {
+    key,
+    ...playlist,
+    createdAt: previous?.playlistId === playlist.playlistId ? previous.createdAt : now,
+    updatedAt: now,
+  };
+  await saveRegistry(registry);
+}
+
+/**
+ * Forget the playlist stored for a key
+ */
+export async function forgetPlaylist(key: string): Promise<void> {
+  const registry = await loadRegistry();
+  if (!registry[key]) return;
+  delete registry[key];
+  await saveRegistry(registry);
+}
+
+/**
+ * Look up the playlist created for a key and make sure it's still on the user's account.
+ * Playlists the user deleted (unfollowed) are forgotten.
+ */
+export async function findExistingPlaylist(
+  spotifyApi: SpotifyApi,
+  key: string
+): Promise<CreatedPlaylist | null> {
+  const registry = await loadRegistry();
+  const playlist = registry[key];
+  if (!playlist) return null;
+
+  try {
+    const response = await spotifyApi.isFollowingPlaylist(playlist.playlistId);
+    if (response.body?.[0]) return playlist;
+  } catch (error) {
+    // If we can't check, let the user decide rather than silently creating a duplicate
+    console.error('Error checking existing playlist:', error);
+    return playlist;
+  }
+
+  if (debugEnabled()) console.log(`Playlist ${playlist.playlistId} no longer followed`);
+  await forgetPlaylist(key);
+  return null;
+}
@@ -0,0 +1,150 @@
+import { SavedTrack } from './spotifyModels';
+
+export type ExplicitRule = 'any' | 'only' | 'exclude';
+
+// Numeric bounds are inclusive; null leaves that side of the range open
+export interface NumericRange {
+  min: number | null;
+  max: number | null;
+}
+
+export interface PlaylistRules {
+  includeArtistIds: string[];
+  excludeArtistIds: string[];
+  // Genre patterns, where `*` matches any run of characters ("*metal*", "indie*")
+  includeGenres: string[];
+  excludeGenres: string[];
+  durationSeconds: NumericRange;
+  explicit: ExplicitRule;
+  releaseYear: NumericRange;
+  artistPopularity: NumericRange;
+}
+
+// The artist details rules need; matches ArtistDetail from useLikedArtists
+export interface RuleArtist {
+  genres: string[];
+  popularity: number;
+}
+
+export const EMPTY_RANGE: NumericRange = { min: null, max: null };
+
+export const DEFAULT_PLAYLIST_RULES: PlaylistRules = {
+  includeArtistIds: [],
+  excludeArtistIds: [],
+  includeGenres: [],
+  excludeGenres: [],
+  durationSeconds: EMPTY_RANGE,
+  explicit: 'any',
+  releaseYear: EMPTY_RANGE,
+  artistPopularity: EMPTY_RANGE,
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Compile a genre pattern into a case-insensitive matcher. Patterns without a wildcard
+ * must match the whole genre name.
+ */
+export function compileGenrePattern(pattern: string): (genre: string) => boolean {
+  const normalized = pattern.trim().toLowerCase();
+  if (!normalized.includes('*')) {
+    return (genre) => genre.toLowerCase() === normalized;
+  }
+
+  const regex = new RegExp(`^${normalized.split('*').map(escapeRegExp).join('.*')}$`);
+  return (genre) => regex.test(genre.toLowerCase());
+}
+
+const isInRange = (value: number, range: NumericRange): boolean =>
+  (range.min === null || value >= range.min) && (range.max === null || value <= range.max);
+
+const isRangeSet = (range: NumericRange): boolean => range.min !== null || range.max !== null;
+
+// Release dates come as "2019", "2019-06" or "2019-06-14" depending on precision
+export const getReleaseYear = (track: SavedTrack['track']): number | null => {
+  const year = parseInt(track.album.release_date?.slice(0, 4) ?? '', 10);
+  return Number.isNaN(year) ? null : year;
+};
+
+/**
+ * Whether the rules need artist details (genres, popularity) to be evaluated
+ */
+export function rulesNeedArtistDetails(rules: PlaylistRules): boolean {
+  return (
+    rules.includeGenres.length > 0 ||
+    rules.excludeGenres.length > 0 ||
+    isRangeSet(rules.artistPopularity)
+  );
+}
+
+/**
+ * Count how many rules are narrowing the selection
+ */
+export function countActiveRules(rules: PlaylistRules): number {
+  return [
+    rules.includeArtistIds.length > 0,
+    rules.excludeArtistIds.length > 0,
+    rules.includeGenres.length > 0,
+    rules.excludeGenres.length > 0,
+    isRangeSet(rules.durationSeconds),
+    rules.explicit !== 'any',
+    isRangeSet(rules.releaseYear),
+    isRangeSet(rules.artistPopularity),
+  ].filter(Boolean).length;
+}
+
+/**
+ * Keep the tracks that satisfy every active rule. Include rules match when any of a track's
+ * artists match; exclude rules drop a track when any of its artists match. Tracks whose
+ * artists haven't been looked up yet can't satisfy genre or popularity requirements.
+ */
+export function filterTracksByRules(
+  tracks: SavedTrack[],
+  rules: PlaylistRules,
+  artistsById: Map<string, RuleArtist>
+): SavedTrack[] {
+  const includeArtists = new Set(rules.includeArtistIds);
+  const excludeArtists = new Set(rules.excludeArtistIds);
+  const includeGenres = rules.includeGenres.map(compileGenrePattern);
+  const excludeGenres = rules.excludeGenres.map(compileGenrePattern);
+  const needsArtistDetails = rulesNeedArtistDetails(rules);
+
+  return tracks.filter(({ track }) => {
+    const artistIds = track.artists.map((artist) => artist.id);
+
+    if (includeArtists.size > 0 && !artistIds.some((id) => includeArtists.has(id))) return false;
+    if (artistIds.some((id) => excludeArtists.has(id))) return false;
+
+    if (isRangeSet(rules.durationSeconds)) {
+      if (!isInRange(track.duration_ms / 1000, rules.durationSeconds)) return false;
+    }
+
+    if (rules.explicit === 'only' && !track.explicit) return false;
+    if (rules.explicit === 'exclude' && track.explicit) return false;
+
+    if (isRangeSet(rules.releaseYear)) {
+      const year = getReleaseYear(track);
+      if (year === null || !isInRange(year, rules.releaseYear)) return false;
+    }
+
+    if (!needsArtistDetails) return true;
+
+    const details = artistIds
+      .map((id) => artistsById.get(id))
+      .filter((artist): artist is RuleArtist => Boolean(artist));
+    const genres = details.flatMap((artist) => artist.genres);
+
+    if (includeGenres.length > 0 && !genres.some((g) => includeGenres.some((m) => m(g)))) {
+      return false;
+    }
+    if (genres.some((g) => excludeGenres.some((m) => m(g)))) return false;
+
+    if (isRangeSet(rules.artistPopularity)) {
+      if (!details.some((artist) => isInRange(artist.popularity, rules.artistPopularity))) {
+        return false;
+      }
+    }
+
+    return true;
+  });
+}
@@ -0,0 +1,19 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getPlaylistSyncStore } from './playlistSyncStore';
+
+describe('getPlaylistSyncStore', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('tries again after the configured store failed to open', async () => {
+    vi.stubEnv('PLAYLIST_SYNC_STORE', 'sqlite');
+    // Fails on every Node version: before 22.5 the import does, after it the directory does
+    vi.stubEnv('PLAYLIST_SYNC_SQLITE_PATH', '/dev/null/playlist-sync.db');
+    await expect(getPlaylistSyncStore()).rejects.toThrow();
+
+    vi.stubEnv('PLAYLIST_SYNC_STORE', 'memory');
+    const store = await getPlaylistSyncStore();
+    expect(await store.listSubscriptions()).toEqual([]);
+  });
+});
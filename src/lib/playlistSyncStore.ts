@@ -0,0 +1,125 @@
+// Server-side storage for users who opted in to scheduled playlist syncs.
+// Pick an adapter with PLAYLIST_SYNC_STORE ("memory" or "sqlite"), or plug in your own with
+// setPlaylistSyncStore (e.g. a hosted database in production).
+
+export interface PlaylistSyncSubscription {
+  // Spotify user id (the NextAuth token subject)
+  userId: string;
+  // Kept server-side only; Spotify may rotate it on every refresh
+  refreshToken: string;
+  createdAt: number;
+  // Monthly playlists created for the user, keyed by month ("yyyy-MM")
+  monthlyPlaylists: Record<string, string>;
+  lastRunAt: number | null;
+  lastRunMonth: string | null;
+  lastError: string | null;
+  // Set once Spotify rejects the stored refresh token; opting in again stores a fresh one
+  disabled?: boolean;
+}
+
+export interface PlaylistSyncStore {
+  listSubscriptions(): Promise<PlaylistSyncSubscription[]>;
+  getSubscription(userId: string): Promise<PlaylistSyncSubscription | null>;
+  saveSubscription(subscription: PlaylistSyncSubscription): Promise<void>;
+  deleteSubscription(userId: string): Promise<void>;
+}
+
+/**
+ * Keep subscriptions in process memory. Everything is lost on restart, so this is only meant
+ * for local development and tests.
+ */
+export function createMemoryPlaylistSyncStore(): PlaylistSyncStore {
+  const subscriptions = new Map<string, PlaylistSyncSubscription>();
+
+  return {
+    async listSubscriptions() {
+      return Array.from(subscriptions.values(), (subscription) => structuredClone(subscription));
+    },
+    async getSubscription(userId) {
+      const subscription = subscriptions.get(userId);
+      return subscription ? structuredClone(subscription) : null;
+    },
+    async saveSubscription(subscription) {
+      subscriptions.set(subscription.userId, structuredClone(subscription));
+    },
+    async deleteSubscription(userId) {
+      subscriptions.delete(userId);
+    },
+  };
+}
+
+/**
+ * Keep subscriptions in a local SQLite file using Node's built-in `node:sqlite` module
+ * (Node 22.5 or later). Pass ":memory:" for a throwaway database.
+ */
+export async function createSqlitePlaylistSyncStore(path: string): Promise<PlaylistSyncStore> {
+  const { DatabaseSync } = await import('node:sqlite').catch((error: unknown) => {
+    throw new Error(
+      `PLAYLIST_SYNC_STORE=sqlite needs Node 22.5 or later (running ${process.version})`,
+      { cause: error }
+    );
+  });
+  if (path !== ':memory:') {
+    const [{ mkdir }, { dirname }] = await Promise.all([
+      import('node:fs/promises'),
+      import('node:path'),
+    ]);
+    await mkdir(dirname(path), { recursive: true });
+  }
+  const db = new DatabaseSync(path);
+  db.exec(
+    'CREATE TABLE IF NOT EXISTS playlist_sync_subscriptions (user_id TEXT PRIMARY KEY, data TEXT NOT NULL)'
+  );
+
+  const parse = (row: unknown): PlaylistSyncSubscription =>
+    JSON.parse((row as { data: string }).data) as PlaylistSyncSubscription;
+
+  return {
+    async listSubscriptions() {
+      return db.prepare('SELECT data FROM playlist_sync_subscriptions').all().map(parse);
+    },
+    async getSubscription(userId) {
+      const row = db
+        .prepare('SELECT data FROM playlist_sync_subscriptions WHERE user_id = ?')
+        .get(userId);
+      return row ? parse(row) : null;
+    },
+    async saveSubscription(subscription) {
+      db.prepare(
+        'INSERT INTO playlist_sync_subscriptions (user_id, data) VALUES (?, ?) ON CONFLICT(user_id) DO UPDATE SET data = excluded.data'
+      ).run(subscription.userId, JSON.stringify(subscription));
+    },
+    async deleteSubscription(userId) {
+      db.prepare('DELETE FROM playlist_sync_subscriptions WHERE user_id = ?').run(userId);
+    },
+  };
+}
+
+let store: Promise<PlaylistSyncStore> | null = null;
+
+/**
+ * Get the configured store, created on first use
+ */
+export function getPlaylistSyncStore(): Promise<PlaylistSyncStore> {
+  if (!store) {
+    const created =
+      process.env.PLAYLIST_SYNC_STORE === 'sqlite'
+        ? createSqlitePlaylistSyncStore(
+            process.env.PLAYLIST_SYNC_SQLITE_PATH || '.data/playlist-sync.db'
+          )
+        : Promise.resolve(createMemoryPlaylistSyncStore());
+    store = created;
+    // Let the next request try again instead of failing until the process restarts
+    created.catch(() => {
+      if (store === created) store = null;
+    });
+  }
+  return store;
+}
+
+/**
+ * Replace the store, e.g. with a hosted database adapter or a fresh one in tests
+ */
+export function setPlaylistSyncStore(nextStore: PlaylistSyncStore): void {
+  store = Promise.resolve(nextStore);
+}
@@ -0,0 +1,13 @@
+import { describe, expect, it } from 'vitest';
+import { getMonthToSync } from './scheduledPlaylistSync';
+
+describe('getMonthToSync', () => {
+  it('picks the month that just ended in UTC', () => {
+    expect(getMonthToSync(new Date('2024-07-01T00:30:00Z'))).toBe('2024-06');
+    expect(getMonthToSync(new Date('2024-06-30T23:30:00Z'))).toBe('2024-05');
+  });
+
+  it('rolls back across the new year', () => {
+    expect(getMonthToSync(new Date('2025-01-01T00:00:00Z'))).toBe('2024-12');
+  });
+});
@@ -0,0 +1,153 @@
+import { parse } from 'date-fns';
+import { PlaylistSyncStore, PlaylistSyncSubscription } from './playlistSyncStore';
+import { SpotifyApi, refreshAccessToken } from './spotify';
+import {
+  createPlaylistWithId,
+  fetchLikedTracksSince,
+  getMonthlyPlaylistDetails,
+  updatePlaylistTracks,
+} from './spotifyTrackUtils';
+
+// Months are stored as "2024-06"
+export const SYNC_MONTH_FORMAT = 'yyyy-MM';
+
+// Shown to the user when the stored refresh token no longer works
+const REVOKED_TOKEN_MESSAGE =
+  'Spotify no longer accepts the saved sign-in. Turn automatic monthly playlists on again to continue.';
+
+export interface ScheduledSyncResult {
+  userId: string;
+  status: 'synced' | 'skipped' | 'failed';
+  month: string;
+  playlistId?: string;
+  added?: number;
+  removed?: number;
+  error?: string;
+}
+
+/**
+ * The month a scheduled run regenerates: the month that just ended. Months are UTC on the
+ * server, like the cron route's check for the 1st, whatever time zone the server runs in.
+ */
+export function getMonthToSync(now: Date = new Date()): string {
+  const previous = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1));
+  return `${previous.getUTCFullYear()}-${String(previous.getUTCMonth() + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Regenerate one user's playlist for a month: create it the first time (or after the user
+ * deleted it), otherwise add new likes from that month and remove tracks unliked since.
+ * @returns The subscription with the playlist recorded, plus what changed
+ */
+export async function regenerateMonthlyPlaylist(
+  spotifyApi: SpotifyApi,
+  subscription: PlaylistSyncSubscription,
+  month: string
+): Promise<{
+  subscription: PlaylistSyncSubscription;
+  playlistId: string;
+  added: number;
+  removed: number;
+}> {
+  const [year, monthIndex] = month.split('-').map(Number);
+  const monthStart = new Date(Date.UTC(year, monthIndex - 1, 1));
+  const nextMonthStart = new Date(Date.UTC(year, monthIndex, 1));
+
+  const tracks = (await fetchLikedTracksSince(spotifyApi, monthStart)).filter(
+    (track) => new Date(track.added_at) < nextMonthStart
+  );
+  const trackUris = tracks.map((track) => `spotify:track:${track.track.id}`);
+
+  const existingId = subscription.monthlyPlaylists[month];
+  const exists = existingId
+    ? Boolean((await spotifyApi.isFollowingPlaylist(existingId)).body?.[0])
+    : false;
+
+  if (existingId && exists) {
+    const { added, removed } = await updatePlaylistTracks(
+      spotifyApi,
+      existingId,
+      trackUris,
+      'sync'
+    );
+    return { subscription, playlistId: existingId, added, removed };
+  }
+
+  // Named from the month itself; formatting the UTC start could land on the previous month
+  const { name, description } = getMonthlyPlaylistDetails(
+    parse(month, SYNC_MONTH_FORMAT, new Date())
+  );
+  const { id } = await createPlaylistWithId(spotifyApi, name, description, trackUris);
+  return {
+    subscription: {
+      ...subscription,
+      monthlyPlaylists: { ...subscription.monthlyPlaylists, [month]: id },
+    },
+    playlistId: id,
+    added: trackUris.length,
+    removed: 0,
+  };
+}
+
+/**
+ * Regenerate the monthly playlist of every opted-in user, one user at a time. Users already
+ * synced for the month are skipped unless `force` is set, so repeated cron calls are safe.
+ */
+export async function runScheduledPlaylistSync(
+  store: PlaylistSyncStore,
+  options: { month?: string; force?: boolean } = {}
+): Promise<ScheduledSyncResult[]> {
+  const month = options.month ?? getMonthToSync();
+  const results: ScheduledSyncResult[] = [];
+
+  for (const subscription of await store.listSubscriptions()) {
+    const { userId } = subscription;
+
+    if (subscription.disabled || (!options.force && subscription.lastRunMonth === month)) {
+      results.push({ userId, status: 'skipped', month });
+      continue;
+    }
+
+    // Spotify may rotate the refresh token, so the new one is kept even if a later step fails
+    let token: Awaited<ReturnType<typeof refreshAccessToken>> | undefined;
+    try {
+      token = await refreshAccessToken(subscription.refreshToken);
+      const spotifyApi = new SpotifyApi();
+      spotifyApi.setAccessToken(token.accessToken);
+
+      const result = await regenerateMonthlyPlaylist(spotifyApi, subscription, month);
+      await store.saveSubscription({
+        ...result.subscription,
+        refreshToken: token.refreshToken,
+        lastRunAt: Date.now(),
+        lastRunMonth: month,
+        lastError: null,
+      });
+
+      results.push({
+        userId,
+        status: 'synced',
+        month,
+        playlistId: result.playlistId,
+        added: result.added,
+        removed: result.removed,
+      });
+    } catch (error) {
+      console.error(`Scheduled playlist sync failed for ${userId}:`, error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      // A refresh in the browser rotates the same token and revokes this copy. Retrying on
+      // every run can't fix that, so the user has to opt in again.
+      const revoked = !token && message.includes('invalid_grant');
+      await store.saveSubscription({
+        ...subscription,
+        refreshToken: token?.refreshToken ?? subscription.refreshToken,
+        lastRunAt: Date.now(),
+        lastError: revoked ? REVOKED_TOKEN_MESSAGE : message,
+        disabled: revoked,
+      });
+      results.push({ userId, status: 'failed', month, error: message });
+    }
+  }
+
+  return results;
+}
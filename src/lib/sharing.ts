@@ -0,0 +1,156 @@
+import { format, isValid, parseISO } from 'date-fns';
+import { isAllowedCoverImageUrl } from './playlistCover';
+import { RecapSlide, getRecapSlideImageUrl, parseRecapSlideParams } from './yearInReview';
+
+// Share pages carry everything they show in the URL, so nothing about the user is stored
+// server-side and links keep working without signing in.
+
+export interface SharedPlaylist {
+  name: string;
+  spotifyUrl: string;
+  trackCount: number;
+  // "yyyy-MM-dd"
+  startDate?: string;
+  endDate?: string;
+  imageUrls: string[];
+}
+
+// Social cards use the 1.91:1 size link previews expect
+export interface ShareCard {
+  eyebrow: string;
+  title: string;
+  subtitle?: string;
+  imageUrls: string[];
+}
+
+export const SHARE_CARD_WIDTH = 1200;
+export const SHARE_CARD_HEIGHT = 630;
+export const SHARE_CARD_MAX_IMAGES = 4;
+
+const SPOTIFY_PLAYLIST_URL = /^https:\/\/open\.spotify\.com\/playlist\/[A-Za-z0-9]+$/;
+
+const formatShareDate = (date: string): string | null => {
+  const parsed = parseISO(date);
+  return isValid(parsed) ? format(parsed, 'MMM d, yyyy') : null;
+};
+
+/**
+ * Turn the search params Next.js passes to pages back into URLSearchParams
+ */
+export function toURLSearchParams(
+  searchParams: Record<string, string | string[] | undefined>
+): URLSearchParams {
+  const params = new URLSearchParams();
+  Object.entries(searchParams).forEach(([key, value]) => {
+    (Array.isArray(value) ? value : value === undefined ? [] : [value]).forEach((item) =>
+      params.append(key, item)
+    );
+  });
+  return params;
+}
+
+/**
+ * Whether a URL is a Spotify playlist link that's safe to send visitors to
+ */
+export function isSpotifyPlaylistUrl(url: string): boolean {
+  return SPOTIFY_PLAYLIST_URL.test(url);
+}
+
+/**
+ * One-line summary of a shared playlist, e.g. "42 tracks · Jan 1, 2024 – Mar 31, 2024"
+ */
+export function describeSharedPlaylist(playlist: SharedPlaylist): string {
+  const parts = [`${playlist.trackCount} ${playlist.trackCount === 1 ? 'track' : 'tracks'}`];
+  const start = playlist.startDate && formatShareDate(playlist.startDate);
+  const end = playlist.endDate && formatShareDate(playlist.endDate);
+  if (start && end) parts.push(start === end ? start : `${start} – ${end}`);
+  return parts.join(' · ');
+}
+
+/**
+ * Path of the share page for a playlist
+ */
+export function getPlaylistSharePath(playlist: SharedPlaylist): string {
+  const params = new URLSearchParams({
+    name: playlist.name,
+    url: playlist.spotifyUrl,
+    tracks: playlist.trackCount.toString(),
+  });
+  if (playlist.startDate) params.set('start', playlist.startDate);
+  if (playlist.endDate) params.set('end', playlist.endDate);
+  playlist.imageUrls.slice(0, SHARE_CARD_MAX_IMAGES).forEach((url) => params.append('image', url));
+  return `/share/playlist?${params}`;
+}
+
+/**
+ * Read a shared playlist back from its share page parameters
+ * @returns null when the link is incomplete or doesn't point at a Spotify playlist
+ */
+export function parseSharedPlaylist(params: URLSearchParams): SharedPlaylist | null {
+  const name = params.get('name')?.slice(0, 100);
+  const spotifyUrl = params.get('url') ?? '';
+  const trackCount = Number(params.get('tracks'));
+  if (!name || !isSpotifyPlaylistUrl(spotifyUrl) || !Number.isInteger(trackCount)) return null;
+
+  return {
+    name,
+    spotifyUrl,
+    trackCount: Math.max(0, trackCount),
+    startDate: params.get('start') ?? undefined,
+    endDate: params.get('end') ?? undefined,
+    imageUrls: params
+      .getAll('image')
+      .filter(isAllowedCoverImageUrl)
+      .slice(0, SHARE_CARD_MAX_IMAGES),
+  };
+}
+
+/**
+ * Path of the share page for a Year in Review slide
+ */
+export function getRecapSharePath(slide: RecapSlide): string {
+  return getRecapSlideImageUrl(slide).replace('/api/og/year-in-review', '/share/recap');
+}
+
+/**
+ * Read a shared recap slide back from its share page parameters
+ * @returns null when the link has no title
+ */
+export function parseSharedRecap(params: URLSearchParams): RecapSlide | null {
+  const slide = parseRecapSlideParams(params);
+  return slide.title ? slide : null;
+}
+
+/**
+ * URL of a link preview card rendered by /api/og/share
+ */
+export function getShareCardUrl({ eyebrow, title, subtitle, imageUrls }: ShareCard): string {
+  const params = new URLSearchParams({ eyebrow, title });
+  if (subtitle) params.set('subtitle', subtitle);
+  imageUrls.slice(0, SHARE_CARD_MAX_IMAGES).forEach((url) => params.append('image', url));
+  return `/api/og/share?${params}`;
+}
+
+/**
+ * Link preview card for a shared playlist
+ */
+export function getPlaylistShareCard(playlist: SharedPlaylist): ShareCard {
+  return {
+    eyebrow: 'Playlist',
+    title: playlist.name,
+    subtitle: describeSharedPlaylist(playlist),
+    imageUrls: playlist.imageUrls,
+  };
+}
+
+/**
+ * Link preview card for a shared recap slide
+ */
+export function getRecapShareCard(slide: RecapSlide): ShareCard {
+  return {
+    eyebrow: slide.eyebrow,
+    title: slide.title,
+    subtitle: slide.subtitle,
+    imageUrls: slide.imageUrls ?? [],
+  };
+}
@@ -0,0 +1,294 @@
+import { format, subDays } from 'date-fns';
+import { CACHE_VERSION, debugEnabled, getCachedDataSmart, setCachedDataSmart } from './cacheUtils';
+import { PlaylistRules, RuleArtist, filterTracksByRules } from './playlistRules';
+import { SpotifyApi } from './spotify';
+import { SavedTrack } from './spotifyModels';
+import { createPlaylistWithId, updatePlaylistTracks } from './spotifyTrackUtils';
+
+// A playlist that always holds the tracks liked within a rolling window, e.g. the last 30 days
+export interface SmartPlaylist {
+  id: string;
+  // Playlist name; {days}, {start} and {end} are filled in on every sync
+  nameTemplate: string;
+  windowDays: number;
+  rules: PlaylistRules;
+  playlistId: string | null;
+  url: string | null;
+  createdAt: number;
+  lastSyncedAt: number | null;
+  lastTrackCount: number | null;
+  lastDelta: { added: number; removed: number } | null;
+  lastError: string | null;
+}
+
+export type SmartPlaylistInput = Pick<SmartPlaylist, 'nameTemplate' | 'windowDays' | 'rules'>;
+
+export const DEFAULT_SMART_PLAYLIST_NAME = 'Liked in the last {days} days';
+
+// Rolling windows offered in the UI; the liked-track cache the app keeps warm covers a year
+export const SMART_PLAYLIST_WINDOWS = [7, 30, 90, 180, 365];
+
+// Opening the app re-syncs smart playlists, but not more than once an hour
+export const SMART_PLAYLIST_SYNC_INTERVAL_MS = 60 * 60 * 1000;
+
+// Versioned key for the smart playlist definitions
+const SMART_PLAYLISTS_KEY = `${CACHE_VERSION}_smartPlaylists`;
+
+// Definitions are user data, so keep them for a long time (10 years)
+const SMART_PLAYLISTS_RETENTION_MINUTES = 10 * 365 * 24 * 60;
+
+// In-memory definitions, oldest first
+let smartPlaylistsCache: SmartPlaylist[] | null = null;
+
+// Listeners notified whenever a definition changes
+const listeners = new Set<(smartPlaylists: SmartPlaylist[]) => void>();
+
+// Syncs run one at a time. One requested while another runs (e.g. "Sync now" during the
+// automatic sync on app open) is queued behind it with its own options; playlists the first
+// run synced are no longer due, so they aren't synced twice unless forced.
+let syncQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Subscribe to smart playlist changes, returns an unsubscribe function
+ */
+export function subscribeToSmartPlaylists(
+  listener: (smartPlaylists: SmartPlaylist[]) => void
+): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Load the smart playlist definitions from memory, falling back to IndexedDB
+ */
+export async function loadSmartPlaylists(): Promise<SmartPlaylist[]> {
+  if (!smartPlaylistsCache) {
+    smartPlaylistsCache = (await getCachedDataSmart<SmartPlaylist[]>(SMART_PLAYLISTS_KEY)) ?? [];
+    if (debugEnabled()) console.log(`Restored ${smartPlaylistsCache.length} smart playlists`);
+  }
+  return smartPlaylistsCache;
+}
+
+// Replace the definitions in memory and storage, then notify listeners
+const saveSmartPlaylists = async (smartPlaylists: SmartPlaylist[]) => {
+  smartPlaylistsCache = smartPlaylists;
+  await setCachedDataSmart(
+    SMART_PLAYLISTS_KEY,
+    smartPlaylists,
+    SMART_PLAYLISTS_RETENTION_MINUTES,
+    true
+  );
+  listeners.forEach((listener) => listener(smartPlaylists));
+};
+
+/**
+ * Add a smart playlist definition. The Spotify playlist is created on its first sync.
+ */
+export async function addSmartPlaylist(input: SmartPlaylistInput): Promise<SmartPlaylist> {
+  const smartPlaylist: SmartPlaylist = {
+    ...input,
+    id: crypto.randomUUID(),
+    playlistId: null,
+    url: null,
+    createdAt: Date.now(),
+    lastSyncedAt: null,
+    lastTrackCount: null,
+    lastDelta: null,
+    lastError: null,
+  };
+  await saveSmartPlaylists([...(await loadSmartPlaylists()), smartPlaylist]);
+  return smartPlaylist;
+}
+
+/**
+ * Update a stored definition in place
+ */
+export async function updateSmartPlaylist(
+  id: string,
+  changes: Partial<Omit<SmartPlaylist, 'id'>>
+): Promise<void> {
+  const smartPlaylists = await loadSmartPlaylists();
+  await saveSmartPlaylists(
+    smartPlaylists.map((smartPlaylist) =>
+      smartPlaylist.id === id ? { ...smartPlaylist, ...changes } : smartPlaylist
+    )
+  );
+}
+
+/**
+ * Remove a definition. The playlist stays on the user's Spotify account.
+ */
+export async function removeSmartPlaylist(id: string): Promise<void> {
+  const smartPlaylists = await loadSmartPlaylists();
+  await saveSmartPlaylists(smartPlaylists.filter((smartPlaylist) => smartPlaylist.id !== id));
+}
+
+/**
+ * Get the date window a smart playlist covers at a given time
+ */
+export function getSmartPlaylistWindow(
+  smartPlaylist: Pick<SmartPlaylist, 'windowDays'>,
+  now: Date = new Date()
+): { start: Date; end: Date } {
+  return { start: subDays(now, smartPlaylist.windowDays), end: now };
+}
+
+/**
+ * Fill in the name template for the current window
+ */
+export function renderSmartPlaylistName(
+  smartPlaylist: Pick<SmartPlaylist, 'nameTemplate' | 'windowDays'>,
+  now: Date = new Date()
+): string {
+  const { start, end } = getSmartPlaylistWindow(smartPlaylist, now);
+  return (smartPlaylist.nameTemplate.trim() || DEFAULT_SMART_PLAYLIST_NAME)
+    .replaceAll('{days}', smartPlaylist.windowDays.toString())
+    .replaceAll('{start}', format(start, 'MMM d'))
+    .replaceAll('{end}', format(end, 'MMM d'));
+}
+
+/**
+ * Pick the liked tracks that currently belong in a smart playlist, newest first
+ */
+export function selectSmartPlaylistTracks(
+  smartPlaylist: Pick<SmartPlaylist, 'windowDays' | 'rules'>,
+  tracks: SavedTrack[],
+  artistsById: Map<string, RuleArtist>,
+  now: Date = new Date()
+): SavedTrack[] {
+  const { start } = getSmartPlaylistWindow(smartPlaylist, now);
+  const inWindow = tracks.filter((track) => new Date(track.added_at) >= start);
+  return filterTracksByRules(inWindow, smartPlaylist.rules, artistsById);
+}
+
+/**
+ * Whether a smart playlist should be synced now
+ */
+export function isSmartPlaylistDue(
+  smartPlaylist: SmartPlaylist,
+  now: number = Date.now()
+): boolean {
+  return (
+    smartPlaylist.lastSyncedAt === null ||
+    now - smartPlaylist.lastSyncedAt >= SMART_PLAYLIST_SYNC_INTERVAL_MS
+  );
+}
+
+/**
+ * Bring a smart playlist's Spotify playlist in line with the current window: tracks liked
+ * since the last sync are added, and tracks that aged out or were unliked are removed. The
+ * playlist is (re)created when it doesn't exist yet or the user deleted it.
+ * @returns The definition with its sync status updated; failures are recorded, not thrown
+ */
+export async function syncSmartPlaylist(
+  spotifyApi: SpotifyApi,
+  smartPlaylist: SmartPlaylist,
+  tracks: SavedTrack[],
+  artistsById: Map<string, RuleArtist>,
+  now: Date = new Date()
+): Promise<SmartPlaylist> {
+  const name = renderSmartPlaylistName(smartPlaylist, now);
+  const description = `Tracks liked in the last ${smartPlaylist.windowDays} days, updated automatically by Jermaine's Spotify Time Machine.`;
+  const trackUris = selectSmartPlaylistTracks(smartPlaylist, tracks, artistsById, now).map(
+    (track) => `spotify:track:${track.track.id}`
+  );
+
+  try {
+    let playlistExists = false;
+    if (smartPlaylist.playlistId) {
+      const response = await spotifyApi.isFollowingPlaylist(smartPlaylist.playlistId);
+      playlistExists = Boolean(response.body?.[0]);
+    }
+
+    if (!playlistExists || !smartPlaylist.playlistId) {
+      const { id, url } = await createPlaylistWithId(spotifyApi, name, description, trackUris);
+      return {
+        ...smartPlaylist,
+        playlistId: id,
+        url,
+        lastSyncedAt: now.getTime(),
+        lastTrackCount: trackUris.length,
+        lastDelta: { added: trackUris.length, removed: 0 },
+        lastError: null,
+      };
+    }
+
+    // Keep date tokens in the name current
+    if (
+      name !== renderSmartPlaylistName(smartPlaylist, new Date(smartPlaylist.lastSyncedAt ?? 0))
+    ) {
+      await spotifyApi.changePlaylistDetails(smartPlaylist.playlistId, { name });
+    }
+
+    const delta = await updatePlaylistTracks(
+      spotifyApi,
+      smartPlaylist.playlistId,
+      trackUris,
+      'sync'
+    );
+    if (debugEnabled()) {
+      console.log(`Synced smart playlist "${name}": +${delta.added} -${delta.removed}`);
+    }
+
+    return {
+      ...smartPlaylist,
+      lastSyncedAt: now.getTime(),
+      lastTrackCount: trackUris.length,
+      lastDelta: delta,
+      lastError: null,
+    };
+  } catch (error) {
+    console.error(`Error syncing smart playlist "${name}":`, error);
+    return {
+      ...smartPlaylist,
+      lastError: error instanceof Error ? error.message : 'Failed to sync playlist',
+    };
+  }
+}
+
+/**
+ * Sync the stored smart playlists one after another and save their new status.
+ * Only playlists that are due are synced unless `force` is set.
+ */
+export function syncSmartPlaylists(
+  spotifyApi: SpotifyApi,
+  tracks: SavedTrack[],
+  artistsById: Map<string, RuleArtist>,
+  options: { force?: boolean; ids?: string[] } = {}
+): Promise<SmartPlaylist[]> {
+  const run = syncQueue.then(async () => {
+    const smartPlaylists = await loadSmartPlaylists();
+    const toSync = smartPlaylists.filter(
+      (smartPlaylist) =>
+        (!options.ids || options.ids.includes(smartPlaylist.id)) &&
+        (options.force || isSmartPlaylistDue(smartPlaylist))
+    );
+
+    const synced: SmartPlaylist[] = [];
+    for (const smartPlaylist of toSync) {
+      const result = await syncSmartPlaylist(spotifyApi, smartPlaylist, tracks, artistsById);
+      // Only write the sync status so edits made meanwhile aren't overwritten
+      await updateSmartPlaylist(result.id, {
+        playlistId: result.playlistId,
+        url: result.url,
+        lastSyncedAt: result.lastSyncedAt,
+        lastTrackCount: result.lastTrackCount,
+        lastDelta: result.lastDelta,
+        lastError: result.lastError,
+      });
+      synced.push(result);
+    }
+    return synced;
+  });
+  // A failed sync doesn't stop the ones queued behind it
+  syncQueue = run.catch(() => {});
+
+  return run;
+}
+
+// Export function to clear in-memory cache - useful for debugging or cache corruption
+export function clearSmartPlaylistsInMemoryCache(): void {
+  smartPlaylistsCache = null;
+}
@@ -2,9 +2,65 @@
 // This eliminates rate limiting issues and provides robust error handling
 
 import * as Sentry from '@sentry/nextjs';
+import { z } from 'zod';
+import { SharedTask } from './abortUtils';
+import { demoTransport, isDemoModeActive } from './demoMode';
+import {
+  artistsResponseSchema,
+  audioFeaturesResponseSchema,
+  createdPlaylistSchema,
+  currentUserSchema,
+  devicesResponseSchema,
+  followsPlaylistSchema,
+  noContentSchema,
+  playbackStateSchema,
+  playlistSnapshotSchema,
+  playlistTrackUrisPageSchema,
+  recentlyPlayedPageSchema,
+  savedTrackSchema,
+  savedTracksPageSchema,
+  topArtistsPageSchema,
+  topTracksPageSchema,
+} from './spotifyModels';
+
+// Talk to the local mock server in src/app/api/mock-spotify instead of Spotify, for offline work
+export const SPOTIFY_MOCK_ENABLED = process.env.NEXT_PUBLIC_SPOTIFY_MOCK === 'true';
+
+// The mock server is part of this app; server-side callers need an absolute URL to reach it
+export const MOCK_SPOTIFY_URL = `${
+  typeof window === 'undefined' ? process.env.NEXTAUTH_URL || 'http://127.0.0.1:3000' : ''
+}/api/mock-spotify`;
+
+const SPOTIFY_BASE_URL = SPOTIFY_MOCK_ENABLED
+  ? `${MOCK_SPOTIFY_URL}/v1`
+  : 'https://api.spotify.com/v1';
+const SPOTIFY_ACCOUNTS_URL = SPOTIFY_MOCK_ENABLED
+  ? `${MOCK_SPOTIFY_URL}/api/token`
+  : 'https://accounts.spotify.com/api/token';
+
+// Sends one HTTP request. Swap it to record requests or answer them without a network.
+export type SpotifyTransport = (url: string, init: RequestInit) => Promise<Response>;
+
+export interface SpotifyApiOptions {
+  baseUrl?: string;
+  transport?: SpotifyTransport;
+}
 
-const SPOTIFY_BASE_URL = 'https://api.spotify.com/v1';
-const SPOTIFY_ACCOUNTS_URL = 'https://accounts.spotify.com/api/token';
+// Queue priorities, lower runs first. Requests the user is waiting on jump ahead of
+// background crawls, which also always leave one connection free for them.
+export const SPOTIFY_PRIORITY = {
+  INTERACTIVE: 1,
+  HIGH: 2,
+  NORMAL: 3,
+  BACKGROUND: 4,
+} as const;
+
+// Accepted by every SpotifyApi method
+export interface SpotifyRequestOptions {
+  // Abort to drop the request from the queue, or cancel it if it was already sent
+  signal?: AbortSignal;
+  priority?: number;
+}
 
 export interface SpotifyError {
   status: number;
@@ -21,6 +77,19 @@ export class SpotifyApiError extends Error {
   }
 }
 
+// A response that no longer matches the shape in spotifyModels, e.g. after a Spotify API change
+export class SpotifySchemaError extends SpotifyApiError {
+  endpoint: string;
+  issues: z.ZodError['issues'];
+
+  constructor(endpoint: string, issues: z.ZodError['issues']) {
+    super(`Unexpected response from Spotify for ${endpoint}`, 502);
+    this.name = 'SpotifySchemaError';
+    this.endpoint = endpoint;
+    this.issues = issues;
+  }
+}
+
 interface QueuedRequest {
   url: string;
   options: RequestInit;
@@ -30,23 +99,47 @@ interface QueuedRequest {
   priority: number; // Lower number = higher priority
 }
 
+// A request shared by every caller asking for the same thing at the same time
+interface PendingRequest {
+  task: SharedTask<any>;
+  request: QueuedRequest;
+}
+
 interface TokenRefreshCallback {
   (): Promise<any>;
 }
 
-class SpotifyApi {
+export class SpotifyApi {
+  private baseUrl: string;
+  private transport: SpotifyTransport;
   private accessToken: string | null = null;
   private tokenRefreshCallback: TokenRefreshCallback | null = null;
-  private isRefreshing = false;
+  // Shared by every request that gets a 401 while a refresh is running
+  private refreshPromise: Promise<boolean> | null = null;
   private requestQueue: QueuedRequest[] = [];
-  private isProcessingQueue = false;
+  private activeRequests = 0;
   private lastRequestTime = 0;
   private rateLimitResetTime = 0;
-  private readonly minRequestInterval = 100; // 100ms between requests
+  private readonly minRequestInterval = 100; // 100ms between request starts
+  private readonly maxConcurrentRequests = 4; // Requests in flight at once
   private readonly maxRetries = 3;
-  private pendingRequests = new Map<string, Promise<any>>(); // For request deduplication
+  private pendingRequests = new Map<string, PendingRequest>(); // For request deduplication
   private readonly requestTimeout = 60000; // 60 seconds timeout for pending requests
 
+  constructor({
+    baseUrl = SPOTIFY_BASE_URL,
+    transport = (url, init) => fetch(url, init),
+  }: SpotifyApiOptions = {}) {
+    this.baseUrl = baseUrl;
+    this.transport = transport;
+  }
+
+  // Send requests through another transport, e.g. a test double, optionally to another server
+  setTransport(transport: SpotifyTransport, baseUrl = this.baseUrl) {
+    this.transport = transport;
+    this.baseUrl = baseUrl;
+  }
+
   setAccessToken(token: string) {
     this.accessToken = token;
   }
@@ -63,28 +156,22 @@ class SpotifyApi {
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
 
-  private calculateBackoffDelay(retryCount: number, baseDelay = 1000): number {
-    // Exponential backoff with jitter
-    const exponentialDelay = Math.min(baseDelay * Math.pow(2, retryCount), 30000);
-    const jitter = Math.random() * 1000;
-    return exponentialDelay + jitter;
-  }
-
-  private async refreshAccessToken(): Promise<boolean> {
-    if (this.isRefreshing) {
-      // Wait for ongoing refresh
-      while (this.isRefreshing) {
-        await this.sleep(100);
-      }
-      return !!this.accessToken;
+  // Requests run in parallel, so several 401s can arrive together; they all wait for one refresh
+  private refreshAccessToken(): Promise<boolean> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.runTokenRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
     }
+    return this.refreshPromise;
+  }
 
+  private async runTokenRefresh(): Promise<boolean> {
     if (!this.tokenRefreshCallback) {
       console.error('No token refresh callback set');
       return false;
     }
 
-    this.isRefreshing = true;
     try {
       console.log('🔄 Refreshing access token...');
       const tokenData = await this.tokenRefreshCallback();
@@ -94,8 +181,6 @@ class SpotifyApi {
     } catch (error) {
       console.error('❌ Failed to refresh access token:', error);
       return false;
-    } finally {
-      this.isRefreshing = false;
     }
   }
 
@@ -112,27 +197,31 @@ class SpotifyApi {
           hasAuth: !!this.accessToken,
         });
 
+        options.signal?.throwIfAborted();
         if (!this.accessToken) {
           throw new SpotifyApiError('No access token available', 401);
         }
 
-        // Check rate limit
-        const now = Date.now();
-        if (now < this.rateLimitResetTime) {
-          const waitTime = this.rateLimitResetTime - now;
+        // Check rate limit. A Retry-After applies to every request, including ones that were
+        // already waiting when it arrived, so keep waiting until it has passed.
+        while (Date.now() < this.rateLimitResetTime) {
+          const waitTime = this.rateLimitResetTime - Date.now();
           console.warn(`Rate limited, waiting ${waitTime}ms...`);
           await this.sleep(waitTime);
         }
 
-        // Throttle requests
-        const timeSinceLastRequest = now - this.lastRequestTime;
-        if (timeSinceLastRequest < this.minRequestInterval) {
-          await this.sleep(this.minRequestInterval - timeSinceLastRequest);
+        // Throttle requests: each one reserves the next start slot, so concurrent requests
+        // are still spaced out
+        const now = Date.now();
+        const startTime = Math.max(now, this.lastRequestTime + this.minRequestInterval);
+        this.lastRequestTime = startTime;
+        if (startTime > now) {
+          await this.sleep(startTime - now);
         }
+        // Every caller may have given up while this request waited its turn
+        options.signal?.throwIfAborted();
 
-        this.lastRequestTime = Date.now();
-
-        const response = await fetch(url, {
+        const response = await this.transport(url, {
           ...options,
           headers: {
             Authorization: `Bearer ${this.accessToken}`,
@@ -156,13 +245,15 @@ class SpotifyApi {
 
   private async processRequest(queuedRequest: QueuedRequest): Promise<void> {
     const { url, options, resolve, reject, retryCount } = queuedRequest;
+    const tokenBeforeRequest = this.accessToken;
 
     try {
       const response = await this.makeRawRequest(url, options);
 
       if (response.status === 401 && retryCount === 0) {
-        // Try to refresh token on first 401
-        const refreshed = await this.refreshAccessToken();
+        // Try to refresh token on first 401, unless another request already replaced it
+        const refreshed =
+          this.accessToken !== tokenBeforeRequest || (await this.refreshAccessToken());
         if (refreshed) {
           // Retry with new token
           queuedRequest.retryCount++;
@@ -179,33 +270,20 @@ class SpotifyApi {
         const message =
           errorData.error?.message || `HTTP ${response.status}: ${response.statusText}`;
 
-        if (response.status === 429 && retryCount < this.maxRetries) {
-          // Retry rate limited requests
-          const delay = this.calculateBackoffDelay(retryCount);
-          console.warn(
-            `Rate limited, retrying in ${delay}ms (attempt ${retryCount + 1}/${this.maxRetries})`
-          );
-          await this.sleep(delay);
-          queuedRequest.retryCount++;
-          this.requestQueue.unshift(queuedRequest);
-          return;
-        }
-
         reject(new SpotifyApiError(message, response.status));
         return;
       }
 
-      const data = await response.json();
-      resolve(data);
+      // Player endpoints answer 202/204 with an empty body
+      const text = await response.text();
+      resolve(text ? JSON.parse(text) : null);
     } catch (error) {
       if (error instanceof SpotifyApiError) {
         if (error.status === 429 && retryCount < this.maxRetries) {
-          // Retry on rate limit
-          const delay = this.calculateBackoffDelay(retryCount);
+          // Retry on rate limit; the retry waits out Retry-After along with every other request
           console.warn(
-            `Request failed with rate limit, retrying in ${delay}ms (attempt ${retryCount + 1}/${this.maxRetries})`
+            `Request failed with rate limit, retrying (attempt ${retryCount + 1}/${this.maxRetries})`
           );
-          await this.sleep(delay);
           queuedRequest.retryCount++;
           this.requestQueue.unshift(queuedRequest);
           return;
@@ -215,152 +293,231 @@ class SpotifyApi {
     }
   }
 
-  private async processQueue(): Promise<void> {
-    if (this.isProcessingQueue || this.requestQueue.length === 0) {
-      return;
+  // Start queued requests until maxConcurrentRequests are in flight, each time taking the
+  // highest priority one (lower number = higher priority), oldest first. Background requests
+  // leave the last slot free so an interactive request never waits behind a crawl.
+  private processQueue(): void {
+    while (this.activeRequests < this.maxConcurrentRequests && this.requestQueue.length > 0) {
+      const next = this.requestQueue.reduce(
+        (best, request, index) =>
+          request.priority < this.requestQueue[best].priority ? index : best,
+        0
+      );
+      if (
+        this.requestQueue[next].priority >= SPOTIFY_PRIORITY.BACKGROUND &&
+        this.activeRequests >= this.maxConcurrentRequests - 1
+      ) {
+        return;
+      }
+      const [request] = this.requestQueue.splice(next, 1);
+
+      this.activeRequests++;
+      this.processRequest(request)
+        .catch(() => {
+          // Individual request errors are handled in processRequest
+        })
+        .finally(() => {
+          this.activeRequests--;
+          this.processQueue();
+        });
     }
+  }
 
-    this.isProcessingQueue = true;
-
-    while (this.requestQueue.length > 0) {
-      // Sort by priority (lower number = higher priority)
-      this.requestQueue.sort((a, b) => a.priority - b.priority);
-      const request = this.requestQueue.shift()!;
+  // Validate a response against its schema. Drift is reported to Sentry and surfaces as a
+  // SpotifySchemaError, so malformed data never reaches components.
+  private parseResponse<T>(endpoint: string, schema: z.ZodType<T>, data: unknown): T {
+    const result = schema.safeParse(data);
+    if (result.success) return result.data;
+
+    const error = new SpotifySchemaError(endpoint, result.error.issues);
+    console.error(`Spotify response for ${endpoint} failed validation:`, result.error.issues);
+    Sentry.captureException(error, {
+      tags: { spotify_endpoint: endpoint.split('?')[0] },
+      extra: { issues: result.error.issues.slice(0, 20) },
+    });
+    throw error;
+  }
 
-      try {
-        await this.processRequest(request);
-      } catch {
-        // Individual request errors are handled in processRequest
+  // Validate the items of a page one at a time. Items that drifted are reported to Sentry like
+  // parseResponse does, but dropped so the rest of the page still gets through.
+  private parseItems<T>(endpoint: string, schema: z.ZodType<T>, items: unknown[]): T[] {
+    const parsed: T[] = [];
+    const issues: z.ZodError['issues'] = [];
+    items.forEach((item, index) => {
+      const result = schema.safeParse(item);
+      if (result.success) {
+        parsed.push(result.data);
+      } else {
+        issues.push(
+          ...result.error.issues.map((issue) => ({ ...issue, path: [index, ...issue.path] }))
+        );
       }
+    });
+    if (parsed.length === items.length) return parsed;
 
-      // Small delay between requests to avoid overwhelming the API
-      await this.sleep(50);
-    }
-
-    this.isProcessingQueue = false;
+    const dropped = items.length - parsed.length;
+    console.error(`Dropped ${dropped} items of ${endpoint} that failed validation:`, issues);
+    Sentry.captureException(new SpotifySchemaError(endpoint, issues), {
+      tags: { spotify_endpoint: endpoint.split('?')[0] },
+      extra: { dropped, issues: issues.slice(0, 20) },
+    });
+    return parsed;
   }
 
   private async makeRequest<T>(
     endpoint: string,
+    schema: z.ZodType<T>,
     options: RequestInit = {},
-    priority = 5
+    { priority = SPOTIFY_PRIORITY.NORMAL, signal }: SpotifyRequestOptions = {}
   ): Promise<T> {
-    const url = `${SPOTIFY_BASE_URL}${endpoint}`;
+    const url = `${this.baseUrl}${endpoint}`;
 
-    // Create a unique key for request deduplication with canonical JSON ordering for bodies
+    // Only reads are deduplicated. Writes must each run, and keying them by body would keep
+    // large payloads like cover images around while they're in flight.
     const method = options.method || 'GET';
-    let bodyKey = '';
-    if (options.body) {
-      try {
-        const raw = options.body as any;
-        if (typeof raw === 'string') {
-          try {
-            const parsed = JSON.parse(raw);
-            const keys = Object.keys(parsed).toSorted();
-            const canonical: Record<string, any> = {};
-            keys.forEach((k) => {
-              canonical[k] = parsed[k];
-            });
-            bodyKey = `:${JSON.stringify(canonical)}`;
-          } catch {
-            bodyKey = `:${raw}`; // Non-JSON string body
-          }
-        } else if (raw instanceof Blob || raw instanceof ArrayBuffer) {
-          bodyKey = ':binary';
-        } else if (typeof raw === 'object') {
-          const keys = Object.keys(raw).toSorted();
-          const canonical: Record<string, any> = {};
-          keys.forEach((k) => {
-            canonical[k] = raw[k];
-          });
-          bodyKey = `:${JSON.stringify(canonical)}`;
-        } else {
-          bodyKey = `:${String(raw)}`;
-        }
-      } catch {
-        bodyKey = ':unserializable';
-      }
-    }
-    const requestKey = `${method}:${url}${bodyKey}`;
+    const requestKey = method === 'GET' ? `GET:${url}` : null;
 
-    // Check if this exact request is already pending
-    if (this.pendingRequests.has(requestKey)) {
+    // Check if this exact request is already pending; callers share it until all have aborted
+    const pending = requestKey ? this.pendingRequests.get(requestKey) : undefined;
+    if (pending && !pending.task.isAborted) {
       console.log(`🔄 Deduplicating request: ${method} ${endpoint}`);
-      return this.pendingRequests.get(requestKey)!;
+      // Still queued, it moves up if the new caller is in more of a hurry
+      pending.request.priority = Math.min(pending.request.priority, priority);
+      return pending.task.join(signal);
     }
 
-    const requestPromise = new Promise<T>((resolve, reject) => {
-      // Set up timeout to prevent hanging requests
-      const timeoutId = setTimeout(() => {
-        this.pendingRequests.delete(requestKey);
-        reject(new SpotifyApiError('Request timeout', 408));
-      }, this.requestTimeout);
-
-      const queuedRequest: QueuedRequest = {
-        url,
-        options,
-        resolve: (value) => {
-          clearTimeout(timeoutId);
-          this.pendingRequests.delete(requestKey);
-          resolve(value);
-        },
-        reject: (error) => {
-          clearTimeout(timeoutId);
-          this.pendingRequests.delete(requestKey);
-          reject(error);
-        },
-        retryCount: 0,
-        priority,
-      };
+    let queuedRequest!: QueuedRequest;
+    const task = new SharedTask<T>((taskSignal) => {
+      const responsePromise = new Promise<unknown>((resolve, reject) => {
+        // Set up timeout to prevent hanging requests
+        const timeoutId = setTimeout(
+          () => reject(new SpotifyApiError('Request timeout', 408)),
+          this.requestTimeout
+        );
+
+        queuedRequest = {
+          url,
+          options: { ...options, signal: taskSignal },
+          resolve: (value) => {
+            clearTimeout(timeoutId);
+            resolve(value);
+          },
+          reject: (error) => {
+            clearTimeout(timeoutId);
+            reject(error);
+          },
+          retryCount: 0,
+          priority,
+        };
+
+        // Requests that haven't been sent yet are simply dropped from the queue; ones in
+        // flight are cancelled through the signal passed to the transport
+        taskSignal.addEventListener(
+          'abort',
+          () => {
+            const index = this.requestQueue.indexOf(queuedRequest);
+            if (index >= 0) {
+              this.requestQueue.splice(index, 1);
+              queuedRequest.reject(taskSignal.reason);
+            }
+          },
+          { once: true }
+        );
 
-      this.requestQueue.push(queuedRequest);
-      this.processQueue();
+        this.requestQueue.push(queuedRequest);
+        this.processQueue();
+      });
+      return responsePromise.then((data) => this.parseResponse(endpoint, schema, data));
     });
 
-    // Store the promise for deduplication
-    this.pendingRequests.set(requestKey, requestPromise);
+    // Store the task for deduplication until it settles, unless an aborted one was replaced
+    if (requestKey) {
+      this.pendingRequests.set(requestKey, { task, request: queuedRequest });
+      const forgetRequest = () => {
+        if (this.pendingRequests.get(requestKey)?.task === task) {
+          this.pendingRequests.delete(requestKey);
+        }
+      };
+      task.promise.then(forgetRequest, forgetRequest);
+    }
 
-    return requestPromise;
+    return task.join(signal);
   }
 
   // Get user's saved tracks (lower priority - slower endpoint)
-  async getMySavedTracks(params: { limit?: number; offset?: number } = {}) {
+  async getMySavedTracks(
+    params: { limit?: number; offset?: number } = {},
+    requestOptions: SpotifyRequestOptions = {}
+  ) {
     const searchParams = new URLSearchParams();
     if (params.limit) searchParams.set('limit', params.limit.toString());
     if (params.offset) searchParams.set('offset', params.offset.toString());
 
     const endpoint = `/me/tracks${searchParams.toString() ? `?${searchParams}` : ''}`;
-    const data = await this.makeRequest<any>(endpoint, {}, 4); // Lower priority - slower endpoint
-    return { body: data };
+    const data = await this.makeRequest(
+      endpoint,
+      savedTracksPageSchema,
+      {},
+      {
+        priority: SPOTIFY_PRIORITY.BACKGROUND,
+        ...requestOptions,
+      }
+    );
+    const items = this.parseItems(endpoint, savedTrackSchema, data.items);
+    // Pagers should look at `skipped` too: a page can be empty only because every item drifted
+    return { body: { items, total: data.total, skipped: data.items.length - items.length } };
   }
 
   // Get user's top artists (highest priority - fast endpoint)
-  async getMyTopArtists(params: { time_range?: string; limit?: number; offset?: number } = {}) {
+  async getMyTopArtists(
+    params: { time_range?: string; limit?: number; offset?: number } = {},
+    requestOptions: SpotifyRequestOptions = {}
+  ) {
     const searchParams = new URLSearchParams();
     if (params.time_range) searchParams.set('time_range', params.time_range);
     if (params.limit) searchParams.set('limit', params.limit.toString());
     if (params.offset) searchParams.set('offset', params.offset.toString());
 
     const endpoint = `/me/top/artists${searchParams.toString() ? `?${searchParams}` : ''}`;
-    const data = await this.makeRequest<any>(endpoint, {}, 1); // Highest priority - fast endpoint
+    const data = await this.makeRequest(
+      endpoint,
+      topArtistsPageSchema,
+      {},
+      {
+        priority: SPOTIFY_PRIORITY.INTERACTIVE,
+        ...requestOptions,
+      }
+    );
     return { body: data };
   }
 
   // Get user's top tracks (highest priority - fast endpoint)
-  async getMyTopTracks(params: { time_range?: string; limit?: number; offset?: number } = {}) {
+  async getMyTopTracks(
+    params: { time_range?: string; limit?: number; offset?: number } = {},
+    requestOptions: SpotifyRequestOptions = {}
+  ) {
     const searchParams = new URLSearchParams();
     if (params.time_range) searchParams.set('time_range', params.time_range);
     if (params.limit) searchParams.set('limit', params.limit.toString());
     if (params.offset) searchParams.set('offset', params.offset.toString());
 
     const endpoint = `/me/top/tracks${searchParams.toString() ? `?${searchParams}` : ''}`;
-    const data = await this.makeRequest<any>(endpoint, {}, 1); // Highest priority - fast endpoint
+    const data = await this.makeRequest(
+      endpoint,
+      topTracksPageSchema,
+      {},
+      {
+        priority: SPOTIFY_PRIORITY.INTERACTIVE,
+        ...requestOptions,
+      }
+    );
     return { body: data };
   }
 
   // Get recently played tracks (high priority - fast endpoint)
   async getMyRecentlyPlayedTracks(
-    params: { limit?: number; after?: number; before?: number } = {}
+    params: { limit?: number; after?: number; before?: number } = {},
+    requestOptions: SpotifyRequestOptions = {}
   ) {
     const searchParams = new URLSearchParams();
     if (params.limit) searchParams.set('limit', params.limit.toString());
@@ -368,25 +525,72 @@ class SpotifyApi {
     if (params.before) searchParams.set('before', params.before.toString());
 
     const endpoint = `/me/player/recently-played${searchParams.toString() ? `?${searchParams}` : ''}`;
-    const data = await this.makeRequest<any>(endpoint, {}, 2); // High priority - fast endpoint
+    const data = await this.makeRequest(
+      endpoint,
+      recentlyPlayedPageSchema,
+      {},
+      {
+        priority: SPOTIFY_PRIORITY.HIGH,
+        ...requestOptions,
+      }
+    );
     return { body: data };
   }
 
   // Get multiple artists by IDs (medium priority)
-  async getArtists(ids: string[]) {
+  async getArtists(ids: string[], requestOptions: SpotifyRequestOptions = {}) {
     if (ids.length === 0) {
       return { body: { artists: [] } };
     }
 
     const endpoint = `/artists?ids=${ids.join(',')}`;
-    const data = await this.makeRequest<any>(endpoint, {}, 3); // Medium priority
+    const data = await this.makeRequest(
+      endpoint,
+      artistsResponseSchema,
+      {},
+      {
+        priority: SPOTIFY_PRIORITY.NORMAL,
+        ...requestOptions,
+      }
+    );
+    return { body: data };
+  }
+
+  // Get audio features for up to 100 tracks (lower priority - background enrichment)
+  async getAudioFeatures(ids: string[], requestOptions: SpotifyRequestOptions = {}) {
+    if (ids.length === 0) {
+      return { body: { audio_features: [] } };
+    }
+
+    const endpoint = `/audio-features?ids=${ids.join(',')}`;
+    const data = await this.makeRequest(
+      endpoint,
+      audioFeaturesResponseSchema,
+      {},
+      {
+        priority: SPOTIFY_PRIORITY.BACKGROUND,
+        ...requestOptions,
+      }
+    );
     return { body: data };
   }
 
   // Create a playlist
-  async createPlaylist(name: string, options: { description?: string; public?: boolean } = {}) {
+  async createPlaylist(
+    name: string,
+    options: { description?: string; public?: boolean } = {},
+    requestOptions: SpotifyRequestOptions = {}
+  ) {
     // First get the current user's ID
-    const userResponse = await this.makeRequest<any>('/me', {}, 1);
+    const userResponse = await this.makeRequest(
+      '/me',
+      currentUserSchema,
+      {},
+      {
+        priority: SPOTIFY_PRIORITY.INTERACTIVE,
+        ...requestOptions,
+      }
+    );
     const userId = userResponse.id;
 
     const endpoint = `/users/${userId}/playlists`;
@@ -396,33 +600,229 @@ class SpotifyApi {
       public: options.public ?? false,
     };
 
-    const data = await this.makeRequest<any>(
+    const data = await this.makeRequest(
       endpoint,
+      createdPlaylistSchema,
       {
         method: 'POST',
         body: JSON.stringify(body),
       },
-      1
-    ); // High priority for user actions
+      { priority: SPOTIFY_PRIORITY.INTERACTIVE, ...requestOptions }
+    );
 
     return { body: data };
   }
 
   // Add tracks to playlist
-  async addTracksToPlaylist(playlistId: string, trackUris: string[]) {
+  async addTracksToPlaylist(
+    playlistId: string,
+    trackUris: string[],
+    requestOptions: SpotifyRequestOptions = {}
+  ) {
     const endpoint = `/playlists/${playlistId}/tracks`;
     const body = {
       uris: trackUris,
     };
 
-    const data = await this.makeRequest<any>(
+    const data = await this.makeRequest(
       endpoint,
+      playlistSnapshotSchema,
       {
         method: 'POST',
         body: JSON.stringify(body),
       },
-      1
-    ); // High priority for user actions
+      { priority: SPOTIFY_PRIORITY.INTERACTIVE, ...requestOptions }
+    );
+
+    return { body: data };
+  }
+
+  // List the user's Spotify Connect devices (high priority - user action)
+  async getMyDevices(requestOptions: SpotifyRequestOptions = {}) {
+    const data = await this.makeRequest(
+      '/me/player/devices',
+      devicesResponseSchema,
+      {},
+      {
+        priority: SPOTIFY_PRIORITY.INTERACTIVE,
+        ...requestOptions,
+      }
+    );
+    return { body: data };
+  }
+
+  // Get the current playback state; body is null when nothing is playing
+  async getMyCurrentPlaybackState(requestOptions: SpotifyRequestOptions = {}) {
+    const data = await this.makeRequest(
+      '/me/player',
+      playbackStateSchema,
+      {},
+      {
+        priority: SPOTIFY_PRIORITY.INTERACTIVE,
+        ...requestOptions,
+      }
+    );
+    return { body: data };
+  }
+
+  // Move playback to another device, optionally starting it there
+  async transferMyPlayback(
+    deviceIds: string[],
+    options: { play?: boolean } = {},
+    requestOptions: SpotifyRequestOptions = {}
+  ) {
+    const body = {
+      device_ids: deviceIds,
+      play: options.play ?? false,
+    };
+
+    const data = await this.makeRequest(
+      '/me/player',
+      noContentSchema,
+      {
+        method: 'PUT',
+        body: JSON.stringify(body),
+      },
+      { priority: SPOTIFY_PRIORITY.INTERACTIVE, ...requestOptions }
+    );
+
+    return { body: data };
+  }
+
+  // Start playback of a context (album, artist, playlist) or a list of track URIs
+  async play(
+    options: {
+      device_id?: string;
+      context_uri?: string;
+      uris?: string[];
+      offset?: { position: number } | { uri: string };
+      position_ms?: number;
+    } = {},
+    requestOptions: SpotifyRequestOptions = {}
+  ) {
+    const { device_id, ...body } = options;
+    const endpoint = `/me/player/play${device_id ? `?device_id=${encodeURIComponent(device_id)}` : ''}`;
+
+    const data = await this.makeRequest(
+      endpoint,
+      noContentSchema,
+      {
+        method: 'PUT',
+        body: JSON.stringify(body),
+      },
+      { priority: SPOTIFY_PRIORITY.INTERACTIVE, ...requestOptions }
+    );
+
+    return { body: data };
+  }
+
+  // Check whether the current user still follows (has in their library) a playlist
+  async isFollowingPlaylist(playlistId: string, requestOptions: SpotifyRequestOptions = {}) {
+    const data = await this.makeRequest(
+      `/playlists/${playlistId}/followers/contains`,
+      followsPlaylistSchema,
+      {},
+      { priority: SPOTIFY_PRIORITY.INTERACTIVE, ...requestOptions }
+    );
+    return { body: data };
+  }
+
+  // Get one page of a playlist's track URIs (max 100 per page)
+  async getPlaylistTrackUris(
+    playlistId: string,
+    params: { limit?: number; offset?: number } = {},
+    requestOptions: SpotifyRequestOptions = {}
+  ) {
+    const searchParams = new URLSearchParams({ fields: 'items(track(uri)),total' });
+    if (params.limit) searchParams.set('limit', params.limit.toString());
+    if (params.offset) searchParams.set('offset', params.offset.toString());
+
+    const endpoint = `/playlists/${playlistId}/tracks?${searchParams}`;
+    const data = await this.makeRequest(
+      endpoint,
+      playlistTrackUrisPageSchema,
+      {},
+      {
+        priority: SPOTIFY_PRIORITY.HIGH,
+        ...requestOptions,
+      }
+    );
+    return { body: data };
+  }
+
+  // Replace every item in a playlist (max 100 URIs; add the rest with addTracksToPlaylist)
+  async replacePlaylistItems(
+    playlistId: string,
+    trackUris: string[],
+    requestOptions: SpotifyRequestOptions = {}
+  ) {
+    const data = await this.makeRequest(
+      `/playlists/${playlistId}/tracks`,
+      playlistSnapshotSchema,
+      {
+        method: 'PUT',
+        body: JSON.stringify({ uris: trackUris }),
+      },
+      { priority: SPOTIFY_PRIORITY.INTERACTIVE, ...requestOptions }
+    );
+
+    return { body: data };
+  }
+
+  // Remove every occurrence of the given tracks from a playlist (max 100 URIs)
+  async removePlaylistItems(
+    playlistId: string,
+    trackUris: string[],
+    requestOptions: SpotifyRequestOptions = {}
+  ) {
+    const data = await this.makeRequest(
+      `/playlists/${playlistId}/tracks`,
+      playlistSnapshotSchema,
+      {
+        method: 'DELETE',
+        body: JSON.stringify({ tracks: trackUris.map((uri) => ({ uri })) }),
+      },
+      { priority: SPOTIFY_PRIORITY.INTERACTIVE, ...requestOptions }
+    );
+
+    return { body: data };
+  }
+
+  // Rename a playlist or change its description
+  async changePlaylistDetails(
+    playlistId: string,
+    details: { name?: string; description?: string; public?: boolean },
+    requestOptions: SpotifyRequestOptions = {}
+  ) {
+    const data = await this.makeRequest(
+      `/playlists/${playlistId}`,
+      noContentSchema,
+      {
+        method: 'PUT',
+        body: JSON.stringify(details),
+      },
+      { priority: SPOTIFY_PRIORITY.INTERACTIVE, ...requestOptions }
+    );
+
+    return { body: data };
+  }
+
+  // Set a playlist's cover image from base64 JPEG data (max 256 KB, needs ugc-image-upload)
+  async uploadPlaylistCover(
+    playlistId: string,
+    base64Jpeg: string,
+    requestOptions: SpotifyRequestOptions = {}
+  ) {
+    const data = await this.makeRequest(
+      `/playlists/${playlistId}/images`,
+      noContentSchema,
+      {
+        method: 'PUT',
+        headers: { 'Content-Type': 'image/jpeg' },
+        body: base64Jpeg,
+      },
+      { priority: SPOTIFY_PRIORITY.BACKGROUND, ...requestOptions }
+    ); // Lower priority - cosmetic, runs after the playlist is filled
 
     return { body: data };
   }
@@ -440,15 +840,18 @@ class SpotifyApi {
       queueLength: this.requestQueue.length,
       pendingRequestsCount: this.pendingRequests.size,
       pendingRequestKeys: pendingRequestKeys.slice(0, 10), // Show first 10 for debugging
-      isProcessing: this.isProcessingQueue,
-      isRefreshing: this.isRefreshing,
+      isProcessing: this.activeRequests > 0,
+      activeRequests: this.activeRequests,
+      isRefreshing: this.refreshPromise !== null,
       rateLimitResetTime: this.rateLimitResetTime,
       hasToken: !!this.accessToken,
     };
   }
 }
 
-export const spotifyApi = new SpotifyApi();
+// In demo mode the app talks to the in-browser mock server; entering or leaving the demo
+// reloads the page, so checking once here is enough
+export const spotifyApi = new SpotifyApi(isDemoModeActive() ? { transport: demoTransport } : {});
 
 export const scopes = [
   'user-read-email',
@@ -458,6 +861,9 @@ export const scopes = [
   'playlist-modify-private',
   'user-read-recently-played',
   'user-top-read',
+  'user-read-playback-state',
+  'user-modify-playback-state',
+  'ugc-image-upload',
 ].join(' ');
 
 export const refreshAccessToken = async (refreshToken: string) => {
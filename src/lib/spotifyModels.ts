@@ -0,0 +1,169 @@
+import { z } from 'zod';
+
+// Shared domain model for Spotify Web API responses. SpotifyApi parses every response with
+// these schemas, so only the fields listed here reach the app and anything unknown is stripped.
+
+export const spotifyImageSchema = z.object({
+  url: z.string(),
+  height: z.number().nullish(),
+  width: z.number().nullish(),
+});
+
+const externalUrlsSchema = z.object({ spotify: z.string() });
+
+export const simplifiedArtistSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+});
+
+export const artistSchema = simplifiedArtistSchema.extend({
+  images: z.array(spotifyImageSchema).default([]),
+  genres: z.array(z.string()).default([]),
+  popularity: z.number(),
+  external_urls: externalUrlsSchema,
+});
+
+export const albumSchema = z.object({
+  id: z.string().optional(),
+  name: z.string(),
+  images: z.array(spotifyImageSchema).default([]),
+  release_date: z.string().optional(),
+});
+
+export const trackSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  album: albumSchema,
+  artists: z.array(simplifiedArtistSchema),
+  duration_ms: z.number(),
+  // Spotify has stopped sending previews for many tracks, sometimes omitting the field
+  preview_url: z.string().nullable().default(null),
+  explicit: z.boolean().optional(),
+  popularity: z.number().optional(),
+  external_urls: externalUrlsSchema.optional(),
+});
+
+export const savedTrackSchema = z.object({
+  added_at: z.string(),
+  track: trackSchema,
+});
+
+export const playHistorySchema = z.object({
+  track: trackSchema,
+  played_at: z.string(),
+  context: z.object({ type: z.string(), uri: z.string() }).nullable(),
+});
+
+export type SpotifyImage = z.infer<typeof spotifyImageSchema>;
+export type SimplifiedArtist = z.infer<typeof simplifiedArtistSchema>;
+export type Artist = z.infer<typeof artistSchema>;
+export type Album = z.infer<typeof albumSchema>;
+export type Track = z.infer<typeof trackSchema>;
+export type SavedTrack = z.infer<typeof savedTrackSchema>;
+export type PlayHistory = z.infer<typeof playHistorySchema>;
+
+// Compact track representation for trends (minimal data)
+export interface CompactTrack {
+  id: string;
+  added_at: string;
+  artist_ids: string[];
+}
+
+// Compact artist representation for genre trends
+export interface CompactArtist {
+  id: string;
+  name: string;
+  genres: string[];
+}
+
+/**
+ * Offset-based page of items, as returned by the library and top items endpoints
+ */
+const pagingSchema = <T extends z.ZodType>(item: T) =>
+  z.object({
+    items: z.array(item),
+    total: z.number(),
+  });
+
+// Items are checked one by one against savedTrackSchema, so a single drifted track (e.g. a
+// local file without an id) is dropped instead of failing the whole page and library crawl
+export const savedTracksPageSchema = pagingSchema(z.unknown());
+export const topArtistsPageSchema = pagingSchema(artistSchema);
+export const topTracksPageSchema = pagingSchema(trackSchema);
+
+// Cursor-based page; cursors are null when the page is empty
+export const recentlyPlayedPageSchema = z.object({
+  items: z.array(playHistorySchema),
+  cursors: z
+    .object({
+      after: z.string().nullish(),
+      before: z.string().nullish(),
+    })
+    .nullish(),
+});
+
+// Unknown ids come back as null entries
+export const artistsResponseSchema = z.object({
+  artists: z.array(artistSchema.nullable()),
+});
+
+export const audioFeaturesResponseSchema = z.object({
+  audio_features: z.array(
+    z
+      .object({
+        id: z.string(),
+        tempo: z.number(),
+        energy: z.number(),
+        valence: z.number(),
+        danceability: z.number(),
+        acousticness: z.number(),
+      })
+      .nullable()
+  ),
+});
+
+export const currentUserSchema = z.object({ id: z.string() });
+
+export const createdPlaylistSchema = z.object({
+  id: z.string(),
+  external_urls: externalUrlsSchema,
+});
+
+export const playlistSnapshotSchema = z.object({ snapshot_id: z.string() });
+
+// Fetched with fields=items(track(uri)),total; removed tracks come back as null
+export const playlistTrackUrisPageSchema = z.object({
+  items: z.array(z.object({ track: z.object({ uri: z.string() }).nullable() })),
+  total: z.number(),
+});
+
+export const followsPlaylistSchema = z.array(z.boolean());
+
+export const spotifyDeviceSchema = z.object({
+  id: z.string().nullable(),
+  name: z.string(),
+  type: z.string(),
+  is_active: z.boolean(),
+  is_restricted: z.boolean(),
+  volume_percent: z.number().nullable(),
+});
+
+export const devicesResponseSchema = z.object({
+  devices: z.array(spotifyDeviceSchema),
+});
+
+// The player endpoint answers 204 with no body when nothing is playing
+export const playbackStateSchema = z
+  .object({
+    device: spotifyDeviceSchema,
+    is_playing: z.boolean(),
+    progress_ms: z.number().nullable(),
+    context: z.object({ uri: z.string() }).nullable(),
+  })
+  .nullable();
+
+export type SpotifyDevice = z.infer<typeof spotifyDeviceSchema>;
+export type SpotifyPlaybackState = NonNullable<z.infer<typeof playbackStateSchema>>;
+
+// Player and playlist detail endpoints answer 202/204; whatever body they send is ignored
+export const noContentSchema = z.unknown().transform(() => null);
@@ -0,0 +1,60 @@
+import { SpotifyApi, SpotifyApiError } from './spotify';
+import { SpotifyDevice } from './spotifyModels';
+
+// Spotify rejects overly long URI lists on the play endpoint, so long selections are trimmed
+export const MAX_PLAYBACK_URIS = 100;
+
+/**
+ * List the devices playback can be started on (restricted devices and ones without an id
+ * can't be controlled through the Web API)
+ */
+export async function getPlayableDevices(spotifyApi: SpotifyApi): Promise<SpotifyDevice[]> {
+  const response = await spotifyApi.getMyDevices();
+  const devices = response.body?.devices ?? [];
+  return devices.filter((device) => device.id && !device.is_restricted);
+}
+
+/**
+ * Play a list of tracks on one of the user's devices, waking it up first if it isn't active
+ */
+export async function playTracksOnDevice(
+  spotifyApi: SpotifyApi,
+  device: SpotifyDevice,
+  trackUris: string[]
+): Promise<{ played: number; skipped: number }> {
+  if (!device.id) {
+    throw new SpotifyApiError('This device cannot be controlled remotely', 403);
+  }
+
+  const uris = trackUris.slice(0, MAX_PLAYBACK_URIS);
+
+  // Inactive devices often ignore play commands until playback is transferred to them
+  if (!device.is_active) {
+    await spotifyApi.transferMyPlayback([device.id]);
+  }
+
+  await spotifyApi.play({ device_id: device.id, uris });
+
+  return { played: uris.length, skipped: trackUris.length - uris.length };
+}
+
+/**
+ * Turn player endpoint failures into something actionable for the user
+ */
+export function getPlaybackErrorMessage(error: unknown): string {
+  if (error instanceof SpotifyApiError) {
+    if (error.status === 401) {
+      return 'Playback permission is missing. Please sign out and sign in again.';
+    }
+    if (error.status === 403) {
+      return /premium/i.test(error.message)
+        ? 'Playing on your devices requires Spotify Premium.'
+        : 'Spotify refused to control this device. Please sign out and sign in again to grant playback access.';
+    }
+    if (error.status === 404) {
+      return 'That device is no longer available. Open Spotify on it and refresh the device list.';
+    }
+    return `Spotify API error: ${error.message}`;
+  }
+  return 'Failed to start playback on Spotify.';
+}
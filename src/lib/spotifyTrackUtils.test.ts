@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { SpotifyApi } from './spotify';
+import { SavedTrack } from './spotifyModels';
+import { SAVED_TRACKS_PAGE_SIZE, fetchSavedTrackPages } from './spotifyTrackUtils';
+
+const savedTrack = (index: number): SavedTrack => ({
+  added_at: new Date(Date.UTC(2024, 0, 1) - index * 60 * 60 * 1000).toISOString(),
+  track: {
+    id: `t${index}`,
+    name: `Track ${index}`,
+    album: { name: 'Album', images: [] },
+    artists: [{ id: 'artist', name: 'Artist' }],
+    duration_ms: 180_000,
+    preview_url: null,
+  },
+});
+
+// A library of three pages whose middle page drifted entirely and was dropped on validation
+const createApi = () => {
+  const total = SAVED_TRACKS_PAGE_SIZE * 3;
+  return {
+    getMySavedTracks: async ({ offset = 0 }: { offset?: number }) => {
+      const page = offset / SAVED_TRACKS_PAGE_SIZE;
+      const items =
+        page === 1
+          ? []
+          : Array.from({ length: SAVED_TRACKS_PAGE_SIZE }, (_, i) => savedTrack(offset + i));
+      return {
+        body: { items, total, skipped: page === 1 ? SAVED_TRACKS_PAGE_SIZE : 0 },
+      };
+    },
+  } as unknown as SpotifyApi;
+};
+
+describe('fetchSavedTrackPages', () => {
+  it('moves past a page whose items all failed validation', async () => {
+    const { items, total } = await fetchSavedTrackPages(createApi());
+
+    expect(total).toBe(SAVED_TRACKS_PAGE_SIZE * 3);
+    expect(items).toHaveLength(SAVED_TRACKS_PAGE_SIZE * 2);
+    expect(items.at(-1)?.track.id).toBe(`t${SAVED_TRACKS_PAGE_SIZE * 3 - 1}`);
+  });
+
+  it('only asks isLastPage about pages with items', async () => {
+    const seen: number[] = [];
+    await fetchSavedTrackPages(createApi(), {
+      isLastPage: (pageItems) => {
+        seen.push(pageItems.length);
+        return false;
+      },
+    });
+
+    expect(seen).not.toContain(0);
+  });
+});
@@ -1,63 +1,17 @@
 import { format, parse } from 'date-fns';
-
-export interface Track {
-  id: string;
-  name: string;
-  album: {
-    name: string;
-    images: Array<{
-      url: string;
-      height?: number;
-      width?: number;
-    }>;
-  };
-  artists: Array<{ id: string; name: string }>;
-  duration_ms: number;
-  preview_url: string | null;
-}
-
-export interface SavedTrack {
-  added_at: string;
-  track: Track;
-}
+import { SpotifyApi, SpotifyRequestOptions } from './spotify';
+import { SavedTrack } from './spotifyModels';
 
 export interface MonthlyTracks {
   month: string;
   tracks: SavedTrack[];
   expanded: boolean;
+  // Tracks liked during the month that have since been unliked
+  unlikedTracks?: SavedTrack[];
 }
 
 /**
- * Process and group tracks by month
- */
-export function processAndGroupTracks(items: any[]): MonthlyTracks[] {
-  const processedTracks: SavedTrack[] = items.map((item) => ({
-    added_at: item.added_at,
-    track: {
-      id: item.track.id,
-      name: item.track.name,
-      album: {
-        name: item.track.album.name,
-        images: item.track.album.images.map((img: any) => ({
-          url: img.url,
-          height: img.height || 0,
-          width: img.width || 0,
-        })),
-      },
-      artists: item.track.artists.map((artist: any) => ({
-        id: artist.id,
-        name: artist.name,
-      })),
-      duration_ms: item.track.duration_ms,
-      preview_url: item.track.preview_url,
-    },
-  }));
-
-  return groupTracksByMonth(processedTracks);
-}
-
-/**
- * Helper function to group tracks by month
+ * Group tracks by the month they were liked in
  */
 export function groupTracksByMonth(tracks: SavedTrack[]): MonthlyTracks[] {
   const months: { [key: string]: SavedTrack[] } = {};
@@ -90,38 +44,183 @@ export function groupTracksByMonth(tracks: SavedTrack[]): MonthlyTracks[] {
 }
 
 /**
- * Fetch all liked tracks from Spotify API
+ * Attach unliked tracks to the month they were originally liked in, adding months that
+ * only contain unliked tracks. Tracks that were liked again are left out.
  */
-export async function fetchAllLikedTracks(spotifyApi: any): Promise<SavedTrack[]> {
-  if (!spotifyApi) {
-    throw new Error('Spotify API is not ready');
+export function attachUnlikedTracks(
+  months: MonthlyTracks[],
+  unlikedTracks: SavedTrack[]
+): MonthlyTracks[] {
+  const likedIds = new Set(months.flatMap((m) => m.tracks.map((t) => t.track.id)));
+  const stillUnliked = unlikedTracks.filter((t) => !likedIds.has(t.track.id));
+  if (stillUnliked.length === 0) {
+    return months;
   }
 
-  const limit = 50;
+  const unlikedByMonth = new Map(
+    groupTracksByMonth(stillUnliked).map(({ month, tracks }) => [month, tracks])
+  );
+
+  const merged = months.map((m) => ({ ...m, unlikedTracks: unlikedByMonth.get(m.month) }));
+  const knownMonths = new Set(months.map((m) => m.month));
+
+  unlikedByMonth.forEach((tracks, month) => {
+    if (!knownMonths.has(month)) {
+      merged.push({ month, tracks: [], expanded: false, unlikedTracks: tracks });
+    }
+  });
+
+  return merged.toSorted((a, b) => {
+    const dateA = parse(a.month, 'MMMM yyyy', new Date());
+    const dateB = parse(b.month, 'MMMM yyyy', new Date());
+    return dateB.getTime() - dateA.getTime();
+  });
+}
+
+// Page size for the saved tracks endpoint (Spotify maximum)
+export const SAVED_TRACKS_PAGE_SIZE = 50;
+
+// Saved tracks pages requested at once. The SpotifyApi queue still spaces requests out,
+// orders them by priority and holds them all back while a Retry-After is in effect.
+const SAVED_TRACKS_CONCURRENCY = 4;
+
+export interface PageProgress {
+  pagesDone: number;
+  totalPages: number;
+}
+
+interface FetchSavedTrackPagesOptions extends SpotifyRequestOptions {
+  onProgress?: (progress: PageProgress) => void;
+  // Whether no page after this one is needed, e.g. because it reaches a cutoff date. Not called
+  // for pages left empty because every item failed validation; the crawl moves past those.
+  isLastPage?: (items: SavedTrack[]) => boolean;
+}
+
+/**
+ * Fetch saved tracks page by page, newest first. The first page reveals the library total,
+ * after which the remaining pages are fetched a few at a time. `totalPages` in the progress
+ * shrinks if `isLastPage` ends the fetch early.
+ */
+export async function fetchSavedTrackPages(
+  spotifyApi: SpotifyApi,
+  { onProgress, isLastPage, ...requestOptions }: FetchSavedTrackPagesOptions = {}
+): Promise<{ items: SavedTrack[]; total: number }> {
+  const limit = SAVED_TRACKS_PAGE_SIZE;
+  const first = await spotifyApi.getMySavedTracks({ limit, offset: 0 }, requestOptions);
+  const { total } = first.body;
+  const pages: SavedTrack[][] = [first.body.items];
+
+  const isFinalPage = ({ items, skipped }: { items: SavedTrack[]; skipped: number }) =>
+    items.length + skipped === 0 || (items.length > 0 && !!isLastPage?.(items));
+  let lastPage = isFinalPage(first.body) ? 0 : Math.max(1, Math.ceil(total / limit)) - 1;
+  let nextPage = 1;
+  let failed = false;
+
+  const reportProgress = () =>
+    onProgress?.({
+      pagesDone: pages.slice(0, lastPage + 1).filter(Boolean).length,
+      totalPages: lastPage + 1,
+    });
+  reportProgress();
+
+  const worker = async () => {
+    while (!failed && nextPage <= lastPage) {
+      const page = nextPage++;
+      try {
+        const response = await spotifyApi.getMySavedTracks(
+          { limit, offset: page * limit },
+          requestOptions
+        );
+        pages[page] = response.body.items;
+        // Also stops early when the library shrank while paging
+        if (page < lastPage && isFinalPage(response.body)) {
+          lastPage = page;
+        }
+        reportProgress();
+      } catch (error) {
+        // Stops the other workers too, e.g. once the crawl is aborted
+        failed = true;
+        throw error;
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: SAVED_TRACKS_CONCURRENCY }, worker));
+
+  return { items: pages.slice(0, lastPage + 1).flat(), total };
+}
+
+/**
+ * Fetch all liked tracks from Spotify API
+ */
+export async function fetchAllLikedTracks(
+  spotifyApi: SpotifyApi,
+  options: Omit<FetchSavedTrackPagesOptions, 'isLastPage'> = {}
+): Promise<SavedTrack[]> {
+  const { items } = await fetchSavedTrackPages(spotifyApi, options);
+  return items;
+}
+
+/**
+ * Fetch the liked tracks added on or after a date, newest first. Spotify returns saved tracks
+ * newest first, so paging stops at the first older track.
+ */
+export async function fetchLikedTracksSince(
+  spotifyApi: SpotifyApi,
+  since: Date
+): Promise<SavedTrack[]> {
+  const limit = SAVED_TRACKS_PAGE_SIZE;
   let offset = 0;
-  let allTracks: any[] = [];
   let total = 0;
+  const tracks: SavedTrack[] = [];
 
   do {
     const response = await spotifyApi.getMySavedTracks({ limit, offset });
-    allTracks = [...allTracks, ...response.body.items];
+    const { items, skipped } = response.body;
     total = response.body.total;
+
+    const newer = items.filter((item) => new Date(item.added_at) >= since);
+    tracks.push(...newer);
+    if (newer.length < items.length || items.length + skipped === 0) break;
+
     offset += limit;
   } while (offset < total);
 
-  // Cast to our SavedTrack type
-  return allTracks as SavedTrack[];
+  return tracks;
+}
+
+/**
+ * Name and description for a month's playlist, e.g. "June 2024 Time Machine"
+ */
+export function getMonthlyPlaylistDetails(month: Date): { name: string; description: string } {
+  const formattedDate = format(month, 'MMMM yyyy');
+  return {
+    name: `${formattedDate} Time Machine`,
+    description: `Songs I liked during ${formattedDate}. Created with Jermaine's Spotify Time Machine.`,
+  };
 }
 
 /**
  * Create a playlist with tracks on Spotify
  */
 export async function createPlaylist(
-  spotifyApi: any,
+  spotifyApi: SpotifyApi,
   playlistName: string,
   description: string,
   trackUris: string[]
 ): Promise<string> {
+  const { url } = await createPlaylistWithId(spotifyApi, playlistName, description, trackUris);
+  return url;
+}
+
+/**
+ * Create a playlist with tracks on Spotify, returning its id so it can be updated later
+ */
+export async function createPlaylistWithId(
+  spotifyApi: SpotifyApi,
+  playlistName: string,
+  description: string,
+  trackUris: string[]
+): Promise<{ id: string; url: string }> {
   // Create the playlist with correct parameters format
   const playlist = await spotifyApi.createPlaylist(playlistName, {
     description,
@@ -134,5 +233,75 @@ export async function createPlaylist(
     await spotifyApi.addTracksToPlaylist(playlist.body.id, batch);
   }
 
-  return playlist.body.external_urls.spotify;
+  return { id: playlist.body.id, url: playlist.body.external_urls.spotify };
+}
+
+// How to bring an existing playlist in line with a new selection:
+// replace overwrites it, append adds tracks it doesn't have yet, sync also removes tracks
+// that are no longer selected (e.g. unliked since the playlist was made)
+export type PlaylistUpdateMode = 'replace' | 'append' | 'sync';
+
+/**
+ * Fetch every track URI currently in a playlist
+ */
+export async function getAllPlaylistTrackUris(
+  spotifyApi: SpotifyApi,
+  playlistId: string
+): Promise<string[]> {
+  const limit = 100;
+  let offset = 0;
+  let total = 0;
+  const uris: string[] = [];
+
+  do {
+    const response = await spotifyApi.getPlaylistTrackUris(playlistId, { limit, offset });
+    response.body.items.forEach((item) => {
+      if (item.track?.uri) uris.push(item.track.uri);
+    });
+    total = response.body.total;
+    offset += limit;
+  } while (offset < total);
+
+  return uris;
+}
+
+/**
+ * Update an existing playlist with a new selection of tracks
+ */
+export async function updatePlaylistTracks(
+  spotifyApi: SpotifyApi,
+  playlistId: string,
+  trackUris: string[],
+  mode: PlaylistUpdateMode
+): Promise<{ added: number; removed: number }> {
+  if (mode === 'replace') {
+    const existing = await getAllPlaylistTrackUris(spotifyApi, playlistId);
+
+    // The replace endpoint takes at most 100 URIs, so the rest are appended
+    await spotifyApi.replacePlaylistItems(playlistId, trackUris.slice(0, 100));
+    for (let i = 100; i < trackUris.length; i += 100) {
+      await spotifyApi.addTracksToPlaylist(playlistId, trackUris.slice(i, i + 100));
+    }
+
+    const wanted = new Set(trackUris);
+    const kept = new Set(existing);
+    return {
+      added: trackUris.filter((uri) => !kept.has(uri)).length,
+      removed: existing.filter((uri) => !wanted.has(uri)).length,
+    };
+  }
+
+  const existing = new Set(await getAllPlaylistTrackUris(spotifyApi, playlistId));
+  const wanted = new Set(trackUris);
+  const toAdd = [...wanted].filter((uri) => !existing.has(uri));
+  const toRemove = mode === 'sync' ? [...existing].filter((uri) => !wanted.has(uri)) : [];
+
+  for (let i = 0; i < toRemove.length; i += 100) {
+    await spotifyApi.removePlaylistItems(playlistId, toRemove.slice(i, i + 100));
+  }
+  for (let i = 0; i < toAdd.length; i += 100) {
+    await spotifyApi.addTracksToPlaylist(playlistId, toAdd.slice(i, i + 100));
+  }
+
+  return { added: toAdd.length, removed: toRemove.length };
 }
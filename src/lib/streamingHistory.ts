@@ -0,0 +1,146 @@
+import { PlayEvent } from './playHistory';
+
+// Entry in StreamingHistory*.json from the "Account data" export
+interface StreamingHistoryEntry {
+  endTime: string; // "YYYY-MM-DD HH:mm" in UTC
+  artistName: string;
+  trackName: string;
+  msPlayed: number;
+}
+
+// Entry in endsong_*.json / Streaming_History_Audio_*.json from the "Extended streaming history" export
+interface ExtendedHistoryEntry {
+  ts: string; // ISO timestamp in UTC
+  ms_played: number;
+  master_metadata_track_name: string | null;
+  master_metadata_album_artist_name: string | null;
+  master_metadata_album_album_name: string | null;
+  spotify_track_uri: string | null;
+}
+
+export interface StreamingHistoryFile {
+  name: string;
+  text: string;
+}
+
+export interface StreamingHistoryParseResult {
+  events: PlayEvent[];
+  parsedFiles: string[];
+  skippedFiles: Array<{ name: string; reason: string }>;
+}
+
+// Messages exchanged with the parser worker
+export type StreamingHistoryWorkerRequest = { files: StreamingHistoryFile[] };
+export type StreamingHistoryWorkerResponse =
+  | { type: 'result'; result: StreamingHistoryParseResult }
+  | { type: 'error'; message: string };
+
+const isStreamingHistoryEntry = (entry: unknown): entry is StreamingHistoryEntry =>
+  typeof entry === 'object' &&
+  entry !== null &&
+  'endTime' in entry &&
+  'trackName' in entry &&
+  'msPlayed' in entry;
+
+const isExtendedHistoryEntry = (entry: unknown): entry is ExtendedHistoryEntry =>
+  typeof entry === 'object' && entry !== null && 'ts' in entry && 'ms_played' in entry;
+
+// Convert a basic export entry, e.g. { endTime: "2023-04-01 18:22", ... }
+const fromStreamingHistory = (entry: StreamingHistoryEntry): PlayEvent | null => {
+  if (!entry.trackName || !entry.artistName) return null;
+
+  const playedAt = new Date(`${entry.endTime.replace(' ', 'T')}:00Z`);
+  if (Number.isNaN(playedAt.getTime())) return null;
+
+  return {
+    played_at: playedAt.toISOString(),
+    ms_played: entry.msPlayed,
+    track_name: entry.trackName,
+    artist_name: entry.artistName,
+    album_name: null,
+    track_id: null,
+    source: 'streaming_history',
+  };
+};
+
+// Convert an extended export entry, skipping podcast episodes and audiobooks
+const fromExtendedHistory = (entry: ExtendedHistoryEntry): PlayEvent | null => {
+  if (!entry.master_metadata_track_name || !entry.master_metadata_album_artist_name) return null;
+
+  const playedAt = new Date(entry.ts);
+  if (Number.isNaN(playedAt.getTime())) return null;
+
+  const trackId = entry.spotify_track_uri?.startsWith('spotify:track:')
+    ? entry.spotify_track_uri.slice('spotify:track:'.length)
+    : null;
+
+  return {
+    played_at: playedAt.toISOString(),
+    ms_played: entry.ms_played,
+    track_name: entry.master_metadata_track_name,
+    artist_name: entry.master_metadata_album_artist_name,
+    album_name: entry.master_metadata_album_album_name,
+    track_id: trackId,
+    source: 'extended_history',
+  };
+};
+
+/**
+ * Parse one file from a Spotify privacy export into play events
+ * @throws Error when the file is not a supported streaming history file
+ */
+export function parseStreamingHistoryFile(file: StreamingHistoryFile): PlayEvent[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(file.text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  if (!Array.isArray(data)) {
+    throw new Error('Expected a list of streams');
+  }
+  if (data.length === 0) {
+    return [];
+  }
+
+  if (isExtendedHistoryEntry(data[0])) {
+    return data
+      .filter(isExtendedHistoryEntry)
+      .map(fromExtendedHistory)
+      .filter((event): event is PlayEvent => event !== null);
+  }
+
+  if (isStreamingHistoryEntry(data[0])) {
+    return data
+      .filter(isStreamingHistoryEntry)
+      .map(fromStreamingHistory)
+      .filter((event): event is PlayEvent => event !== null);
+  }
+
+  throw new Error('Not a Spotify streaming history file');
+}
+
+/**
+ * Parse a set of export files, collecting per-file failures instead of aborting
+ */
+export function parseStreamingHistoryFiles(
+  files: StreamingHistoryFile[]
+): StreamingHistoryParseResult {
+  const result: StreamingHistoryParseResult = { events: [], parsedFiles: [], skippedFiles: [] };
+
+  files.forEach((file) => {
+    try {
+      // concat rather than push(...) since extended history files hold tens of thousands of streams
+      result.events = result.events.concat(parseStreamingHistoryFile(file));
+      result.parsedFiles.push(file.name);
+    } catch (error) {
+      result.skippedFiles.push({
+        name: file.name,
+        reason: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  return result;
+}
@@ -47,3 +47,21 @@ export const mapToSpotifyTimeRange = (range: InternalTimeRange): SpotifyTimeRang
       return 'long_term';
   }
 };
+
+// Get the earliest date included in an internal time range
+export const getTimeRangeCutoffDate = (range: InternalTimeRange): Date => {
+  const now = new Date();
+  const cutoffDate = new Date();
+
+  switch (range) {
+    case 'PAST_YEAR':
+      cutoffDate.setFullYear(now.getFullYear() - 1);
+      break;
+    case 'PAST_TWO_YEARS':
+      cutoffDate.setFullYear(now.getFullYear() - 2);
+      break;
+    case 'ALL_TIME':
+      return new Date(0); // Beginning of time
+  }
+  return cutoffDate;
+};
@@ -0,0 +1,120 @@
+import {
+  addWeeks,
+  endOfDay,
+  endOfISOWeek,
+  endOfMonth,
+  endOfQuarter,
+  endOfYear,
+  format,
+  parseISO,
+  startOfISOWeek,
+} from 'date-fns';
+import { PlayEvent, isCountedPlay } from './playHistory';
+
+export type TrendGranularity = 'daily' | 'weekly' | 'monthly' | 'quarterly';
+
+// Which value a trend chart plots per period
+export type TrendSeries = 'likes' | 'plays' | 'minutes';
+
+export interface PeriodPlayTotals {
+  plays: number;
+  minutes: number;
+}
+
+/**
+ * Bucket a date into a lexically sortable period key:
+ * "2024-03-05" (daily), "2024-W10" (ISO week), "2024-03" (monthly) or "2024-Q1" (quarterly)
+ */
+export function getPeriodKey(date: Date, granularity: TrendGranularity): string {
+  switch (granularity) {
+    case 'daily':
+      return format(date, 'yyyy-MM-dd');
+    case 'weekly':
+      return format(date, "RRRR-'W'II");
+    case 'monthly':
+      return format(date, 'yyyy-MM');
+    case 'quarterly':
+      return `${date.getFullYear()}-Q${Math.floor(date.getMonth() / 3) + 1}`;
+  }
+}
+
+/**
+ * Format a period key from getPeriodKey, or a year key, for display
+ */
+export function formatPeriodLabel(periodStr: string): string {
+  if (periodStr.includes('-W')) {
+    const [year, week] = periodStr.split('-W');
+    return `W${parseInt(week)} ${year}`;
+  }
+  if (periodStr.includes('Q')) {
+    const [year, quarter] = periodStr.split('-Q');
+    return `Q${quarter} ${year}`;
+  }
+  if (periodStr.length === 10) {
+    return format(parseISO(periodStr), 'MMM d, yyyy');
+  }
+  if (periodStr.length === 4) {
+    return periodStr;
+  }
+  const [year, month] = periodStr.split('-');
+  return `${new Date(parseInt(year), parseInt(month) - 1).toLocaleString('default', { month: 'short' })} ${year}`;
+}
+
+/**
+ * The first and last moment covered by a period key from getPeriodKey, or a year key ("2024")
+ */
+export function getPeriodDateRange(periodStr: string): { start: Date; end: Date } {
+  if (periodStr.includes('-W')) {
+    const [year, week] = periodStr.split('-W');
+    // ISO week 1 is the week containing January 4th
+    const start = addWeeks(startOfISOWeek(new Date(parseInt(year), 0, 4)), parseInt(week) - 1);
+    return { start, end: endOfISOWeek(start) };
+  }
+  if (periodStr.includes('Q')) {
+    const [year, quarter] = periodStr.split('-Q');
+    const start = new Date(parseInt(year), (parseInt(quarter) - 1) * 3, 1);
+    return { start, end: endOfQuarter(start) };
+  }
+  if (periodStr.length === 10) {
+    const start = parseISO(periodStr);
+    return { start, end: endOfDay(start) };
+  }
+  if (periodStr.length === 4) {
+    const start = new Date(parseInt(periodStr), 0, 1);
+    return { start, end: endOfYear(start) };
+  }
+  const [year, month] = periodStr.split('-');
+  const start = new Date(parseInt(year), parseInt(month) - 1, 1);
+  return { start, end: endOfMonth(start) };
+}
+
+/**
+ * Sum counted plays and minutes listened per period, ignoring plays before the cutoff
+ */
+export function aggregatePlaysByPeriod(
+  plays: PlayEvent[],
+  granularity: TrendGranularity,
+  cutoffDate: Date = new Date(0)
+): Record<string, PeriodPlayTotals> {
+  const totals: Record<string, { plays: number; ms: number }> = {};
+
+  plays.forEach((event) => {
+    if (!isCountedPlay(event)) return;
+
+    const playedAt = new Date(event.played_at);
+    if (playedAt < cutoffDate) return;
+
+    const periodKey = getPeriodKey(playedAt, granularity);
+    const entry = totals[periodKey] ?? { plays: 0, ms: 0 };
+    entry.plays++;
+    entry.ms += event.ms_played;
+    totals[periodKey] = entry;
+  });
+
+  return Object.fromEntries(
+    Object.entries(totals).map(([period, entry]) => [
+      period,
+      { plays: entry.plays, minutes: Math.round(entry.ms / 60000) },
+    ])
+  );
+}
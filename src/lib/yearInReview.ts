@@ -0,0 +1,374 @@
+import { format } from 'date-fns';
+import { isAllowedCoverImageUrl } from './playlistCover';
+import { SavedTrack } from './spotifyModels';
+
+// The artist details a recap needs; matches ArtistDetail from useLikedArtists
+export interface RecapArtist {
+  id: string;
+  name: string;
+  genres: string[];
+  images: Array<{ url: string }>;
+}
+
+export interface RecapTrack {
+  name: string;
+  artists: string;
+  imageUrl: string | null;
+  addedAt: string;
+}
+
+export interface RecapNewArtist {
+  id: string;
+  name: string;
+  imageUrl: string | null;
+  trackCount: number;
+}
+
+export interface RecapGenreCount {
+  genre: string;
+  count: number;
+}
+
+export interface RecapGenreShift {
+  genre: string;
+  // Share of the quarter's likes, 0-1
+  from: number;
+  to: number;
+}
+
+export interface RecapQuarter {
+  // 1-4
+  quarter: number;
+  trackCount: number;
+  topGenres: RecapGenreCount[];
+  // Compared with the previous quarter; empty for Q1 and quarters without likes
+  rising: RecapGenreShift[];
+  falling: RecapGenreShift[];
+}
+
+export interface YearRecap {
+  year: number;
+  totalTracks: number;
+  // Likes per month, January first
+  monthlyCounts: number[];
+  // 0-11, or null when nothing was liked
+  busiestMonth: number | null;
+  // Artists liked for the very first time this year, most liked first
+  topNewArtists: RecapNewArtist[];
+  newArtistCount: number;
+  quarters: RecapQuarter[];
+  firstTrack: RecapTrack | null;
+  lastTrack: RecapTrack | null;
+}
+
+export const RECAP_SLIDE_IDS = [
+  'total',
+  'month',
+  'artists',
+  'genres',
+  'bookends',
+  'outro',
+] as const;
+
+export type RecapSlideId = (typeof RECAP_SLIDE_IDS)[number];
+
+// One story slide, rendered both on the page and as an image by /api/og/year-in-review
+export interface RecapSlide {
+  id: RecapSlideId;
+  eyebrow: string;
+  title: string;
+  subtitle?: string;
+  items?: string[];
+  imageUrls?: string[];
+  // Monthly bar chart, with the highlighted bar's index
+  bars?: number[];
+  highlight?: number;
+}
+
+// Story-sized images, the shape Instagram and friends expect
+export const RECAP_IMAGE_WIDTH = 1080;
+export const RECAP_IMAGE_HEIGHT = 1920;
+
+const TOP_NEW_ARTISTS = 5;
+const MAX_SLIDE_ITEMS = 5;
+const MAX_SLIDE_IMAGES = 5;
+const TOP_QUARTER_GENRES = 5;
+const GENRE_SHIFTS = 3;
+
+// Ignore share changes smaller than this so a handful of likes doesn't read as a shift
+const MIN_GENRE_SHIFT = 0.02;
+
+const toRecapTrack = ({ added_at, track }: SavedTrack): RecapTrack => ({
+  name: track.name,
+  artists: track.artists.map((artist) => artist.name).join(', '),
+  imageUrl: (track.album.images[1] ?? track.album.images[0])?.url ?? null,
+  addedAt: added_at,
+});
+
+// How often each genre appears across a set of tracks, counting each track once per genre
+const countGenres = (
+  tracks: SavedTrack[],
+  artistsById: Map<string, RecapArtist>
+): Map<string, number> => {
+  const counts = new Map<string, number>();
+  tracks.forEach(({ track }) => {
+    const genres = new Set(
+      track.artists.flatMap((artist) => artistsById.get(artist.id)?.genres ?? [])
+    );
+    genres.forEach((genre) => counts.set(genre, (counts.get(genre) ?? 0) + 1));
+  });
+  return counts;
+};
+
+const getGenreShifts = (
+  previous: { counts: Map<string, number>; total: number },
+  current: { counts: Map<string, number>; total: number }
+): { rising: RecapGenreShift[]; falling: RecapGenreShift[] } => {
+  if (previous.total === 0 || current.total === 0) return { rising: [], falling: [] };
+
+  const genres = new Set([...previous.counts.keys(), ...current.counts.keys()]);
+  const shifts = Array.from(genres, (genre) => ({
+    genre,
+    from: (previous.counts.get(genre) ?? 0) / previous.total,
+    to: (current.counts.get(genre) ?? 0) / current.total,
+  })).filter((shift) => Math.abs(shift.to - shift.from) >= MIN_GENRE_SHIFT);
+
+  return {
+    rising: shifts
+      .filter((shift) => shift.to > shift.from)
+      .toSorted((a, b) => b.to - b.from - (a.to - a.from))
+      .slice(0, GENRE_SHIFTS),
+    falling: shifts
+      .filter((shift) => shift.to < shift.from)
+      .toSorted((a, b) => a.to - a.from - (b.to - b.from))
+      .slice(0, GENRE_SHIFTS),
+  };
+};
+
+/**
+ * Years with at least one liked track, newest first
+ */
+export function getRecapYears(tracks: SavedTrack[]): number[] {
+  const years = new Set(tracks.map((track) => new Date(track.added_at).getFullYear()));
+  return Array.from(years).toSorted((a, b) => b - a);
+}
+
+/**
+ * Build a year's recap from liked-track history. Pass the full history (not just the year)
+ * so artists can be recognised as new; genre data comes from whatever artist details have
+ * been looked up so far.
+ */
+export function buildYearRecap(
+  tracks: SavedTrack[],
+  artistsById: Map<string, RecapArtist>,
+  year: number
+): YearRecap {
+  const firstLikedYear = new Map<string, number>();
+  const yearTracks: SavedTrack[] = [];
+
+  tracks.forEach((track) => {
+    const likedYear = new Date(track.added_at).getFullYear();
+    track.track.artists.forEach(({ id }) => {
+      const seen = firstLikedYear.get(id);
+      if (seen === undefined || likedYear < seen) firstLikedYear.set(id, likedYear);
+    });
+    if (likedYear === year) yearTracks.push(track);
+  });
+
+  const chronological = yearTracks.toSorted(
+    (a, b) => new Date(a.added_at).getTime() - new Date(b.added_at).getTime()
+  );
+
+  const monthlyCounts = Array.from({ length: 12 }, () => 0);
+  chronological.forEach((track) => monthlyCounts[new Date(track.added_at).getMonth()]++);
+  const busiestCount = Math.max(...monthlyCounts);
+
+  // Artists whose first ever like falls in this year
+  const newArtists = new Map<string, RecapNewArtist>();
+  chronological.forEach(({ track }) => {
+    track.artists.forEach(({ id, name }) => {
+      if (firstLikedYear.get(id) !== year) return;
+      const artist = newArtists.get(id) ?? {
+        id,
+        name,
+        imageUrl: artistsById.get(id)?.images[0]?.url ?? null,
+        trackCount: 0,
+      };
+      artist.trackCount++;
+      newArtists.set(id, artist);
+    });
+  });
+
+  let previous = { counts: new Map<string, number>(), total: 0 };
+  const quarters = [1, 2, 3, 4].map((quarter) => {
+    const quarterTracks = chronological.filter(
+      (track) => Math.floor(new Date(track.added_at).getMonth() / 3) + 1 === quarter
+    );
+    const current = {
+      counts: countGenres(quarterTracks, artistsById),
+      total: quarterTracks.length,
+    };
+    const shifts = getGenreShifts(previous, current);
+    previous = current;
+
+    return {
+      quarter,
+      trackCount: quarterTracks.length,
+      topGenres: Array.from(current.counts, ([genre, count]) => ({ genre, count }))
+        .toSorted((a, b) => b.count - a.count)
+        .slice(0, TOP_QUARTER_GENRES),
+      ...shifts,
+    };
+  });
+
+  return {
+    year,
+    totalTracks: chronological.length,
+    monthlyCounts,
+    busiestMonth: busiestCount > 0 ? monthlyCounts.indexOf(busiestCount) : null,
+    topNewArtists: Array.from(newArtists.values())
+      .toSorted((a, b) => b.trackCount - a.trackCount)
+      .slice(0, TOP_NEW_ARTISTS),
+    newArtistCount: newArtists.size,
+    quarters,
+    firstTrack: chronological.length > 0 ? toRecapTrack(chronological[0]) : null,
+    lastTrack: chronological.length > 0 ? toRecapTrack(chronological.at(-1)!) : null,
+  };
+}
+
+const formatShare = (share: number): string => `${Math.round(share * 100)}%`;
+
+/**
+ * Turn a recap into story slides. Slides without data (e.g. genre shifts before any artist
+ * details have loaded) are left out.
+ */
+export function getRecapSlides(recap: YearRecap): RecapSlide[] {
+  const slides: RecapSlide[] = [
+    {
+      id: 'total',
+      eyebrow: `${recap.year} in review`,
+      title: recap.totalTracks.toLocaleString('en-US'),
+      subtitle: recap.totalTracks === 1 ? 'track liked' : 'tracks liked',
+    },
+  ];
+
+  if (recap.busiestMonth !== null) {
+    const count = recap.monthlyCounts[recap.busiestMonth];
+    slides.push({
+      id: 'month',
+      eyebrow: 'Busiest month',
+      title: format(new Date(recap.year, recap.busiestMonth, 1), 'MMMM'),
+      subtitle: `${count} ${count === 1 ? 'track' : 'tracks'} liked`,
+      bars: recap.monthlyCounts,
+      highlight: recap.busiestMonth,
+    });
+  }
+
+  if (recap.topNewArtists.length > 0) {
+    slides.push({
+      id: 'artists',
+      eyebrow: 'New to you',
+      title: `${recap.newArtistCount} new ${recap.newArtistCount === 1 ? 'artist' : 'artists'}`,
+      items: recap.topNewArtists.map(
+        (artist) =>
+          `${artist.name} · ${artist.trackCount} ${artist.trackCount === 1 ? 'like' : 'likes'}`
+      ),
+      imageUrls: recap.topNewArtists
+        .map((artist) => artist.imageUrl)
+        .filter((url): url is string => url !== null),
+    });
+  }
+
+  const shifts = recap.quarters.flatMap((quarter) =>
+    quarter.rising.map((shift) => ({ ...shift, quarter: quarter.quarter }))
+  );
+  if (shifts.length > 0) {
+    const biggest = shifts.reduce((a, b) => (b.to - b.from > a.to - a.from ? b : a));
+    slides.push({
+      id: 'genres',
+      eyebrow: 'Genre shifts',
+      title: biggest.genre,
+      subtitle: `rose from ${formatShare(biggest.from)} to ${formatShare(biggest.to)} of your likes in Q${biggest.quarter}`,
+      items: recap.quarters
+        .filter((quarter) => quarter.rising.length > 0 || quarter.falling.length > 0)
+        .map((quarter) =>
+          [
+            `Q${quarter.quarter}`,
+            quarter.rising[0] && `↑ ${quarter.rising[0].genre}`,
+            quarter.falling[0] && `↓ ${quarter.falling[0].genre}`,
+          ]
+            .filter(Boolean)
+            .join('  ')
+        ),
+    });
+  }
+
+  if (recap.firstTrack && recap.lastTrack) {
+    const describe = (label: string, track: RecapTrack) =>
+      `${label} (${format(new Date(track.addedAt), 'MMM d')}): ${track.name} by ${track.artists}`;
+    slides.push({
+      id: 'bookends',
+      eyebrow: 'First and last',
+      title: recap.firstTrack.name,
+      subtitle: `opened your ${recap.year}`,
+      items: [describe('First', recap.firstTrack), describe('Last', recap.lastTrack)],
+      imageUrls: [recap.firstTrack.imageUrl, recap.lastTrack.imageUrl].filter(
+        (url): url is string => url !== null
+      ),
+    });
+  }
+
+  slides.push({
+    id: 'outro',
+    eyebrow: 'Spotify Time Machine',
+    title: `That was ${recap.year}`,
+    subtitle: 'Relive every month of it in your history',
+  });
+
+  return slides;
+}
+
+/**
+ * URL of a slide rendered as an image by /api/og/year-in-review
+ */
+export function getRecapSlideImageUrl(slide: RecapSlide): string {
+  const params = new URLSearchParams({
+    slide: slide.id,
+    eyebrow: slide.eyebrow,
+    title: slide.title,
+  });
+  if (slide.subtitle) params.set('subtitle', slide.subtitle);
+  slide.items?.forEach((item) => params.append('item', item));
+  slide.imageUrls?.forEach((url) => params.append('image', url));
+  slide.bars?.forEach((bar) => params.append('bar', bar.toString()));
+  if (slide.highlight !== undefined) params.set('highlight', slide.highlight.toString());
+  return `/api/og/year-in-review?${params}`;
+}
+
+/**
+ * Read a slide back from the query parameters written by getRecapSlideImageUrl, trimming
+ * anything too long to lay out and dropping images that aren't Spotify artwork
+ */
+export function parseRecapSlideParams(params: URLSearchParams): RecapSlide {
+  const id = params.get('slide');
+  const bars = params
+    .getAll('bar')
+    .slice(0, 12)
+    .map((bar) => Math.max(0, Number(bar) || 0));
+  const highlight = Number(params.get('highlight'));
+
+  return {
+    id: RECAP_SLIDE_IDS.find((slideId) => slideId === id) ?? 'total',
+    eyebrow: (params.get('eyebrow') ?? '').slice(0, 60),
+    title: (params.get('title') ?? '').slice(0, 60),
+    subtitle: params.get('subtitle')?.slice(0, 120) || undefined,
+    items: params
+      .getAll('item')
+      .slice(0, MAX_SLIDE_ITEMS)
+      .map((item) => item.slice(0, 120)),
+    // Only Spotify artwork is allowed so image routes can't be used to proxy arbitrary URLs
+    imageUrls: params.getAll('image').filter(isAllowedCoverImageUrl).slice(0, MAX_SLIDE_IMAGES),
+    bars: bars.length > 0 ? bars : undefined,
+    highlight: params.has('highlight') && Number.isInteger(highlight) ? highlight : undefined,
+  };
+}
@@ -33,7 +33,7 @@ export function proxy(request: NextRequest) {
     frame-ancestors 'none';
     worker-src 'self' blob:;
     manifest-src 'self';
-    media-src 'self' https://i.scdn.co;
+    media-src 'self' https://i.scdn.co https://p.scdn.co;
     upgrade-insecure-requests;
   `;
 
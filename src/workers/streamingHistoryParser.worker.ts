@@ -0,0 +1,20 @@
+import {
+  StreamingHistoryWorkerRequest,
+  StreamingHistoryWorkerResponse,
+  parseStreamingHistoryFiles,
+} from '@/lib/streamingHistory';
+
+// Parses privacy export files off the main thread, extended histories can be hundreds of MB
+self.addEventListener('message', (event: MessageEvent<StreamingHistoryWorkerRequest>) => {
+  let response: StreamingHistoryWorkerResponse;
+  try {
+    response = { type: 'result', result: parseStreamingHistoryFiles(event.data.files) };
+  } catch (error) {
+    response = {
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Failed to parse streaming history',
+    };
+  }
+  // oxlint-disable-next-line require-post-message-target-origin
+  self.postMessage(response);
+});